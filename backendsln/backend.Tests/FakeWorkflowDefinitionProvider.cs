@@ -0,0 +1,104 @@
+using System.Security.Cryptography;
+using System.Text.Json;
+using backend.Models;
+using backend.Services;
+
+namespace backend.Tests;
+
+/// <summary>
+/// Definitions and step files held in memory. Publishing copies the live ones under the definition's version,
+/// as FileSystemWorkflowDefinitionProvider does with the files.
+/// </summary>
+public class FakeWorkflowDefinitionProvider : IWorkflowDefinitionProvider
+{
+    private readonly Dictionary<string, WorkflowDefinition> _definitions = new();
+    private readonly Dictionary<string, WorkflowStep> _steps = new();
+    private readonly Dictionary<(string CertificationId, string Version), PublishedVersion> _versions = new();
+
+    private record PublishedVersion(
+        WorkflowDefinition Definition,
+        Dictionary<string, WorkflowStep> Steps,
+        WorkflowDefinitionVersion Snapshot);
+
+    public void AddDefinition(WorkflowDefinition definition) => _definitions[definition.CertificationId] = definition;
+
+    public void AddStep(string stepRef, WorkflowStep step) => _steps[stepRef] = step;
+
+    public Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId) =>
+        Task.FromResult(_definitions.GetValueOrDefault(certificationId));
+
+    public Task<WorkflowStep?> GetStepDefinitionAsync(string stepRef) =>
+        Task.FromResult(_steps.GetValueOrDefault(stepRef));
+
+    public Task<List<WorkflowDefinition>> GetAllDefinitionsAsync() =>
+        Task.FromResult(_definitions.Values.ToList());
+
+    public Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId, string? version) =>
+        version == null
+            ? GetDefinitionAsync(certificationId)
+            : Task.FromResult(_versions.GetValueOrDefault((certificationId, version))?.Definition);
+
+    public Task<WorkflowStep?> GetStepDefinitionAsync(string stepRef, string certificationId, string? version) =>
+        version == null
+            ? GetStepDefinitionAsync(stepRef)
+            : Task.FromResult(_versions.GetValueOrDefault((certificationId, version))?.Steps.GetValueOrDefault(stepRef));
+
+    public Task<WorkflowDefinitionVersion?> GetLiveVersionAsync(string certificationId)
+    {
+        var definition = _definitions.GetValueOrDefault(certificationId);
+        return Task.FromResult(definition == null ? null : Snapshot(definition));
+    }
+
+    public Task<WorkflowDefinitionVersion?> GetVersionAsync(string certificationId, string version) =>
+        Task.FromResult(_versions.GetValueOrDefault((certificationId, version))?.Snapshot);
+
+    public Task<List<WorkflowDefinitionVersion>> GetVersionsAsync(string certificationId) =>
+        Task.FromResult(_versions
+            .Where(v => v.Key.CertificationId == certificationId)
+            .Select(v => v.Value.Snapshot)
+            .OrderBy(v => v.PublishedAt)
+            .ToList());
+
+    public Task<WorkflowDefinitionVersion?> PublishVersionAsync(string certificationId)
+    {
+        var definition = _definitions.GetValueOrDefault(certificationId);
+        if (definition == null)
+        {
+            return Task.FromResult<WorkflowDefinitionVersion?>(null);
+        }
+
+        if (_versions.TryGetValue((certificationId, definition.Version), out var published))
+        {
+            return Task.FromResult<WorkflowDefinitionVersion?>(published.Snapshot);
+        }
+
+        var snapshot = Snapshot(definition);
+        snapshot.PublishedAt = DateTime.UtcNow;
+        var steps = definition.Steps
+            .Where(s => _steps.ContainsKey(s.StepRef))
+            .ToDictionary(s => s.StepRef, s => Copy(_steps[s.StepRef]));
+        _versions[(certificationId, definition.Version)] = new PublishedVersion(Copy(definition), steps, snapshot);
+
+        return Task.FromResult<WorkflowDefinitionVersion?>(snapshot);
+    }
+
+    private WorkflowDefinitionVersion Snapshot(WorkflowDefinition definition)
+    {
+        var stepVersions = definition.Steps
+            .Where(s => _steps.ContainsKey(s.StepRef))
+            .ToDictionary(s => s.StepRef, s => Hash(_steps[s.StepRef]));
+
+        return new WorkflowDefinitionVersion
+        {
+            DefinitionId = definition.CertificationId,
+            Version = definition.Version,
+            ContentHash = Hash(new { definition, stepVersions }),
+            StepVersions = stepVersions
+        };
+    }
+
+    private static T Copy<T>(T value) => JsonSerializer.Deserialize<T>(JsonSerializer.Serialize(value))!;
+
+    private static string Hash(object value) =>
+        Convert.ToHexString(SHA256.HashData(JsonSerializer.SerializeToUtf8Bytes(value)));
+}
@@ -0,0 +1,27 @@
+using backend.Models;
+using backend.Services;
+
+namespace backend.Tests;
+
+/// <summary>
+/// Keeps the events the engine publishes instead of routing them to channels
+/// </summary>
+public class RecordingNotificationService : INotificationService
+{
+    public List<NotificationEvent> Published { get; } = new();
+
+    public Task PublishAsync(NotificationEvent notificationEvent, WorkflowDefinition definition)
+    {
+        Published.Add(notificationEvent);
+        return Task.CompletedTask;
+    }
+
+    public bool HasPublished(string eventType, Guid instanceId, string stepId) =>
+        Published.Any(e => e.EventType == eventType && e.Instance.Id == instanceId && e.StepId == stepId);
+
+    public IReadOnlyList<Notification> GetForUser(string email) => Array.Empty<Notification>();
+
+    public bool MarkRead(Guid notificationId, string email) => false;
+
+    public int MarkAllRead(string email) => 0;
+}
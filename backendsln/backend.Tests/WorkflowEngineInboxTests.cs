@@ -0,0 +1,46 @@
+using backend.Models;
+
+namespace backend.Tests;
+
+public class WorkflowEngineInboxTests : WorkflowEngineTestBase
+{
+    private readonly AuthUser _applicant = User("applicant");
+    private readonly AuthUser _otherApplicant = new() { Email = "other@example.com", DisplayName = "other", Role = "applicant" };
+
+    public WorkflowEngineInboxTests()
+    {
+        AddStep("TEST_step1_apply", "applicant", "TEST_step2_review", "companyName");
+        AddStep("TEST_step2_review", "inspector", "completed", "findings");
+    }
+
+    private Task<WorkflowInstance> StartAsync(AuthUser creator) =>
+        Engine.CreateWorkflowInstanceAsync(new WorkflowInstanceCreateRequest
+        {
+            CertificationId = DefinitionId,
+            CreatedBy = creator.Email
+        });
+
+    [Fact]
+    public async Task Inbox_OnlyListsTheApplicantsOwnInstances()
+    {
+        var own = await StartAsync(_applicant);
+        await StartAsync(_otherApplicant);
+
+        var inbox = await Engine.GetInboxAsync(_applicant, "in_progress");
+
+        Assert.Equal(own.Id, Assert.Single(inbox).Id);
+    }
+
+    [Fact]
+    public async Task Inbox_ListsEveryInstanceWaitingOnAReviewerRole()
+    {
+        foreach (var creator in new[] { _applicant, _otherApplicant })
+        {
+            var instance = await StartAsync(creator);
+            await SubmitAsync(instance, "TEST_step1_apply", creator);
+        }
+
+        Assert.Equal(2, (await Engine.GetInboxAsync(User("inspector"), "in_progress")).Count);
+        Assert.Empty(await Engine.GetInboxAsync(_applicant, "in_progress"));
+    }
+}
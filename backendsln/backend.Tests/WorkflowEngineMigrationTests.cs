@@ -0,0 +1,153 @@
+using backend.Models;
+
+namespace backend.Tests;
+
+public class WorkflowEngineMigrationTests : WorkflowEngineTestBase
+{
+    private const string Apply = "TEST_step1_apply";
+    private const string Review = "TEST_step2_review";
+
+    public WorkflowEngineMigrationTests()
+    {
+        AddStep(Apply, "applicant", Review, "companyName");
+        AddStep(Review, "inspector", "completed", "findings");
+    }
+
+    private async Task<WorkflowInstance> StartAtReviewAsync()
+    {
+        var instance = await StartAsync();
+        return await SubmitAsync(instance, Apply, User("applicant"),
+            formData: new Dictionary<string, object> { ["companyName"] = "Acme" });
+    }
+
+    /// <summary>
+    /// Version 2.0 renames companyName to legalName and adds a score to the review
+    /// </summary>
+    private void EditLiveFilesForVersion2()
+    {
+        Definition.Version = "2.0";
+        Definitions.AddStep(StepRef(Apply), CreateStep(Apply, "applicant", "legalName"));
+        Definitions.AddStep(StepRef(Review), CreateStep(Review, "inspector", "findings", "score"));
+    }
+
+    private static WorkflowMigrationRequest RenameCompanyName(bool dryRun) => new()
+    {
+        FromVersion = "1.0",
+        ToVersion = "2.0",
+        FieldMapping = new Dictionary<string, string> { ["companyName"] = "legalName" },
+        DryRun = dryRun,
+        RequestedBy = "admin@example.com"
+    };
+
+    [Fact]
+    public async Task DryRun_ReportsTheChangesWithoutMigrating()
+    {
+        var instance = await StartAtReviewAsync();
+        var historyCount = instance.StepHistory.Count;
+        EditLiveFilesForVersion2();
+
+        var result = await Engine.MigrateInstancesAsync(DefinitionId, RenameCompanyName(dryRun: true));
+
+        Assert.True(result.DryRun);
+        Assert.Equal(2, result.ChangedSteps.Count);
+        Assert.Equal("changed", result.ChangedSteps[StepRef(Apply)]);
+        var diff = Assert.Single(result.Instances);
+        Assert.True(diff.CanMigrate);
+        Assert.False(diff.Migrated);
+        Assert.Equal(Review, diff.ToStep);
+        Assert.Equal("legalName", Assert.Single(diff.RenamedFields, r => r.Key == "companyName").Value);
+        Assert.Equal(new[] { "score" }, diff.AddedFields);
+
+        var stored = await Repository.GetWorkflowInstanceAsync(instance.Id);
+        Assert.NotNull(stored);
+        Assert.Equal("1.0", stored.DefinitionVersion);
+        Assert.Equal("Acme", stored.CurrentData["companyName"]);
+        Assert.Equal(historyCount, stored.StepHistory.Count);
+    }
+
+    [Fact]
+    public async Task DryRun_IsTheDefault()
+    {
+        await StartAtReviewAsync();
+        EditLiveFilesForVersion2();
+
+        var result = await Engine.MigrateInstancesAsync(DefinitionId, new WorkflowMigrationRequest { FromVersion = "1.0", ToVersion = "2.0" });
+
+        Assert.True(result.DryRun);
+        Assert.False(Assert.Single(result.Instances).Migrated);
+    }
+
+    [Fact]
+    public async Task Migration_RenamesTheDataAndPinsTheNewVersion()
+    {
+        var instance = await StartAtReviewAsync();
+        EditLiveFilesForVersion2();
+
+        var result = await Engine.MigrateInstancesAsync(DefinitionId, RenameCompanyName(dryRun: false));
+
+        Assert.True(Assert.Single(result.Instances).Migrated);
+        Assert.Equal("2.0", instance.DefinitionVersion);
+        Assert.Equal("Acme", instance.CurrentData["legalName"]);
+        Assert.False(instance.CurrentData.ContainsKey("companyName"));
+        Assert.Equal("migrated", instance.StepHistory.Last().Decision);
+        Assert.Equal("admin@example.com", instance.StepHistory.Last().CompletedBy);
+
+        instance = await SubmitAsync(instance, Review, User("inspector"),
+            formData: new Dictionary<string, object> { ["score"] = 80 });
+        Assert.Equal("completed", instance.Status);
+    }
+
+    [Fact]
+    public async Task DryRun_ReportsStepsMissingFromTheNewVersion()
+    {
+        var instance = await StartAtReviewAsync();
+        Definition.Version = "2.0";
+        Definition.Steps[1] = new StepReference
+        {
+            StepRef = StepRef("TEST_step2_inspection"),
+            Overrides = new StepOverrides { NextStep = "completed" }
+        };
+        Definitions.AddStep(StepRef("TEST_step2_inspection"), CreateStep("TEST_step2_inspection", "inspector", "findings"));
+        var request = new WorkflowMigrationRequest { FromVersion = "1.0", ToVersion = "2.0", DryRun = false };
+
+        var result = await Engine.MigrateInstancesAsync(DefinitionId, request);
+
+        var diff = Assert.Single(result.Instances);
+        Assert.False(diff.CanMigrate);
+        Assert.False(diff.Migrated);
+        Assert.Equal($"Step {Review} is not in version 2.0; map it to one of its steps", Assert.Single(diff.Errors));
+        Assert.Equal("1.0", instance.DefinitionVersion);
+        Assert.Equal("removed", result.ChangedSteps[StepRef(Review)]);
+
+        request.DryRun = true;
+        request.StepMapping[Review] = "TEST_step2_inspection";
+        diff = Assert.Single((await Engine.MigrateInstancesAsync(DefinitionId, request)).Instances);
+
+        Assert.True(diff.CanMigrate);
+        Assert.Equal("TEST_step2_inspection", diff.ToStep);
+    }
+
+    [Fact]
+    public async Task DryRun_ReportsFieldsMappedOutsideTheNewVersion()
+    {
+        await StartAtReviewAsync();
+        EditLiveFilesForVersion2();
+        var request = RenameCompanyName(dryRun: true);
+        request.FieldMapping["companyName"] = "tradeName";
+
+        var diff = Assert.Single((await Engine.MigrateInstancesAsync(DefinitionId, request)).Instances);
+
+        Assert.Equal("Field companyName is mapped to tradeName, which is not on any step of version 2.0", Assert.Single(diff.Errors));
+    }
+
+    [Fact]
+    public async Task Migration_IsRefusedToTheSameVersion()
+    {
+        await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            Engine.MigrateInstancesAsync(DefinitionId, new WorkflowMigrationRequest { FromVersion = "1.0", ToVersion = "1.0" }));
+
+        Assert.Equal("Instances are already on version 1.0", error.Message);
+    }
+}
@@ -0,0 +1,131 @@
+using backend.Models;
+
+namespace backend.Tests;
+
+public class WorkflowEngineParallelTests : WorkflowEngineTestBase
+{
+    private const string Checks = "TEST_step2_checks";
+    private const string Safety = "TEST_step3_safety";
+    private const string Quality = "TEST_step4_quality";
+    private const string Legal = "TEST_step5_legal";
+
+    private readonly StepReference _checks;
+
+    public WorkflowEngineParallelTests()
+    {
+        Definition.WorkflowConfig.AllowParallelExecution = true;
+
+        AddStep("TEST_step1_apply", "applicant", Checks, "companyName");
+        _checks = new StepReference
+        {
+            StepId = Checks,
+            Type = "parallel",
+            Branches = new List<string> { Safety, Quality, Legal },
+            Overrides = new StepOverrides { NextStep = "TEST_step6_approval" }
+        };
+        Definition.Steps.Add(_checks);
+        AddStep(Safety, "inspector", Checks, "safetyScore");
+        AddStep(Quality, "quality_reviewer", Checks, "qualityNotes");
+        AddStep(Legal, "legal", Checks, "legalNotes");
+        AddStep("TEST_step6_approval", "manager", "completed", "finalDecision");
+    }
+
+    private async Task<WorkflowInstance> StartAtChecksAsync()
+    {
+        var instance = await StartAsync();
+        return await SubmitAsync(instance, "TEST_step1_apply", User("applicant"),
+            formData: new Dictionary<string, object> { ["companyName"] = "Acme" });
+    }
+
+    private static string? BranchStatus(WorkflowInstance instance, string branch) =>
+        instance.ActiveSteps.FirstOrDefault(s => s.Branch == branch)?.Status;
+
+    [Fact]
+    public async Task Parallel_OpensEveryBranchAtOnce()
+    {
+        var instance = await StartAtChecksAsync();
+
+        Assert.Equal(Checks, instance.CurrentStep);
+        Assert.Null(instance.AssignedActor);
+        Assert.Equal(new[] { "inspector", "quality_reviewer", "legal" }, instance.ActiveSteps.Select(s => s.AssignedActor));
+        Assert.All(instance.ActiveSteps, s => Assert.Equal("in_progress", s.Status));
+        Assert.True(instance.IsAssignedTo("legal"));
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData(0)]
+    [InlineData(5)]
+    public async Task Parallel_WaitsForEveryBranchWithoutASmallerQuorum(int? quorum)
+    {
+        _checks.Quorum = quorum;
+        var instance = await StartAtChecksAsync();
+
+        await SubmitAsync(instance, Safety, User("inspector"));
+        await SubmitAsync(instance, Quality, User("quality_reviewer"));
+
+        Assert.Equal(Checks, instance.CurrentStep);
+        Assert.Equal("completed", BranchStatus(instance, Safety));
+        Assert.Equal("in_progress", BranchStatus(instance, Legal));
+
+        await SubmitAsync(instance, Legal, User("legal"));
+
+        Assert.Equal("TEST_step6_approval", instance.CurrentStep);
+        Assert.Equal("manager", instance.AssignedActor);
+        Assert.Empty(instance.ActiveSteps);
+        Assert.Equal("parallel_joined", instance.StepHistory.Last().Decision);
+        Assert.Equal("All 3 branches completed", instance.StepHistory.Last().Comments);
+    }
+
+    [Fact]
+    public async Task Parallel_JoinsAtTheQuorumAndCancelsTheOpenBranches()
+    {
+        _checks.Quorum = 2;
+        var instance = await StartAtChecksAsync();
+
+        await SubmitAsync(instance, Safety, User("inspector"));
+        await SubmitAsync(instance, Quality, User("quality_reviewer"));
+
+        Assert.Equal("TEST_step6_approval", instance.CurrentStep);
+        Assert.Empty(instance.ActiveSteps);
+        Assert.Equal(Checks, instance.StepHistory.Last().StepId);
+        Assert.Equal($"2 of 3 branches completed; cancelled {Legal}", instance.StepHistory.Last().Comments);
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, Legal, User("legal")));
+        Assert.Equal("Validation failed: Invalid step. The workflow waits on manager at TEST_step6_approval", error.Message);
+    }
+
+    [Fact]
+    public async Task Parallel_RunsBranchesInTurnWithoutParallelExecution()
+    {
+        Definition.WorkflowConfig.AllowParallelExecution = false;
+        _checks.Quorum = 2;
+        var instance = await StartAtChecksAsync();
+
+        Assert.Equal("in_progress", BranchStatus(instance, Safety));
+        Assert.Equal("pending", BranchStatus(instance, Quality));
+        Assert.False(instance.IsOpenStep(Quality));
+
+        await SubmitAsync(instance, Safety, User("inspector"));
+
+        Assert.Equal("in_progress", BranchStatus(instance, Quality));
+        Assert.Equal("pending", BranchStatus(instance, Legal));
+
+        await SubmitAsync(instance, Quality, User("quality_reviewer"));
+
+        Assert.Equal("TEST_step6_approval", instance.CurrentStep);
+    }
+
+    [Fact]
+    public async Task Parallel_BranchStepsAreOnlyOpenToTheirActor()
+    {
+        var instance = await StartAtChecksAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, Safety, User("legal")));
+
+        Assert.Equal($"Role legal cannot act on step {Safety}", error.Message);
+        Assert.Equal("in_progress", BranchStatus(instance, Safety));
+    }
+}
@@ -0,0 +1,113 @@
+using backend.Models;
+
+namespace backend.Tests;
+
+public class WorkflowEngineRejectTests : WorkflowEngineTestBase
+{
+    private readonly AuthUser _applicant = User("applicant");
+    private readonly AuthUser _inspector = User("inspector");
+    private readonly WorkflowStep _review;
+
+    public WorkflowEngineRejectTests()
+    {
+        AddStep("TEST_step1_apply", "applicant", "TEST_step2_review", "companyName");
+        _review = AddStep("TEST_step2_review", "inspector", "completed", "findings");
+    }
+
+    private async Task<WorkflowInstance> StartAtReviewAsync()
+    {
+        var instance = await StartAsync();
+        return await SubmitAsync(instance, "TEST_step1_apply", _applicant,
+            formData: new Dictionary<string, object> { ["companyName"] = "Acme" });
+    }
+
+    [Fact]
+    public async Task Reject_EndsTheWorkflowWhenTheStepGrantsIt()
+    {
+        _review.Permissions = new Dictionary<string, StepPermission> { ["inspector"] = new() { CanReject = true } };
+        var instance = await StartAtReviewAsync();
+
+        instance = await SubmitAsync(instance, "TEST_step2_review", _inspector, "reject", "Not a lithium battery");
+
+        Assert.Equal("rejected", instance.Status);
+        Assert.NotNull(instance.CompletedAt);
+        Assert.Null(instance.Certificate);
+        Assert.Equal("reject", instance.StepHistory.Last().Decision);
+        Assert.Equal(_inspector.Email, instance.StepHistory.Last().CompletedBy);
+        Assert.Contains(Notifications.Published, e => e.EventType == "rejected" && e.StepId == "TEST_step2_review");
+    }
+
+    [Fact]
+    public async Task Reject_CanBeGrantedByTheDefinition()
+    {
+        Definition.Permissions["inspector"] = new PermissionSet { CanReject = true };
+        var instance = await StartAtReviewAsync();
+
+        instance = await SubmitAsync(instance, "TEST_step2_review", _inspector, "reject", "Not a lithium battery");
+
+        Assert.Equal("rejected", instance.Status);
+    }
+
+    [Fact]
+    public async Task Reject_IsRefusedUnlessGranted()
+    {
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "reject", "Not a lithium battery"));
+
+        Assert.Equal("Role inspector is not allowed to reject at step TEST_step2_review", error.Message);
+        Assert.Equal("in_progress", instance.Status);
+    }
+
+    [Fact]
+    public async Task Reject_IsRefusedWhenTheStepDeniesWhatTheDefinitionGrants()
+    {
+        Definition.Permissions["inspector"] = new PermissionSet { CanReject = true };
+        _review.Permissions = new Dictionary<string, StepPermission> { ["inspector"] = new() { CanReject = false } };
+        var instance = await StartAtReviewAsync();
+
+        await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "reject", "Not a lithium battery"));
+
+        Assert.Equal("in_progress", instance.Status);
+    }
+
+    [Fact]
+    public async Task Reject_IsRefusedForRolesThatCannotActOnTheStep()
+    {
+        Definition.Permissions["applicant"] = new PermissionSet { CanReject = true };
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _applicant, "reject", "Withdrawn"));
+
+        Assert.Equal("Role applicant cannot act on step TEST_step2_review", error.Message);
+    }
+
+    [Fact]
+    public async Task Reject_RequiresComments()
+    {
+        Definition.Permissions["inspector"] = new PermissionSet { CanReject = true };
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "reject"));
+
+        Assert.Equal("Comments are required when rejecting a workflow", error.Message);
+    }
+
+    [Fact]
+    public async Task Reject_IsRefusedOnceTheWorkflowHasEnded()
+    {
+        Definition.Permissions["inspector"] = new PermissionSet { CanReject = true };
+        var instance = await StartAtReviewAsync();
+        await SubmitAsync(instance, "TEST_step2_review", _inspector);
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "reject", "Too late"));
+
+        Assert.Equal("The workflow is completed, not in progress", error.Message);
+        Assert.Equal("completed", instance.Status);
+    }
+}
@@ -0,0 +1,116 @@
+using backend.Models;
+
+namespace backend.Tests;
+
+public class WorkflowEngineSendBackTests : WorkflowEngineTestBase
+{
+    private readonly AuthUser _applicant = User("applicant");
+    private readonly AuthUser _inspector = User("inspector");
+    private readonly WorkflowStep _review;
+
+    public WorkflowEngineSendBackTests()
+    {
+        AddStep("TEST_step1_apply", "applicant", "TEST_step2_review", "companyName", "address");
+        _review = AddStep("TEST_step2_review", "inspector", "completed", "findings");
+        _review.StepConfig = new StepConfiguration { CanSendBack = true, SendBackTarget = "TEST_step1_apply" };
+    }
+
+    private async Task<WorkflowInstance> StartAtReviewAsync()
+    {
+        var instance = await StartAsync();
+        return await SubmitAsync(instance, "TEST_step1_apply", _applicant,
+            formData: new Dictionary<string, object> { ["companyName"] = "Acme" });
+    }
+
+    [Fact]
+    public async Task SendBack_ReturnsToTheTargetStepWithItsFieldsEditable()
+    {
+        var instance = await StartAtReviewAsync();
+
+        instance = await SubmitAsync(instance, "TEST_step2_review", _inspector, "send_back", "The company name is misspelt");
+
+        Assert.Equal("in_progress", instance.Status);
+        Assert.Equal("TEST_step1_apply", instance.CurrentStep);
+        Assert.Equal("applicant", instance.AssignedActor);
+        Assert.NotNull(instance.SendBackInfo);
+        Assert.Equal(new[] { "companyName", "address" }, instance.SendBackInfo.EditableFields);
+        Assert.Equal(_inspector.Email, instance.SendBackInfo.SentBackBy);
+        Assert.Equal("send_back", instance.StepHistory.Last().Decision);
+        Assert.Equal("inspector", instance.StepHistory.Last().ActorRole);
+        Assert.Contains(Notifications.Published, e => e.EventType == "sent_back" && e.StepId == "TEST_step2_review");
+    }
+
+    [Fact]
+    public async Task SendBack_IsClosedWhenTheTargetStepIsResubmitted()
+    {
+        var instance = await StartAtReviewAsync();
+        await SubmitAsync(instance, "TEST_step2_review", _inspector, "send_back", "The company name is misspelt");
+
+        instance = await SubmitAsync(instance, "TEST_step1_apply", _applicant,
+            formData: new Dictionary<string, object> { ["companyName"] = "ACME Ltd" });
+
+        Assert.Null(instance.SendBackInfo);
+        Assert.Equal("TEST_step2_review", instance.CurrentStep);
+        Assert.Equal("ACME Ltd", instance.CurrentData["companyName"]);
+    }
+
+    [Fact]
+    public async Task SendBack_RequiresComments()
+    {
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "send_back", " "));
+
+        Assert.Equal("Comments are required when sending a step back", error.Message);
+        Assert.Equal("TEST_step2_review", instance.CurrentStep);
+    }
+
+    [Fact]
+    public async Task SendBack_IsRefusedOnStepsThatDoNotAllowIt()
+    {
+        var instance = await StartAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step1_apply", _applicant, "send_back", "Start over"));
+
+        Assert.Equal("Step TEST_step1_apply cannot be sent back", error.Message);
+    }
+
+    [Fact]
+    public async Task SendBack_IsRefusedForStepsThatAreNotOpen()
+    {
+        var instance = await StartAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "send_back", "Too early"));
+
+        Assert.Equal("Invalid step. The workflow waits on applicant at TEST_step1_apply", error.Message);
+        Assert.Empty(instance.StepHistory);
+    }
+
+    [Fact]
+    public async Task SendBack_IsRefusedForRolesThatCannotActOnTheStep()
+    {
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _applicant, "send_back", "Let me fix it"));
+
+        Assert.Equal("Role applicant cannot act on step TEST_step2_review", error.Message);
+        Assert.Equal("TEST_step2_review", instance.CurrentStep);
+    }
+
+    [Fact]
+    public async Task SendBack_IsRefusedWhenTheDefinitionDeniesItToTheRole()
+    {
+        Definition.Permissions["inspector"] = new PermissionSet { CanSendBack = false };
+        var instance = await StartAtReviewAsync();
+
+        var error = await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            SubmitAsync(instance, "TEST_step2_review", _inspector, "send_back", "The company name is misspelt"));
+
+        Assert.Equal("Role inspector is not allowed to send back step TEST_step2_review", error.Message);
+        Assert.Null(instance.SendBackInfo);
+    }
+}
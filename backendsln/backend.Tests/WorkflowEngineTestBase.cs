@@ -0,0 +1,100 @@
+using backend.Models;
+using backend.Services;
+using backend.Validation;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace backend.Tests;
+
+/// <summary>
+/// Engine over an in-memory definition and repository. Tests add the steps of the definition before
+/// starting an instance, which publishes it as version 1.0.
+/// </summary>
+public abstract class WorkflowEngineTestBase
+{
+    protected const string DefinitionId = "TEST";
+
+    protected FakeWorkflowDefinitionProvider Definitions { get; } = new();
+    protected InMemoryWorkflowRepository Repository { get; } = new(NullLogger<InMemoryWorkflowRepository>.Instance);
+    protected RecordingNotificationService Notifications { get; } = new();
+    protected WorkflowDefinition Definition { get; }
+    protected WorkflowEngine Engine { get; }
+
+    protected WorkflowEngineTestBase()
+    {
+        Definition = new WorkflowDefinition
+        {
+            CertificationId = DefinitionId,
+            Name = "Test certificate",
+            Version = "1.0",
+            Notifications = new NotificationConfig { OnSendBack = true, OnWorkflowComplete = true }
+        };
+        Definitions.AddDefinition(Definition);
+
+        Engine = new WorkflowEngine(
+            Definitions,
+            Repository,
+            new ValidationRuleFactory(),
+            Notifications,
+            Array.Empty<ISystemAction>(),
+            new SystemActionQueue(),
+            NullLogger<WorkflowEngine>.Instance);
+    }
+
+    protected static AuthUser User(string role) => new()
+    {
+        Email = $"{role}@example.com",
+        DisplayName = role,
+        Role = role
+    };
+
+    protected static string StepRef(string stepId) => $"workflows/Steps/{DefinitionId}/{stepId}";
+
+    protected static WorkflowStep CreateStep(string stepId, string actor, params string[] fieldKeys) => new()
+    {
+        StepId = stepId,
+        Name = stepId,
+        Actor = actor,
+        Fields = fieldKeys.Select(key => new FormField { Key = key, Type = "input" }).ToList()
+    };
+
+    /// <summary>
+    /// Add a step file and its entry in the definition
+    /// </summary>
+    protected WorkflowStep AddStep(string stepId, string actor, string? nextStep, params string[] fieldKeys)
+    {
+        var step = CreateStep(stepId, actor, fieldKeys);
+        Definitions.AddStep(StepRef(stepId), step);
+        Definition.Steps.Add(new StepReference
+        {
+            StepRef = StepRef(stepId),
+            Overrides = new StepOverrides { NextStep = nextStep }
+        });
+
+        return step;
+    }
+
+    protected Task<WorkflowInstance> StartAsync() =>
+        Engine.CreateWorkflowInstanceAsync(new WorkflowInstanceCreateRequest
+        {
+            CertificationId = DefinitionId,
+            CreatedBy = User("applicant").Email
+        });
+
+    protected Task<WorkflowInstance> SubmitAsync(
+        WorkflowInstance instance,
+        string stepId,
+        AuthUser actor,
+        string? decision = null,
+        string? comments = null,
+        Dictionary<string, object>? formData = null)
+    {
+        return Engine.SubmitStepAsync(instance.Id, new WorkflowSubmission
+        {
+            CertificationId = DefinitionId,
+            StepId = stepId,
+            FormData = formData ?? new Dictionary<string, object>(),
+            Decision = decision,
+            Comments = comments
+        }, actor);
+    }
+}
@@ -0,0 +1,105 @@
+using Microsoft.AspNetCore.Mvc;
+using backend.Models;
+using backend.Services;
+
+namespace backend.Controllers;
+
+/// <summary>
+/// Sign-in API (development stand-in for an identity provider)
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Produces("application/json")]
+public class AuthController : ControllerBase
+{
+    private readonly IAuthService _authService;
+
+    public AuthController(IAuthService authService)
+    {
+        _authService = authService;
+    }
+
+    /// <summary>
+    /// Sign in and receive access and refresh tokens
+    /// </summary>
+    /// <response code="200">Returns the tokens and the signed-in user</response>
+    /// <response code="401">If the email or password is wrong</response>
+    [HttpPost("login")]
+    [ProducesResponseType(typeof(AuthTokenResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public ActionResult<AuthTokenResponse> Login([FromBody] LoginRequest request)
+    {
+        var response = _authService.Login(request.Email, request.Password);
+        if (response == null)
+        {
+            return Unauthorized(new { message = "Invalid email or password" });
+        }
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Exchange a refresh token for new tokens
+    /// </summary>
+    /// <response code="200">Returns new tokens</response>
+    /// <response code="401">If the refresh token is unknown or already used</response>
+    [HttpPost("refresh")]
+    [ProducesResponseType(typeof(AuthTokenResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public ActionResult<AuthTokenResponse> Refresh([FromBody] RefreshTokenRequest request)
+    {
+        var response = _authService.Refresh(request.RefreshToken);
+        if (response == null)
+        {
+            return Unauthorized(new { message = "Invalid refresh token" });
+        }
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Get the user for the bearer token
+    /// </summary>
+    /// <response code="200">Returns the signed-in user</response>
+    /// <response code="401">If the token is missing or expired</response>
+    [HttpGet("me")]
+    [ProducesResponseType(typeof(AuthUser), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public ActionResult<AuthUser> Me()
+    {
+        var user = GetBearerToken() is { } token ? _authService.GetUser(token) : null;
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+        return Ok(user);
+    }
+
+    /// <summary>
+    /// Revoke the bearer token and its refresh token
+    /// </summary>
+    [HttpPost("logout")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    public IActionResult Logout()
+    {
+        if (GetBearerToken() is { } token)
+        {
+            _authService.Logout(token);
+        }
+        return NoContent();
+    }
+
+    /// <summary>
+    /// List the demo users that can sign in
+    /// </summary>
+    [HttpGet("users")]
+    [ProducesResponseType(typeof(IReadOnlyList<AuthUser>), StatusCodes.Status200OK)]
+    public ActionResult<IReadOnlyList<AuthUser>> GetUsers()
+    {
+        return Ok(_authService.GetUsers());
+    }
+
+    private string? GetBearerToken()
+    {
+        var header = Request.Headers.Authorization.ToString();
+        return header.StartsWith("Bearer ", StringComparison.OrdinalIgnoreCase) ? header["Bearer ".Length..].Trim() : null;
+    }
+}
@@ -0,0 +1,96 @@
+using Microsoft.AspNetCore.Mvc;
+using backend.Models;
+using backend.Services;
+
+namespace backend.Controllers;
+
+/// <summary>
+/// In-app notifications of the signed-in user
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Produces("application/json")]
+public class NotificationsController : ControllerBase
+{
+    private readonly INotificationService _notificationService;
+    private readonly IAuthService _authService;
+
+    public NotificationsController(
+        INotificationService notificationService,
+        IAuthService authService)
+    {
+        _notificationService = notificationService;
+        _authService = authService;
+    }
+
+    /// <summary>
+    /// Get the signed-in user's notifications, newest first
+    /// </summary>
+    /// <response code="200">Returns the notifications</response>
+    /// <response code="401">If the token is missing or expired</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(IReadOnlyList<Notification>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public ActionResult<IReadOnlyList<Notification>> GetNotifications()
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+        return Ok(_notificationService.GetForUser(user.Email));
+    }
+
+    /// <summary>
+    /// Mark a notification as read
+    /// </summary>
+    /// <response code="204">If the notification was marked as read</response>
+    /// <response code="401">If the token is missing or expired</response>
+    /// <response code="404">If the notification does not exist or belongs to someone else</response>
+    [HttpPost("{notificationId}/read")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public IActionResult MarkRead(Guid notificationId)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        if (!_notificationService.MarkRead(notificationId, user.Email))
+        {
+            return NotFound(new { message = $"Notification not found: {notificationId}" });
+        }
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Mark all of the signed-in user's notifications as read
+    /// </summary>
+    /// <response code="204">If the notifications were marked as read</response>
+    /// <response code="401">If the token is missing or expired</response>
+    [HttpPost("read-all")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public IActionResult MarkAllRead()
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        _notificationService.MarkAllRead(user.Email);
+        return NoContent();
+    }
+
+    private AuthUser? GetCurrentUser()
+    {
+        var header = Request.Headers.Authorization.ToString();
+        return header.StartsWith("Bearer ", StringComparison.OrdinalIgnoreCase)
+            ? _authService.GetUser(header["Bearer ".Length..].Trim())
+            : null;
+    }
+}
@@ -1,3 +1,5 @@
+using System.Security.Cryptography;
+using System.Text;
 using Microsoft.AspNetCore.Mvc;
 using backend.Models;
 using backend.Services;
@@ -12,20 +14,32 @@ namespace backend.Controllers;
 [Produces("application/json")]
 public class WorkflowController : ControllerBase
 {
+    // Role allowed to inspect published versions and migrate instances between them
+    private const string AdminRole = "admin";
+
+    // Documents attached with the certificate service secret are recorded as generated by it
+    private const string CertificateServiceName = "certificate-service";
+
     private readonly IWorkflowEngine _workflowEngine;
     private readonly IWorkflowDefinitionProvider _definitionProvider;
     private readonly IFileStorageService _fileStorageService;
+    private readonly IAuthService _authService;
+    private readonly string? _certificateServiceSecret;
     private readonly ILogger<WorkflowController> _logger;
 
     public WorkflowController(
         IWorkflowEngine workflowEngine,
         IWorkflowDefinitionProvider definitionProvider,
         IFileStorageService fileStorageService,
+        IAuthService authService,
+        IConfiguration configuration,
         ILogger<WorkflowController> logger)
     {
         _workflowEngine = workflowEngine;
         _definitionProvider = definitionProvider;
         _fileStorageService = fileStorageService;
+        _authService = authService;
+        _certificateServiceSecret = configuration["SystemActions:CertificateServiceSecret"];
         _logger = logger;
     }
 
@@ -63,6 +77,114 @@ public class WorkflowController : ControllerBase
         return Ok(definition);
     }
 
+    /// <summary>
+    /// Get the published versions of a workflow definition and how many in-flight instances run on each
+    /// </summary>
+    /// <param name="certificationId">The certification ID</param>
+    /// <returns>The published versions</returns>
+    /// <response code="200">Returns the published versions</response>
+    /// <response code="401">If the token is missing or expired</response>
+    /// <response code="403">If the signed-in user is not an administrator</response>
+    /// <response code="404">If the workflow definition is not found</response>
+    [HttpGet("definitions/{certificationId}/versions")]
+    [ProducesResponseType(typeof(WorkflowVersionListing), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowVersionListing>> GetDefinitionVersions(string certificationId)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+        if (user.Role != AdminRole)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only administrators can list definition versions" });
+        }
+
+        try
+        {
+            var versions = await _workflowEngine.GetDefinitionVersionsAsync(certificationId);
+            return Ok(versions);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Get a published version of a workflow definition with the step files it was published with
+    /// </summary>
+    /// <param name="certificationId">The certification ID</param>
+    /// <param name="version">The version (e.g., 1.0)</param>
+    /// <returns>The definition and step files as published</returns>
+    /// <response code="200">Returns the published version</response>
+    /// <response code="404">If the version is not published</response>
+    [HttpGet("definitions/{certificationId}/versions/{version}")]
+    [ProducesResponseType(typeof(WorkflowDefinitionVersion), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowDefinitionVersion>> GetDefinitionVersion(string certificationId, string version)
+    {
+        var published = await _definitionProvider.GetVersionAsync(certificationId, version);
+        if (published == null)
+        {
+            return NotFound(new { message = $"Version {version} of {certificationId} is not published" });
+        }
+
+        return Ok(published);
+    }
+
+    /// <summary>
+    /// Move in-flight instances to another version of their definition, mapping renamed fields and steps
+    /// </summary>
+    /// <param name="certificationId">The certification ID</param>
+    /// <param name="request">Versions, field and step mappings, and whether this is a dry run</param>
+    /// <returns>What changes for each instance</returns>
+    /// <response code="200">Returns the changes, applied unless this is a dry run</response>
+    /// <response code="400">If the request is invalid</response>
+    /// <response code="401">If the token is missing or expired</response>
+    /// <response code="403">If the signed-in user is not an administrator</response>
+    /// <response code="404">If the definition or a version is not found</response>
+    [HttpPost("definitions/{certificationId}/migrate")]
+    [ProducesResponseType(typeof(WorkflowMigrationResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowMigrationResult>> MigrateInstances(
+        string certificationId,
+        [FromBody] WorkflowMigrationRequest request)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+        if (user.Role != AdminRole)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only administrators can migrate instances" });
+        }
+
+        // The migration is recorded under the signed-in administrator, whatever the body claims
+        request.RequestedBy = user.Email;
+
+        try
+        {
+            var result = await _workflowEngine.MigrateInstancesAsync(certificationId, request);
+            return Ok(result);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get a specific step definition
     /// </summary>
@@ -136,16 +258,27 @@ public class WorkflowController : ControllerBase
     /// <returns>The created workflow instance</returns>
     /// <response code="201">Returns the newly created workflow instance</response>
     /// <response code="400">If the request is invalid</response>
+    /// <response code="401">If the token is missing or expired</response>
     /// <response code="500">If there was an internal server error</response>
     [HttpPost("instances")]
     [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status201Created)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
     public async Task<ActionResult<WorkflowInstance>> CreateWorkflowInstance(
         [FromBody] WorkflowInstanceCreateRequest request)
     {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
         try
         {
+            // Drafts belong to the signed-in user, whatever the request body claims
+            request.CreatedBy = user.Email;
+
             var instance = await _workflowEngine.CreateWorkflowInstanceAsync(request);
             return CreatedAtAction(
                 nameof(GetWorkflowInstance),
@@ -184,6 +317,27 @@ public class WorkflowController : ControllerBase
         return Ok(instance);
     }
 
+    /// <summary>
+    /// Get the workflow instance that issued a certificate
+    /// </summary>
+    /// <param name="certificateNumber">The certificate number (e.g., CT401-2026-1A2B3C4D)</param>
+    /// <returns>The workflow instance</returns>
+    /// <response code="200">Returns the workflow instance</response>
+    /// <response code="404">If no instance issued the certificate</response>
+    [HttpGet("certificates/{certificateNumber}")]
+    [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowInstance>> GetWorkflowByCertificateNumber(string certificateNumber)
+    {
+        var instance = await _workflowEngine.GetWorkflowByCertificateNumberAsync(certificateNumber);
+        if (instance == null)
+        {
+            return NotFound(new { message = $"Certificate not found: {certificateNumber}" });
+        }
+
+        return Ok(instance);
+    }
+
     /// <summary>
     /// Get workflow instances by status and optional actor
     /// </summary>
@@ -191,7 +345,7 @@ public class WorkflowController : ControllerBase
     /// <param name="actor">Optional actor filter (e.g., customer, inspector, manager)</param>
     /// <returns>List of matching workflow instances</returns>
     /// <response code="200">Returns the list of workflow instances</response>
-    /// <response code="400">If the status parameter is missing</response>
+    /// <response code="400">If status is not given</response>
     [HttpGet("instances")]
     [ProducesResponseType(typeof(List<WorkflowInstance>), StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
@@ -208,6 +362,145 @@ public class WorkflowController : ControllerBase
         return Ok(instances);
     }
 
+    /// <summary>
+    /// Get the workflow instances the signed-in user created
+    /// </summary>
+    /// <param name="status">Optional status filter (e.g., in_progress)</param>
+    /// <returns>The caller's workflow instances</returns>
+    /// <response code="200">Returns the caller's workflow instances</response>
+    /// <response code="401">If the token is missing or expired</response>
+    [HttpGet("instances/mine")]
+    [ProducesResponseType(typeof(List<WorkflowInstance>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<List<WorkflowInstance>>> GetMyWorkflows([FromQuery] string? status = null)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        return Ok(await _workflowEngine.GetWorkflowsByCreatorAsync(user.Email, status));
+    }
+
+    /// <summary>
+    /// Get the signed-in user's inbox: instances waiting on their role, limited to their own instances
+    /// for the role that starts the workflow
+    /// </summary>
+    /// <param name="status">The workflow status (e.g., in_progress, on_hold)</param>
+    /// <returns>The instances waiting on the caller</returns>
+    /// <response code="200">Returns the instances waiting on the caller</response>
+    /// <response code="400">If status is not given</response>
+    /// <response code="401">If the token is missing or expired</response>
+    [HttpGet("instances/inbox")]
+    [ProducesResponseType(typeof(List<WorkflowInstance>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<List<WorkflowInstance>>> GetInbox([FromQuery] string? status = null)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        if (string.IsNullOrEmpty(status))
+        {
+            return BadRequest(new { message = "Status parameter is required" });
+        }
+
+        return Ok(await _workflowEngine.GetInboxAsync(user, status));
+    }
+
+    /// <summary>
+    /// Discard an in-progress draft
+    /// </summary>
+    /// <param name="instanceId">The workflow instance ID</param>
+    /// <param name="request">Why the draft is discarded; the signed-in user is recorded as discarding it</param>
+    /// <returns>The discarded workflow instance</returns>
+    /// <response code="200">Returns the discarded workflow instance</response>
+    /// <response code="400">If the instance is not a draft of the caller</response>
+    /// <response code="401">If the token is missing or expired</response>
+    /// <response code="404">If the workflow instance is not found</response>
+    [HttpPost("instances/{instanceId}/discard")]
+    [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowInstance>> DiscardWorkflowInstance(
+        Guid instanceId,
+        [FromBody] WorkflowDiscardRequest request)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        try
+        {
+            var instance = await _workflowEngine.DiscardWorkflowInstanceAsync(instanceId, request, user);
+            return Ok(instance);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Run the system action of an instance again after all its attempts failed
+    /// </summary>
+    /// <param name="instanceId">The workflow instance ID</param>
+    /// <returns>The workflow instance, processing again</returns>
+    /// <response code="200">Returns the workflow instance</response>
+    /// <response code="400">If the instance's system action has not failed</response>
+    /// <response code="401">If the token is missing or expired</response>
+    /// <response code="403">If the caller is neither an administrator nor an actor of the instance</response>
+    /// <response code="404">If the workflow instance is not found</response>
+    [HttpPost("instances/{instanceId}/system-action/retry")]
+    [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowInstance>> RetrySystemAction(Guid instanceId)
+    {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
+        var existing = await _workflowEngine.GetWorkflowInstanceAsync(instanceId);
+        if (existing == null)
+        {
+            return NotFound(new { message = $"Workflow instance not found: {instanceId}" });
+        }
+        if (user.Role != AdminRole && !existing.HasActor(user.Email))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only administrators and actors of the instance can retry its system action" });
+        }
+
+        try
+        {
+            var instance = await _workflowEngine.RetrySystemActionAsync(instanceId, user.Email);
+            return Ok(instance);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Validate form data for a specific step (without submitting)
     /// </summary>
@@ -241,24 +534,32 @@ public class WorkflowController : ControllerBase
     /// Submit form data for a workflow step
     /// </summary>
     /// <param name="instanceId">The workflow instance ID</param>
-    /// <param name="submission">The workflow submission data</param>
+    /// <param name="submission">The workflow submission data; the signed-in user is recorded as the submitter</param>
     /// <returns>Updated workflow instance</returns>
     /// <response code="200">Returns the updated workflow instance</response>
-    /// <response code="400">If validation fails or the request is invalid</response>
+    /// <response code="400">If validation fails, the step is not open or the user's role may not act on it</response>
+    /// <response code="401">If the token is missing or expired</response>
     /// <response code="404">If the workflow instance is not found</response>
     /// <response code="500">If there was an internal server error</response>
     [HttpPost("instances/{instanceId}/submit")]
     [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
     public async Task<ActionResult<WorkflowInstance>> SubmitStep(
         Guid instanceId,
         [FromBody] WorkflowSubmission submission)
     {
+        var user = GetCurrentUser();
+        if (user == null)
+        {
+            return Unauthorized(new { message = "Not signed in" });
+        }
+
         try
         {
-            var instance = await _workflowEngine.SubmitStepAsync(instanceId, submission);
+            var instance = await _workflowEngine.SubmitStepAsync(instanceId, submission, user);
             return Ok(instance);
         }
         catch (ArgumentException ex)
@@ -280,6 +581,7 @@ public class WorkflowController : ControllerBase
     /// Get the current step definition for a workflow instance
     /// </summary>
     /// <param name="instanceId">The workflow instance ID</param>
+    /// <param name="stepId">Open branch to load while a parallel step runs; defaults to the first one</param>
     /// <returns>Current step information including form fields and current data</returns>
     /// <response code="200">Returns the current step details</response>
     /// <response code="404">If the workflow instance or step is not found</response>
@@ -288,7 +590,7 @@ public class WorkflowController : ControllerBase
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
-    public async Task<ActionResult<object>> GetCurrentStep(Guid instanceId)
+    public async Task<ActionResult<object>> GetCurrentStep(Guid instanceId, [FromQuery] string? stepId = null)
     {
         try
         {
@@ -298,31 +600,42 @@ public class WorkflowController : ControllerBase
                 return NotFound(new { message = $"Workflow instance not found: {instanceId}" });
             }
 
-            var definition = await _definitionProvider.GetDefinitionAsync(instance.DefinitionId);
+            // The instance runs on the version it was pinned to
+            var definition = await _definitionProvider.GetDefinitionAsync(instance.DefinitionId, instance.DefinitionVersion);
             if (definition == null)
             {
                 return NotFound(new { message = "Workflow definition not found" });
             }
 
+            // While a parallel step runs, its branches are the steps to work on
+            var currentStep = instance.CurrentStep;
+            if (instance.ActiveSteps.Count > 0)
+            {
+                currentStep = !string.IsNullOrEmpty(stepId) && instance.IsOpenStep(stepId)
+                    ? stepId
+                    : instance.ActiveSteps.FirstOrDefault(s => s.Status == "in_progress")?.StepId ?? instance.CurrentStep;
+            }
+
             var currentStepRef = definition.Steps.FirstOrDefault(s =>
-                s.StepRef.EndsWith(instance.CurrentStep) || s.StepId == instance.CurrentStep);
+                s.StepRef.EndsWith(currentStep) || s.StepId == currentStep);
 
             if (currentStepRef == null)
             {
                 _logger.LogError(
                     "Current step '{CurrentStep}' not found in definition. Available steps: {AvailableSteps}",
-                    instance.CurrentStep,
+                    currentStep,
                     string.Join(", ", definition.Steps.Select(s => s.StepRef ?? s.StepId))
                 );
                 return NotFound(new {
                     message = "Current step reference not found",
-                    currentStep = instance.CurrentStep,
+                    currentStep = currentStep,
                     availableSteps = definition.Steps.Select(s => s.StepRef ?? s.StepId).ToList(),
                     hint = "The current step name in the database doesn't match any step in the workflow definition"
                 });
             }
 
-            var stepDefinition = await _definitionProvider.GetStepDefinitionAsync(currentStepRef.StepRef);
+            var stepDefinition = await _definitionProvider.GetStepDefinitionAsync(
+                currentStepRef.StepRef, instance.DefinitionId, instance.DefinitionVersion);
             if (stepDefinition == null)
             {
                 return NotFound(new { message = "Step definition not found" });
@@ -429,6 +742,67 @@ public class WorkflowController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Attach a generated document (e.g. the certificate PDF) to a workflow instance.
+    /// Only the certificate service may call this, with SystemActions:CertificateServiceSecret in X-Certificate-Service-Secret.
+    /// </summary>
+    /// <param name="instanceId">The workflow instance ID</param>
+    /// <param name="kind">What the document is, e.g. certificate; replaces an earlier document of the same kind</param>
+    /// <returns>The updated workflow instance</returns>
+    /// <response code="200">Returns the workflow instance with the document attached</response>
+    /// <response code="400">If no file or kind is provided</response>
+    /// <response code="401">If the certificate service secret is missing or wrong</response>
+    /// <response code="404">If the workflow instance is not found</response>
+    [HttpPost("instances/{instanceId}/documents")]
+    [ProducesResponseType(typeof(WorkflowInstance), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<WorkflowInstance>> AttachDocument(
+        Guid instanceId,
+        [FromQuery] string kind)
+    {
+        if (!IsCertificateServiceCaller())
+        {
+            return Unauthorized(new { message = "Documents are attached by the certificate service only" });
+        }
+
+        try
+        {
+            var file = Request.Form.Files.FirstOrDefault();
+            if (file == null || file.Length == 0)
+            {
+                return BadRequest(new { message = "No file provided" });
+            }
+
+            if (await _workflowEngine.GetWorkflowInstanceAsync(instanceId) == null)
+            {
+                return NotFound(new { message = $"Workflow instance not found: {instanceId}" });
+            }
+
+            var metadata = await _fileStorageService.SaveFileAsync(file, kind, CertificateServiceName);
+            var instance = await _workflowEngine.AttachDocumentAsync(instanceId, new GeneratedDocument
+            {
+                Id = metadata.StoredFileName,
+                FileName = metadata.OriginalFileName,
+                ContentType = metadata.ContentType,
+                FileSize = metadata.FileSizeBytes,
+                Kind = kind,
+                GeneratedAt = metadata.UploadedAt
+            });
+
+            return Ok(instance);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Download an uploaded file
     /// </summary>
@@ -460,4 +834,28 @@ public class WorkflowController : ControllerBase
             return StatusCode(500, new { message = "Error downloading file" });
         }
     }
+
+    private AuthUser? GetCurrentUser()
+    {
+        var header = Request.Headers.Authorization.ToString();
+        return header.StartsWith("Bearer ", StringComparison.OrdinalIgnoreCase)
+            ? _authService.GetUser(header["Bearer ".Length..].Trim())
+            : null;
+    }
+
+    /// <summary>
+    /// Whether the request carries the certificate service secret; nobody does while it is not configured
+    /// </summary>
+    private bool IsCertificateServiceCaller()
+    {
+        var header = Request.Headers["X-Certificate-Service-Secret"].ToString();
+        if (string.IsNullOrEmpty(_certificateServiceSecret) || string.IsNullOrEmpty(header))
+        {
+            return false;
+        }
+
+        return CryptographicOperations.FixedTimeEquals(
+            Encoding.UTF8.GetBytes(_certificateServiceSecret),
+            Encoding.UTF8.GetBytes(header));
+    }
 }
@@ -28,6 +28,9 @@ public class WorkflowDbContext : DbContext
                 .IsRequired()
                 .HasMaxLength(100);
 
+            entity.Property(e => e.DefinitionVersion)
+                .HasMaxLength(50);
+
             entity.Property(e => e.WorkflowType)
                 .IsRequired()
                 .HasMaxLength(50);
@@ -65,6 +68,25 @@ public class WorkflowDbContext : DbContext
                 .HasColumnType("nvarchar(max)")
                 .IsRequired();
 
+            entity.Property(e => e.CertificateNumber)
+                .HasMaxLength(50);
+
+            entity.Property(e => e.CertificateJson)
+                .HasColumnName("Certificate")
+                .HasColumnType("nvarchar(max)");
+
+            entity.Property(e => e.DocumentsJson)
+                .HasColumnName("Documents")
+                .HasColumnType("nvarchar(max)");
+
+            entity.Property(e => e.ActiveStepsJson)
+                .HasColumnName("ActiveSteps")
+                .HasColumnType("nvarchar(max)");
+
+            entity.Property(e => e.StepVersionsJson)
+                .HasColumnName("StepVersions")
+                .HasColumnType("nvarchar(max)");
+
             // Indexes
             entity.HasIndex(e => new { e.Status, e.AssignedActor })
                 .HasDatabaseName("IX_WorkflowInstances_Status_Actor");
@@ -78,6 +100,11 @@ public class WorkflowDbContext : DbContext
 
             entity.HasIndex(e => e.CreatedBy)
                 .HasDatabaseName("IX_WorkflowInstances_CreatedBy");
+
+            entity.HasIndex(e => e.CertificateNumber)
+                .HasDatabaseName("IX_WorkflowInstances_CertificateNumber")
+                .IsUnique()
+                .HasFilter("[CertificateNumber] IS NOT NULL");
         });
 
         // Configure StepHistoryDetailEntity
@@ -17,6 +17,12 @@ public class WorkflowInstanceEntity
     [MaxLength(100)]
     public string DefinitionId { get; set; } = string.Empty;
 
+    [MaxLength(50)]
+    public string? DefinitionVersion { get; set; }
+
+    [Column(TypeName = "nvarchar(max)")]
+    public string? StepVersionsJson { get; set; }
+
     [Required]
     [MaxLength(50)]
     public string WorkflowType { get; set; } = string.Empty;
@@ -32,6 +38,9 @@ public class WorkflowInstanceEntity
     [MaxLength(100)]
     public string? AssignedActor { get; set; }
 
+    [Column(TypeName = "nvarchar(max)")]
+    public string? ActiveStepsJson { get; set; }
+
     [Required]
     [Column(TypeName = "nvarchar(max)")]
     public string CurrentDataJson { get; set; } = "{}";
@@ -43,6 +52,15 @@ public class WorkflowInstanceEntity
     [Column(TypeName = "nvarchar(max)")]
     public string StepHistoryJson { get; set; } = "[]";
 
+    [MaxLength(50)]
+    public string? CertificateNumber { get; set; }
+
+    [Column(TypeName = "nvarchar(max)")]
+    public string? CertificateJson { get; set; }
+
+    [Column(TypeName = "nvarchar(max)")]
+    public string? DocumentsJson { get; set; }
+
     public DateTime StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public DateTime? SLADeadline { get; set; }
@@ -57,6 +75,24 @@ public class WorkflowInstanceEntity
     public string? Tags { get; set; }
 
     // Navigation properties (not mapped to columns)
+    [NotMapped]
+    public Dictionary<string, string> StepVersions
+    {
+        get => string.IsNullOrEmpty(StepVersionsJson)
+            ? new Dictionary<string, string>()
+            : JsonSerializer.Deserialize<Dictionary<string, string>>(StepVersionsJson) ?? new Dictionary<string, string>();
+        set => StepVersionsJson = value.Count == 0 ? null : JsonSerializer.Serialize(value);
+    }
+
+    [NotMapped]
+    public List<ActiveStep> ActiveSteps
+    {
+        get => string.IsNullOrEmpty(ActiveStepsJson)
+            ? new List<ActiveStep>()
+            : JsonSerializer.Deserialize<List<ActiveStep>>(ActiveStepsJson) ?? new List<ActiveStep>();
+        set => ActiveStepsJson = value.Count == 0 ? null : JsonSerializer.Serialize(value);
+    }
+
     [NotMapped]
     public Dictionary<string, object> CurrentData
     {
@@ -84,6 +120,28 @@ public class WorkflowInstanceEntity
         set => StepHistoryJson = JsonSerializer.Serialize(value);
     }
 
+    [NotMapped]
+    public IssuedCertificate? Certificate
+    {
+        get => string.IsNullOrEmpty(CertificateJson)
+            ? null
+            : JsonSerializer.Deserialize<IssuedCertificate>(CertificateJson);
+        set
+        {
+            CertificateJson = value == null ? null : JsonSerializer.Serialize(value);
+            CertificateNumber = value?.CertificateNumber;
+        }
+    }
+
+    [NotMapped]
+    public List<GeneratedDocument> Documents
+    {
+        get => string.IsNullOrEmpty(DocumentsJson)
+            ? new List<GeneratedDocument>()
+            : JsonSerializer.Deserialize<List<GeneratedDocument>>(DocumentsJson) ?? new List<GeneratedDocument>();
+        set => DocumentsJson = value.Count == 0 ? null : JsonSerializer.Serialize(value);
+    }
+
     /// <summary>
     /// Convert entity to domain model
     /// </summary>
@@ -93,13 +151,18 @@ public class WorkflowInstanceEntity
         {
             Id = Id,
             DefinitionId = DefinitionId,
+            DefinitionVersion = DefinitionVersion,
+            StepVersions = StepVersions,
             WorkflowType = WorkflowType,
             CurrentStep = CurrentStep,
             Status = Status,
             AssignedActor = AssignedActor,
+            ActiveSteps = ActiveSteps,
             CurrentData = CurrentData,
             SendBackInfo = SendBackInfo,
             StepHistory = StepHistory,
+            Certificate = Certificate,
+            Documents = Documents,
             StartedAt = StartedAt,
             CompletedAt = CompletedAt,
             SLADeadline = SLADeadline,
@@ -118,13 +181,18 @@ public class WorkflowInstanceEntity
         {
             Id = model.Id,
             DefinitionId = model.DefinitionId,
+            DefinitionVersion = model.DefinitionVersion,
+            StepVersions = model.StepVersions,
             WorkflowType = model.WorkflowType,
             CurrentStep = model.CurrentStep,
             Status = model.Status,
             AssignedActor = model.AssignedActor,
+            ActiveSteps = model.ActiveSteps,
             CurrentData = model.CurrentData,
             SendBackInfo = model.SendBackInfo,
             StepHistory = model.StepHistory,
+            Certificate = model.Certificate,
+            Documents = model.Documents,
             StartedAt = model.StartedAt,
             CompletedAt = model.CompletedAt,
             SLADeadline = model.SLADeadline,
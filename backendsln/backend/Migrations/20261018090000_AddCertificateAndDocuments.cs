@@ -0,0 +1,60 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace backend.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCertificateAndDocuments : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Certificate",
+                table: "WorkflowInstances",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CertificateNumber",
+                table: "WorkflowInstances",
+                type: "nvarchar(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Documents",
+                table: "WorkflowInstances",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_WorkflowInstances_CertificateNumber",
+                table: "WorkflowInstances",
+                column: "CertificateNumber",
+                unique: true,
+                filter: "[CertificateNumber] IS NOT NULL");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_WorkflowInstances_CertificateNumber",
+                table: "WorkflowInstances");
+
+            migrationBuilder.DropColumn(
+                name: "Certificate",
+                table: "WorkflowInstances");
+
+            migrationBuilder.DropColumn(
+                name: "CertificateNumber",
+                table: "WorkflowInstances");
+
+            migrationBuilder.DropColumn(
+                name: "Documents",
+                table: "WorkflowInstances");
+        }
+    }
+}
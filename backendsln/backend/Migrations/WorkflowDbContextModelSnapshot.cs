@@ -87,10 +87,22 @@ namespace backend.Migrations
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uniqueidentifier");
 
+                    b.Property<string>("ActiveStepsJson")
+                        .HasColumnType("nvarchar(max)")
+                        .HasColumnName("ActiveSteps");
+
                     b.Property<string>("AssignedActor")
                         .HasMaxLength(100)
                         .HasColumnType("nvarchar(100)");
 
+                    b.Property<string>("CertificateJson")
+                        .HasColumnType("nvarchar(max)")
+                        .HasColumnName("Certificate");
+
+                    b.Property<string>("CertificateNumber")
+                        .HasMaxLength(50)
+                        .HasColumnType("nvarchar(50)");
+
                     b.Property<DateTime?>("CompletedAt")
                         .HasColumnType("datetime2");
 
@@ -114,6 +126,14 @@ namespace backend.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("nvarchar(100)");
 
+                    b.Property<string>("DefinitionVersion")
+                        .HasMaxLength(50)
+                        .HasColumnType("nvarchar(50)");
+
+                    b.Property<string>("DocumentsJson")
+                        .HasColumnType("nvarchar(max)")
+                        .HasColumnName("Documents");
+
                     b.Property<int>("Priority")
                         .HasColumnType("int");
 
@@ -137,6 +157,10 @@ namespace backend.Migrations
                         .HasColumnType("nvarchar(max)")
                         .HasColumnName("StepHistory");
 
+                    b.Property<string>("StepVersionsJson")
+                        .HasColumnType("nvarchar(max)")
+                        .HasColumnName("StepVersions");
+
                     b.Property<string>("Tags")
                         .HasMaxLength(500)
                         .HasColumnType("nvarchar(500)");
@@ -148,6 +172,11 @@ namespace backend.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("CertificateNumber")
+                        .IsUnique()
+                        .HasDatabaseName("IX_WorkflowInstances_CertificateNumber")
+                        .HasFilter("[CertificateNumber] IS NOT NULL");
+
                     b.HasIndex("CreatedBy")
                         .HasDatabaseName("IX_WorkflowInstances_CreatedBy");
 
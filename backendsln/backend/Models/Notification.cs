@@ -0,0 +1,27 @@
+namespace backend.Models;
+
+public class Notification
+{
+    public Guid Id { get; set; }
+    public string EventType { get; set; } = string.Empty; // step_completed, sent_back, rejected, workflow_completed, sla_escalation
+    public Guid? InstanceId { get; set; }
+    public string? DefinitionId { get; set; }
+    public string? StepId { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string Message { get; set; } = string.Empty;
+    public string RecipientEmail { get; set; } = string.Empty;
+    public string Recipient { get; set; } = string.Empty; // recipients entry it was routed through, e.g. applicant
+    public DateTime CreatedAt { get; set; }
+    public DateTime? ReadAt { get; set; }
+}
+
+public class NotificationEvent
+{
+    public string EventType { get; set; } = string.Empty;
+    public WorkflowInstance Instance { get; set; } = new();
+    public string? StepId { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string Message { get; set; } = string.Empty;
+    public string? TriggeredBy { get; set; }
+    public List<string>? Recipients { get; set; } // overrides notifications.recipients of the definition
+}
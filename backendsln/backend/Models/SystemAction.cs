@@ -0,0 +1,18 @@
+namespace backend.Models;
+
+/// <summary>
+/// What a system action gets to work with: the instance waiting on it, its definition and the step that names the action
+/// </summary>
+public class SystemActionContext
+{
+    public WorkflowInstance Instance { get; set; } = new();
+    public WorkflowDefinition Definition { get; set; } = new();
+    public StepReference Step { get; set; } = new();
+    public int Attempt { get; set; } = 1;
+}
+
+public class SystemActionResult
+{
+    public string? Message { get; set; } // recorded as the comments of the history entry
+    public Dictionary<string, object> Data { get; set; } = new(); // merged into the instance's currentData
+}
@@ -23,6 +23,7 @@ public class WorkflowMetadata
     public int EstimatedTotalDurationDays { get; set; }
     public string Complexity { get; set; } = string.Empty;
     public bool RequiresFactoryVisit { get; set; }
+    public int? CertificateValidityMonths { get; set; }
 }
 
 public class StepReference
@@ -33,13 +34,30 @@ public class StepReference
     public string? Actor { get; set; }
     public string? Type { get; set; }
     public string? SystemAction { get; set; }
+    public Dictionary<string, object>? Parameters { get; set; } // passed to the system action
+    public SystemActionRetryPolicy? Retry { get; set; }
     public string? Status { get; set; }
+    public List<string>? Branches { get; set; } // first step of each branch of a parallel step
+    public int? Quorum { get; set; } // completed branches a parallel step waits for, all by default
     public StepOverrides? Overrides { get; set; }
 }
 
+public class SystemActionRetryPolicy
+{
+    public int MaxAttempts { get; set; } = 3;
+    public int DelaySeconds { get; set; } = 5; // multiplied by the attempt number
+}
+
 public class StepOverrides
 {
     public string? NextStep { get; set; }
+    public List<StepTransition>? Next { get; set; } // conditional transitions, first match wins
+}
+
+public class StepTransition
+{
+    public string? When { get; set; } // expression over the model, evaluated by ExpressionEvaluator and the frontend expression engine
+    public string Goto { get; set; } = string.Empty;
 }
 
 public class WorkflowConfig
@@ -48,6 +66,7 @@ public class WorkflowConfig
     public bool AllowParallelExecution { get; set; }
     public bool RequiresApprovalAtEachStep { get; set; }
     public bool AutoEscalationEnabled { get; set; }
+    public string? EscalateTo { get; set; } // role that receives SLA escalations, defaults to manager
 }
 
 public class SlaConfig
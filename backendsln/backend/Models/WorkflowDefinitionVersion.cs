@@ -0,0 +1,84 @@
+using System.Text.Json;
+
+namespace backend.Models;
+
+/// <summary>
+/// Published snapshot of a workflow definition and the step files it references.
+/// Instances pin the version they started on, so later edits to the live files do not change them.
+/// </summary>
+public class WorkflowDefinitionVersion
+{
+    public string DefinitionId { get; set; } = string.Empty;
+    public string Version { get; set; } = string.Empty;
+    public DateTime PublishedAt { get; set; }
+    public string ContentHash { get; set; } = string.Empty; // hash of the definition and every step file
+    public JsonElement Definition { get; set; } // definition file as published
+    public Dictionary<string, JsonElement> Steps { get; set; } = new(); // stepRef -> step file as published
+    public Dictionary<string, string> StepVersions { get; set; } = new(); // stepRef -> content hash of the step file
+}
+
+/// <summary>
+/// Published versions of a definition and the in-flight instances on each
+/// </summary>
+public class WorkflowVersionListing
+{
+    public string DefinitionId { get; set; } = string.Empty;
+    public string LiveVersion { get; set; } = string.Empty; // version field of the live definition file
+    public bool LiveChanged { get; set; } // the live files differ from what was published under LiveVersion
+    public int UnpinnedInstanceCount { get; set; } // in-flight instances started before versions were pinned
+    public List<WorkflowDefinitionVersionSummary> Versions { get; set; } = new();
+}
+
+/// <summary>
+/// Published version of a definition without its files
+/// </summary>
+public class WorkflowDefinitionVersionSummary
+{
+    public string Version { get; set; } = string.Empty;
+    public DateTime PublishedAt { get; set; }
+    public string ContentHash { get; set; } = string.Empty;
+    public Dictionary<string, string> StepVersions { get; set; } = new();
+    public int InstanceCount { get; set; } // in-flight instances pinned to this version
+}
+
+/// <summary>
+/// Move in-progress instances of a definition to another published version
+/// </summary>
+public class WorkflowMigrationRequest
+{
+    public string ToVersion { get; set; } = string.Empty;
+    public string? FromVersion { get; set; } // only instances pinned to this version; unpinned instances when empty
+    public List<Guid>? InstanceIds { get; set; } // only these instances, all matching ones when empty
+    public Dictionary<string, string> FieldMapping { get; set; } = new(); // old field key -> new key, empty to drop the field
+    public Dictionary<string, string> StepMapping { get; set; } = new(); // old step id -> new step id
+    public bool DryRun { get; set; } = true;
+    public string RequestedBy { get; set; } = string.Empty; // set from the bearer token by the controller
+}
+
+public class WorkflowMigrationResult
+{
+    public string DefinitionId { get; set; } = string.Empty;
+    public string? FromVersion { get; set; }
+    public string ToVersion { get; set; } = string.Empty;
+    public bool DryRun { get; set; }
+    public Dictionary<string, string> ChangedSteps { get; set; } = new(); // stepRef -> added, removed or changed
+    public List<InstanceMigrationDiff> Instances { get; set; } = new();
+}
+
+/// <summary>
+/// What migrating one instance changes, or why it cannot be migrated
+/// </summary>
+public class InstanceMigrationDiff
+{
+    public Guid InstanceId { get; set; }
+    public string Status { get; set; } = string.Empty;
+    public string FromStep { get; set; } = string.Empty;
+    public string ToStep { get; set; } = string.Empty;
+    public Dictionary<string, string> RenamedFields { get; set; } = new();
+    public List<string> DroppedFields { get; set; } = new(); // mapped to nothing, their data is removed
+    public List<string> UnmappedFields { get; set; } = new(); // data kept but no longer on any step of the new version
+    public List<string> AddedFields { get; set; } = new(); // on the new version only, left empty
+    public List<string> Errors { get; set; } = new();
+    public bool CanMigrate => Errors.Count == 0;
+    public bool Migrated { get; set; }
+}
@@ -4,14 +4,19 @@ public class WorkflowInstance
 {
     public Guid Id { get; set; }
     public string DefinitionId { get; set; } = string.Empty;
+    public string? DefinitionVersion { get; set; } // published version the instance runs on, the live files when null
+    public Dictionary<string, string> StepVersions { get; set; } = new(); // stepRef -> content hash of the pinned step file
     public string WorkflowType { get; set; } = string.Empty;
-    public string CurrentStep { get; set; } = string.Empty;
-    public string Status { get; set; } = string.Empty; // in_progress, completed, rejected, on_hold
+    public string CurrentStep { get; set; } = string.Empty; // a parallel step while its branches run
+    public string Status { get; set; } = string.Empty; // in_progress, processing, action_failed, completed, rejected, on_hold, discarded
     public string? AssignedActor { get; set; }
+    public List<ActiveStep> ActiveSteps { get; set; } = new(); // branches of the parallel step at CurrentStep
     
     public Dictionary<string, object> CurrentData { get; set; } = new();
     public SendBackInfo? SendBackInfo { get; set; }
     public List<StepHistoryEntry> StepHistory { get; set; } = new();
+    public IssuedCertificate? Certificate { get; set; }
+    public List<GeneratedDocument> Documents { get; set; } = new();
     
     public DateTime StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
@@ -20,6 +25,50 @@ public class WorkflowInstance
     public string CreatedBy { get; set; } = string.Empty;
     public int Priority { get; set; } = 3; // 1=Urgent, 2=High, 3=Normal
     public string? Tags { get; set; }
+
+    /// <summary>
+    /// Whether a step can be submitted: the current step, or an in-progress branch of the parallel step
+    /// </summary>
+    public bool IsOpenStep(string stepId) => ActiveSteps.Count == 0
+        ? CurrentStep == stepId
+        : ActiveSteps.Any(s => s.Status == "in_progress" && s.StepId == stepId);
+
+    /// <summary>
+    /// Whether the instance waits on a role, at the current step or on a parallel branch
+    /// </summary>
+    public bool IsAssignedTo(string actor) =>
+        AssignedActor == actor || ActiveSteps.Any(s => s.Status == "in_progress" && s.AssignedActor == actor);
+
+    /// <summary>
+    /// Whether the instance is still a draft of its creator: in progress at the creator's own step,
+    /// outside a parallel step and with nobody else's entries in its history
+    /// </summary>
+    public bool IsDraftOf(string email, string role) =>
+        Status == "in_progress"
+        && !string.IsNullOrEmpty(email) && CreatedBy == email
+        && !string.IsNullOrEmpty(role) && AssignedActor == role
+        && ActiveSteps.Count == 0
+        && StepHistory.All(h => h.ActorRole == role);
+
+    /// <summary>
+    /// Whether a user has acted on the instance: created it or completed one of its steps
+    /// </summary>
+    public bool HasActor(string email) =>
+        !string.IsNullOrEmpty(email) && (CreatedBy == email || StepHistory.Any(h => h.CompletedBy == email));
+}
+
+/// <summary>
+/// Branch of a parallel step and the step it has reached
+/// </summary>
+public class ActiveStep
+{
+    public string Branch { get; set; } = string.Empty; // first step of the branch
+    public string StepId { get; set; } = string.Empty;
+    public string? AssignedActor { get; set; }
+    public string Status { get; set; } = "pending"; // pending, in_progress, completed, cancelled
+    public DateTime? StartedAt { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public string? CompletedBy { get; set; }
 }
 
 public class SendBackInfo
@@ -30,6 +79,31 @@ public class SendBackInfo
     public DateTime SentBackAt { get; set; }
 }
 
+/// <summary>
+/// Certificate issued when a workflow instance completes
+/// </summary>
+public class IssuedCertificate
+{
+    public string CertificateNumber { get; set; } = string.Empty;
+    public DateTime IssuedAt { get; set; }
+    public DateTime? ValidUntil { get; set; }
+    public string IssuedTo { get; set; } = string.Empty;
+    public string Status { get; set; } = "valid"; // valid, revoked
+}
+
+/// <summary>
+/// Document produced for an instance by the system (e.g. the certificate PDF), stored through IFileStorageService
+/// </summary>
+public class GeneratedDocument
+{
+    public string Id { get; set; } = string.Empty; // stored file name
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long FileSize { get; set; }
+    public string Kind { get; set; } = string.Empty; // certificate, report, ...
+    public DateTime GeneratedAt { get; set; }
+}
+
 public class StepHistoryEntry
 {
     public string StepId { get; set; } = string.Empty;
@@ -38,7 +112,7 @@ public class StepHistoryEntry
     public string ActorRole { get; set; } = string.Empty;
     public Dictionary<string, object> DataSnapshot { get; set; } = new();
     public Dictionary<string, FieldChange>? ChangedFields { get; set; }
-    public string? Decision { get; set; } // approve, reject, send_back, clarification
+    public string? Decision { get; set; } // approve, reject, send_back, clarification, discard, action_completed, action_failed, parallel_joined, migrated
     public string? Comments { get; set; }
     public int? ProcessingTimeMinutes { get; set; }
 }
@@ -56,7 +130,8 @@ public class WorkflowSubmission
     public Dictionary<string, object> FormData { get; set; } = new();
     public string? Decision { get; set; }
     public string? Comments { get; set; }
-    public string SubmittedBy { get; set; } = string.Empty;
+    public string SubmittedBy { get; set; } = string.Empty; // set from the bearer token by the engine
+    public string? NextStep { get; set; } // target of the step's overrides.next chosen by the client
 }
 
 public class WorkflowInstanceCreateRequest
@@ -66,3 +141,9 @@ public class WorkflowInstanceCreateRequest
     public int Priority { get; set; } = 3;
     public string? Tags { get; set; }
 }
+
+public class WorkflowDiscardRequest
+{
+    public string DiscardedBy { get; set; } = string.Empty; // set from the bearer token by the engine
+    public string? Comments { get; set; }
+}
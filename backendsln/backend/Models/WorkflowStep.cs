@@ -9,6 +9,7 @@ public class WorkflowStep
     
     public List<FormField> Fields { get; set; } = new();
     public StepConfiguration StepConfig { get; set; } = new();
+    public Dictionary<string, StepPermission>? Permissions { get; set; }
     public List<string> Validations { get; set; } = new();
     public List<ValidationMessage>? ValidationMessages { get; set; }
 }
@@ -59,11 +60,23 @@ public class FieldValidation
 public class StepConfiguration
 {
     public bool CanSendBack { get; set; }
+    public string? SendBackTarget { get; set; }
     public int EstimatedDurationHours { get; set; }
+    public int? EscalationAfterHours { get; set; }
     public string? NextStep { get; set; }
     public bool IsMandatory { get; set; }
 }
 
+public class StepPermission
+{
+    public List<string>? CanEdit { get; set; }
+    public List<string>? CanView { get; set; }
+    public bool? CanSendBack { get; set; }
+    public bool? CanApprove { get; set; }
+    public bool? CanReject { get; set; }
+    public bool? CanOverride { get; set; }
+}
+
 public class ValidationMessage
 {
     public string RuleId { get; set; } = string.Empty;
@@ -1,4 +1,5 @@
 using backend.Services;
+using backend.Services.SystemActions;
 using backend.Validation;
 using backend.Data;
 using Microsoft.EntityFrameworkCore;
@@ -66,6 +67,19 @@ builder.Services.AddScoped<IWorkflowRepository, EfCoreWorkflowRepository>();
 builder.Services.AddSingleton<ValidationRuleFactory>();
 builder.Services.AddScoped<IWorkflowEngine, WorkflowEngine>();
 builder.Services.AddSingleton<IFileStorageService, LocalFileStorageService>();
+builder.Services.AddSingleton<IAuthService, DevAuthService>();
+builder.Services.AddSingleton<INotificationChannel, LocalSmtpEmailChannel>();
+builder.Services.AddSingleton<INotificationService, InMemoryNotificationService>();
+
+// System actions, run in the background when an instance reaches a system_action step
+builder.Services.AddHttpClient<GenerateCertificatePdfAction>();
+builder.Services.AddTransient<ISystemAction>(sp => sp.GetRequiredService<GenerateCertificatePdfAction>());
+builder.Services.AddTransient<ISystemAction, SubmitApplicationAction>();
+builder.Services.AddSingleton<SystemActionQueue>();
+builder.Services.AddHostedService<SystemActionWorker>();
+
+// SLA escalations of steps that wait too long, checked in the background
+builder.Services.AddHostedService<SlaEscalationWorker>();
 
 var app = builder.Build();
 
@@ -0,0 +1,110 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Development stand-in for an identity provider
+/// One demo user per workflow role plus an administrator, all sharing the password "dev"; tokens are opaque and kept in memory.
+/// </summary>
+public class DevAuthService : IAuthService
+{
+    private const string DevPassword = "dev";
+    private static readonly TimeSpan AccessTokenLifetime = TimeSpan.FromMinutes(15);
+
+    private static readonly List<AuthUser> _users = new()
+    {
+        new AuthUser { Email = "customer@example.com", DisplayName = "Demo Customer", Role = "customer" },
+        new AuthUser { Email = "inspector@example.com", DisplayName = "Demo Inspector", Role = "inspector" },
+        new AuthUser { Email = "engineer@example.com", DisplayName = "Demo Senior Engineer", Role = "senior_engineer" },
+        new AuthUser { Email = "lab@example.com", DisplayName = "Demo Lab Technician", Role = "lab_technician" },
+        new AuthUser { Email = "quality@example.com", DisplayName = "Demo Quality Reviewer", Role = "quality_reviewer" },
+        new AuthUser { Email = "compliance@example.com", DisplayName = "Demo Compliance Officer", Role = "compliance_officer" },
+        new AuthUser { Email = "manager@example.com", DisplayName = "Demo Manager", Role = "manager" },
+        new AuthUser { Email = "admin@example.com", DisplayName = "Demo Administrator", Role = "admin" }
+    };
+
+    private readonly ConcurrentDictionary<string, (AuthUser User, DateTime ExpiresAt, string RefreshToken)> _accessTokens = new();
+    private readonly ConcurrentDictionary<string, AuthUser> _refreshTokens = new();
+    private readonly ILogger<DevAuthService> _logger;
+
+    public DevAuthService(ILogger<DevAuthService> logger)
+    {
+        _logger = logger;
+    }
+
+    public AuthTokenResponse? Login(string email, string password)
+    {
+        var user = _users.FirstOrDefault(u => string.Equals(u.Email, email, StringComparison.OrdinalIgnoreCase));
+        if (user == null || password != DevPassword)
+        {
+            _logger.LogWarning("Failed login for {Email}", email);
+            return null;
+        }
+
+        _logger.LogInformation("User {Email} signed in as {Role}", user.Email, user.Role);
+        return IssueTokens(user);
+    }
+
+    public AuthTokenResponse? Refresh(string refreshToken)
+    {
+        // Refresh tokens are single use
+        if (!_refreshTokens.TryRemove(refreshToken, out var user))
+        {
+            return null;
+        }
+
+        foreach (var entry in _accessTokens.Where(t => t.Value.RefreshToken == refreshToken).ToList())
+        {
+            _accessTokens.TryRemove(entry.Key, out _);
+        }
+
+        return IssueTokens(user);
+    }
+
+    public AuthUser? GetUser(string accessToken)
+    {
+        if (!_accessTokens.TryGetValue(accessToken, out var token))
+        {
+            return null;
+        }
+
+        if (token.ExpiresAt <= DateTime.UtcNow)
+        {
+            _accessTokens.TryRemove(accessToken, out _);
+            return null;
+        }
+
+        return token.User;
+    }
+
+    public void Logout(string accessToken)
+    {
+        if (_accessTokens.TryRemove(accessToken, out var token))
+        {
+            _refreshTokens.TryRemove(token.RefreshToken, out _);
+        }
+    }
+
+    public IReadOnlyList<AuthUser> GetUsers() => _users;
+
+    private AuthTokenResponse IssueTokens(AuthUser user)
+    {
+        var accessToken = CreateToken();
+        var refreshToken = CreateToken();
+
+        _accessTokens[accessToken] = (user, DateTime.UtcNow.Add(AccessTokenLifetime), refreshToken);
+        _refreshTokens[refreshToken] = user;
+
+        return new AuthTokenResponse
+        {
+            AccessToken = accessToken,
+            RefreshToken = refreshToken,
+            ExpiresIn = (int)AccessTokenLifetime.TotalSeconds,
+            User = user
+        };
+    }
+
+    private static string CreateToken() => Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+}
@@ -51,6 +51,10 @@ public class EfCoreWorkflowRepository : IWorkflowRepository
                 existingEntity.CurrentDataJson = entity.CurrentDataJson;
                 existingEntity.SendBackInfoJson = entity.SendBackInfoJson;
                 existingEntity.StepHistoryJson = entity.StepHistoryJson;
+                existingEntity.CertificateJson = entity.CertificateJson;
+                existingEntity.DocumentsJson = entity.DocumentsJson;
+                existingEntity.ActiveStepsJson = entity.ActiveStepsJson;
+                existingEntity.StepVersionsJson = entity.StepVersionsJson;
                 _logger.LogInformation("Updating workflow instance {InstanceId}", instance.Id);
             }
 
@@ -74,14 +78,18 @@ public class EfCoreWorkflowRepository : IWorkflowRepository
 
         if (!string.IsNullOrEmpty(actor))
         {
-            query = query.Where(w => w.AssignedActor == actor);
+            // Parallel branches are matched once loaded
+            query = query.Where(w => w.AssignedActor == actor || w.ActiveStepsJson != null);
         }
 
         var entities = await query
             .OrderByDescending(w => w.StartedAt)
             .ToListAsync();
 
-        return entities.Select(e => e.ToModel()).ToList();
+        var instances = entities.Select(e => e.ToModel());
+        return string.IsNullOrEmpty(actor)
+            ? instances.ToList()
+            : instances.Where(w => w.IsAssignedTo(actor)).ToList();
     }
 
     public async Task<List<WorkflowInstance>> GetWorkflowsByCreatorAsync(string createdBy)
@@ -95,6 +103,26 @@ public class EfCoreWorkflowRepository : IWorkflowRepository
         return entities.Select(e => e.ToModel()).ToList();
     }
 
+    public async Task<WorkflowInstance?> GetWorkflowByCertificateNumberAsync(string certificateNumber)
+    {
+        var entity = await _context.WorkflowInstances
+            .AsNoTracking()
+            .FirstOrDefaultAsync(w => w.CertificateNumber == certificateNumber);
+
+        return entity?.ToModel();
+    }
+
+    public async Task<List<WorkflowInstance>> GetWorkflowsByDefinitionAsync(string definitionId)
+    {
+        var entities = await _context.WorkflowInstances
+            .AsNoTracking()
+            .Where(w => w.DefinitionId == definitionId)
+            .OrderByDescending(w => w.StartedAt)
+            .ToListAsync();
+
+        return entities.Select(e => e.ToModel()).ToList();
+    }
+
     public async Task<List<WorkflowInstance>> GetAllWorkflowInstancesAsync()
     {
         var entities = await _context.WorkflowInstances
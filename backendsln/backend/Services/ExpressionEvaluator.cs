@@ -0,0 +1,725 @@
+using System.Collections;
+using System.Collections.Concurrent;
+using System.Globalization;
+using System.Text.Json;
+
+namespace backend.Services;
+
+/// <summary>
+/// Raised when an expression cannot be parsed or evaluated
+/// </summary>
+public class ExpressionException : Exception
+{
+    // The browser may evaluate it (e.g. `new Date()`), so the server cannot tell what it would decide
+    public bool NotSupportedOnServer { get; }
+
+    public ExpressionException(string message, bool notSupportedOnServer = false) : base(message)
+    {
+        NotSupportedOnServer = notSupportedOnServer;
+    }
+}
+
+/// <summary>
+/// Server-side interpreter for the JSON expression language of the frontend (common/expression-parser.ts),
+/// so conditions such as transition "when" clauses are decided here rather than trusted from the client.
+/// Covers literals, model access, comparison, arithmetic, logical and conditional operators, a few string
+/// and array methods and the global functions and Math helpers of the browser; constructors and Date methods
+/// raise an ExpressionException marked NotSupportedOnServer instead of being guessed at.
+/// </summary>
+public static class ExpressionEvaluator
+{
+    // Stands in for JavaScript's undefined: a missing property, unlike a stored null
+    public static readonly object Undefined = new();
+
+    private static readonly ConcurrentDictionary<string, Node> _compiled = new();
+
+    private static readonly string[] Operators =
+    {
+        "===", "!==", "?.", "??", "==", "!=", "<=", ">=", "&&", "||",
+        "<", ">", "+", "-", "*", "/", "%", "!", "?", ":"
+    };
+    private const string Punctuation = "()[],.";
+
+    private static readonly Dictionary<string, int> BinaryPrecedence = new()
+    {
+        ["??"] = 1,
+        ["||"] = 2,
+        ["&&"] = 3,
+        ["=="] = 4, ["!="] = 4, ["==="] = 4, ["!=="] = 4,
+        ["<"] = 5, ["<="] = 5, [">"] = 5, [">="] = 5,
+        ["+"] = 6, ["-"] = 6,
+        ["*"] = 7, ["/"] = 7, ["%"] = 7
+    };
+
+    private static readonly HashSet<string> BlockedProperties = new()
+    {
+        "__proto__", "prototype", "constructor", "__defineGetter__", "__defineSetter__", "__lookupGetter__", "__lookupSetter__"
+    };
+
+    /// <summary>
+    /// Evaluate an expression against a model and tell whether the result is truthy
+    /// </summary>
+    /// <exception cref="ExpressionException">If the expression is malformed or not supported on the server</exception>
+    public static bool IsTruthy(string expression, IDictionary<string, object> model)
+    {
+        return Truthy(Evaluate(expression, model));
+    }
+
+    /// <summary>
+    /// Evaluate an expression against a model; as in the browser, `model`, an empty `formState` and no `field` are in scope
+    /// </summary>
+    /// <exception cref="ExpressionException">If the expression is malformed or not supported on the server</exception>
+    public static object? Evaluate(string expression, IDictionary<string, object> model)
+    {
+        var ast = _compiled.GetOrAdd(expression, expr => new Parser(expr).Parse());
+
+        var scope = new Dictionary<string, object?>
+        {
+            ["model"] = FromClr(model),
+            ["formState"] = new Dictionary<string, object?>(),
+            ["field"] = Undefined
+        };
+        return Interpret(ast, scope);
+    }
+
+    /* ===== AST ===== */
+
+    private abstract record Node;
+    private sealed record Literal(object? Value) : Node;
+    private sealed record Identifier(string Name) : Node;
+    private sealed record ArrayNode(List<Node> Elements) : Node;
+    private sealed record Member(Node Object, Node Property, bool Optional) : Node;
+    private sealed record Call(Node Callee, List<Node> Args, bool Optional) : Node;
+    private sealed record Unary(string Operator, Node Argument) : Node;
+    private sealed record Binary(string Operator, Node Left, Node Right) : Node;
+    private sealed record Conditional(Node Test, Node Consequent, Node Alternate) : Node;
+
+    private enum TokenType { Number, String, Identifier, Operator, Punctuation, Eof }
+
+    private sealed record Token(TokenType Type, string Value, int Position);
+
+    /* ===== Parser ===== */
+
+    private sealed class Parser
+    {
+        private readonly string _expression;
+        private readonly List<Token> _tokens;
+        private int _index;
+
+        public Parser(string expression)
+        {
+            _expression = expression;
+            _tokens = Tokenize(expression);
+        }
+
+        public Node Parse()
+        {
+            if (Peek().Type == TokenType.Eof)
+            {
+                throw Fail("Empty expression");
+            }
+
+            var node = ParseConditional();
+            if (Peek().Type != TokenType.Eof)
+            {
+                throw Fail($"Unexpected token \"{Peek().Value}\"");
+            }
+            return node;
+        }
+
+        private Node ParseConditional()
+        {
+            var test = ParseBinary(1);
+            if (!Match(TokenType.Operator, "?")) return test;
+
+            var consequent = ParseConditional();
+            Expect(TokenType.Operator, ":");
+            var alternate = ParseConditional();
+            return new Conditional(test, consequent, alternate);
+        }
+
+        private Node ParseBinary(int minPrecedence)
+        {
+            var left = ParseUnary();
+
+            while (true)
+            {
+                var token = Peek();
+                if (token.Type != TokenType.Operator
+                    || !BinaryPrecedence.TryGetValue(token.Value, out var precedence)
+                    || precedence < minPrecedence)
+                {
+                    return left;
+                }
+
+                _index++;
+                left = new Binary(token.Value, left, ParseBinary(precedence + 1));
+            }
+        }
+
+        private Node ParseUnary()
+        {
+            var token = Peek();
+            if (token.Type == TokenType.Operator && token.Value is "!" or "-" or "+")
+            {
+                _index++;
+                return new Unary(token.Value, ParseUnary());
+            }
+            return ParsePostfix(ParsePrimary());
+        }
+
+        private Node ParsePostfix(Node node)
+        {
+            while (true)
+            {
+                if (Match(TokenType.Punctuation, "."))
+                {
+                    node = new Member(node, ParsePropertyName(), false);
+                }
+                else if (Match(TokenType.Operator, "?."))
+                {
+                    if (Match(TokenType.Punctuation, "("))
+                    {
+                        node = new Call(node, ParseList(")"), true);
+                    }
+                    else if (Match(TokenType.Punctuation, "["))
+                    {
+                        var property = ParseConditional();
+                        Expect(TokenType.Punctuation, "]");
+                        node = new Member(node, property, true);
+                    }
+                    else
+                    {
+                        node = new Member(node, ParsePropertyName(), true);
+                    }
+                }
+                else if (Match(TokenType.Punctuation, "["))
+                {
+                    var property = ParseConditional();
+                    Expect(TokenType.Punctuation, "]");
+                    node = new Member(node, property, false);
+                }
+                else if (Match(TokenType.Punctuation, "("))
+                {
+                    node = new Call(node, ParseList(")"), false);
+                }
+                else
+                {
+                    return node;
+                }
+            }
+        }
+
+        private Node ParsePrimary()
+        {
+            var token = Peek();
+            switch (token.Type)
+            {
+                case TokenType.Number:
+                    _index++;
+                    if (!double.TryParse(token.Value, NumberStyles.Float, CultureInfo.InvariantCulture, out var number))
+                    {
+                        throw Fail($"Invalid number \"{token.Value}\"", token);
+                    }
+                    return new Literal(number);
+                case TokenType.String:
+                    _index++;
+                    return new Literal(token.Value);
+                case TokenType.Identifier:
+                    _index++;
+                    return token.Value switch
+                    {
+                        "true" => new Literal(true),
+                        "false" => new Literal(false),
+                        "null" => new Literal(null),
+                        "undefined" => new Literal(Undefined),
+                        "new" => throw new ExpressionException($"Constructors are not evaluated on the server: \"{_expression}\"", true),
+                        _ => new Identifier(token.Value)
+                    };
+                case TokenType.Punctuation when Match(TokenType.Punctuation, "("):
+                    var inner = ParseConditional();
+                    Expect(TokenType.Punctuation, ")");
+                    return inner;
+                case TokenType.Punctuation when Match(TokenType.Punctuation, "["):
+                    return new ArrayNode(ParseList("]"));
+            }
+
+            throw Fail(token.Type == TokenType.Eof ? "Unexpected end of expression" : $"Unexpected token \"{token.Value}\"", token);
+        }
+
+        private Node ParsePropertyName()
+        {
+            var token = Peek();
+            if (token.Type != TokenType.Identifier)
+            {
+                throw Fail("Expected property name", token);
+            }
+            _index++;
+            return new Literal(token.Value);
+        }
+
+        private List<Node> ParseList(string closing)
+        {
+            var items = new List<Node>();
+            if (Match(TokenType.Punctuation, closing)) return items;
+
+            do
+            {
+                items.Add(ParseConditional());
+            } while (Match(TokenType.Punctuation, ","));
+
+            Expect(TokenType.Punctuation, closing);
+            return items;
+        }
+
+        private Token Peek() => _tokens[_index];
+
+        private bool Match(TokenType type, string value)
+        {
+            var token = Peek();
+            if (token.Type == type && token.Value == value)
+            {
+                _index++;
+                return true;
+            }
+            return false;
+        }
+
+        private void Expect(TokenType type, string value)
+        {
+            if (!Match(type, value))
+            {
+                throw Fail($"Expected \"{value}\"");
+            }
+        }
+
+        private ExpressionException Fail(string message, Token? token = null) =>
+            new($"{message} at position {(token ?? Peek()).Position} in \"{_expression}\"");
+
+        private static List<Token> Tokenize(string expression)
+        {
+            var tokens = new List<Token>();
+            var i = 0;
+
+            while (i < expression.Length)
+            {
+                var c = expression[i];
+
+                if (char.IsWhiteSpace(c))
+                {
+                    i++;
+                    continue;
+                }
+
+                // Numbers (integers and decimals)
+                if (char.IsAsciiDigit(c) || (c == '.' && i + 1 < expression.Length && char.IsAsciiDigit(expression[i + 1])))
+                {
+                    var start = i;
+                    while (i < expression.Length && (char.IsAsciiDigit(expression[i]) || expression[i] == '.')) i++;
+                    tokens.Add(new Token(TokenType.Number, expression[start..i], start));
+                    continue;
+                }
+
+                // Identifiers and keywords
+                if (char.IsAsciiLetter(c) || c is '_' or '$')
+                {
+                    var start = i;
+                    while (i < expression.Length && (char.IsAsciiLetterOrDigit(expression[i]) || expression[i] is '_' or '$')) i++;
+                    tokens.Add(new Token(TokenType.Identifier, expression[start..i], start));
+                    continue;
+                }
+
+                // Single or double quoted strings
+                if (c is '\'' or '"')
+                {
+                    var start = i;
+                    var value = new System.Text.StringBuilder();
+                    i++;
+                    while (i < expression.Length && expression[i] != c)
+                    {
+                        if (expression[i] == '\\' && i + 1 < expression.Length)
+                        {
+                            i++;
+                            value.Append(expression[i] switch { 'n' => '\n', 't' => '\t', var escaped => escaped });
+                        }
+                        else
+                        {
+                            value.Append(expression[i]);
+                        }
+                        i++;
+                    }
+                    if (i >= expression.Length)
+                    {
+                        throw new ExpressionException($"Unterminated string literal at position {start} in \"{expression}\"");
+                    }
+                    i++;
+                    tokens.Add(new Token(TokenType.String, value.ToString(), start));
+                    continue;
+                }
+
+                // `?.` followed by a digit is a ternary with a decimal, not optional chaining
+                var op = Operators.FirstOrDefault(o =>
+                    string.CompareOrdinal(expression, i, o, 0, o.Length) == 0
+                    && !(o == "?." && i + 2 < expression.Length && char.IsAsciiDigit(expression[i + 2])));
+                if (op != null)
+                {
+                    tokens.Add(new Token(TokenType.Operator, op, i));
+                    i += op.Length;
+                    continue;
+                }
+
+                if (Punctuation.Contains(c))
+                {
+                    tokens.Add(new Token(TokenType.Punctuation, c.ToString(), i));
+                    i++;
+                    continue;
+                }
+
+                throw new ExpressionException($"Unexpected character \"{c}\" at position {i} in \"{expression}\"");
+            }
+
+            tokens.Add(new Token(TokenType.Eof, string.Empty, expression.Length));
+            return tokens;
+        }
+    }
+
+    /* ===== Interpreter ===== */
+
+    private static object? Interpret(Node node, Dictionary<string, object?> scope)
+    {
+        switch (node)
+        {
+            case Literal literal:
+                return literal.Value;
+
+            case Identifier identifier:
+                if (scope.TryGetValue(identifier.Name, out var value)) return value;
+                if (identifier.Name is "Math" or "isEmpty" or "length" or "Number" or "String" or "Boolean"
+                    or "parseInt" or "parseFloat" or "isNaN" or "today" or "now")
+                {
+                    return new FunctionRef(identifier.Name);
+                }
+                throw new ExpressionException($"Unknown identifier \"{identifier.Name}\"");
+
+            case ArrayNode array:
+                return array.Elements.Select(e => Interpret(e, scope)).ToList();
+
+            case Member member:
+                return ReadProperty(Interpret(member.Object, scope), Interpret(member.Property, scope));
+
+            case Call call:
+                return InterpretCall(call, scope);
+
+            case Unary unary:
+            {
+                var argument = Interpret(unary.Argument, scope);
+                return unary.Operator switch
+                {
+                    "!" => !Truthy(argument),
+                    "-" => -ToNumber(argument),
+                    _ => ToNumber(argument)
+                };
+            }
+
+            case Binary { Operator: "&&" } logicalAnd:
+            {
+                var left = Interpret(logicalAnd.Left, scope);
+                return Truthy(left) ? Interpret(logicalAnd.Right, scope) : left;
+            }
+
+            case Binary { Operator: "||" } logicalOr:
+            {
+                var left = Interpret(logicalOr.Left, scope);
+                return Truthy(left) ? left : Interpret(logicalOr.Right, scope);
+            }
+
+            case Binary { Operator: "??" } coalesce:
+            {
+                var left = Interpret(coalesce.Left, scope);
+                return IsNullish(left) ? Interpret(coalesce.Right, scope) : left;
+            }
+
+            case Binary binary:
+                return ApplyBinary(binary.Operator, Interpret(binary.Left, scope), Interpret(binary.Right, scope));
+
+            case Conditional conditional:
+                return Truthy(Interpret(conditional.Test, scope))
+                    ? Interpret(conditional.Consequent, scope)
+                    : Interpret(conditional.Alternate, scope);
+        }
+
+        throw new ExpressionException($"Unsupported expression node {node.GetType().Name}");
+    }
+
+    // A whitelisted global function or namespace, resolved when it is called
+    private sealed record FunctionRef(string Name);
+
+    private static object? InterpretCall(Call call, Dictionary<string, object?> scope)
+    {
+        List<object?> Args() => call.Args.Select(a => Interpret(a, scope)).ToList();
+
+        // Method call: target.method(...)
+        if (call.Callee is Member member)
+        {
+            var target = Interpret(member.Object, scope);
+            var name = ToJsString(Interpret(member.Property, scope));
+            if (IsNullish(target)) return Undefined;
+
+            if (BlockedProperties.Contains(name))
+            {
+                throw new ExpressionException($"Method \"{name}\" is not allowed");
+            }
+
+            return CallMethod(target, name, Args(), call.Optional);
+        }
+
+        var callee = Interpret(call.Callee, scope);
+        if (callee is not FunctionRef function || function.Name == "Math")
+        {
+            if (call.Optional && IsNullish(callee)) return Undefined;
+            throw new ExpressionException("Expression is not a callable function");
+        }
+
+        var args = Args();
+        var first = args.Count > 0 ? args[0] : Undefined;
+        return function.Name switch
+        {
+            "isEmpty" => first is null || first == Undefined || first is "" || first is List<object?> { Count: 0 },
+            "length" => first is string s ? s.Length : first is List<object?> list ? list.Count : 0d,
+            "Number" => ToNumber(first),
+            "String" => IsNullish(first) ? string.Empty : ToJsString(first),
+            "Boolean" => Truthy(first),
+            "parseInt" => ParseLeadingNumber(ToJsString(first), integer: true),
+            "parseFloat" => ParseLeadingNumber(ToJsString(first), integer: false),
+            "isNaN" => double.IsNaN(ToNumber(first)),
+            "today" => DateTime.UtcNow.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture),
+            "now" => DateTime.UtcNow.ToString("yyyy-MM-dd'T'HH:mm:ss.fff'Z'", CultureInfo.InvariantCulture),
+            _ => throw new ExpressionException($"Function \"{function.Name}\" is not allowed")
+        };
+    }
+
+    private static object? CallMethod(object? target, string name, List<object?> args, bool optional)
+    {
+        string Arg(int index) => index < args.Count ? ToJsString(args[index]) : "undefined";
+
+        switch (target)
+        {
+            case FunctionRef { Name: "Math" }:
+            {
+                var numbers = args.Select(ToNumber).ToList();
+                switch (name)
+                {
+                    case "abs": return Math.Abs(numbers.FirstOrDefault(double.NaN));
+                    case "ceil": return Math.Ceiling(numbers.FirstOrDefault(double.NaN));
+                    case "floor": return Math.Floor(numbers.FirstOrDefault(double.NaN));
+                    case "round": return Math.Floor(numbers.FirstOrDefault(double.NaN) + 0.5);
+                    case "max": return numbers.Count == 0 ? double.NegativeInfinity : numbers.Max();
+                    case "min": return numbers.Count == 0 ? double.PositiveInfinity : numbers.Min();
+                }
+                break;
+            }
+            case string s:
+                switch (name)
+                {
+                    case "includes": return s.Contains(Arg(0), StringComparison.Ordinal);
+                    case "startsWith": return s.StartsWith(Arg(0), StringComparison.Ordinal);
+                    case "endsWith": return s.EndsWith(Arg(0), StringComparison.Ordinal);
+                    case "indexOf": return (double)s.IndexOf(Arg(0), StringComparison.Ordinal);
+                    case "toLowerCase": return s.ToLowerInvariant();
+                    case "toUpperCase": return s.ToUpperInvariant();
+                    case "trim": return s.Trim();
+                    case "toString": return s;
+                }
+                break;
+            case List<object?> list:
+                switch (name)
+                {
+                    case "includes": return list.Any(item => StrictEquals(item, args.Count > 0 ? args[0] : Undefined));
+                    case "indexOf":
+                        var index = list.FindIndex(item => StrictEquals(item, args.Count > 0 ? args[0] : Undefined));
+                        return (double)index;
+                    case "join": return string.Join(args.Count > 0 ? Arg(0) : ",", list.Select(item => IsNullish(item) ? string.Empty : ToJsString(item)));
+                }
+                break;
+            case double number when name == "toString":
+                return ToJsString(number);
+        }
+
+        if (optional) return Undefined;
+        throw new ExpressionException($"Method \"{name}\" is not evaluated on the server", true);
+    }
+
+    /// <summary>
+    /// Read a property; missing objects yield undefined instead of throwing
+    /// </summary>
+    private static object? ReadProperty(object? target, object? property)
+    {
+        if (IsNullish(target)) return Undefined;
+
+        var name = ToJsString(property);
+        if (BlockedProperties.Contains(name))
+        {
+            throw new ExpressionException($"Access to \"{name}\" is not allowed");
+        }
+
+        switch (target)
+        {
+            case string s when name == "length":
+                return (double)s.Length;
+            case string s:
+                return int.TryParse(name, out var charIndex) && charIndex >= 0 && charIndex < s.Length ? s[charIndex].ToString() : Undefined;
+            case List<object?> list when name == "length":
+                return (double)list.Count;
+            case List<object?> list:
+                return int.TryParse(name, out var itemIndex) && itemIndex >= 0 && itemIndex < list.Count ? list[itemIndex] : Undefined;
+            case Dictionary<string, object?> map:
+                return map.TryGetValue(name, out var value) ? value : Undefined;
+            case FunctionRef { Name: "Math" }:
+                return new FunctionRef(name);
+        }
+
+        return Undefined;
+    }
+
+    private static object? ApplyBinary(string op, object? left, object? right)
+    {
+        switch (op)
+        {
+            case "===": return StrictEquals(left, right);
+            case "!==": return !StrictEquals(left, right);
+            case "==": return LooseEquals(left, right);
+            case "!=": return !LooseEquals(left, right);
+            case "<": case "<=": case ">": case ">=":
+                return Compare(op, left, right);
+            case "+":
+                if (left is string || right is string) return ToJsString(left) + ToJsString(right);
+                return ToNumber(left) + ToNumber(right);
+            case "-": return ToNumber(left) - ToNumber(right);
+            case "*": return ToNumber(left) * ToNumber(right);
+            case "/": return ToNumber(left) / ToNumber(right);
+            case "%": return ToNumber(left) % ToNumber(right);
+        }
+
+        throw new ExpressionException($"Unsupported operator \"{op}\"");
+    }
+
+    private static bool Compare(string op, object? left, object? right)
+    {
+        if (left is string a && right is string b)
+        {
+            var order = string.CompareOrdinal(a, b);
+            return op switch { "<" => order < 0, "<=" => order <= 0, ">" => order > 0, _ => order >= 0 };
+        }
+
+        var x = ToNumber(left);
+        var y = ToNumber(right);
+        return op switch { "<" => x < y, "<=" => x <= y, ">" => x > y, _ => x >= y };
+    }
+
+    /* ===== JavaScript value semantics ===== */
+
+    private static bool IsNullish(object? value) => value is null || value == Undefined;
+
+    private static bool Truthy(object? value) => value switch
+    {
+        null => false,
+        bool b => b,
+        double d => d != 0 && !double.IsNaN(d),
+        string s => s.Length > 0,
+        _ => value != Undefined
+    };
+
+    private static bool StrictEquals(object? left, object? right) => (left, right) switch
+    {
+        (null, null) => true,
+        (double a, double b) => a == b,
+        (string a, string b) => a == b,
+        (bool a, bool b) => a == b,
+        _ => ReferenceEquals(left, right)
+    };
+
+    private static bool LooseEquals(object? left, object? right)
+    {
+        if (IsNullish(left) || IsNullish(right)) return IsNullish(left) && IsNullish(right);
+        if (left?.GetType() == right?.GetType()) return StrictEquals(left, right);
+        if (left is List<object?> || left is Dictionary<string, object?> || right is List<object?> || right is Dictionary<string, object?>)
+        {
+            return ToJsString(left) == ToJsString(right);
+        }
+        return ToNumber(left) == ToNumber(right);
+    }
+
+    private static double ToNumber(object? value) => value switch
+    {
+        null => 0,
+        double d => d,
+        bool b => b ? 1 : 0,
+        string s when string.IsNullOrWhiteSpace(s) => 0,
+        string s => double.TryParse(s.Trim(), NumberStyles.Float, CultureInfo.InvariantCulture, out var d) ? d : double.NaN,
+        _ => double.NaN
+    };
+
+    private static string ToJsString(object? value) => value switch
+    {
+        null => "null",
+        string s => s,
+        bool b => b ? "true" : "false",
+        double d when double.IsNaN(d) => "NaN",
+        double d when double.IsPositiveInfinity(d) => "Infinity",
+        double d when double.IsNegativeInfinity(d) => "-Infinity",
+        double d => d.ToString("R", CultureInfo.InvariantCulture),
+        List<object?> list => string.Join(",", list.Select(item => IsNullish(item) ? string.Empty : ToJsString(item))),
+        Dictionary<string, object?> => "[object Object]",
+        _ when value == Undefined => "undefined",
+        _ => value.ToString() ?? string.Empty
+    };
+
+    private static double ParseLeadingNumber(string text, bool integer)
+    {
+        var trimmed = text.TrimStart();
+        var length = 0;
+        while (length < trimmed.Length
+            && (char.IsAsciiDigit(trimmed[length])
+                || (length == 0 && trimmed[length] is '-' or '+')
+                || (!integer && trimmed[length] == '.')))
+        {
+            length++;
+        }
+
+        return double.TryParse(trimmed[..length], NumberStyles.Float, CultureInfo.InvariantCulture, out var number)
+            ? (integer ? Math.Truncate(number) : number)
+            : double.NaN;
+    }
+
+    /// <summary>
+    /// Convert instance data (JsonElement values from requests and storage, or plain CLR values) to expression values
+    /// </summary>
+    private static object? FromClr(object? value) => value switch
+    {
+        null => null,
+        JsonElement element => FromJson(element),
+        string s => s,
+        bool b => b,
+        byte or sbyte or short or ushort or int or uint or long or ulong or float or double or decimal =>
+            Convert.ToDouble(value, CultureInfo.InvariantCulture),
+        DateTime date => date.ToString("o", CultureInfo.InvariantCulture),
+        IDictionary<string, object> map => map.ToDictionary(kvp => kvp.Key, kvp => FromClr(kvp.Value)),
+        IDictionary map => map.Keys.Cast<object>().ToDictionary(key => key.ToString() ?? string.Empty, key => FromClr(map[key])),
+        IEnumerable items => items.Cast<object?>().Select(FromClr).ToList(),
+        _ => value.ToString()
+    };
+
+    private static object? FromJson(JsonElement element) => element.ValueKind switch
+    {
+        JsonValueKind.String => element.GetString(),
+        JsonValueKind.Number => element.GetDouble(),
+        JsonValueKind.True => true,
+        JsonValueKind.False => false,
+        JsonValueKind.Array => element.EnumerateArray().Select(FromJson).ToList(),
+        JsonValueKind.Object => element.EnumerateObject()
+            .GroupBy(p => p.Name)
+            .ToDictionary(g => g.Key, g => FromJson(g.Last().Value)),
+        JsonValueKind.Undefined => Undefined,
+        _ => null
+    };
+}
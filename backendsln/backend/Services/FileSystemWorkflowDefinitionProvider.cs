@@ -1,3 +1,6 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using System.Text;
 using System.Text.Json;
 using backend.Models;
 
@@ -6,8 +9,14 @@ namespace backend.Services;
 public class FileSystemWorkflowDefinitionProvider : IWorkflowDefinitionProvider
 {
     private readonly string _workflowBasePath;
+    private readonly string _versionsPath;
     private readonly ILogger<FileSystemWorkflowDefinitionProvider> _logger;
     private readonly JsonSerializerOptions _jsonOptions;
+    private readonly JsonSerializerOptions _snapshotJsonOptions;
+
+    // Published versions never change, so they are read from disk once
+    private readonly ConcurrentDictionary<string, WorkflowDefinitionVersion> _versions = new();
+    private readonly SemaphoreSlim _publishLock = new(1, 1);
 
     public FileSystemWorkflowDefinitionProvider(
         IConfiguration configuration,
@@ -35,12 +44,25 @@ public class FileSystemWorkflowDefinitionProvider : IWorkflowDefinitionProvider
         }
         
         _logger.LogInformation("Workflow base path configured: {BasePath}", _workflowBasePath);
+
+        // Published versions live next to the definitions unless configured elsewhere
+        var configuredVersionsPath = configuration["WorkflowEngine:VersionsPath"];
+        _versionsPath = string.IsNullOrEmpty(configuredVersionsPath)
+            ? Path.Combine(_workflowBasePath, "Versions")
+            : Path.GetFullPath(configuredVersionsPath);
+
+        _logger.LogInformation("Workflow versions path configured: {VersionsPath}", _versionsPath);
         
         _jsonOptions = new JsonSerializerOptions
         {
             PropertyNameCaseInsensitive = true,
             PropertyNamingPolicy = JsonNamingPolicy.CamelCase
         };
+
+        _snapshotJsonOptions = new JsonSerializerOptions(_jsonOptions)
+        {
+            WriteIndented = true
+        };
     }
 
     public async Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId)
@@ -74,11 +96,7 @@ public class FileSystemWorkflowDefinitionProvider : IWorkflowDefinitionProvider
     {
         try
         {
-            // stepRef format: "workflows/Steps/certificate_specific/CT401_new/CT401_step1_data_entry"
-            // Need to convert to file path
-            var stepPath = stepRef.Replace("workflows/", "")
-                                 .Replace("/", Path.DirectorySeparatorChar.ToString());
-            var fullPath = Path.Combine(_workflowBasePath, stepPath + ".json");
+            var fullPath = GetStepFilePath(stepRef);
 
             _logger.LogDebug("Looking for step definition at: {Path}", fullPath);
             _logger.LogDebug("Step reference: {StepRef}", stepRef);
@@ -166,4 +184,223 @@ public class FileSystemWorkflowDefinitionProvider : IWorkflowDefinitionProvider
             return new List<WorkflowDefinition>();
         }
     }
+
+    public async Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId, string? version)
+    {
+        if (string.IsNullOrEmpty(version))
+        {
+            return await GetDefinitionAsync(certificationId);
+        }
+
+        var published = await GetVersionAsync(certificationId, version);
+        return published?.Definition.Deserialize<WorkflowDefinition>(_jsonOptions);
+    }
+
+    public async Task<WorkflowStep?> GetStepDefinitionAsync(string stepRef, string certificationId, string? version)
+    {
+        if (string.IsNullOrEmpty(version))
+        {
+            return await GetStepDefinitionAsync(stepRef);
+        }
+
+        var published = await GetVersionAsync(certificationId, version);
+        if (published == null || !published.Steps.TryGetValue(stepRef, out var step))
+        {
+            _logger.LogWarning("Step {StepRef} not found in {CertificationId} version {Version}", stepRef, certificationId, version);
+            return null;
+        }
+
+        return step.Deserialize<WorkflowStep>(_jsonOptions);
+    }
+
+    public async Task<WorkflowDefinitionVersion?> GetLiveVersionAsync(string certificationId)
+    {
+        try
+        {
+            var definitionPath = Path.Combine(_workflowBasePath, "Definitions", $"{certificationId}.json");
+            if (!File.Exists(definitionPath))
+            {
+                _logger.LogWarning("Workflow definition not found: {Path}", definitionPath);
+                return null;
+            }
+
+            var definitionJson = await File.ReadAllTextAsync(definitionPath);
+            var definitionElement = JsonSerializer.Deserialize<JsonElement>(definitionJson);
+            var definition = definitionElement.Deserialize<WorkflowDefinition>(_jsonOptions);
+            if (definition == null)
+            {
+                return null;
+            }
+
+            var snapshot = new WorkflowDefinitionVersion
+            {
+                DefinitionId = certificationId,
+                Version = definition.Version,
+                Definition = definitionElement
+            };
+
+            // System-action steps have no step file
+            var stepRefs = definition.Steps
+                .Select(s => s.StepRef)
+                .Where(stepRef => !string.IsNullOrEmpty(stepRef))
+                .Distinct();
+
+            foreach (var stepRef in stepRefs)
+            {
+                var stepPath = GetStepFilePath(stepRef);
+                if (!File.Exists(stepPath))
+                {
+                    _logger.LogWarning("Step definition not found while snapshotting {CertificationId}: {Path}", certificationId, stepPath);
+                    continue;
+                }
+
+                var stepJson = await File.ReadAllTextAsync(stepPath);
+                snapshot.Steps[stepRef] = JsonSerializer.Deserialize<JsonElement>(stepJson);
+                snapshot.StepVersions[stepRef] = ComputeHash(stepJson);
+            }
+
+            var hashInput = ComputeHash(definitionJson) + string.Concat(snapshot.StepVersions
+                .OrderBy(s => s.Key, StringComparer.Ordinal)
+                .Select(s => $"|{s.Key}:{s.Value}"));
+            snapshot.ContentHash = ComputeHash(hashInput);
+
+            return snapshot;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error snapshotting workflow definition {CertificationId}", certificationId);
+            return null;
+        }
+    }
+
+    public async Task<WorkflowDefinitionVersion?> GetVersionAsync(string certificationId, string version)
+    {
+        var cacheKey = $"{certificationId}@{version}";
+        if (_versions.TryGetValue(cacheKey, out var cached))
+        {
+            return cached;
+        }
+
+        var path = GetVersionFilePath(certificationId, version);
+        if (path == null || !File.Exists(path))
+        {
+            _logger.LogDebug("Workflow version not published: {CertificationId} {Version}", certificationId, version);
+            return null;
+        }
+
+        try
+        {
+            var json = await File.ReadAllTextAsync(path);
+            var published = JsonSerializer.Deserialize<WorkflowDefinitionVersion>(json, _jsonOptions);
+            if (published != null)
+            {
+                _versions[cacheKey] = published;
+            }
+            return published;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error loading workflow version {CertificationId} {Version}", certificationId, version);
+            return null;
+        }
+    }
+
+    public async Task<List<WorkflowDefinitionVersion>> GetVersionsAsync(string certificationId)
+    {
+        var versions = new List<WorkflowDefinitionVersion>();
+        var directory = GetVersionsDirectory(certificationId);
+        if (directory == null || !Directory.Exists(directory))
+        {
+            return versions;
+        }
+
+        foreach (var file in Directory.GetFiles(directory, "*.json"))
+        {
+            var published = await GetVersionAsync(certificationId, Path.GetFileNameWithoutExtension(file));
+            if (published != null)
+            {
+                versions.Add(published);
+            }
+        }
+
+        return versions.OrderBy(v => v.PublishedAt).ToList();
+    }
+
+    public async Task<WorkflowDefinitionVersion?> PublishVersionAsync(string certificationId)
+    {
+        var live = await GetLiveVersionAsync(certificationId);
+        if (live == null)
+        {
+            return null;
+        }
+
+        var path = GetVersionFilePath(certificationId, live.Version);
+        if (path == null)
+        {
+            _logger.LogWarning("Workflow {CertificationId} has no usable version: '{Version}'", certificationId, live.Version);
+            return null;
+        }
+
+        await _publishLock.WaitAsync();
+        try
+        {
+            var published = await GetVersionAsync(certificationId, live.Version);
+            if (published != null)
+            {
+                if (published.ContentHash != live.ContentHash)
+                {
+                    _logger.LogWarning(
+                        "Workflow {CertificationId} changed since version {Version} was published; bump its version to publish the changes",
+                        certificationId, live.Version);
+                }
+                return published;
+            }
+
+            live.PublishedAt = DateTime.UtcNow;
+            Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+            await File.WriteAllTextAsync(path, JsonSerializer.Serialize(live, _snapshotJsonOptions));
+            _versions[$"{certificationId}@{live.Version}"] = live;
+
+            _logger.LogInformation("Published workflow {CertificationId} version {Version} ({ContentHash})",
+                certificationId, live.Version, live.ContentHash);
+            return live;
+        }
+        finally
+        {
+            _publishLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// stepRef format: "workflows/Steps/certificate_specific/CT401_new/CT401_step1_data_entry"
+    /// </summary>
+    private string GetStepFilePath(string stepRef)
+    {
+        var stepPath = stepRef.Replace("workflows/", "")
+                             .Replace("/", Path.DirectorySeparatorChar.ToString());
+        return Path.Combine(_workflowBasePath, stepPath + ".json");
+    }
+
+    /// <summary>
+    /// Versions/{certificationId}, or null when the id would leave that folder
+    /// </summary>
+    private string? GetVersionsDirectory(string certificationId)
+    {
+        return IsPlainFileName(certificationId) ? Path.Combine(_versionsPath, certificationId) : null;
+    }
+
+    private string? GetVersionFilePath(string certificationId, string version)
+    {
+        var directory = GetVersionsDirectory(certificationId);
+        return directory != null && IsPlainFileName(version) ? Path.Combine(directory, $"{version}.json") : null;
+    }
+
+    private static bool IsPlainFileName(string name) =>
+        !string.IsNullOrWhiteSpace(name) && Path.GetFileName(name) == name && !name.StartsWith('.');
+
+    private static string ComputeHash(string content)
+    {
+        var bytes = SHA256.HashData(Encoding.UTF8.GetBytes(content));
+        return Convert.ToHexString(bytes)[..12].ToLowerInvariant();
+    }
 }
@@ -0,0 +1,34 @@
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Interface for issuing and checking access tokens
+/// </summary>
+public interface IAuthService
+{
+    /// <summary>
+    /// Sign in with email and password; null if the credentials are wrong
+    /// </summary>
+    AuthTokenResponse? Login(string email, string password);
+
+    /// <summary>
+    /// Exchange a refresh token for new tokens; null if the refresh token is unknown
+    /// </summary>
+    AuthTokenResponse? Refresh(string refreshToken);
+
+    /// <summary>
+    /// Get the user for a valid, unexpired access token
+    /// </summary>
+    AuthUser? GetUser(string accessToken);
+
+    /// <summary>
+    /// Revoke the tokens issued with an access token
+    /// </summary>
+    void Logout(string accessToken);
+
+    /// <summary>
+    /// Users that can sign in
+    /// </summary>
+    IReadOnlyList<AuthUser> GetUsers();
+}
@@ -0,0 +1,19 @@
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Outbound delivery of notifications, e.g. email or SMS
+/// </summary>
+public interface INotificationChannel
+{
+    /// <summary>
+    /// Channel name as used in a definition's integrations.notificationService block (email, sms)
+    /// </summary>
+    string Name { get; }
+
+    /// <summary>
+    /// Deliver a notification to one recipient
+    /// </summary>
+    Task SendAsync(Notification notification, AuthUser recipient);
+}
@@ -0,0 +1,34 @@
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Interface for routing workflow events to recipients and keeping the in-app notifications
+/// </summary>
+public interface INotificationService
+{
+    /// <summary>
+    /// Route an event to the recipient roles of the definition over its enabled channels
+    /// </summary>
+    Task PublishAsync(NotificationEvent notificationEvent, WorkflowDefinition definition);
+
+    /// <summary>
+    /// Whether an event was already published for an instance step, e.g. to escalate only once
+    /// </summary>
+    bool HasPublished(string eventType, Guid instanceId, string stepId);
+
+    /// <summary>
+    /// In-app notifications of a user, newest first
+    /// </summary>
+    IReadOnlyList<Notification> GetForUser(string email);
+
+    /// <summary>
+    /// Mark one of the user's notifications as read; false if it is not theirs
+    /// </summary>
+    bool MarkRead(Guid notificationId, string email);
+
+    /// <summary>
+    /// Mark all of the user's notifications as read and return how many changed
+    /// </summary>
+    int MarkAllRead(string email);
+}
@@ -0,0 +1,19 @@
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Work the engine runs by itself when an instance reaches a step with "type": "system_action"
+/// </summary>
+public interface ISystemAction
+{
+    /// <summary>
+    /// Name a step refers to through "systemAction", e.g. generateCertificatePdf
+    /// </summary>
+    string Name { get; }
+
+    /// <summary>
+    /// Run the action; throw to fail the attempt, which is retried per the step's retry policy
+    /// </summary>
+    Task<SystemActionResult> ExecuteAsync(SystemActionContext context, CancellationToken cancellationToken);
+}
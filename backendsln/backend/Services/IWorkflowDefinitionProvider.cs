@@ -7,4 +7,28 @@ public interface IWorkflowDefinitionProvider
     Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId);
     Task<WorkflowStep?> GetStepDefinitionAsync(string stepRef);
     Task<List<WorkflowDefinition>> GetAllDefinitionsAsync();
+
+    /// <summary>
+    /// Load a definition as published under a version, or the live file when version is null
+    /// </summary>
+    Task<WorkflowDefinition?> GetDefinitionAsync(string certificationId, string? version);
+
+    /// <summary>
+    /// Load a step file as published with a definition version, or the live file when version is null
+    /// </summary>
+    Task<WorkflowStep?> GetStepDefinitionAsync(string stepRef, string certificationId, string? version);
+
+    /// <summary>
+    /// Snapshot of the live definition and step files, without publishing it
+    /// </summary>
+    Task<WorkflowDefinitionVersion?> GetLiveVersionAsync(string certificationId);
+
+    Task<WorkflowDefinitionVersion?> GetVersionAsync(string certificationId, string version);
+    Task<List<WorkflowDefinitionVersion>> GetVersionsAsync(string certificationId);
+
+    /// <summary>
+    /// Publish the live files under the definition's version, or return the version already published.
+    /// Published versions never change; edits need a new version number to reach new instances.
+    /// </summary>
+    Task<WorkflowDefinitionVersion?> PublishVersionAsync(string certificationId);
 }
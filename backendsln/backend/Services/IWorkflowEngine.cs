@@ -7,6 +7,15 @@ public interface IWorkflowEngine
     Task<WorkflowInstance> CreateWorkflowInstanceAsync(WorkflowInstanceCreateRequest request);
     Task<WorkflowInstance?> GetWorkflowInstanceAsync(Guid instanceId);
     Task<ValidationResult> ValidateStepAsync(Guid instanceId, string stepId, Dictionary<string, object> formData);
-    Task<WorkflowInstance> SubmitStepAsync(Guid instanceId, WorkflowSubmission submission);
+    Task<WorkflowInstance> SubmitStepAsync(Guid instanceId, WorkflowSubmission submission, AuthUser actor);
     Task<List<WorkflowInstance>> GetWorkflowsByStatusAsync(string status, string? actor = null);
+    Task<List<WorkflowInstance>> GetWorkflowsByCreatorAsync(string createdBy, string? status = null);
+    Task<List<WorkflowInstance>> GetInboxAsync(AuthUser user, string status);
+    Task<WorkflowInstance?> GetWorkflowByCertificateNumberAsync(string certificateNumber);
+    Task<WorkflowInstance> DiscardWorkflowInstanceAsync(Guid instanceId, WorkflowDiscardRequest request, AuthUser actor);
+    Task<WorkflowInstance> AttachDocumentAsync(Guid instanceId, GeneratedDocument document);
+    Task<WorkflowInstance?> RunSystemActionAsync(Guid instanceId, CancellationToken cancellationToken = default);
+    Task<WorkflowInstance> RetrySystemActionAsync(Guid instanceId, string requestedBy);
+    Task<WorkflowVersionListing> GetDefinitionVersionsAsync(string certificationId);
+    Task<WorkflowMigrationResult> MigrateInstancesAsync(string certificationId, WorkflowMigrationRequest request);
 }
@@ -8,5 +8,7 @@ public interface IWorkflowRepository
     Task SaveWorkflowInstanceAsync(WorkflowInstance instance);
     Task<List<WorkflowInstance>> GetWorkflowsByStatusAsync(string status, string? actor = null);
     Task<List<WorkflowInstance>> GetWorkflowsByCreatorAsync(string createdBy);
+    Task<WorkflowInstance?> GetWorkflowByCertificateNumberAsync(string certificateNumber);
+    Task<List<WorkflowInstance>> GetWorkflowsByDefinitionAsync(string definitionId);
     Task<List<WorkflowInstance>> GetAllWorkflowInstancesAsync();
 }
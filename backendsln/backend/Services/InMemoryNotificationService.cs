@@ -0,0 +1,180 @@
+using System.Collections.Concurrent;
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// In-memory notification centre for POC.
+/// Expands a definition's recipients to users, keeps the in-app (portal) notifications
+/// and hands them to the outbound channels the definition enables.
+/// </summary>
+public class InMemoryNotificationService : INotificationService
+{
+    private const string DefaultSupervisorRole = "manager";
+
+    private readonly ConcurrentDictionary<Guid, Notification> _notifications = new();
+    private readonly IAuthService _authService;
+    private readonly IEnumerable<INotificationChannel> _channels;
+    private readonly ILogger<InMemoryNotificationService> _logger;
+
+    public InMemoryNotificationService(
+        IAuthService authService,
+        IEnumerable<INotificationChannel> channels,
+        ILogger<InMemoryNotificationService> logger)
+    {
+        _authService = authService;
+        _channels = channels;
+        _logger = logger;
+    }
+
+    public async Task PublishAsync(NotificationEvent notificationEvent, WorkflowDefinition definition)
+    {
+        var recipients = ResolveRecipients(notificationEvent, definition);
+        if (recipients.Count == 0)
+        {
+            _logger.LogDebug("No recipients for {EventType} on instance {InstanceId}",
+                notificationEvent.EventType, notificationEvent.Instance.Id);
+            return;
+        }
+
+        // Portal notifications are on unless the definition turns them off
+        var settings = definition.Integrations.NotificationService;
+        var portal = settings?.Portal ?? true;
+        var outbound = new List<string>();
+        if (settings?.Email == true) outbound.Add("email");
+        if (settings?.Sms == true) outbound.Add("sms");
+
+        foreach (var (recipient, user) in recipients)
+        {
+            var notification = new Notification
+            {
+                Id = Guid.NewGuid(),
+                EventType = notificationEvent.EventType,
+                InstanceId = notificationEvent.Instance.Id,
+                DefinitionId = notificationEvent.Instance.DefinitionId,
+                StepId = notificationEvent.StepId,
+                Title = notificationEvent.Title,
+                Message = notificationEvent.Message,
+                RecipientEmail = user.Email,
+                Recipient = recipient,
+                CreatedAt = DateTime.UtcNow
+            };
+
+            if (portal)
+            {
+                _notifications[notification.Id] = notification;
+            }
+
+            foreach (var channelName in outbound)
+            {
+                await SendAsync(channelName, notification, user);
+            }
+        }
+
+        _logger.LogInformation("Published {EventType} for instance {InstanceId} to {Count} recipient(s)",
+            notificationEvent.EventType, notificationEvent.Instance.Id, recipients.Count);
+    }
+
+    public bool HasPublished(string eventType, Guid instanceId, string stepId)
+    {
+        return _notifications.Values.Any(n =>
+            n.EventType == eventType && n.InstanceId == instanceId && n.StepId == stepId);
+    }
+
+    public IReadOnlyList<Notification> GetForUser(string email)
+    {
+        return _notifications.Values
+            .Where(n => string.Equals(n.RecipientEmail, email, StringComparison.OrdinalIgnoreCase))
+            .OrderByDescending(n => n.CreatedAt)
+            .ToList();
+    }
+
+    public bool MarkRead(Guid notificationId, string email)
+    {
+        if (!_notifications.TryGetValue(notificationId, out var notification)
+            || !string.Equals(notification.RecipientEmail, email, StringComparison.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        notification.ReadAt ??= DateTime.UtcNow;
+        return true;
+    }
+
+    public int MarkAllRead(string email)
+    {
+        var unread = GetForUser(email).Where(n => n.ReadAt == null).ToList();
+        foreach (var notification in unread)
+        {
+            notification.ReadAt = DateTime.UtcNow;
+        }
+        return unread.Count;
+    }
+
+    /// <summary>
+    /// Expand recipient entries to users: applicant is the creator, assignedActor the role the
+    /// instance now waits on, supervisor the escalation role; anything else is a role name.
+    /// The user who triggered the event is left out.
+    /// </summary>
+    private List<(string Recipient, AuthUser User)> ResolveRecipients(NotificationEvent notificationEvent, WorkflowDefinition definition)
+    {
+        var instance = notificationEvent.Instance;
+        var users = _authService.GetUsers();
+        var resolved = new List<(string, AuthUser)>();
+        var seen = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+
+        if (!string.IsNullOrEmpty(notificationEvent.TriggeredBy))
+        {
+            seen.Add(notificationEvent.TriggeredBy);
+        }
+
+        foreach (var recipient in notificationEvent.Recipients ?? definition.Notifications.Recipients)
+        {
+            IEnumerable<AuthUser> matches = recipient switch
+            {
+                "applicant" => string.IsNullOrEmpty(instance.CreatedBy)
+                    ? Array.Empty<AuthUser>()
+                    : new[]
+                    {
+                        users.FirstOrDefault(u => string.Equals(u.Email, instance.CreatedBy, StringComparison.OrdinalIgnoreCase))
+                            ?? new AuthUser { Email = instance.CreatedBy, DisplayName = instance.CreatedBy }
+                    },
+                "assignedActor" => users.Where(u => instance.IsAssignedTo(u.Role)),
+                "supervisor" => users.Where(u => u.Role == (definition.WorkflowConfig.EscalateTo ?? DefaultSupervisorRole)),
+                _ => users.Where(u => u.Role == recipient)
+            };
+
+            foreach (var user in matches)
+            {
+                if (seen.Add(user.Email))
+                {
+                    resolved.Add((recipient, user));
+                }
+            }
+        }
+
+        return resolved;
+    }
+
+    // Delivery problems are logged; they never fail the workflow action that raised the event
+    private async Task SendAsync(string channelName, Notification notification, AuthUser user)
+    {
+        var channel = _channels.FirstOrDefault(c => c.Name == channelName);
+        if (channel == null)
+        {
+            _logger.LogDebug("No {Channel} channel registered, skipping notification {NotificationId}",
+                channelName, notification.Id);
+            return;
+        }
+
+        try
+        {
+            await channel.SendAsync(notification, user);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to send notification {NotificationId} over {Channel} to {Email}",
+                notification.Id, channelName, user.Email);
+        }
+    }
+}
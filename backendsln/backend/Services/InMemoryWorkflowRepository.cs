@@ -37,7 +37,7 @@ public class InMemoryWorkflowRepository : IWorkflowRepository
 
         if (!string.IsNullOrEmpty(actor))
         {
-            query = query.Where(w => w.AssignedActor == actor);
+            query = query.Where(w => w.IsAssignedTo(actor));
         }
 
         return Task.FromResult(query.ToList());
@@ -52,6 +52,23 @@ public class InMemoryWorkflowRepository : IWorkflowRepository
         return Task.FromResult(workflows);
     }
 
+    public Task<WorkflowInstance?> GetWorkflowByCertificateNumberAsync(string certificateNumber)
+    {
+        var workflow = _instances.Values
+            .FirstOrDefault(w => w.Certificate?.CertificateNumber == certificateNumber);
+
+        return Task.FromResult(workflow);
+    }
+
+    public Task<List<WorkflowInstance>> GetWorkflowsByDefinitionAsync(string definitionId)
+    {
+        var workflows = _instances.Values
+            .Where(w => w.DefinitionId == definitionId)
+            .ToList();
+
+        return Task.FromResult(workflows);
+    }
+
     public Task<List<WorkflowInstance>> GetAllWorkflowInstancesAsync()
     {
         return Task.FromResult(_instances.Values.ToList());
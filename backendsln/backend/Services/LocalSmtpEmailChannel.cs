@@ -0,0 +1,60 @@
+using System.Net.Mail;
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Email channel for local development.
+/// Without Notifications:Smtp:Host, messages are written as .eml files to a pickup directory;
+/// with a host, they go to that SMTP server (e.g. a local smtp4dev or MailHog).
+/// </summary>
+public class LocalSmtpEmailChannel : INotificationChannel
+{
+    private readonly string? _host;
+    private readonly int _port;
+    private readonly string _from;
+    private readonly string _pickupDirectory;
+    private readonly ILogger<LocalSmtpEmailChannel> _logger;
+
+    public string Name => "email";
+
+    public LocalSmtpEmailChannel(
+        IConfiguration configuration,
+        ILogger<LocalSmtpEmailChannel> logger)
+    {
+        _logger = logger;
+        _host = configuration["Notifications:Smtp:Host"];
+        _port = int.TryParse(configuration["Notifications:Smtp:Port"], out var port) ? port : 25;
+        _from = configuration["Notifications:Smtp:From"] ?? "no-reply@localhost";
+        _pickupDirectory = configuration["Notifications:Smtp:PickupDirectory"]
+            ?? Path.Combine(Directory.GetCurrentDirectory(), "mail-pickup");
+
+        if (string.IsNullOrEmpty(_host) && !Directory.Exists(_pickupDirectory))
+        {
+            Directory.CreateDirectory(_pickupDirectory);
+            _logger.LogInformation("Created mail pickup directory: {Path}", _pickupDirectory);
+        }
+    }
+
+    public async Task SendAsync(Notification notification, AuthUser recipient)
+    {
+        using var message = new MailMessage(_from, recipient.Email)
+        {
+            Subject = notification.Title,
+            Body = $"{notification.Message}\n\nWorkflow instance: {notification.InstanceId}"
+        };
+
+        using var client = string.IsNullOrEmpty(_host)
+            ? new SmtpClient
+            {
+                DeliveryMethod = SmtpDeliveryMethod.SpecifiedPickupDirectory,
+                PickupDirectoryLocation = _pickupDirectory
+            }
+            : new SmtpClient(_host, _port);
+
+        await client.SendMailAsync(message);
+
+        _logger.LogInformation("Emailed notification {NotificationId} to {Email} via {Target}",
+            notification.Id, recipient.Email, _host ?? _pickupDirectory);
+    }
+}
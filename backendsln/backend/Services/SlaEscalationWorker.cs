@@ -0,0 +1,139 @@
+using backend.Models;
+
+namespace backend.Services;
+
+/// <summary>
+/// Checks in-progress instances on a timer and escalates steps that waited longer than their SLA.
+/// Steps escalate after stepConfig.escalationAfterHours, falling back to slaConfig.stepSLAs and
+/// stepConfig.estimatedDurationHours; each instance step escalates once.
+/// </summary>
+public class SlaEscalationWorker : BackgroundService
+{
+    private const string DefaultEscalateTo = "manager";
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly IWorkflowDefinitionProvider _definitionProvider;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<SlaEscalationWorker> _logger;
+    private readonly TimeSpan _interval;
+
+    public SlaEscalationWorker(
+        IServiceScopeFactory scopeFactory,
+        IWorkflowDefinitionProvider definitionProvider,
+        INotificationService notificationService,
+        IConfiguration configuration,
+        ILogger<SlaEscalationWorker> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _definitionProvider = definitionProvider;
+        _notificationService = notificationService;
+        _logger = logger;
+        _interval = TimeSpan.FromMinutes(configuration.GetValue("SlaEscalation:CheckIntervalMinutes", 15));
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(_interval);
+
+        do
+        {
+            try
+            {
+                await CheckInstancesAsync(stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error checking workflow instances for SLA escalations");
+            }
+        }
+        while (await WaitForNextTickAsync(timer, stoppingToken));
+    }
+
+    private async Task CheckInstancesAsync(CancellationToken stoppingToken)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var repository = scope.ServiceProvider.GetRequiredService<IWorkflowRepository>();
+        var instances = await repository.GetWorkflowsByStatusAsync("in_progress");
+
+        foreach (var instance in instances)
+        {
+            stoppingToken.ThrowIfCancellationRequested();
+
+            var definition = await _definitionProvider.GetDefinitionAsync(instance.DefinitionId, instance.DefinitionVersion);
+            if (definition == null || !definition.WorkflowConfig.AutoEscalationEnabled)
+            {
+                continue;
+            }
+
+            var openStepIds = instance.ActiveSteps.Count == 0
+                ? new List<string> { instance.CurrentStep }
+                : instance.ActiveSteps.Where(s => s.Status == "in_progress").Select(s => s.StepId).ToList();
+
+            foreach (var stepId in openStepIds)
+            {
+                await CheckStepAsync(definition, instance, stepId);
+            }
+        }
+    }
+
+    private async Task CheckStepAsync(WorkflowDefinition definition, WorkflowInstance instance, string stepId)
+    {
+        if (_notificationService.HasPublished("sla_escalation", instance.Id, stepId))
+        {
+            return;
+        }
+
+        var stepRef = definition.Steps.FirstOrDefault(s => s.StepId == stepId || s.StepRef.EndsWith(stepId));
+        var stepDef = stepRef == null
+            ? null
+            : await _definitionProvider.GetStepDefinitionAsync(stepRef.StepRef, instance.DefinitionId, instance.DefinitionVersion);
+
+        var escalateAfterHours = stepDef?.StepConfig.EscalationAfterHours
+            ?? (definition.SlaConfig.StepSLAs.TryGetValue(stepId, out var slaHours) ? slaHours : stepDef?.StepConfig.EstimatedDurationHours);
+        if (escalateAfterHours is not > 0)
+        {
+            return;
+        }
+
+        // A parallel branch is measured from when it reached the step, otherwise from the last completed step
+        var branch = instance.ActiveSteps.FirstOrDefault(s => s.StepId == stepId);
+        var startedAt = branch?.StartedAt ?? instance.StepHistory.LastOrDefault()?.CompletedAt ?? instance.StartedAt;
+        var dueAt = startedAt.AddHours(escalateAfterHours.Value);
+        var now = DateTime.UtcNow;
+        if (now < dueAt)
+        {
+            return;
+        }
+
+        var waitingHours = (int)(now - startedAt).TotalHours;
+        var waitingOn = branch?.AssignedActor ?? instance.AssignedActor;
+        _logger.LogWarning("SLA escalation for instance {InstanceId} at step {StepId}, waiting {Hours}h",
+            instance.Id, stepId, waitingHours);
+
+        await _notificationService.PublishAsync(new NotificationEvent
+        {
+            EventType = "sla_escalation",
+            Instance = instance,
+            StepId = stepId,
+            Title = $"Overdue: {stepId}",
+            Message = $"{instance.DefinitionId} has waited {waitingHours}h on {waitingOn} at {stepId} (due {dueAt:u}).",
+            Recipients = new List<string> { definition.WorkflowConfig.EscalateTo ?? DefaultEscalateTo }
+        }, definition);
+    }
+
+    private static async Task<bool> WaitForNextTickAsync(PeriodicTimer timer, CancellationToken stoppingToken)
+    {
+        try
+        {
+            return await timer.WaitForNextTickAsync(stoppingToken);
+        }
+        catch (OperationCanceledException)
+        {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,21 @@
+using System.Threading.Channels;
+
+namespace backend.Services;
+
+/// <summary>
+/// Instances waiting for their system action, handed from the engine to SystemActionWorker
+/// </summary>
+public class SystemActionQueue
+{
+    private readonly Channel<Guid> _channel = Channel.CreateUnbounded<Guid>();
+
+    public void Enqueue(Guid instanceId)
+    {
+        _channel.Writer.TryWrite(instanceId);
+    }
+
+    public IAsyncEnumerable<Guid> ReadAllAsync(CancellationToken cancellationToken)
+    {
+        return _channel.Reader.ReadAllAsync(cancellationToken);
+    }
+}
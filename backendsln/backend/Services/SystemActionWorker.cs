@@ -0,0 +1,69 @@
+namespace backend.Services;
+
+/// <summary>
+/// Runs queued system actions one instance at a time.
+/// On startup it picks up instances left "processing" by a previous run.
+/// </summary>
+public class SystemActionWorker : BackgroundService
+{
+    private readonly SystemActionQueue _queue;
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<SystemActionWorker> _logger;
+
+    public SystemActionWorker(
+        SystemActionQueue queue,
+        IServiceScopeFactory scopeFactory,
+        ILogger<SystemActionWorker> logger)
+    {
+        _queue = queue;
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        await ResumeProcessingInstancesAsync();
+
+        await foreach (var instanceId in _queue.ReadAllAsync(stoppingToken))
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var engine = scope.ServiceProvider.GetRequiredService<IWorkflowEngine>();
+                await engine.RunSystemActionAsync(instanceId, stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error running the system action of workflow instance {InstanceId}", instanceId);
+            }
+        }
+    }
+
+    private async Task ResumeProcessingInstancesAsync()
+    {
+        try
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var repository = scope.ServiceProvider.GetRequiredService<IWorkflowRepository>();
+            var instances = await repository.GetWorkflowsByStatusAsync("processing");
+
+            foreach (var instance in instances)
+            {
+                _queue.Enqueue(instance.Id);
+            }
+
+            if (instances.Count > 0)
+            {
+                _logger.LogInformation("Resuming system actions of {Count} workflow instances", instances.Count);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error loading workflow instances waiting on system actions");
+        }
+    }
+}
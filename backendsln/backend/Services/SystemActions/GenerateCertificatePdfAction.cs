@@ -0,0 +1,53 @@
+using backend.Models;
+
+namespace backend.Services.SystemActions;
+
+/// <summary>
+/// Has the Node server render the certificate PDF, which it attaches to the instance as its "certificate" document.
+/// The server is found through SystemActions:CertificateServiceUrl and accepts the call only with
+/// SystemActions:CertificateServiceSecret, which must match its CERTIFICATE_SERVICE_SECRET.
+/// </summary>
+public class GenerateCertificatePdfAction : ISystemAction
+{
+    private readonly HttpClient _httpClient;
+    private readonly string _certificateServiceUrl;
+    private readonly string? _certificateServiceSecret;
+    private readonly ILogger<GenerateCertificatePdfAction> _logger;
+
+    public string Name => "generateCertificatePdf";
+
+    public GenerateCertificatePdfAction(
+        HttpClient httpClient,
+        IConfiguration configuration,
+        ILogger<GenerateCertificatePdfAction> logger)
+    {
+        _httpClient = httpClient;
+        _logger = logger;
+        _certificateServiceUrl = (configuration["SystemActions:CertificateServiceUrl"] ?? "http://localhost:4200").TrimEnd('/');
+        _certificateServiceSecret = configuration["SystemActions:CertificateServiceSecret"];
+    }
+
+    public async Task<SystemActionResult> ExecuteAsync(SystemActionContext context, CancellationToken cancellationToken)
+    {
+        var certificateNumber = context.Instance.Certificate?.CertificateNumber
+            ?? throw new InvalidOperationException("The instance has no issued certificate");
+
+        if (string.IsNullOrEmpty(_certificateServiceSecret))
+            throw new InvalidOperationException("SystemActions:CertificateServiceSecret is not configured");
+
+        var url = $"{_certificateServiceUrl}/certificate-api/instances/{context.Instance.Id}/certificate";
+        using var request = new HttpRequestMessage(HttpMethod.Post, url);
+        request.Headers.Add("X-Certificate-Service-Secret", _certificateServiceSecret);
+        using var response = await _httpClient.SendAsync(request, cancellationToken);
+        if (!response.IsSuccessStatusCode)
+        {
+            var body = await response.Content.ReadAsStringAsync(cancellationToken);
+            throw new InvalidOperationException($"Certificate service returned {(int)response.StatusCode}: {body}");
+        }
+
+        _logger.LogInformation("Generated certificate PDF {CertificateNumber} for workflow instance {InstanceId}",
+            certificateNumber, context.Instance.Id);
+
+        return new SystemActionResult { Message = $"Certificate {certificateNumber} generated" };
+    }
+}
@@ -0,0 +1,32 @@
+using backend.Models;
+
+namespace backend.Services.SystemActions;
+
+/// <summary>
+/// Marks an application as submitted once its last form step is done
+/// </summary>
+public class SubmitApplicationAction : ISystemAction
+{
+    private readonly ILogger<SubmitApplicationAction> _logger;
+
+    public string Name => "submitApplication";
+
+    public SubmitApplicationAction(ILogger<SubmitApplicationAction> logger)
+    {
+        _logger = logger;
+    }
+
+    public Task<SystemActionResult> ExecuteAsync(SystemActionContext context, CancellationToken cancellationToken)
+    {
+        var submittedAt = DateTime.UtcNow;
+
+        _logger.LogInformation("Workflow instance {InstanceId} submitted by {CreatedBy}",
+            context.Instance.Id, context.Instance.CreatedBy);
+
+        return Task.FromResult(new SystemActionResult
+        {
+            Message = "Application submitted",
+            Data = new Dictionary<string, object> { ["applicationSubmittedAt"] = submittedAt }
+        });
+    }
+}
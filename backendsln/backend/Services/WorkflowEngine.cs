@@ -8,17 +8,30 @@ public class WorkflowEngine : IWorkflowEngine
     private readonly IWorkflowDefinitionProvider _definitionProvider;
     private readonly IWorkflowRepository _repository;
     private readonly ValidationRuleFactory _validationFactory;
+    private readonly INotificationService _notificationService;
+    private readonly IEnumerable<ISystemAction> _systemActions;
+    private readonly SystemActionQueue _systemActionQueue;
     private readonly ILogger<WorkflowEngine> _logger;
 
+    // Instances that have not finished; "processing" ones are left to the system action that runs them
+    private static readonly HashSet<string> InFlightStatuses = new() { "in_progress", "processing", "action_failed", "on_hold" };
+    private static readonly HashSet<string> MigratableStatuses = new() { "in_progress", "action_failed", "on_hold" };
+
     public WorkflowEngine(
         IWorkflowDefinitionProvider definitionProvider,
         IWorkflowRepository repository,
         ValidationRuleFactory validationFactory,
+        INotificationService notificationService,
+        IEnumerable<ISystemAction> systemActions,
+        SystemActionQueue systemActionQueue,
         ILogger<WorkflowEngine> logger)
     {
         _definitionProvider = definitionProvider;
         _repository = repository;
         _validationFactory = validationFactory;
+        _notificationService = notificationService;
+        _systemActions = systemActions;
+        _systemActionQueue = systemActionQueue;
         _logger = logger;
     }
 
@@ -30,6 +43,18 @@ public class WorkflowEngine : IWorkflowEngine
             throw new ArgumentException($"Workflow definition not found: {request.CertificationId}");
         }
 
+        // Pin the instance to the published version so later edits to the files do not change it mid-stream
+        var published = await _definitionProvider.PublishVersionAsync(request.CertificationId);
+        if (published != null)
+        {
+            definition = await _definitionProvider.GetDefinitionAsync(request.CertificationId, published.Version) ?? definition;
+        }
+        else
+        {
+            _logger.LogWarning("Workflow {CertificationId} could not be published; the instance runs on the live files",
+                request.CertificationId);
+        }
+
         // Get the first step
         var firstStepRef = definition.Steps.FirstOrDefault()?.StepRef;
         if (string.IsNullOrEmpty(firstStepRef))
@@ -37,7 +62,7 @@ public class WorkflowEngine : IWorkflowEngine
             throw new InvalidOperationException("Workflow has no steps defined");
         }
 
-        var firstStep = await _definitionProvider.GetStepDefinitionAsync(firstStepRef);
+        var firstStep = await _definitionProvider.GetStepDefinitionAsync(firstStepRef, request.CertificationId, published?.Version);
         if (firstStep == null)
         {
             throw new InvalidOperationException($"First step not found: {firstStepRef}");
@@ -47,6 +72,8 @@ public class WorkflowEngine : IWorkflowEngine
         {
             Id = Guid.NewGuid(),
             DefinitionId = request.CertificationId,
+            DefinitionVersion = published?.Version,
+            StepVersions = published == null ? new Dictionary<string, string>() : new Dictionary<string, string>(published.StepVersions),
             WorkflowType = "new_application",
             CurrentStep = firstStep.StepId,
             Status = "in_progress",
@@ -67,8 +94,8 @@ public class WorkflowEngine : IWorkflowEngine
 
         await _repository.SaveWorkflowInstanceAsync(instance);
         
-        _logger.LogInformation("Created workflow instance {InstanceId} for {CertificationId}", 
-            instance.Id, request.CertificationId);
+        _logger.LogInformation("Created workflow instance {InstanceId} for {CertificationId} version {Version}", 
+            instance.Id, request.CertificationId, instance.DefinitionVersion ?? "live");
 
         return instance;
     }
@@ -89,12 +116,17 @@ public class WorkflowEngine : IWorkflowEngine
             return ValidationResult.Failure("Workflow instance not found");
         }
 
-        if (instance.CurrentStep != stepId)
+        if (instance.Status != "in_progress")
+        {
+            return ValidationResult.Failure($"The workflow is {instance.Status}, not in progress");
+        }
+
+        if (!instance.IsOpenStep(stepId))
         {
-            return ValidationResult.Failure($"Invalid step. Current step is {instance.CurrentStep}");
+            return ValidationResult.Failure($"Invalid step. The workflow waits on {DescribeWaitingOn(instance)}");
         }
 
-        var definition = await _definitionProvider.GetDefinitionAsync(instance.DefinitionId);
+        var definition = await GetPinnedDefinitionAsync(instance);
         if (definition == null)
         {
             return ValidationResult.Failure("Workflow definition not found");
@@ -108,7 +140,7 @@ public class WorkflowEngine : IWorkflowEngine
             return ValidationResult.Failure($"Step definition not found: {stepId}");
         }
 
-        var stepDefinition = await _definitionProvider.GetStepDefinitionAsync(stepRef);
+        var stepDefinition = await GetPinnedStepAsync(instance, stepRef);
         if (stepDefinition == null)
         {
             return ValidationResult.Failure($"Step definition not found: {stepRef}");
@@ -149,7 +181,7 @@ public class WorkflowEngine : IWorkflowEngine
         return ValidationResult.Success();
     }
 
-    public async Task<WorkflowInstance> SubmitStepAsync(Guid instanceId, WorkflowSubmission submission)
+    public async Task<WorkflowInstance> SubmitStepAsync(Guid instanceId, WorkflowSubmission submission, AuthUser actor)
     {
         var instance = await _repository.GetWorkflowInstanceAsync(instanceId);
         if (instance == null)
@@ -157,6 +189,20 @@ public class WorkflowEngine : IWorkflowEngine
             throw new ArgumentException("Workflow instance not found");
         }
 
+        // The signed-in user acts, whatever the request body claims
+        submission.SubmittedBy = actor.Email;
+
+        // Sending back skips validation: the data is returned for correction
+        if (submission.Decision == "send_back")
+        {
+            return await SendBackStepAsync(instance, submission, actor.Role);
+        }
+
+        if (submission.Decision == "reject")
+        {
+            return await RejectStepAsync(instance, submission, actor.Role);
+        }
+
         // Validate the submission
         var validationResult = await ValidateStepAsync(instanceId, submission.StepId, submission.FormData);
         if (!validationResult.IsValid)
@@ -164,12 +210,26 @@ public class WorkflowEngine : IWorkflowEngine
             throw new InvalidOperationException($"Validation failed: {validationResult.ErrorMessage}");
         }
 
-        var definition = await _definitionProvider.GetDefinitionAsync(instance.DefinitionId);
+        var definition = await GetPinnedDefinitionAsync(instance);
         if (definition == null)
         {
             throw new InvalidOperationException("Workflow definition not found");
         }
 
+        var currentStepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(submission.StepId) || s.StepId == submission.StepId);
+        var currentStepDef = currentStepRef == null
+            ? null
+            : await GetPinnedStepAsync(instance, currentStepRef.StepRef);
+        if (currentStepDef == null)
+        {
+            throw new InvalidOperationException($"Step definition not found: {submission.StepId}");
+        }
+
+        EnsureRoleMayActOnStep(definition, currentStepDef, actor.Role);
+
+        var nextStepId = ResolveNextStep(currentStepRef, submission, instance.CurrentData);
+
         // Track changes
         var changedFields = TrackFieldChanges(instance.CurrentData, submission.FormData);
 
@@ -185,52 +245,216 @@ public class WorkflowEngine : IWorkflowEngine
             StepId = submission.StepId,
             CompletedAt = DateTime.UtcNow,
             CompletedBy = submission.SubmittedBy,
-            ActorRole = GetCurrentStepActor(definition, submission.StepId),
+            ActorRole = actor.Role,
             DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
             ChangedFields = changedFields,
             Decision = submission.Decision,
-            Comments = submission.Comments
+            Comments = submission.Comments,
+            ProcessingTimeMinutes = GetProcessingTimeMinutes(instance, submission.StepId)
         };
 
         instance.StepHistory.Add(historyEntry);
 
-        // Move to next step
-        var currentStepRef = definition.Steps.FirstOrDefault(s => 
-            s.StepRef.EndsWith(submission.StepId) || s.StepId == submission.StepId);
+        // A resubmitted step closes the send-back
+        instance.SendBackInfo = null;
 
-        if (currentStepRef?.Overrides?.NextStep != null)
+        // Move to next step, or along the branch of a parallel step
+        var activeStep = instance.ActiveSteps.FirstOrDefault(s => s.Status == "in_progress" && s.StepId == submission.StepId);
+        if (activeStep != null)
         {
-            var nextStepId = currentStepRef.Overrides.NextStep;
-            
-            if (nextStepId == "completed")
+            await AdvanceBranchAsync(definition, instance, activeStep, nextStepId, submission.SubmittedBy);
+        }
+        else if (nextStepId != null)
+        {
+            await MoveToStepAsync(definition, instance, nextStepId);
+        }
+
+        await _repository.SaveWorkflowInstanceAsync(instance);
+
+        if (instance.Status == "processing")
+        {
+            _systemActionQueue.Enqueue(instance.Id);
+        }
+
+        if (instance.Status == "completed")
+        {
+            if (definition.Notifications.OnWorkflowComplete)
             {
-                instance.Status = "completed";
-                instance.CompletedAt = DateTime.UtcNow;
-                instance.CurrentStep = "completed";
-                _logger.LogInformation("Workflow instance {InstanceId} completed", instance.Id);
+                await NotifyAsync(definition, instance, "workflow_completed", submission.StepId, submission.SubmittedBy,
+                    $"{definition.Name} completed",
+                    "The workflow has been completed.");
             }
-            else
+        }
+        else if (instance.Status == "rejected")
+        {
+            if (definition.Notifications.OnWorkflowComplete)
             {
-                // Find next step definition
-                var nextStepRef = definition.Steps.FirstOrDefault(s => 
-                    s.StepRef.EndsWith(nextStepId) || s.StepId == nextStepId);
-
-                if (nextStepRef != null)
-                {
-                    var nextStepDef = await _definitionProvider.GetStepDefinitionAsync(nextStepRef.StepRef);
-                    if (nextStepDef != null)
-                    {
-                        instance.CurrentStep = nextStepDef.StepId;
-                        instance.AssignedActor = nextStepDef.Actor;
-                        _logger.LogInformation("Workflow instance {InstanceId} moved to step {StepId}", 
-                            instance.Id, nextStepDef.StepId);
-                    }
-                }
+                await NotifyAsync(definition, instance, "rejected", submission.StepId, submission.SubmittedBy,
+                    $"{definition.Name} rejected",
+                    $"The application was rejected at {submission.StepId}.");
             }
         }
+        else if (definition.Notifications.OnStepComplete)
+        {
+            await NotifyAsync(definition, instance, "step_completed", submission.StepId, submission.SubmittedBy,
+                $"Step {submission.StepId} completed",
+                $"{submission.SubmittedBy} completed {submission.StepId}. The workflow now waits on {DescribeWaitingOn(instance)}.");
+        }
+
+        return instance;
+    }
+
+    private async Task<WorkflowInstance> SendBackStepAsync(WorkflowInstance instance, WorkflowSubmission submission, string actorRole)
+    {
+        if (string.IsNullOrWhiteSpace(submission.Comments))
+        {
+            throw new InvalidOperationException("Comments are required when sending a step back");
+        }
+
+        EnsureStepIsOpen(instance, submission.StepId);
+
+        var definition = await GetPinnedDefinitionAsync(instance);
+        if (definition == null)
+        {
+            throw new InvalidOperationException("Workflow definition not found");
+        }
+
+        var currentStepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(submission.StepId) || s.StepId == submission.StepId);
+        var stepDef = currentStepRef == null
+            ? null
+            : await GetPinnedStepAsync(instance, currentStepRef.StepRef);
+
+        var targetStepId = stepDef?.StepConfig.SendBackTarget;
+        if (stepDef == null || !stepDef.StepConfig.CanSendBack || string.IsNullOrEmpty(targetStepId))
+        {
+            throw new InvalidOperationException($"Step {submission.StepId} cannot be sent back");
+        }
+
+        EnsureRoleMayActOnStep(definition, stepDef, actorRole);
+
+        // Both the step and the workflow can deny send-back for the actor's role
+        var stepPermission = stepDef.Permissions?.GetValueOrDefault(actorRole);
+        var workflowPermission = definition.Permissions.GetValueOrDefault(actorRole);
+        if (stepPermission?.CanSendBack == false || workflowPermission?.CanSendBack == false)
+        {
+            throw new InvalidOperationException($"Role {actorRole} is not allowed to send back step {submission.StepId}");
+        }
+
+        var targetStepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(targetStepId) || s.StepId == targetStepId);
+        var targetStepDef = targetStepRef == null
+            ? null
+            : await GetPinnedStepAsync(instance, targetStepRef.StepRef);
+        if (targetStepDef == null)
+        {
+            throw new InvalidOperationException($"Send-back target step not found: {targetStepId}");
+        }
+
+        instance.StepHistory.Add(new StepHistoryEntry
+        {
+            StepId = submission.StepId,
+            CompletedAt = DateTime.UtcNow,
+            CompletedBy = submission.SubmittedBy,
+            ActorRole = actorRole,
+            DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
+            Decision = submission.Decision,
+            Comments = submission.Comments,
+            ProcessingTimeMinutes = GetProcessingTimeMinutes(instance)
+        });
+
+        instance.SendBackInfo = new SendBackInfo
+        {
+            EditableFields = targetStepDef.Fields.Select(f => f.Key).ToList(),
+            Comments = submission.Comments,
+            SentBackBy = submission.SubmittedBy,
+            SentBackAt = DateTime.UtcNow
+        };
+        instance.CurrentStep = targetStepDef.StepId;
+        instance.AssignedActor = targetStepDef.Actor;
+
+        // Sending back leaves a parallel step; its branches start over when the workflow reaches it again
+        instance.ActiveSteps = new List<ActiveStep>();
+
+        _logger.LogInformation("Workflow instance {InstanceId} sent back from {StepId} to {TargetStepId}",
+            instance.Id, submission.StepId, targetStepDef.StepId);
+
+        await _repository.SaveWorkflowInstanceAsync(instance);
+
+        if (definition.Notifications.OnSendBack)
+        {
+            await NotifyAsync(definition, instance, "sent_back", submission.StepId, submission.SubmittedBy,
+                $"Sent back to {targetStepDef.StepId}",
+                $"{submission.SubmittedBy} sent {submission.StepId} back for correction: {submission.Comments}");
+        }
+
+        return instance;
+    }
+
+    private async Task<WorkflowInstance> RejectStepAsync(WorkflowInstance instance, WorkflowSubmission submission, string actorRole)
+    {
+        if (string.IsNullOrWhiteSpace(submission.Comments))
+        {
+            throw new InvalidOperationException("Comments are required when rejecting a workflow");
+        }
+
+        EnsureStepIsOpen(instance, submission.StepId);
+
+        var definition = await GetPinnedDefinitionAsync(instance);
+        if (definition == null)
+        {
+            throw new InvalidOperationException("Workflow definition not found");
+        }
+
+        var currentStepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(submission.StepId) || s.StepId == submission.StepId);
+        var stepDef = currentStepRef == null
+            ? null
+            : await GetPinnedStepAsync(instance, currentStepRef.StepRef);
+        if (stepDef == null)
+        {
+            throw new InvalidOperationException($"Step definition not found: {submission.StepId}");
+        }
+
+        EnsureRoleMayActOnStep(definition, stepDef, actorRole);
+
+        // Reject is opt-in: the step or workflow must grant it to the actor's role
+        var canReject = stepDef.Permissions?.GetValueOrDefault(actorRole)?.CanReject
+            ?? definition.Permissions.GetValueOrDefault(actorRole)?.CanReject
+            ?? false;
+        if (!canReject)
+        {
+            throw new InvalidOperationException($"Role {actorRole} is not allowed to reject at step {submission.StepId}");
+        }
+
+        instance.StepHistory.Add(new StepHistoryEntry
+        {
+            StepId = submission.StepId,
+            CompletedAt = DateTime.UtcNow,
+            CompletedBy = submission.SubmittedBy,
+            ActorRole = actorRole,
+            DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
+            Decision = submission.Decision,
+            Comments = submission.Comments,
+            ProcessingTimeMinutes = GetProcessingTimeMinutes(instance)
+        });
+
+        instance.Status = "rejected";
+        instance.CompletedAt = DateTime.UtcNow;
+        instance.SendBackInfo = null;
+        CancelBranches(instance);
+
+        _logger.LogInformation("Workflow instance {InstanceId} rejected at step {StepId}", instance.Id, submission.StepId);
 
         await _repository.SaveWorkflowInstanceAsync(instance);
 
+        if (definition.Notifications.OnWorkflowComplete)
+        {
+            await NotifyAsync(definition, instance, "rejected", submission.StepId, submission.SubmittedBy,
+                $"{definition.Name} rejected",
+                $"{submission.SubmittedBy} rejected the application at {submission.StepId}: {submission.Comments}");
+        }
+
         return instance;
     }
 
@@ -239,33 +463,1001 @@ public class WorkflowEngine : IWorkflowEngine
         return await _repository.GetWorkflowsByStatusAsync(status, actor);
     }
 
-    private Dictionary<string, FieldChange> TrackFieldChanges(
-        Dictionary<string, object> oldData,
-        Dictionary<string, object> newData)
+    public async Task<List<WorkflowInstance>> GetWorkflowsByCreatorAsync(string createdBy, string? status = null)
     {
-        var changes = new Dictionary<string, FieldChange>();
+        var instances = await _repository.GetWorkflowsByCreatorAsync(createdBy);
 
-        foreach (var kvp in newData)
+        return string.IsNullOrEmpty(status)
+            ? instances
+            : instances.Where(w => w.Status == status).ToList();
+    }
+
+    /// <summary>
+    /// Instances waiting on the user's role. The role that starts a workflow (the actor of its first step)
+    /// only sees the instances the user created; reviewer roles see every instance waiting on them.
+    /// Instances whose definition cannot be read are only shown to their creator.
+    /// </summary>
+    public async Task<List<WorkflowInstance>> GetInboxAsync(AuthUser user, string status)
+    {
+        if (string.IsNullOrEmpty(user.Role))
         {
-            if (!oldData.ContainsKey(kvp.Key))
+            return new List<WorkflowInstance>();
+        }
+
+        var instances = await _repository.GetWorkflowsByStatusAsync(status, user.Role);
+        var startingRoles = new Dictionary<string, string?>();
+        var inbox = new List<WorkflowInstance>();
+        foreach (var instance in instances)
+        {
+            var key = $"{instance.DefinitionId}@{instance.DefinitionVersion}";
+            if (!startingRoles.TryGetValue(key, out var startingRole))
             {
-                changes[kvp.Key] = new FieldChange { OldValue = null, NewValue = kvp.Value };
+                startingRole = await GetStartingRoleAsync(instance);
+                startingRoles[key] = startingRole;
             }
-            else if (!Equals(oldData[kvp.Key], kvp.Value))
+
+            if (instance.CreatedBy == user.Email || (startingRole != null && startingRole != user.Role))
             {
-                changes[kvp.Key] = new FieldChange { OldValue = oldData[kvp.Key], NewValue = kvp.Value };
+                inbox.Add(instance);
             }
         }
 
-        return changes;
+        return inbox;
     }
 
-    private string GetCurrentStepActor(WorkflowDefinition definition, string stepId)
+    public async Task<WorkflowInstance?> GetWorkflowByCertificateNumberAsync(string certificateNumber)
     {
-        var stepRef = definition.Steps.FirstOrDefault(s => 
-            s.StepRef.EndsWith(stepId) || s.StepId == stepId);
-        
-        return stepRef?.Actor ?? "system";
+        return await _repository.GetWorkflowByCertificateNumberAsync(certificateNumber.Trim().ToUpperInvariant());
+    }
+
+    /// <summary>
+    /// Discard a draft. Only its creator may discard it, and only while it has not gone to anyone else for review;
+    /// the instance is kept with status "discarded".
+    /// </summary>
+    public async Task<WorkflowInstance> DiscardWorkflowInstanceAsync(Guid instanceId, WorkflowDiscardRequest request, AuthUser actor)
+    {
+        var instance = await _repository.GetWorkflowInstanceAsync(instanceId);
+        if (instance == null)
+        {
+            throw new ArgumentException($"Workflow instance not found: {instanceId}");
+        }
+
+        // The signed-in user discards, whatever the request body claims
+        request.DiscardedBy = actor.Email;
+
+        if (instance.Status != "in_progress")
+        {
+            throw new InvalidOperationException($"Only in-progress drafts can be discarded (status: {instance.Status})");
+        }
+
+        if (instance.CreatedBy != actor.Email)
+        {
+            throw new InvalidOperationException("Only the creator of a draft can discard it");
+        }
+
+        if (!instance.IsDraftOf(actor.Email, actor.Role))
+        {
+            throw new InvalidOperationException($"The application is under review and can no longer be discarded. The workflow waits on {DescribeWaitingOn(instance)}");
+        }
+
+        instance.StepHistory.Add(new StepHistoryEntry
+        {
+            StepId = instance.CurrentStep,
+            CompletedAt = DateTime.UtcNow,
+            CompletedBy = request.DiscardedBy,
+            ActorRole = instance.AssignedActor ?? string.Empty,
+            DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
+            Decision = "discard",
+            Comments = request.Comments,
+            ProcessingTimeMinutes = GetProcessingTimeMinutes(instance)
+        });
+
+        instance.Status = "discarded";
+        instance.CompletedAt = DateTime.UtcNow;
+        instance.SendBackInfo = null;
+        CancelBranches(instance);
+
+        _logger.LogInformation("Workflow instance {InstanceId} discarded by {DiscardedBy}", instance.Id, request.DiscardedBy);
+
+        await _repository.SaveWorkflowInstanceAsync(instance);
+
+        return instance;
+    }
+
+    public async Task<WorkflowInstance> AttachDocumentAsync(Guid instanceId, GeneratedDocument document)
+    {
+        var instance = await _repository.GetWorkflowInstanceAsync(instanceId);
+        if (instance == null)
+        {
+            throw new ArgumentException($"Workflow instance not found: {instanceId}");
+        }
+
+        if (string.IsNullOrEmpty(document.Kind))
+        {
+            throw new InvalidOperationException("A document kind is required");
+        }
+
+        // A regenerated document replaces the previous one of the same kind
+        instance.Documents.RemoveAll(d => d.Kind == document.Kind);
+        instance.Documents.Add(document);
+
+        _logger.LogInformation("Attached {Kind} document {DocumentId} to workflow instance {InstanceId}",
+            document.Kind, document.Id, instance.Id);
+
+        await _repository.SaveWorkflowInstanceAsync(instance);
+
+        return instance;
+    }
+
+    /// <summary>
+    /// Run the system action of an instance that is "processing", retrying failed attempts per the step's retry policy.
+    /// Every attempt is recorded in the step history; when all attempts fail the instance becomes "action_failed".
+    /// </summary>
+    public async Task<WorkflowInstance?> RunSystemActionAsync(Guid instanceId, CancellationToken cancellationToken = default)
+    {
+        var instance = await _repository.GetWorkflowInstanceAsync(instanceId);
+        if (instance == null || instance.Status != "processing")
+        {
+            _logger.LogDebug("Workflow instance {InstanceId} is not waiting on a system action", instanceId);
+            return instance;
+        }
+
+        var definition = await GetPinnedDefinitionAsync(instance);
+        if (definition == null)
+        {
+            throw new InvalidOperationException("Workflow definition not found");
+        }
+
+        var step = definition.Steps.FirstOrDefault(s => s.StepId == instance.CurrentStep && s.Type == "system_action");
+        var actionName = step?.SystemAction ?? string.Empty;
+        var action = _systemActions.FirstOrDefault(a => a.Name == actionName);
+        if (step == null || action == null)
+        {
+            instance.StepHistory.Add(CreateSystemActionEntry(instance, "action_failed",
+                $"No system action registered for step {instance.CurrentStep}: '{actionName}'"));
+            instance.Status = "action_failed";
+            await _repository.SaveWorkflowInstanceAsync(instance);
+
+            _logger.LogError("Workflow instance {InstanceId} has no system action for step {StepId}", instance.Id, instance.CurrentStep);
+            return instance;
+        }
+
+        var retry = step.Retry ?? new SystemActionRetryPolicy();
+        var maxAttempts = Math.Max(1, retry.MaxAttempts);
+
+        for (var attempt = 1; ; attempt++)
+        {
+            var context = new SystemActionContext { Instance = instance, Definition = definition, Step = step, Attempt = attempt };
+            SystemActionResult? result = null;
+            Exception? failure = null;
+            try
+            {
+                result = await action.ExecuteAsync(context, cancellationToken);
+            }
+            catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                failure = ex;
+            }
+
+            // Actions may change the stored instance through the API (e.g. attach a document), so carry on from it
+            instance = await _repository.GetWorkflowInstanceAsync(instanceId) ?? instance;
+
+            if (result != null)
+            {
+                foreach (var kvp in result.Data)
+                {
+                    instance.CurrentData[kvp.Key] = kvp.Value;
+                }
+                instance.StepHistory.Add(CreateSystemActionEntry(instance, "action_completed", result.Message ?? $"{actionName} completed"));
+                _logger.LogInformation("System action {Action} completed for workflow instance {InstanceId}", actionName, instance.Id);
+                break;
+            }
+
+            _logger.LogWarning(failure, "System action {Action} failed for workflow instance {InstanceId} (attempt {Attempt} of {MaxAttempts})",
+                actionName, instance.Id, attempt, maxAttempts);
+            instance.StepHistory.Add(CreateSystemActionEntry(instance, "action_failed",
+                $"Attempt {attempt} of {maxAttempts}: {failure?.Message}"));
+
+            if (attempt >= maxAttempts)
+            {
+                instance.Status = "action_failed";
+                await _repository.SaveWorkflowInstanceAsync(instance);
+                _logger.LogError("System action {Action} gave up for workflow instance {InstanceId}", actionName, instance.Id);
+                return instance;
+            }
+
+            await _repository.SaveWorkflowInstanceAsync(instance);
+            await Task.Delay(TimeSpan.FromSeconds(retry.DelaySeconds * attempt), cancellationToken);
+        }
+
+        // Continue to the next step, or finish with the status the step declares
+        if (!string.IsNullOrEmpty(step.Overrides?.NextStep))
+        {
+            await MoveToStepAsync(definition, instance, step.Overrides.NextStep);
+        }
+        else
+        {
+            instance.Status = step.Status ?? "completed";
+            if (instance.Status == "completed")
+            {
+                instance.CompletedAt = DateTime.UtcNow;
+                instance.Certificate ??= IssueCertificate(definition, instance);
+            }
+        }
+
+        await _repository.SaveWorkflowInstanceAsync(instance);
+
+        if (instance.Status == "processing")
+        {
+            _systemActionQueue.Enqueue(instance.Id);
+        }
+        else if (instance.Status == "completed" && definition.Notifications.OnWorkflowComplete)
+        {
+            await NotifyAsync(definition, instance, "workflow_completed", step.StepId ?? instance.CurrentStep, "system",
+                $"{definition.Name} completed",
+                "The workflow has been completed.");
+        }
+
+        return instance;
+    }
+
+    /// <summary>
+    /// Queue the system action of an "action_failed" instance again
+    /// </summary>
+    public async Task<WorkflowInstance> RetrySystemActionAsync(Guid instanceId, string requestedBy)
+    {
+        var instance = await _repository.GetWorkflowInstanceAsync(instanceId);
+        if (instance == null)
+        {
+            throw new ArgumentException($"Workflow instance not found: {instanceId}");
+        }
+
+        if (instance.Status != "action_failed")
+        {
+            throw new InvalidOperationException($"Only failed system actions can be retried (status: {instance.Status})");
+        }
+
+        instance.Status = "processing";
+        await _repository.SaveWorkflowInstanceAsync(instance);
+        _systemActionQueue.Enqueue(instance.Id);
+
+        _logger.LogInformation("System action of workflow instance {InstanceId} at {StepId} retried by {RequestedBy}",
+            instance.Id, instance.CurrentStep, requestedBy);
+
+        return instance;
+    }
+
+    /// <summary>
+    /// Published versions of a definition with the in-flight instances pinned to each
+    /// </summary>
+    public async Task<WorkflowVersionListing> GetDefinitionVersionsAsync(string certificationId)
+    {
+        var live = await _definitionProvider.GetLiveVersionAsync(certificationId);
+        if (live == null)
+        {
+            throw new ArgumentException($"Workflow definition not found: {certificationId}");
+        }
+
+        var versions = await _definitionProvider.GetVersionsAsync(certificationId);
+        var inFlight = (await _repository.GetWorkflowsByDefinitionAsync(certificationId))
+            .Where(w => InFlightStatuses.Contains(w.Status))
+            .ToList();
+
+        return new WorkflowVersionListing
+        {
+            DefinitionId = certificationId,
+            LiveVersion = live.Version,
+            LiveChanged = versions.Any(v => v.Version == live.Version && v.ContentHash != live.ContentHash),
+            UnpinnedInstanceCount = inFlight.Count(w => string.IsNullOrEmpty(w.DefinitionVersion)),
+            Versions = versions.Select(v => new WorkflowDefinitionVersionSummary
+            {
+                Version = v.Version,
+                PublishedAt = v.PublishedAt,
+                ContentHash = v.ContentHash,
+                StepVersions = v.StepVersions,
+                InstanceCount = inFlight.Count(w => w.DefinitionVersion == v.Version)
+            }).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Move in-flight instances of a definition from one version to another, renaming their data and steps
+    /// through the request's mappings. A dry run only reports the changes; otherwise every instance that
+    /// can be migrated is, and the others are left where they are.
+    /// </summary>
+    public async Task<WorkflowMigrationResult> MigrateInstancesAsync(string certificationId, WorkflowMigrationRequest request)
+    {
+        var live = await _definitionProvider.GetLiveVersionAsync(certificationId);
+        if (live == null)
+        {
+            throw new ArgumentException($"Workflow definition not found: {certificationId}");
+        }
+
+        if (string.IsNullOrEmpty(request.ToVersion))
+        {
+            throw new InvalidOperationException("A target version is required");
+        }
+
+        if (request.ToVersion == request.FromVersion)
+        {
+            throw new InvalidOperationException($"Instances are already on version {request.ToVersion}");
+        }
+
+        // Migrating to the live version publishes it first
+        var target = await _definitionProvider.GetVersionAsync(certificationId, request.ToVersion)
+            ?? (request.ToVersion == live.Version ? await _definitionProvider.PublishVersionAsync(certificationId) : null);
+        if (target == null)
+        {
+            throw new ArgumentException($"Version {request.ToVersion} of {certificationId} is not published");
+        }
+
+        // Unpinned instances still run on the live files
+        var source = string.IsNullOrEmpty(request.FromVersion)
+            ? live
+            : await _definitionProvider.GetVersionAsync(certificationId, request.FromVersion);
+        if (source == null)
+        {
+            throw new ArgumentException($"Version {request.FromVersion} of {certificationId} is not published");
+        }
+
+        var targetDefinition = await _definitionProvider.GetDefinitionAsync(certificationId, target.Version);
+        if (targetDefinition == null)
+        {
+            throw new InvalidOperationException($"Version {target.Version} of {certificationId} cannot be read");
+        }
+
+        var sourceSteps = await LoadVersionStepsAsync(certificationId, request.FromVersion, source);
+        var targetSteps = await LoadVersionStepsAsync(certificationId, target.Version, target);
+        var sourceFields = sourceSteps.Values.SelectMany(s => s.Fields).Select(f => f.Key).ToHashSet();
+        var targetFields = targetSteps.Values.SelectMany(s => s.Fields).Select(f => f.Key).ToHashSet();
+
+        var result = new WorkflowMigrationResult
+        {
+            DefinitionId = certificationId,
+            FromVersion = request.FromVersion,
+            ToVersion = target.Version,
+            DryRun = request.DryRun,
+            ChangedSteps = DiffStepVersions(source.StepVersions, target.StepVersions)
+        };
+
+        var instances = (await _repository.GetWorkflowsByDefinitionAsync(certificationId))
+            .Where(w => MigratableStatuses.Contains(w.Status))
+            .Where(w => (w.DefinitionVersion ?? string.Empty) == (request.FromVersion ?? string.Empty))
+            .Where(w => request.InstanceIds == null || request.InstanceIds.Count == 0 || request.InstanceIds.Contains(w.Id));
+
+        foreach (var instance in instances)
+        {
+            var diff = DiffInstance(instance, request, targetDefinition, sourceFields, targetFields);
+            result.Instances.Add(diff);
+
+            if (request.DryRun || !diff.CanMigrate)
+            {
+                continue;
+            }
+
+            ApplyMigration(instance, diff, request, target, targetDefinition, targetSteps);
+            await _repository.SaveWorkflowInstanceAsync(instance);
+            diff.Migrated = true;
+        }
+
+        _logger.LogInformation(
+            "{Mode} of {CertificationId} from version {FromVersion} to {ToVersion} by {RequestedBy}: {Migratable} of {Count} instances can be migrated",
+            request.DryRun ? "Dry run of migration" : "Migration", certificationId, request.FromVersion ?? "live",
+            target.Version, request.RequestedBy, result.Instances.Count(i => i.CanMigrate), result.Instances.Count);
+
+        return result;
+    }
+
+    /// <summary>
+    /// Step that follows a submitted step: the first of the step's conditional transitions (overrides.next)
+    /// whose condition holds for the submitted data, otherwise overrides.nextStep
+    /// </summary>
+    private string? ResolveNextStep(StepReference? stepRef, WorkflowSubmission submission, Dictionary<string, object> currentData)
+    {
+        // Conditions see all data entered so far, as in the browser
+        var model = new Dictionary<string, object>(currentData);
+        foreach (var kvp in submission.FormData)
+        {
+            model[kvp.Key] = kvp.Value;
+        }
+
+        var defaultNextStep = stepRef?.Overrides?.NextStep;
+        var nextStep = defaultNextStep;
+        foreach (var transition in (stepRef?.Overrides?.Next ?? new List<StepTransition>()).Where(t => !string.IsNullOrEmpty(t.Goto)))
+        {
+            if (string.IsNullOrEmpty(transition.When) || IsConditionMet(transition, model))
+            {
+                nextStep = transition.Goto;
+                break;
+            }
+        }
+
+        // The client's choice is only a cross-check: it cannot pick another transition than the data leads to
+        if (!string.IsNullOrEmpty(submission.NextStep) && submission.NextStep != nextStep)
+        {
+            throw new InvalidOperationException(
+                $"Step {submission.StepId} continues to {nextStep ?? "no next step"} for the submitted data, not {submission.NextStep}");
+        }
+
+        return nextStep;
+    }
+
+    /// <summary>
+    /// Evaluate a transition condition. Conditions that fail to evaluate do not match, as in the browser;
+    /// conditions only the browser can evaluate stop the submission rather than guess.
+    /// </summary>
+    private bool IsConditionMet(StepTransition transition, Dictionary<string, object> model)
+    {
+        try
+        {
+            return ExpressionEvaluator.IsTruthy(transition.When!, model);
+        }
+        catch (ExpressionException ex) when (ex.NotSupportedOnServer)
+        {
+            throw new InvalidOperationException($"The condition of the transition to {transition.Goto} cannot be evaluated: {ex.Message}");
+        }
+        catch (ExpressionException ex)
+        {
+            _logger.LogWarning("Condition {Condition} of the transition to {Goto} does not evaluate: {Message}",
+                transition.When, transition.Goto, ex.Message);
+            return false;
+        }
+    }
+
+    /// <summary>
+    /// Move the instance to a step. A system-action step leaves it "processing" until the action has run,
+    /// a parallel step opens its branches; "completed" without such a step completes it straight away
+    /// and "rejected" rejects it.
+    /// </summary>
+    private async Task MoveToStepAsync(WorkflowDefinition definition, WorkflowInstance instance, string nextStepId)
+    {
+        var nextStepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(nextStepId) || s.StepId == nextStepId);
+
+        if (nextStepRef?.Type == "parallel")
+        {
+            // A branch step worked on outside its parallel step (after a send-back) does not reopen the other branches
+            if (GetBranchSteps(definition, nextStepRef).Contains(instance.CurrentStep))
+            {
+                await MoveToStepAsync(definition, instance, nextStepRef.Overrides?.NextStep ?? "completed");
+                return;
+            }
+
+            await StartParallelStepAsync(definition, instance, nextStepRef);
+            return;
+        }
+
+        if (nextStepRef?.Type == "system_action")
+        {
+            instance.CurrentStep = nextStepId;
+            instance.AssignedActor = "system";
+            instance.Status = "processing";
+
+            // Reaching "completed" issues the certificate; the action then produces its documents
+            if (nextStepId == "completed")
+            {
+                instance.Certificate = IssueCertificate(definition, instance);
+            }
+
+            _logger.LogInformation("Workflow instance {InstanceId} waiting on system action {Action} at {StepId}",
+                instance.Id, nextStepRef.SystemAction, nextStepId);
+            return;
+        }
+
+        if (nextStepId == "rejected")
+        {
+            instance.Status = "rejected";
+            instance.CompletedAt = DateTime.UtcNow;
+            _logger.LogInformation("Workflow instance {InstanceId} rejected by a transition of step {StepId}",
+                instance.Id, instance.CurrentStep);
+            return;
+        }
+
+        if (nextStepId == "completed")
+        {
+            instance.Status = "completed";
+            instance.CompletedAt = DateTime.UtcNow;
+            instance.CurrentStep = "completed";
+            instance.ActiveSteps = new List<ActiveStep>();
+            instance.Certificate = IssueCertificate(definition, instance);
+            _logger.LogInformation("Workflow instance {InstanceId} completed with certificate {CertificateNumber}",
+                instance.Id, instance.Certificate.CertificateNumber);
+            return;
+        }
+
+        if (nextStepRef != null)
+        {
+            var nextStepDef = await GetPinnedStepAsync(instance, nextStepRef.StepRef);
+            if (nextStepDef != null)
+            {
+                instance.CurrentStep = nextStepDef.StepId;
+                instance.AssignedActor = nextStepDef.Actor;
+                instance.Status = "in_progress";
+                _logger.LogInformation("Workflow instance {InstanceId} moved to step {StepId}",
+                    instance.Id, nextStepDef.StepId);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Open the branches of a parallel step. With workflowConfig.allowParallelExecution they all start at once,
+    /// otherwise they take turns in the order they are declared.
+    /// </summary>
+    private async Task StartParallelStepAsync(WorkflowDefinition definition, WorkflowInstance instance, StepReference parallelStep)
+    {
+        var branches = parallelStep.Branches ?? new List<string>();
+        if (string.IsNullOrEmpty(parallelStep.StepId) || branches.Count == 0)
+        {
+            throw new InvalidOperationException($"Parallel step {parallelStep.StepId} has no branches");
+        }
+
+        instance.CurrentStep = parallelStep.StepId;
+        instance.AssignedActor = null;
+        instance.Status = "in_progress";
+        instance.ActiveSteps = new List<ActiveStep>();
+
+        foreach (var branch in branches)
+        {
+            var activeStep = new ActiveStep { Branch = branch, StepId = branch };
+            instance.ActiveSteps.Add(activeStep);
+
+            if (definition.WorkflowConfig.AllowParallelExecution || instance.ActiveSteps.Count == 1)
+            {
+                await OpenBranchStepAsync(definition, instance, activeStep, branch);
+            }
+        }
+
+        _logger.LogInformation("Workflow instance {InstanceId} opened {BranchCount} branches of parallel step {StepId}",
+            instance.Id, branches.Count, parallelStep.StepId);
+    }
+
+    /// <summary>
+    /// Move a branch of the parallel step past its submitted step. The branch is done once it leads back to
+    /// the parallel step, which joins when its quorum of branches (all by default) is done.
+    /// </summary>
+    private async Task AdvanceBranchAsync(
+        WorkflowDefinition definition,
+        WorkflowInstance instance,
+        ActiveStep activeStep,
+        string? nextStepId,
+        string submittedBy)
+    {
+        var parallelStep = definition.Steps.FirstOrDefault(s => s.StepId == instance.CurrentStep && s.Type == "parallel");
+        if (parallelStep == null)
+        {
+            throw new InvalidOperationException($"Parallel step not found: {instance.CurrentStep}");
+        }
+
+        // "completed" or "rejected" ends the whole workflow, not just the branch
+        if (nextStepId == "completed" || nextStepId == "rejected")
+        {
+            CancelBranches(instance);
+            await MoveToStepAsync(definition, instance, nextStepId);
+            return;
+        }
+
+        if (!string.IsNullOrEmpty(nextStepId) && nextStepId != parallelStep.StepId)
+        {
+            await OpenBranchStepAsync(definition, instance, activeStep, nextStepId);
+            return;
+        }
+
+        activeStep.Status = "completed";
+        activeStep.CompletedAt = DateTime.UtcNow;
+        activeStep.CompletedBy = submittedBy;
+
+        var branchCount = instance.ActiveSteps.Count;
+        var quorum = parallelStep.Quorum is int required && required > 0 ? Math.Min(required, branchCount) : branchCount;
+        var completed = instance.ActiveSteps.Count(s => s.Status == "completed");
+        if (completed < quorum)
+        {
+            // Branches that take turns start once the previous one is done
+            var pending = instance.ActiveSteps.FirstOrDefault(s => s.Status == "pending");
+            if (pending != null && !instance.ActiveSteps.Any(s => s.Status == "in_progress"))
+            {
+                await OpenBranchStepAsync(definition, instance, pending, pending.Branch);
+            }
+            return;
+        }
+
+        // Join: branches still open are no longer needed
+        var cancelled = instance.ActiveSteps.Where(s => s.Status != "completed").Select(s => s.Branch).ToList();
+        instance.StepHistory.Add(CreateSystemActionEntry(instance, "parallel_joined", cancelled.Count == 0
+            ? $"All {branchCount} branches completed"
+            : $"{completed} of {branchCount} branches completed; cancelled {string.Join(", ", cancelled)}"));
+        instance.ActiveSteps = new List<ActiveStep>();
+
+        _logger.LogInformation("Workflow instance {InstanceId} joined parallel step {StepId} ({Completed} of {BranchCount} branches)",
+            instance.Id, parallelStep.StepId, completed, branchCount);
+
+        await MoveToStepAsync(definition, instance, parallelStep.Overrides?.NextStep ?? "completed");
+    }
+
+    /// <summary>
+    /// Definition the instance runs on: its pinned version, or the live file for instances started before pinning
+    /// </summary>
+    private Task<WorkflowDefinition?> GetPinnedDefinitionAsync(WorkflowInstance instance) =>
+        _definitionProvider.GetDefinitionAsync(instance.DefinitionId, instance.DefinitionVersion);
+
+    private Task<WorkflowStep?> GetPinnedStepAsync(WorkflowInstance instance, string stepRef) =>
+        _definitionProvider.GetStepDefinitionAsync(stepRef, instance.DefinitionId, instance.DefinitionVersion);
+
+    /// <summary>
+    /// Actor of the first step of the instance's definition, null when the definition cannot be read
+    /// </summary>
+    private async Task<string?> GetStartingRoleAsync(WorkflowInstance instance)
+    {
+        var definition = await GetPinnedDefinitionAsync(instance);
+        var firstStepRef = definition?.Steps.FirstOrDefault()?.StepRef;
+        if (string.IsNullOrEmpty(firstStepRef))
+        {
+            return null;
+        }
+
+        return (await GetPinnedStepAsync(instance, firstStepRef))?.Actor;
+    }
+
+    /// <summary>
+    /// Step files of a version by stepRef; a null version reads the live files
+    /// </summary>
+    private async Task<Dictionary<string, WorkflowStep>> LoadVersionStepsAsync(
+        string certificationId,
+        string? version,
+        WorkflowDefinitionVersion snapshot)
+    {
+        var steps = new Dictionary<string, WorkflowStep>();
+        foreach (var stepRef in snapshot.StepVersions.Keys)
+        {
+            var step = await _definitionProvider.GetStepDefinitionAsync(stepRef, certificationId, version);
+            if (step != null)
+            {
+                steps[stepRef] = step;
+            }
+        }
+
+        return steps;
+    }
+
+    private static Dictionary<string, string> DiffStepVersions(Dictionary<string, string> from, Dictionary<string, string> to)
+    {
+        var changes = new Dictionary<string, string>();
+        foreach (var stepRef in from.Keys.Union(to.Keys))
+        {
+            if (!to.TryGetValue(stepRef, out var toHash))
+            {
+                changes[stepRef] = "removed";
+            }
+            else if (!from.TryGetValue(stepRef, out var fromHash))
+            {
+                changes[stepRef] = "added";
+            }
+            else if (fromHash != toHash)
+            {
+                changes[stepRef] = "changed";
+            }
+        }
+
+        return changes;
+    }
+
+    /// <summary>
+    /// What migrating an instance would change. The current step and every open branch must exist on the
+    /// new version, and renamed fields must be on one of its steps without overwriting data that stays.
+    /// </summary>
+    private static InstanceMigrationDiff DiffInstance(
+        WorkflowInstance instance,
+        WorkflowMigrationRequest request,
+        WorkflowDefinition targetDefinition,
+        HashSet<string> sourceFields,
+        HashSet<string> targetFields)
+    {
+        var diff = new InstanceMigrationDiff
+        {
+            InstanceId = instance.Id,
+            Status = instance.Status,
+            FromStep = instance.CurrentStep,
+            ToStep = MapStep(instance.CurrentStep, request)
+        };
+
+        if (!HasStep(targetDefinition, diff.ToStep))
+        {
+            diff.Errors.Add($"Step {diff.ToStep} is not in version {request.ToVersion}; map it to one of its steps");
+        }
+
+        foreach (var activeStep in instance.ActiveSteps.Where(s => s.Status == "pending" || s.Status == "in_progress"))
+        {
+            var stepId = MapStep(activeStep.StepId, request);
+            if (!HasStep(targetDefinition, stepId))
+            {
+                diff.Errors.Add($"Branch step {stepId} is not in version {request.ToVersion}; map it to one of its steps");
+            }
+        }
+
+        foreach (var key in instance.CurrentData.Keys)
+        {
+            if (!request.FieldMapping.TryGetValue(key, out var newKey))
+            {
+                if (!targetFields.Contains(key))
+                {
+                    diff.UnmappedFields.Add(key);
+                }
+                continue;
+            }
+
+            if (string.IsNullOrEmpty(newKey))
+            {
+                diff.DroppedFields.Add(key);
+                continue;
+            }
+
+            if (newKey == key)
+            {
+                continue;
+            }
+
+            diff.RenamedFields[key] = newKey;
+            if (!targetFields.Contains(newKey))
+            {
+                diff.Errors.Add($"Field {key} is mapped to {newKey}, which is not on any step of version {request.ToVersion}");
+            }
+            if (instance.CurrentData.ContainsKey(newKey) && !request.FieldMapping.ContainsKey(newKey))
+            {
+                diff.Errors.Add($"Field {key} is mapped to {newKey}, which already has data");
+            }
+        }
+
+        foreach (var duplicate in diff.RenamedFields.GroupBy(r => r.Value).Where(g => g.Count() > 1))
+        {
+            diff.Errors.Add($"Fields {string.Join(", ", duplicate.Select(r => r.Key))} are all mapped to {duplicate.Key}");
+        }
+
+        diff.AddedFields = targetFields
+            .Where(key => !sourceFields.Contains(key) && !diff.RenamedFields.ContainsValue(key))
+            .OrderBy(key => key)
+            .ToList();
+
+        return diff;
+    }
+
+    /// <summary>
+    /// Rename the instance's data and steps, assign its open steps to the actors of the new version and pin it
+    /// </summary>
+    private static void ApplyMigration(
+        WorkflowInstance instance,
+        InstanceMigrationDiff diff,
+        WorkflowMigrationRequest request,
+        WorkflowDefinitionVersion target,
+        WorkflowDefinition targetDefinition,
+        Dictionary<string, WorkflowStep> targetSteps)
+    {
+        var fromVersion = instance.DefinitionVersion ?? "live";
+
+        instance.CurrentData = instance.CurrentData
+            .Where(kvp => !diff.DroppedFields.Contains(kvp.Key))
+            .ToDictionary(kvp => diff.RenamedFields.GetValueOrDefault(kvp.Key, kvp.Key), kvp => kvp.Value);
+
+        if (instance.SendBackInfo != null)
+        {
+            instance.SendBackInfo.EditableFields = instance.SendBackInfo.EditableFields
+                .Where(key => !diff.DroppedFields.Contains(key))
+                .Select(key => diff.RenamedFields.GetValueOrDefault(key, key))
+                .ToList();
+        }
+
+        WorkflowStep? FindStep(string stepId)
+        {
+            var stepRef = targetDefinition.Steps.FirstOrDefault(s => s.StepRef.EndsWith(stepId) || s.StepId == stepId)?.StepRef;
+            return stepRef == null ? null : targetSteps.GetValueOrDefault(stepRef);
+        }
+
+        instance.CurrentStep = diff.ToStep;
+        if (instance.ActiveSteps.Count == 0 && instance.Status == "in_progress")
+        {
+            instance.AssignedActor = FindStep(instance.CurrentStep)?.Actor ?? instance.AssignedActor;
+        }
+
+        foreach (var activeStep in instance.ActiveSteps)
+        {
+            activeStep.Branch = MapStep(activeStep.Branch, request);
+            activeStep.StepId = MapStep(activeStep.StepId, request);
+            if (activeStep.Status == "in_progress")
+            {
+                activeStep.AssignedActor = FindStep(activeStep.StepId)?.Actor ?? activeStep.AssignedActor;
+            }
+        }
+
+        instance.DefinitionVersion = target.Version;
+        instance.StepVersions = new Dictionary<string, string>(target.StepVersions);
+
+        instance.StepHistory.Add(new StepHistoryEntry
+        {
+            StepId = instance.CurrentStep,
+            CompletedAt = DateTime.UtcNow,
+            CompletedBy = string.IsNullOrEmpty(request.RequestedBy) ? "system" : request.RequestedBy,
+            ActorRole = "admin",
+            DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
+            Decision = "migrated",
+            Comments = $"Migrated from version {fromVersion} to {target.Version}"
+        });
+    }
+
+    private static string MapStep(string stepId, WorkflowMigrationRequest request) =>
+        request.StepMapping.TryGetValue(stepId, out var mapped) && !string.IsNullOrEmpty(mapped) ? mapped : stepId;
+
+    private static bool HasStep(WorkflowDefinition definition, string stepId) =>
+        definition.Steps.Any(s => s.StepRef.EndsWith(stepId) || s.StepId == stepId);
+
+    private async Task OpenBranchStepAsync(WorkflowDefinition definition, WorkflowInstance instance, ActiveStep activeStep, string stepId)
+    {
+        var stepRef = definition.Steps.FirstOrDefault(s =>
+            s.StepRef.EndsWith(stepId) || s.StepId == stepId);
+        var stepDef = stepRef == null
+            ? null
+            : await GetPinnedStepAsync(instance, stepRef.StepRef);
+        if (stepDef == null)
+        {
+            throw new InvalidOperationException($"Branch step not found: {stepId}");
+        }
+
+        activeStep.StepId = stepDef.StepId;
+        activeStep.AssignedActor = stepDef.Actor;
+        activeStep.Status = "in_progress";
+        activeStep.StartedAt = DateTime.UtcNow;
+    }
+
+    private static void CancelBranches(WorkflowInstance instance)
+    {
+        foreach (var activeStep in instance.ActiveSteps.Where(s => s.Status == "pending" || s.Status == "in_progress"))
+        {
+            activeStep.Status = "cancelled";
+        }
+    }
+
+    /// <summary>
+    /// Steps on the branches of a parallel step, following each branch's nextStep back to the parallel step
+    /// </summary>
+    private static HashSet<string> GetBranchSteps(WorkflowDefinition definition, StepReference parallelStep)
+    {
+        var steps = new HashSet<string>();
+        foreach (var branch in parallelStep.Branches ?? new List<string>())
+        {
+            var stepId = branch;
+            while (!string.IsNullOrEmpty(stepId) && stepId != parallelStep.StepId && steps.Add(stepId))
+            {
+                var id = stepId;
+                stepId = definition.Steps.FirstOrDefault(s => s.StepRef.EndsWith(id) || s.StepId == id)?.Overrides?.NextStep;
+            }
+        }
+
+        return steps;
+    }
+
+    /// <summary>
+    /// Decisions outside the submit path (send-back, reject) get the same guard ValidateStepAsync applies
+    /// </summary>
+    private static void EnsureStepIsOpen(WorkflowInstance instance, string stepId)
+    {
+        if (instance.Status != "in_progress")
+        {
+            throw new InvalidOperationException($"The workflow is {instance.Status}, not in progress");
+        }
+
+        if (!instance.IsOpenStep(stepId))
+        {
+            throw new InvalidOperationException($"Invalid step. The workflow waits on {DescribeWaitingOn(instance)}");
+        }
+    }
+
+    /// <summary>
+    /// A role may act on the steps it is the actor of and on those the definition's canEditSteps lists for it
+    /// </summary>
+    private static void EnsureRoleMayActOnStep(WorkflowDefinition definition, WorkflowStep stepDef, string role)
+    {
+        var canEdit = (!string.IsNullOrEmpty(role) && stepDef.Actor == role)
+            || definition.Permissions.GetValueOrDefault(role)?.CanEditSteps?.Contains(stepDef.StepId) == true;
+        if (!canEdit)
+        {
+            throw new InvalidOperationException($"Role {(string.IsNullOrEmpty(role) ? "(none)" : role)} cannot act on step {stepDef.StepId}");
+        }
+    }
+
+    /// <summary>
+    /// Who the instance waits on: the assigned actor at the current step, or each open branch
+    /// </summary>
+    private static string DescribeWaitingOn(WorkflowInstance instance)
+    {
+        var openBranches = instance.ActiveSteps.Where(s => s.Status == "in_progress").ToList();
+        return openBranches.Count == 0
+            ? $"{instance.AssignedActor} at {instance.CurrentStep}"
+            : string.Join(" and ", openBranches.Select(s => $"{s.AssignedActor} at {s.StepId}"));
+    }
+
+    private static StepHistoryEntry CreateSystemActionEntry(WorkflowInstance instance, string decision, string comments)
+    {
+        return new StepHistoryEntry
+        {
+            StepId = instance.CurrentStep,
+            CompletedAt = DateTime.UtcNow,
+            CompletedBy = "system",
+            ActorRole = "system",
+            DataSnapshot = new Dictionary<string, object>(instance.CurrentData),
+            Decision = decision,
+            Comments = comments,
+            ProcessingTimeMinutes = GetProcessingTimeMinutes(instance)
+        };
+    }
+
+    /// <summary>
+    /// Minutes the instance has spent at its current step: since its parallel branch reached the step,
+    /// since the last history entry, or since it started
+    /// </summary>
+    private static int GetProcessingTimeMinutes(WorkflowInstance instance, string? stepId = null)
+    {
+        var stepStartedAt = instance.ActiveSteps.FirstOrDefault(s => s.StepId == stepId)?.StartedAt
+            ?? instance.StepHistory.LastOrDefault()?.CompletedAt
+            ?? instance.StartedAt;
+        return (int)Math.Max(0, (DateTime.UtcNow - stepStartedAt).TotalMinutes);
+    }
+
+    /// <summary>
+    /// Certificate for a completed instance, numbered {workflowCode}-{year}-{first 8 hex digits of the instance id}
+    /// </summary>
+    private static IssuedCertificate IssueCertificate(WorkflowDefinition definition, WorkflowInstance instance)
+    {
+        var code = string.IsNullOrEmpty(definition.Metadata.WorkflowCode)
+            ? definition.CertificationId
+            : definition.Metadata.WorkflowCode;
+        var issuedAt = instance.CompletedAt ?? DateTime.UtcNow;
+        var suffix = instance.Id.ToString("N")[..8].ToUpperInvariant();
+
+        return new IssuedCertificate
+        {
+            CertificateNumber = $"{code}-{issuedAt:yyyy}-{suffix}",
+            IssuedAt = issuedAt,
+            ValidUntil = definition.Metadata.CertificateValidityMonths is int months ? issuedAt.AddMonths(months) : null,
+            IssuedTo = instance.CreatedBy
+        };
+    }
+
+    private Task NotifyAsync(
+        WorkflowDefinition definition,
+        WorkflowInstance instance,
+        string eventType,
+        string stepId,
+        string triggeredBy,
+        string title,
+        string message)
+    {
+        return _notificationService.PublishAsync(new NotificationEvent
+        {
+            EventType = eventType,
+            Instance = instance,
+            StepId = stepId,
+            TriggeredBy = triggeredBy,
+            Title = title,
+            Message = message
+        }, definition);
+    }
+
+    private Dictionary<string, FieldChange> TrackFieldChanges(
+        Dictionary<string, object> oldData,
+        Dictionary<string, object> newData)
+    {
+        var changes = new Dictionary<string, FieldChange>();
+
+        foreach (var kvp in newData)
+        {
+            if (!oldData.ContainsKey(kvp.Key))
+            {
+                changes[kvp.Key] = new FieldChange { OldValue = null, NewValue = kvp.Value };
+            }
+            else if (!Equals(oldData[kvp.Key], kvp.Value))
+            {
+                changes[kvp.Key] = new FieldChange { OldValue = oldData[kvp.Key], NewValue = kvp.Value };
+            }
+        }
+
+        return changes;
     }
 
     private ValidationResult ExecuteBusinessRulesAsync(
@@ -0,0 +1,140 @@
+/**
+ * Validate workflow definitions and their step files
+ * Usage: npm run validate:workflows [-- <workflowId> ...]
+ * Checks every file in src/assets/forms/workflows/Definitions unless workflow IDs are given,
+ * prints each issue with its file and JSON path, and exits with 1 when there are errors.
+ */
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { JsonSchema } from '../src/app/services/workflow-functions/common/json-schema-validator';
+import {
+  WorkflowIssue,
+  WorkflowSchemas,
+  stepFilePath,
+  validateWorkflow
+} from '../src/app/services/workflow-functions/common/workflow-definition-validator';
+
+const FORMS_DIR = join(process.cwd(), 'src/assets/forms');
+const DEFINITIONS_DIR = 'workflows/Definitions';
+const SCHEMA_DIR = 'workflows/schema';
+const FUNCTIONS_DIR = join(process.cwd(), 'src/app/services/workflow-functions');
+
+function main(): void {
+  const schemas: WorkflowSchemas = {
+    definition: readJson<JsonSchema>(`${SCHEMA_DIR}/workflow-definition.schema.json`),
+    step: readJson<JsonSchema>(`${SCHEMA_DIR}/step-definition.schema.json`)
+  };
+  const optionResolvers = findOptionResolvers(FUNCTIONS_DIR);
+
+  const requested = process.argv.slice(2);
+  const workflowIds = requested.length
+    ? requested
+    : readdirSync(join(FORMS_DIR, DEFINITIONS_DIR))
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length));
+
+  const issues: WorkflowIssue[] = [];
+  for (const workflowId of workflowIds) {
+    issues.push(...validateDefinition(workflowId, schemas, optionResolvers));
+  }
+
+  printIssues(issues);
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  console.log(`\n${workflowIds.length} definition(s) checked: ${errors} error(s), ${issues.length - errors} warning(s)`);
+  process.exitCode = errors ? 1 : 0;
+}
+
+function validateDefinition(workflowId: string, schemas: WorkflowSchemas, optionResolvers: string[]): WorkflowIssue[] {
+  const definitionFile = `${DEFINITIONS_DIR}/${workflowId}.json`;
+  const issues: WorkflowIssue[] = [];
+
+  const definition = tryReadJson(definitionFile, issues);
+  if (definition === undefined) {
+    return issues;
+  }
+  if (definition === null) {
+    return [{ severity: 'error', file: definitionFile, path: '$', message: 'Definition file not found' }];
+  }
+  if (!('certificationId' in definition) && !('steps' in definition)) {
+    console.log(`Skipping ${definitionFile}: not a workflow definition`);
+    return issues;
+  }
+
+  const steps: Record<string, any> = {};
+  for (const step of Array.isArray(definition.steps) ? definition.steps : []) {
+    if (typeof step?.stepRef === 'string' && !(step.stepRef in steps)) {
+      steps[step.stepRef] = tryReadJson(stepFilePath(step.stepRef), issues) ?? null;
+    }
+  }
+
+  issues.push(...validateWorkflow({ definitionFile, definition, steps }, schemas, { optionResolvers }));
+  return issues;
+}
+
+/**
+ * Read a JSON file under assets/forms; null when it does not exist,
+ * undefined (with an issue) when it does not parse
+ */
+function tryReadJson(file: string, issues: WorkflowIssue[]): any {
+  const fullPath = join(FORMS_DIR, file);
+  if (!existsSync(fullPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(fullPath, 'utf8'));
+  } catch (error) {
+    issues.push({ severity: 'error', file, path: '$', message: `Invalid JSON: ${(error as Error).message}` });
+    return undefined;
+  }
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(join(FORMS_DIR, file), 'utf8'));
+}
+
+/**
+ * Option resolver names registered in the workflow functions sources:
+ * `register('name', ...)` calls and the keys of each workflow's `optionResolvers`
+ */
+function findOptionResolvers(dir: string): string[] {
+  const names = new Set<string>();
+
+  for (const file of listFiles(dir).filter(path => path.endsWith('.ts') && !path.endsWith('.spec.ts'))) {
+    const source = readFileSync(file, 'utf8');
+
+    for (const match of source.matchAll(/\.register\(\s*'([^']+)'/g)) {
+      names.add(match[1]);
+    }
+
+    const resolvers = /optionResolvers[^=\n]*=\s*\{([\s\S]*?)\n\s*\};?\n/.exec(source);
+    for (const match of resolvers?.[1].matchAll(/^\s*'?(\w+)'?\s*:/gm) ?? []) {
+      names.add(match[1]);
+    }
+  }
+
+  return [...names];
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+function printIssues(issues: WorkflowIssue[]): void {
+  const byFile = new Map<string, WorkflowIssue[]>();
+  for (const issue of issues) {
+    byFile.set(issue.file, [...(byFile.get(issue.file) || []), issue]);
+  }
+
+  for (const [file, fileIssues] of byFile) {
+    console.log(`\n${file}`);
+    for (const issue of fileIssues) {
+      console.log(`  ${issue.severity.padEnd(7)} ${issue.path}  ${issue.message}`);
+    }
+  }
+}
+
+main();
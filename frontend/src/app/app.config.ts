@@ -1,6 +1,6 @@
 import { ApplicationConfig, provideBrowserGlobalErrorListeners, importProvidersFrom } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import { HTTP_INTERCEPTORS, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
 import { FormlyModule } from '@ngx-formly/core';
 import { FormlyBootstrapModule } from '@ngx-formly/bootstrap';
 
@@ -11,12 +11,15 @@ import { FormlyFieldRepeat } from './components/dynamic-form/dynamic-form-types/
 import { FormlyFieldButton } from './components/dynamic-form/dynamic-form-types/formly-field-button.type';
 import { FormlyFieldHtml } from './components/dynamic-form/dynamic-form-types/formly-field-html.type';
 import { FormlyFieldTable } from './components/dynamic-form/dynamic-form-types/formly-field-table.type';
+import { RULE_ERROR_KEY } from './services/workflow-functions/common/validation-rule-engine.service';
+import { AuthInterceptor } from './interceptors/auth.interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
     provideHttpClient(withInterceptorsFromDi()),
+    { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true },
     provideClientHydration(withEventReplay()),
     importProvidersFrom(
       FormlyModule.forRoot({
@@ -26,6 +29,9 @@ export const appConfig: ApplicationConfig = {
           { name: 'button', component: FormlyFieldButton },
           { name: 'html', component: FormlyFieldHtml },
           { name: 'table', component: FormlyFieldTable }
+        ],
+        validationMessages: [
+          { name: RULE_ERROR_KEY, message: (error: { message: string }) => error.message }
         ]
       }),
       FormlyBootstrapModule
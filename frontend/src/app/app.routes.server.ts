@@ -9,6 +9,10 @@ export const serverRoutes: ServerRoute[] = [
     path: 'form/:formId',
     renderMode: RenderMode.Client
   },
+  {
+    path: 'verify/:certificateNo',
+    renderMode: RenderMode.Server
+  },
   {
     path: '**',
     renderMode: RenderMode.Client
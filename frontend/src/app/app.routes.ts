@@ -2,6 +2,16 @@ import { Routes } from '@angular/router';
 import { CategoryNavigationComponent } from './components/category-navigation/category-navigation.component';
 import { DynamicFormComponent } from './components/dynamic-form/dynamic-form.component';
 import { WorkflowStepComponent } from './components/workflow-step/workflow-step.component';
+import { LoginComponent } from './components/login/login.component';
+import { TaskInboxComponent } from './components/task-inbox/task-inbox.component';
+import { WorkflowCompletionComponent } from './components/workflow-completion/workflow-completion.component';
+import { CertificateVerificationComponent } from './components/certificate-verification/certificate-verification.component';
+import { WorkflowDesignerComponent } from './components/workflow-designer/workflow-designer.component';
+import { StepBuilderComponent } from './components/step-builder/step-builder.component';
+import { InstanceMigrationComponent } from './components/instance-migration/instance-migration.component';
+import { authGuard } from './guards/auth.guard';
+import { workflowStepGuard } from './guards/workflow-step.guard';
+import { ADMIN_ROLE, roleGuard } from './guards/role.guard';
 
 export const routes: Routes = [
 
@@ -11,6 +21,17 @@ export const routes: Routes = [
     title: 'Select Category'
   },
 
+  {
+    path: 'login',
+    component: LoginComponent,
+    title: 'Sign in'
+  },
+  {
+    path: 'inbox',
+    component: TaskInboxComponent,
+    canActivate: [authGuard],
+    title: 'My Work'
+  },
   {
     path: 'workflow/:workflowId',
     component: DynamicFormComponent,
@@ -24,13 +45,50 @@ export const routes: Routes = [
   {
     path: 'workflow-step/:instanceId/step/:stepId',
     component: WorkflowStepComponent,
+    canActivate: [authGuard, workflowStepGuard],
     title: 'Workflow Step'
   },
   {
     path: 'workflow-step/:instanceId/completed',
-    component: WorkflowStepComponent,
+    component: WorkflowCompletionComponent,
+    canActivate: [authGuard],
     title: 'Workflow Completed'
   },
+  {
+    path: 'verify/:certificateNo',
+    component: CertificateVerificationComponent,
+    title: 'Verify Certificate'
+  },
+  {
+    path: 'designer',
+    component: WorkflowDesignerComponent,
+    canActivate: [authGuard, roleGuard(ADMIN_ROLE)],
+    title: 'Workflow Designer'
+  },
+  {
+    path: 'designer/:workflowId',
+    component: WorkflowDesignerComponent,
+    canActivate: [authGuard, roleGuard(ADMIN_ROLE)],
+    title: 'Workflow Designer'
+  },
+  {
+    path: 'builder',
+    component: StepBuilderComponent,
+    canActivate: [authGuard, roleGuard(ADMIN_ROLE)],
+    title: 'Step Form Builder'
+  },
+  {
+    path: 'migrations',
+    component: InstanceMigrationComponent,
+    canActivate: [authGuard, roleGuard(ADMIN_ROLE)],
+    title: 'Instance Migrations'
+  },
+  {
+    path: 'migrations/:workflowId',
+    component: InstanceMigrationComponent,
+    canActivate: [authGuard, roleGuard(ADMIN_ROLE)],
+    title: 'Instance Migrations'
+  },
   {
     path: '**',
     redirectTo: ''
@@ -1,8 +1,11 @@
 import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Router } from '@angular/router';
-import { HttpClientModule } from '@angular/common/http';
-import { WorkflowService, WorkflowDefinition } from '../../services/workflow.service';
+import { Router, RouterLink } from '@angular/router';
+import { WorkflowService, WorkflowDefinition, WorkflowInstance } from '../../services/workflow.service';
+import { AuthService } from '../../services/auth.service';
+import { SlaBadge, SlaService } from '../../services/sla.service';
+import { NotificationBellComponent } from '../notification-bell/notification-bell.component';
+import { ADMIN_ROLE } from '../../guards/role.guard';
 
 export interface CategoryConfig {
   id: string;
@@ -11,13 +14,23 @@ export interface CategoryConfig {
   description: string;
   formConfigFile: string;
   metadata?: any;
+  stepCount?: number;
+  slaDays?: number;
+}
+
+/**
+ * The user's own in-progress drafts for a certification, offered before starting a new one
+ */
+export interface DraftChooser {
+  category: CategoryConfig;
+  certificationId: string;
+  drafts: WorkflowInstance[];
 }
 
 @Component({
   selector: 'app-category-navigation',
   standalone: true,
-  imports: [CommonModule, HttpClientModule],
-  providers: [WorkflowService],
+  imports: [CommonModule, RouterLink, NotificationBellComponent],
   templateUrl: './category-navigation.component.html',
   styleUrl: './category-navigation.component.css'
 })
@@ -26,6 +39,10 @@ export class CategoryNavigationComponent implements OnInit {
   loading = false;
   error: string | null = null;
 
+  // Resume / start new / discard chooser
+  draftChooser: DraftChooser | null = null;
+  draftActionInProgress: string | null = null;
+
   // Icon mapping based on workflow code or certificate type
   private iconMap: { [key: string]: string } = {
     'CT401': 'bi-battery-charging',
@@ -40,9 +57,25 @@ export class CategoryNavigationComponent implements OnInit {
 
   constructor(
     private router: Router,
-    private workflowService: WorkflowService
+    private workflowService: WorkflowService,
+    private authService: AuthService,
+    private slaService: SlaService
   ) {}
 
+  /**
+   * The signed-in user, if any
+   */
+  get currentUser() {
+    return this.authService.currentUser();
+  }
+
+  /**
+   * Whether the signed-in user may open the designer and migration tools
+   */
+  get isAdmin(): boolean {
+    return this.authService.currentUser()?.role === ADMIN_ROLE;
+  }
+
   ngOnInit(): void {
     console.log('=== CATEGORY NAVIGATION INIT ===');
     this.loadWorkflowDefinitions();
@@ -107,7 +140,9 @@ export class CategoryNavigationComponent implements OnInit {
         icon: this.getIconForDefinition(def),
         description: def.description || 'No description available',
         formConfigFile: `workflows/Definitions/${def.certificationId}`,
-        metadata: def.metadata
+        metadata: def.metadata,
+        stepCount: def.steps?.length,
+        slaDays: def.slaConfig?.totalSLADays
       };
       
       console.log('Mapped category:', category);
@@ -197,6 +232,7 @@ export class CategoryNavigationComponent implements OnInit {
 
   /**
    * Navigate to workflow form
+   * Offers the user's own drafts for the certification before starting a new instance.
    */
   async navigateToForm(category: CategoryConfig): Promise<void> {
     try {
@@ -208,21 +244,13 @@ export class CategoryNavigationComponent implements OnInit {
       console.log('Category clicked:', category.name);
       console.log('Certification ID:', certificationId);
 
-      // ALWAYS check for existing instance first to avoid duplicates
-      const existingInstance = await this.checkForExistingInstance(certificationId);
-
-      if (existingInstance) {
-        console.log('=== FOUND EXISTING INSTANCE - REUSING ===');
-        console.log('Instance ID:', existingInstance.id);
-        console.log('Definition ID:', existingInstance.definitionId);
-        console.log('Current Step:', existingInstance.currentStep);
-        console.log('Status:', existingInstance.status);
+      const drafts = await this.findOwnDrafts(certificationId);
 
-        // Navigate to the current step of existing instance
-        this.navigateToCurrentStep(existingInstance);
+      if (drafts.length > 0) {
+        console.log(`=== FOUND ${drafts.length} DRAFT(S) - ASKING USER ===`);
+        this.draftChooser = { category, certificationId, drafts };
       } else {
-        console.log('=== NO EXISTING INSTANCE - CREATING NEW ===');
-        // Create new workflow instance
+        console.log('=== NO DRAFTS - CREATING NEW ===');
         await this.createNewWorkflowInstance(certificationId);
       }
     } catch (error) {
@@ -232,41 +260,103 @@ export class CategoryNavigationComponent implements OnInit {
   }
 
   /**
-   * Check if user has an in-progress workflow instance for this certification
+   * Get the signed-in user's drafts for this certification, newest first
+   * Applications already submitted for review are in progress too, but no longer the user's to resume or discard.
    */
-  private async checkForExistingInstance(certificationId: string): Promise<any | null> {
+  private async findOwnDrafts(certificationId: string): Promise<WorkflowInstance[]> {
+    const userEmail = this.getCurrentUserEmail();
+    if (!userEmail) {
+      // Anonymous instances cannot be told apart, so never offer them
+      return [];
+    }
+
     try {
-      console.log('=== CHECKING FOR EXISTING INSTANCES ===');
-      console.log('Looking for certification ID:', certificationId);
-      
-      // Get all in-progress workflows (you might want to filter by user)
-      const instances = await this.workflowService.getWorkflowsByStatus('in_progress').toPromise();
-      
-      console.log('All in-progress instances:', instances);
-      console.log('Number of in-progress instances:', instances?.length || 0);
-      
-      // Find instance matching this certification ID
-      const matchingInstance = instances?.find(
-        (instance: any) => {
-          console.log(`Comparing: "${instance.definitionId}" === "${certificationId}"`);
-          return instance.definitionId === certificationId;
-        }
-      );
-      
-      if (matchingInstance) {
-        console.log('=== MATCH FOUND ===');
-        console.log('Matching instance:', matchingInstance);
-      } else {
-        console.log('=== NO MATCH FOUND ===');
-      }
-      
-      return matchingInstance || null;
+      const instances = await this.workflowService.getMyWorkflows('in_progress').toPromise();
+
+      return (instances || [])
+        .filter(instance => instance.definitionId === certificationId)
+        .filter(instance => this.workflowService.isDraft(instance, this.currentUser?.role))
+        .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
     } catch (error) {
-      console.error('Error checking for existing instance:', error);
-      return null;
+      console.error('Error loading drafts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Continue a draft at its current step
+   */
+  resumeDraft(draft: WorkflowInstance): void {
+    this.draftChooser = null;
+    this.navigateToCurrentStep(draft);
+  }
+
+  /**
+   * Start a new instance even though drafts exist
+   */
+  async startNewDraft(): Promise<void> {
+    if (!this.draftChooser) return;
+
+    this.draftActionInProgress = 'new';
+    try {
+      await this.createNewWorkflowInstance(this.draftChooser.certificationId);
+      this.draftChooser = null;
+    } catch {
+      this.error = 'Failed to start workflow. Please try again.';
+    } finally {
+      this.draftActionInProgress = null;
     }
   }
 
+  /**
+   * Discard a draft after confirmation; closes the chooser when none are left
+   */
+  async discardDraft(draft: WorkflowInstance): Promise<void> {
+    if (!this.draftChooser || !confirm('Discard this draft? This cannot be undone.')) return;
+
+    this.draftActionInProgress = draft.id;
+    try {
+      await this.workflowService.discardWorkflowInstance(draft.id, this.getCurrentUserEmail()).toPromise();
+
+      const drafts = this.draftChooser.drafts.filter(d => d.id !== draft.id);
+      this.draftChooser = drafts.length > 0 ? { ...this.draftChooser, drafts } : null;
+    } catch (error: any) {
+      console.error('Error discarding draft:', error);
+      this.error = error?.error?.message || 'Failed to discard the draft. Please try again.';
+      this.draftChooser = null;
+    } finally {
+      this.draftActionInProgress = null;
+    }
+  }
+
+  /**
+   * Close the chooser without doing anything
+   */
+  closeDraftChooser(): void {
+    this.draftChooser = null;
+  }
+
+  /**
+   * Share of the workflow's steps a draft has completed, 0-100
+   */
+  getDraftProgress(draft: WorkflowInstance, stepCount?: number): number {
+    if (!stepCount) return 0;
+
+    const completedSteps = new Set(
+      (draft.stepHistory || [])
+        .filter(entry => entry.decision !== 'send_back')
+        .map(entry => entry.stepId)
+    );
+    return Math.round((Math.min(completedSteps.size, stepCount) / stepCount) * 100);
+  }
+
+  /**
+   * SLA countdown for a draft
+   */
+  getDraftSlaBadge(draft: WorkflowInstance): SlaBadge | null {
+    return this.slaService.getBadge(this.slaService.getInstanceSla(draft));
+  }
+
   /**
    * Create a new workflow instance
    */
@@ -296,24 +386,30 @@ export class CategoryNavigationComponent implements OnInit {
    */
   private navigateToCurrentStep(instance: any): void {
     const instanceId = instance.id;
-    const currentStep = instance.currentStep;
+    const currentStep = this.workflowService.getOpenStep(instance, this.currentUser?.role);
 
     console.log(`=== NAVIGATING TO STEP ===`);
     console.log(`Instance ID: ${instanceId}`);
     console.log(`Current Step: ${currentStep}`);
-    console.log(`Full URL: /workflow/${instanceId}/step/${currentStep}`);
+    console.log(`Full URL: /workflow-step/${instanceId}/step/${currentStep}`);
 
     // Direct navigation without skipLocationChange trick
-    this.router.navigate(['/workflow', instanceId, 'step', currentStep]).then(() => {
+    this.router.navigate(['/workflow-step', instanceId, 'step', currentStep]).then(() => {
       console.log('=== NAVIGATION COMPLETE ===');
     });
   }
 
   /**
-   * Get current user email (replace with your auth service)
+   * Get the signed-in user's email
    */
   private getCurrentUserEmail(): string {
-    // TODO: Get from your authentication service
-    return 'user@example.com';
+    return this.authService.currentUser()?.email ?? '';
+  }
+
+  /**
+   * Sign out the current user
+   */
+  signOut(): void {
+    this.authService.logout();
   }
 }
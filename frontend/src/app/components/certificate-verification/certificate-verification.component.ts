@@ -0,0 +1,88 @@
+import { Component, OnDestroy, OnInit, RESPONSE_INIT, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { CertificateService, CertificateVerification } from '../../services/certificate.service';
+
+interface StatusBadge {
+  en: string;
+  ar: string;
+  cssClass: string;
+  icon: string;
+}
+
+const STATUS_BADGES: Record<CertificateVerification['status'], StatusBadge> = {
+  valid: { en: 'Valid', ar: 'سارية', cssClass: 'status-valid', icon: 'bi-patch-check-fill' },
+  expired: { en: 'Expired', ar: 'منتهية', cssClass: 'status-expired', icon: 'bi-clock-history' },
+  revoked: { en: 'Revoked', ar: 'ملغاة', cssClass: 'status-revoked', icon: 'bi-x-octagon-fill' }
+};
+
+/**
+ * Public page the certificate QR code links to: shows whether a certificate is valid, in English and Arabic
+ * Rendered on the server so the result is in the first response; needs no sign-in.
+ */
+@Component({
+  selector: 'app-certificate-verification',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './certificate-verification.component.html',
+  styleUrl: './certificate-verification.component.css'
+})
+export class CertificateVerificationComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private certificateService = inject(CertificateService);
+  // Only provided while rendering on the server
+  private responseInit = inject(RESPONSE_INIT, { optional: true });
+
+  certificateNumber = signal('');
+  verification = signal<CertificateVerification | null>(null);
+  isLoading = signal(true);
+  notFound = signal(false);
+  error = signal<string | null>(null);
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      this.verify(params.get('certificateNo') ?? '');
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  getStatusBadge(status: CertificateVerification['status']): StatusBadge {
+    return STATUS_BADGES[status];
+  }
+
+  private verify(certificateNumber: string): void {
+    this.certificateNumber.set(certificateNumber);
+    this.verification.set(null);
+    this.notFound.set(false);
+    this.error.set(null);
+    this.isLoading.set(true);
+
+    this.certificateService.verifyCertificate(certificateNumber).subscribe({
+      next: verification => {
+        this.verification.set(verification);
+        this.isLoading.set(false);
+      },
+      error: (err: HttpErrorResponse) => {
+        if (err.status === 404) {
+          this.notFound.set(true);
+          if (this.responseInit) {
+            this.responseInit.status = 404;
+          }
+        } else {
+          console.error('Error verifying certificate:', err);
+          this.error.set('The certificate could not be checked. Please try again later.');
+        }
+        this.isLoading.set(false);
+      }
+    });
+  }
+}
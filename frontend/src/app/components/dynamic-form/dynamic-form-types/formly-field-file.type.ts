@@ -1,6 +1,7 @@
 import { Component, inject } from '@angular/core';
 import { FieldType, FieldTypeConfig, FormlyModule } from '@ngx-formly/core';
 import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
 import { ReactiveFormsModule } from '@angular/forms';
 import { FileUploadService, FileUploadResponse, FileUploadConfig } from '../../../services/file-upload.service';
 
@@ -106,6 +107,12 @@ export class FormlyFieldFile extends FieldType<FieldTypeConfig> {
 
     const fileArray = Array.from(files);
 
+    // A custom uploader (e.g. workflow instance uploads) replaces the endpoints
+    if (this.props['uploadFiles']) {
+      this.uploadWithHandler(fileArray);
+      return;
+    }
+
     if (!this.props['multiple']) {
       // Single file upload
       this.uploadSingleFile(fileArray[0]);
@@ -173,11 +180,29 @@ export class FormlyFieldFile extends FieldType<FieldTypeConfig> {
     });
   }
 
+  private uploadWithHandler(files: File[]): void {
+    const upload: (files: File[]) => Observable<FileUploadResponse[]> = this.props['uploadFiles'];
+
+    upload(files).subscribe({
+      next: (responses) => {
+        const uploaded = responses.map(r => ({ id: r.id, fileName: r.fileName, fileSize: r.fileSize }));
+        this.uploadedFiles = this.props['multiple'] ? [...this.uploadedFiles, ...uploaded] : uploaded.slice(0, 1);
+        this.updateFormControlValue();
+        this.isUploading = false;
+      },
+      error: (err) => {
+        console.error('File upload error:', err);
+        this.uploadError = err?.message || 'Failed to upload files. Please try again.';
+        this.isUploading = false;
+      }
+    });
+  }
+
   removeFile(index: number): void {
     const file = this.uploadedFiles[index];
 
     // Optionally delete from server (if not a local file)
-    if (file.id && !file.id.startsWith('local_')) {
+    if (file.id && !file.id.startsWith('local_') && !this.props['uploadFiles']) {
       this.fileUploadService.deleteFile(file.id, this.uploadConfig).subscribe({
         error: (err) => console.error('Failed to delete file:', err)
       });
@@ -1,7 +1,7 @@
-import { Component, OnInit, OnDestroy, inject, signal } from '@angular/core';
+import { Component, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormGroup } from '@angular/forms';
-import { FormlyModule, FormlyFieldConfig } from '@ngx-formly/core';
+import { FormlyModule, FormlyFieldConfig, FormlyFormOptions } from '@ngx-formly/core';
 import { FormlyBootstrapModule } from '@ngx-formly/bootstrap';
 import { ActivatedRoute, Router } from '@angular/router';
 import { Subject, takeUntil, forkJoin, switchMap, Observable } from 'rxjs';
@@ -30,6 +30,7 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   form = new FormGroup({});
   model: Record<string, any> = {};
   fields: FormlyFieldConfig[] = [];
+  options: FormlyFormOptions = { formState: {} };
   formConfig = signal<FormConfig | null>(null);
   isLoading = signal(true);
   showAlert = signal<{ type: 'success' | 'error' | 'warning'; message: string } | null>(null);
@@ -37,6 +38,7 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   // Workflow properties
   workflowSteps: any[] = [];
   currentStepIndex = signal(0);
+  stepPath = computed(() => Array.from({ length: this.currentStepIndex() + 1 }, (_, index) => index));
   stepFormData: Record<string, any>[] = [];
 
   // Brand data storage for table building
@@ -639,6 +641,18 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
     }
   }
 
+  isFinalStep(): boolean {
+    return this.currentStepIndex() === this.workflowSteps.length - 1;
+  }
+
+  getRemainingStepCount(): number {
+    return this.workflowSteps.length - this.currentStepIndex() - 1;
+  }
+
+  getProgressPercent(): number {
+    return ((this.currentStepIndex() + 1) / this.workflowSteps.length) * 100;
+  }
+
 
   dismissAlert(): void {
     this.showAlert.set(null);
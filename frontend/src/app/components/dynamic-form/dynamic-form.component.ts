@@ -1,18 +1,23 @@
-import { Component, OnInit, OnDestroy, inject, signal } from '@angular/core';
+import { Component, OnInit, OnDestroy, inject, isDevMode, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormGroup } from '@angular/forms';
-import { FormlyModule, FormlyFieldConfig } from '@ngx-formly/core';
+import { FormlyModule, FormlyFieldConfig, FormlyFormOptions } from '@ngx-formly/core';
 import { FormlyBootstrapModule } from '@ngx-formly/bootstrap';
 import { ActivatedRoute, Router } from '@angular/router';
 import { Subject, takeUntil, forkJoin, Observable } from 'rxjs';
 import { FormConfigService, FormConfig } from '../../services/form-config.service';
 import { HttpClient } from '@angular/common/http';
+import { ValidationError } from '../../services/workflow.service';
 
 // Import refactored services
 import { ExpressionEvaluatorService } from '../../services/workflow-functions/common/expression-evaluator.service';
 import { OptionLoaderService } from '../../services/workflow-functions/common/option-loader.service';
 import { FieldConverterService } from '../../services/workflow-functions/common/field-converter.service';
+import { FormStateService, PreviousStepData } from '../../services/workflow-functions/common/form-state.service';
+import { ValidationRuleEngineService } from '../../services/workflow-functions/common/validation-rule-engine.service';
 import { WorkflowFunctionHandlerService } from '../../services/workflow-functions/workflow-function-handler.service';
+import { WorkflowTransitionService } from '../../services/workflow-functions/common/workflow-transition.service';
+import { WorkflowValidatorService } from '../../services/workflow-functions/common/workflow-validator.service';
 import { WorkflowFunctionContext } from '../../services/workflow-functions/workflow-function.interface';
 
 @Component({
@@ -34,6 +39,10 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   private optionLoader = inject(OptionLoaderService);
   private fieldConverter = inject(FieldConverterService);
   private workflowHandler = inject(WorkflowFunctionHandlerService);
+  private formStateService = inject(FormStateService);
+  private ruleEngine = inject(ValidationRuleEngineService);
+  private transitions = inject(WorkflowTransitionService);
+  private workflowValidator = inject(WorkflowValidatorService);
 
   private destroy$ = new Subject<void>();
 
@@ -43,14 +52,21 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   form = new FormGroup({});
   model: Record<string, any> = {};
   fields: FormlyFieldConfig[] = [];
+  options: FormlyFormOptions = { formState: {} };
   formConfig = signal<FormConfig | null>(null);
   isLoading = signal(true);
   showAlert = signal<{ type: 'success' | 'error' | 'warning'; message: string } | null>(null);
+  validationErrors: ValidationError[] = [];
 
   // Workflow properties
   workflowSteps: any[] = [];
   currentStepIndex = signal(0);
+  // Indexes of the steps taken so far, ending with the current one
+  stepPath = signal<number[]>([0]);
   stepFormData: Record<string, any>[] = [];
+  // The definition's entries for workflowSteps, carrying their transitions
+  private workflowStepRefs: any[] = [];
+  private workflowDefinition: any = null;
 
   ngOnInit(): void {
     // Load required categories for validation
@@ -98,8 +114,11 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   private resetAndLoadWorkflow(): void {
     this.resetFormState();
     this.workflowSteps = [];
+    this.workflowStepRefs = [];
+    this.workflowDefinition = null;
     this.stepFormData = [];
     this.currentStepIndex.set(0);
+    this.stepPath.set([0]);
     this.loadWorkflowConfig();
   }
 
@@ -110,10 +129,12 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
     this.form = new FormGroup({});
     this.model = {};
     this.fields = [];
+    this.options = { formState: {} };
     this.optionLoader.clearCache();
     this.formConfig.set(null);
     this.isLoading.set(true);
     this.showAlert.set(null);
+    this.validationErrors = [];
   }
 
   /**
@@ -143,6 +164,11 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   private loadWorkflowConfig(): void {
     if (!this.workflowId) return;
 
+    // Surface broken references in the definition JSON while developing
+    if (isDevMode()) {
+      this.workflowValidator.report(this.workflowId);
+    }
+
     this.formConfigService.loadWorkflowDefinition(this.workflowId)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
@@ -171,6 +197,7 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
       console.log('Workflow ID set from definition:', this.workflowId);
     }
 
+    // System-action steps have no form; the backend runs them once an instance reaches them
     const formSteps = workflowDef.steps.filter((step: any) => step.stepRef);
 
     if (formSteps.length === 0) {
@@ -187,8 +214,11 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
       .subscribe({
         next: (steps: any[]) => {
           this.workflowSteps = steps;
+          this.workflowStepRefs = formSteps;
+          this.workflowDefinition = workflowDef;
           this.stepFormData = new Array(steps.length).fill({}).map(() => ({}));
           this.currentStepIndex.set(0);
+          this.stepPath.set([0]);
           this.loadCurrentWorkflowStep();
           this.isLoading.set(false);
         },
@@ -220,9 +250,41 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
 
     // Reset form
     this.form = new FormGroup({});
+    this.validationErrors = [];
+
+    // Expose current user and previous step data to expressions
+    this.options = { formState: this.buildFormState(stepIndex) };
 
     // Load initial options using the option loader service
-    this.optionLoader.loadInitialOptions(this.fields, stepConfig, this.destroy$);
+    this.optionLoader.loadInitialOptions(this.fields, stepConfig, this.destroy$, this.model);
+  }
+
+  /**
+   * Build the formState for a step from the data entered in earlier steps
+   */
+  private buildFormState(stepIndex: number): Record<string, any> {
+    // Only the steps on the path taken count as earlier steps
+    const previousSteps: PreviousStepData[] = Array.from(new Set(this.stepPath()))
+      .filter(index => index !== stepIndex)
+      .map(index => ({
+        stepId: this.workflowSteps[index].stepId,
+        name: this.workflowSteps[index].name,
+        fields: this.workflowSteps[index].fields || [],
+        data: this.stepFormData[index] || {}
+      }));
+
+    const formState = this.formStateService.buildFormState({
+      workflowId: this.workflowId,
+      stepId: this.workflowSteps[stepIndex]?.stepId,
+      stepIndex,
+      previousSteps
+    });
+
+    if (this.workflowId) {
+      this.workflowHandler.extendFormState(this.workflowId, formState);
+    }
+
+    return formState;
   }
 
   /**
@@ -231,7 +293,8 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   private addFieldChangeHooks(stepConfig: any): void {
     stepConfig.fields.forEach((field: any) => {
       const formlyField = this.fields.find(f => f.key === field.key);
-      if (formlyField && field.hooks?.onChanges) {
+      const hasDependents = this.optionLoader.hasDependents(field.key, stepConfig);
+      if (formlyField && (field.hooks?.onChanges || hasDependents)) {
         formlyField.hooks = this.fieldConverter.createFieldChangeHook(
           field,
           this.destroy$,
@@ -245,20 +308,14 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
    * Handle field value changes
    */
   private handleFieldChange(fieldKey: string, value: any, hookName: string): void {
-    // Get field index to know which fields come after it
-    const fieldIndex = this.fields.findIndex(f => f.key === fieldKey);
-
-    // Reset all fields that come after the changed field
-    this.fields.forEach((field, index) => {
-      if (index > fieldIndex && field.key) {
-        delete this.model[field.key as string];
-      }
-    });
-
-    // Handle category changes (load dependent options)
-    if (hookName === 'onCategoryChange' && value) {
-      this.optionLoader.loadDependentOptions(fieldKey, value, this.fields, this.destroy$);
-    }
+    // Reset only the fields that declare dependsOn this field and reload their options
+    this.optionLoader.onParentValueChange(
+      fieldKey,
+      this.model,
+      this.fields,
+      this.workflowSteps[this.currentStepIndex()],
+      this.destroy$
+    );
 
     // Call workflow-specific field change handler
     if (this.workflowId) {
@@ -278,10 +335,20 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
   onSubmit(): void {
     this.form.markAllAsTouched();
 
-    if (!this.form.valid) {
+    // Run the step's validationRules and show errors under their fields
+    const currentStep = this.workflowSteps[this.currentStepIndex()];
+    this.validationErrors = this.ruleEngine.validate(currentStep?.validationRules, this.model, {
+      workflowId: this.workflowId,
+      fields: this.fields,
+      stepFields: currentStep?.fields
+    });
+    this.ruleEngine.applyErrorsToFields(this.validationErrors, this.fields);
+
+    if (!this.form.valid || this.validationErrors.length > 0) {
+      const stepError = this.validationErrors.find(e => !e.field);
       this.showAlert.set({
         type: 'error',
-        message: 'Please fill in all required fields correctly before submitting.'
+        message: stepError?.message || 'Please fill in all required fields correctly before submitting.'
       });
       return;
     }
@@ -325,8 +392,23 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
     // Console the data for current step
     console.log('Step Data:', stepDataWithId);
 
-    // Check if this is the last step
-    if (this.currentStepIndex() === this.workflowSteps.length - 1) {
+    // Follow the step's transitions; without any the workflow is linear
+    const nextStepId = this.resolveNextStepId();
+    const nextIndex = this.getStepIndex(nextStepId);
+
+    if (nextStepId === 'rejected') {
+      console.log('Workflow rejected at step:', stepId, this.stepFormData);
+      this.showAlert.set({
+        type: 'warning',
+        message: 'The application was routed to rejection.'
+      });
+      setTimeout(() => {
+        this.router.navigate(['/']);
+      }, 3000);
+    } else if (nextStepId && !this.transitions.isTerminal(nextStepId) && nextIndex < 0) {
+      console.error(`Transition target ${nextStepId} is not a form step of this workflow`);
+      this.showAlert.set({ type: 'error', message: `The next step (${nextStepId}) could not be found.` });
+    } else if (nextIndex < 0) {
       // Final submission
       console.log('Workflow completed! All data:', this.stepFormData);
       this.showAlert.set({
@@ -338,7 +420,8 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
       }, 3000);
     } else {
       // Move to next step
-      this.currentStepIndex.set(this.currentStepIndex() + 1);
+      this.stepPath.update(path => [...path, nextIndex]);
+      this.currentStepIndex.set(nextIndex);
       this.loadCurrentWorkflowStep();
       this.showAlert.set(null);
       window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -349,17 +432,100 @@ export class DynamicFormComponent implements OnInit, OnDestroy {
    * Go to previous workflow step
    */
   onPreviousStep(): void {
-    if (this.currentStepIndex() > 0) {
+    const path = this.stepPath();
+    if (path.length > 1) {
       // Save current step data before going back
       this.stepFormData[this.currentStepIndex()] = { ...this.cleanModel };
 
-      this.currentStepIndex.set(this.currentStepIndex() - 1);
+      this.stepPath.set(path.slice(0, -1));
+      this.currentStepIndex.set(path[path.length - 2]);
       this.loadCurrentWorkflowStep();
       this.showAlert.set(null);
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   }
 
+  /**
+   * Whether submitting the current step, with its current data, ends the workflow
+   */
+  isFinalStep(): boolean {
+    return this.getStepIndex(this.resolveNextStepId()) < 0;
+  }
+
+  /**
+   * Steps still ahead when the default transitions are followed from the current step
+   */
+  getRemainingStepCount(): number {
+    const seen = new Set<number>(this.stepPath());
+    let index = this.currentStepIndex();
+    let count = 0;
+
+    while (true) {
+      const nextStepId = this.transitions.getDefaultNextStep(this.workflowStepRefs[index], this.workflowSteps[index]);
+      const next = this.getStepIndex(this.resolveParallelStep(nextStepId, seen), index);
+      if (next < 0 || seen.has(next)) return count;
+      seen.add(next);
+      count++;
+      index = next;
+    }
+  }
+
+  /**
+   * Share of the expected path that is done, for the progress bar
+   */
+  getProgressPercent(): number {
+    const taken = this.stepPath().length;
+    return (taken / (taken + this.getRemainingStepCount())) * 100;
+  }
+
+  /**
+   * Next step of the current step, given all data entered on the path so far
+   */
+  private resolveNextStepId(): string | null {
+    const index = this.currentStepIndex();
+    const data = Object.assign({}, ...this.stepPath().map(i => this.stepFormData[i] || {}), this.cleanModel);
+
+    const nextStepId = this.transitions.resolveNextStep(this.workflowStepRefs[index], this.workflowSteps[index], data, {
+      formState: this.options.formState
+    });
+    return this.resolveParallelStep(nextStepId, new Set(this.stepPath()));
+  }
+
+  /**
+   * Filled in by one user, the branches of a parallel step follow one another: the parallel step
+   * stands for its first branch not visited yet, and for the step after it once all were
+   */
+  private resolveParallelStep(stepId: string | null, visited: Set<number>): string | null {
+    const parallelStep = stepId ? this.transitions.findStepRef(this.workflowDefinition, stepId) : null;
+    if (!this.transitions.isParallel(parallelStep)) {
+      return stepId;
+    }
+
+    const branch = parallelStep.branches.find((branchId: string) => !visited.has(this.getStepIndex(branchId)));
+    return branch ?? this.resolveParallelStep(this.transitions.getDefaultNextStep(parallelStep, null), visited);
+  }
+
+  /**
+   * Index of a form step by its ID or stepRef name, as the backend matches them;
+   * a step without a next step is followed by the one after it.
+   * Returns -1 for terminal and unknown steps.
+   */
+  private getStepIndex(stepId: string | null, fromIndex = this.currentStepIndex()): number {
+    if (stepId === null) {
+      return fromIndex + 1 < this.workflowSteps.length ? fromIndex + 1 : -1;
+    }
+    return this.workflowSteps.findIndex((step, index) =>
+      step.stepId === stepId || !!this.workflowStepRefs[index]?.stepRef?.endsWith(stepId));
+  }
+
+  /**
+   * Get the validation rule error for a specific field
+   */
+  getFieldError(fieldKey: string): string | null {
+    const error = this.validationErrors.find(e => e.field === fieldKey);
+    return error ? error.message : null;
+  }
+
   /**
    * Dismiss alert message
    */
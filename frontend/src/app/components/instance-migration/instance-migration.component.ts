@@ -0,0 +1,332 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Observable, Subject, forkJoin, of } from 'rxjs';
+import { catchError, takeUntil } from 'rxjs/operators';
+import {
+  WorkflowMigrationRequest,
+  WorkflowMigrationResult,
+  WorkflowService,
+  WorkflowVersionListing
+} from '../../services/workflow.service';
+import { FormConfigService } from '../../services/form-config.service';
+import { WorkflowBundle } from '../../services/workflow-definition.interface';
+
+// Mapping target that leaves the data under its old key
+export const KEEP_FIELD = '__keep';
+
+export interface FieldMappingRow {
+  from: string;
+  // a field of the new version, '' to drop the data or KEEP_FIELD
+  to: string;
+}
+
+export interface StepMappingRow {
+  from: string;
+  to: string;
+}
+
+interface VersionFields {
+  fields: Map<string, string>; // key -> label
+  steps: string[];
+}
+
+/**
+ * Admin tool that moves in-flight instances of a workflow to another published version
+ * Fields and steps the new version no longer has get a mapping row; a dry run shows what changes
+ * for each instance before the migration is applied.
+ */
+@Component({
+  selector: 'app-instance-migration',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './instance-migration.component.html',
+  styleUrl: './instance-migration.component.css'
+})
+export class InstanceMigrationComponent implements OnInit, OnDestroy {
+  private workflowService = inject(WorkflowService);
+  private formConfigService = inject(FormConfigService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+
+  readonly keepField = KEEP_FIELD;
+
+  definitionIds = signal<string[]>([]);
+  workflowToOpen = '';
+  workflowId = signal<string | null>(null);
+  listing = signal<WorkflowVersionListing | null>(null);
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+
+  // '' selects the unpinned instances
+  fromVersion = signal('');
+  toVersion = signal('');
+  source = signal<VersionFields | null>(null);
+  target = signal<VersionFields | null>(null);
+  fieldMappings = signal<FieldMappingRow[]>([]);
+  stepMappings = signal<StepMappingRow[]>([]);
+
+  result = signal<WorkflowMigrationResult | null>(null);
+  isRunning = signal(false);
+
+  targetVersions = computed(() => {
+    const listing = this.listing();
+    if (!listing) return [];
+
+    // The live version can be a target before any instance has published it
+    const published = listing.versions.map(v => v.version);
+    return published.includes(listing.liveVersion) ? published : [...published, listing.liveVersion];
+  });
+
+  sourceInstanceCount = computed(() => {
+    const listing = this.listing();
+    if (!listing) return 0;
+    return this.fromVersion()
+      ? listing.versions.find(v => v.version === this.fromVersion())?.instanceCount ?? 0
+      : listing.unpinnedInstanceCount;
+  });
+
+  targetFieldKeys = computed(() => [...(this.target()?.fields.keys() ?? [])]);
+  sourceFieldKeys = computed(() => [...(this.source()?.fields.keys() ?? [])]);
+  targetSteps = computed(() => this.target()?.steps ?? []);
+  changedSteps = computed(() => Object.entries(this.result()?.changedSteps ?? {}));
+  migratableCount = computed(() => (this.result()?.instances || []).filter(i => i.canMigrate).length);
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this.workflowService.getWorkflowDefinitions()
+      .pipe(catchError(() => of([])), takeUntil(this.destroy$))
+      .subscribe(definitions => this.definitionIds.set(definitions.map(d => d.certificationId)));
+
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const workflowId = params.get('workflowId');
+      if (workflowId) {
+        this.workflowToOpen = workflowId;
+        this.load(workflowId);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Open the workflow typed in the header
+   */
+  open(): void {
+    const workflowId = this.workflowToOpen.trim();
+    if (workflowId) {
+      this.router.navigate(['/migrations', workflowId]);
+    }
+  }
+
+  /**
+   * Load the published versions of a workflow and preselect a migration from its oldest in-flight version to the live one
+   */
+  load(workflowId: string): void {
+    this.workflowId.set(workflowId);
+    this.isLoading.set(true);
+    this.error.set(null);
+    this.result.set(null);
+
+    this.workflowService.getDefinitionVersions(workflowId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: listing => {
+          console.log(`Versions of ${workflowId}:`, listing);
+          this.listing.set(listing);
+          this.isLoading.set(false);
+
+          const from = listing.unpinnedInstanceCount > 0
+            ? ''
+            : listing.versions.find(v => v.instanceCount > 0 && v.version !== listing.liveVersion)?.version ?? '';
+          this.fromVersion.set(from);
+          this.toVersion.set(listing.liveVersion);
+          this.loadVersions();
+        },
+        error: err => {
+          console.error(`Failed to load versions of ${workflowId}:`, err);
+          this.listing.set(null);
+          this.error.set(err?.error?.message || 'Failed to load the versions of this workflow.');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  setFromVersion(version: string): void {
+    this.fromVersion.set(version);
+    this.loadVersions();
+  }
+
+  setToVersion(version: string): void {
+    this.toVersion.set(version);
+    this.loadVersions();
+  }
+
+  /**
+   * Load the fields and steps of both versions and add a mapping row for each one the new version lacks
+   */
+  private loadVersions(): void {
+    const workflowId = this.workflowId();
+    const listing = this.listing();
+    if (!workflowId || !listing) return;
+
+    this.result.set(null);
+    forkJoin({
+      source: this.loadBundle(workflowId, this.fromVersion() || null),
+      target: this.loadBundle(workflowId, this.toVersion() || null)
+    }).pipe(takeUntil(this.destroy$)).subscribe({
+      next: ({ source, target }) => {
+        const sourceFields = this.collectFields(source);
+        const targetFields = this.collectFields(target);
+        this.source.set(sourceFields);
+        this.target.set(targetFields);
+
+        this.fieldMappings.set([...sourceFields.fields.keys()]
+          .filter(key => !targetFields.fields.has(key))
+          .map(key => ({ from: key, to: KEEP_FIELD })));
+        this.stepMappings.set(sourceFields.steps
+          .filter(stepId => !targetFields.steps.includes(stepId))
+          .map(stepId => ({ from: stepId, to: '' })));
+      },
+      error: err => {
+        console.error('Failed to load the versions to compare:', err);
+        this.error.set('Failed to load the definition files of the selected versions.');
+      }
+    });
+  }
+
+  /**
+   * Published bundle of a version; the live files for unpinned instances and a live version not yet published
+   */
+  private loadBundle(workflowId: string, version: string | null): Observable<WorkflowBundle> {
+    const published = !!version && !!this.listing()?.versions.some(v => v.version === version);
+    return this.formConfigService.loadWorkflowBundle(workflowId, published ? version : null);
+  }
+
+  private collectFields(bundle: WorkflowBundle): VersionFields {
+    const fields = new Map<string, string>();
+    for (const step of Object.values(bundle.steps)) {
+      for (const field of step?.fields || []) {
+        if (field.key && !fields.has(field.key)) {
+          fields.set(field.key, field.templateOptions?.['label'] || field.key);
+        }
+      }
+    }
+
+    const steps = (bundle.definition.steps || [])
+      .map(step => step.stepId || (step.stepRef && bundle.steps[step.stepRef]?.stepId))
+      .filter((stepId): stepId is string => !!stepId);
+
+    return { fields, steps };
+  }
+
+  getSourceLabel(key: string): string {
+    return this.source()?.fields.get(key) ?? key;
+  }
+
+  /* ===== Mappings ===== */
+
+  addFieldMapping(): void {
+    this.fieldMappings.update(rows => [...rows, { from: '', to: KEEP_FIELD }]);
+  }
+
+  updateFieldMapping(index: number, change: Partial<FieldMappingRow>): void {
+    this.fieldMappings.update(rows => rows.map((row, i) => i === index ? { ...row, ...change } : row));
+    this.result.set(null);
+  }
+
+  removeFieldMapping(index: number): void {
+    this.fieldMappings.update(rows => rows.filter((_, i) => i !== index));
+    this.result.set(null);
+  }
+
+  addStepMapping(): void {
+    this.stepMappings.update(rows => [...rows, { from: '', to: '' }]);
+  }
+
+  updateStepMapping(index: number, change: Partial<StepMappingRow>): void {
+    this.stepMappings.update(rows => rows.map((row, i) => i === index ? { ...row, ...change } : row));
+    this.result.set(null);
+  }
+
+  removeStepMapping(index: number): void {
+    this.stepMappings.update(rows => rows.filter((_, i) => i !== index));
+    this.result.set(null);
+  }
+
+  /* ===== Migration ===== */
+
+  /**
+   * Report what the migration would change without saving anything
+   */
+  dryRun(): void {
+    this.run(true);
+  }
+
+  /**
+   * Migrate every instance the dry run found no errors for
+   */
+  apply(): void {
+    const result = this.result();
+    if (!result || this.migratableCount() === 0) return;
+    if (!confirm(`Move ${this.migratableCount()} instance(s) to version ${result.toVersion}? This cannot be undone.`)) return;
+
+    this.run(false);
+  }
+
+  private run(dryRun: boolean): void {
+    const workflowId = this.workflowId();
+    if (!workflowId || !this.toVersion()) return;
+
+    this.isRunning.set(true);
+    this.error.set(null);
+
+    this.workflowService.migrateInstances(workflowId, this.buildRequest(dryRun))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: result => {
+          console.log(`${dryRun ? 'Dry run' : 'Migration'} of ${workflowId}:`, result);
+          this.result.set(result);
+          this.isRunning.set(false);
+
+          // Instance counts per version have changed
+          if (!dryRun) {
+            this.workflowService.getDefinitionVersions(workflowId)
+              .pipe(takeUntil(this.destroy$))
+              .subscribe(listing => this.listing.set(listing));
+          }
+        },
+        error: err => {
+          console.error(`Failed to migrate instances of ${workflowId}:`, err);
+          this.error.set(err?.error?.message || 'The migration failed.');
+          this.isRunning.set(false);
+        }
+      });
+  }
+
+  private buildRequest(dryRun: boolean): WorkflowMigrationRequest {
+    const fieldMapping = Object.fromEntries(this.fieldMappings()
+      .filter(row => row.from.trim() && row.to !== KEEP_FIELD)
+      .map(row => [row.from.trim(), row.to]));
+    const stepMapping = Object.fromEntries(this.stepMappings()
+      .filter(row => row.from.trim() && row.to)
+      .map(row => [row.from.trim(), row.to]));
+
+    return {
+      fromVersion: this.fromVersion() || null,
+      toVersion: this.toVersion(),
+      fieldMapping,
+      stepMapping,
+      dryRun
+    };
+  }
+
+  formatRenames(renames: Record<string, string>): string {
+    return Object.entries(renames).map(([from, to]) => `${from} → ${to}`).join(', ');
+  }
+}
@@ -0,0 +1,78 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { AuthService, AuthUser } from '../../services/auth.service';
+
+/**
+ * Development sign-in page
+ * Lists the demo users of the backend's development identity stand-in (password "dev").
+ */
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './login.component.html',
+  styleUrl: './login.component.css'
+})
+export class LoginComponent implements OnInit {
+  private authService = inject(AuthService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+
+  email = '';
+  password = '';
+  devUsers: AuthUser[] = [];
+  signingIn = false;
+  error: string | null = null;
+
+  currentUser = this.authService.currentUser;
+
+  ngOnInit(): void {
+    this.authService.getDevUsers().subscribe({
+      next: users => (this.devUsers = users),
+      error: () => (this.devUsers = [])
+    });
+  }
+
+  /**
+   * Fill in a demo user's credentials
+   */
+  selectUser(user: AuthUser): void {
+    this.email = user.email;
+    this.password = 'dev';
+    this.error = null;
+  }
+
+  /**
+   * Sign in and go back to the page that required it
+   */
+  signIn(): void {
+    if (!this.email || !this.password) {
+      this.error = 'Please enter your email and password.';
+      return;
+    }
+
+    this.signingIn = true;
+    this.error = null;
+
+    this.authService.login(this.email.trim(), this.password).subscribe({
+      next: user => {
+        console.log('Signed in as', user.email, user.role);
+        this.signingIn = false;
+        this.router.navigateByUrl(this.route.snapshot.queryParamMap.get('returnUrl') || '/');
+      },
+      error: err => {
+        this.error = err.error?.message || 'Sign in failed. Please try again.';
+        this.signingIn = false;
+      }
+    });
+  }
+
+  /**
+   * Sign out the current user
+   */
+  signOut(): void {
+    this.authService.logout();
+  }
+}
@@ -0,0 +1,88 @@
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { AppNotification, NotificationService } from '../../services/notification.service';
+import { WorkflowService } from '../../services/workflow.service';
+import { AuthService } from '../../services/auth.service';
+
+/**
+ * Bell with unread count and a dropdown of the signed-in user's notifications
+ */
+@Component({
+  selector: 'app-notification-bell',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './notification-bell.component.html',
+  styleUrl: './notification-bell.component.css'
+})
+export class NotificationBellComponent implements OnInit, OnDestroy {
+  private notificationService = inject(NotificationService);
+  private workflowService = inject(WorkflowService);
+  private authService = inject(AuthService);
+  private router = inject(Router);
+  private elementRef = inject(ElementRef);
+
+  notifications = this.notificationService.notifications;
+  unreadCount = this.notificationService.unreadCount;
+  isAuthenticated = this.authService.isAuthenticated;
+  open = signal(false);
+
+  ngOnInit(): void {
+    this.notificationService.startPolling();
+  }
+
+  ngOnDestroy(): void {
+    this.notificationService.stopPolling();
+  }
+
+  toggle(): void {
+    this.open.update(open => !open);
+    if (this.open()) {
+      this.notificationService.refresh();
+    }
+  }
+
+  markAllRead(): void {
+    this.notificationService.markAllRead();
+  }
+
+  /**
+   * Mark as read and open the instance where it now stands
+   */
+  openNotification(notification: AppNotification): void {
+    this.notificationService.markRead(notification);
+    this.open.set(false);
+
+    if (!notification.instanceId) return;
+
+    this.workflowService.getWorkflowInstance(notification.instanceId).subscribe({
+      next: instance => {
+        if (instance.status === 'in_progress') {
+          const step = this.workflowService.getOpenStep(instance, this.authService.currentUser()?.role);
+          this.router.navigate(['/workflow-step', instance.id, 'step', step]);
+        } else {
+          this.router.navigate(['/workflow-step', instance.id, 'completed']);
+        }
+      },
+      error: err => console.error('Failed to open notification instance:', err)
+    });
+  }
+
+  getIcon(notification: AppNotification): string {
+    switch (notification.eventType) {
+      case 'sent_back': return 'bi-arrow-return-left text-warning';
+      case 'rejected': return 'bi-x-circle text-danger';
+      case 'workflow_completed': return 'bi-patch-check text-success';
+      case 'sla_escalation': return 'bi-alarm text-danger';
+      default: return 'bi-check2-circle text-primary';
+    }
+  }
+
+  // Close the dropdown on clicks elsewhere
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.open() && !this.elementRef.nativeElement.contains(event.target)) {
+      this.open.set(false);
+    }
+  }
+}
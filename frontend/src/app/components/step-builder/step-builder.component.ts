@@ -0,0 +1,621 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule, DOCUMENT } from '@angular/common';
+import { FormGroup, FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { FormlyFieldConfig, FormlyFormOptions, FormlyModule } from '@ngx-formly/core';
+import { FormlyBootstrapModule } from '@ngx-formly/bootstrap';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { FormField, FormFieldOption, FormFieldType, StepDefinition } from '../../services/workflow-definition.interface';
+import {
+  FIELD_PALETTE,
+  OPTION_FIELD_TYPES,
+  StepBuilderService,
+  TEMPLATE_FIELD_TYPES,
+  TemplateOptionProperty
+} from '../../services/step-builder.service';
+import { FieldConverterService } from '../../services/workflow-functions/common/field-converter.service';
+import { OptionLoaderService } from '../../services/workflow-functions/common/option-loader.service';
+import { FormStateService } from '../../services/workflow-functions/common/form-state.service';
+import { WorkflowIssue } from '../../services/workflow-functions/common/workflow-definition-validator';
+
+/**
+ * What is being dragged: a palette entry or a field already in the step
+ */
+interface DragSource {
+  type?: FormFieldType;
+  field?: FormField;
+}
+
+/**
+ * Drag-and-drop editor for the `fields` of a step file
+ * The preview runs the fields through FieldConverterService and formly-form, like the dynamic form does.
+ */
+@Component({
+  selector: 'app-step-builder',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, FormlyModule, FormlyBootstrapModule, RouterLink],
+  templateUrl: './step-builder.component.html',
+  styleUrl: './step-builder.component.css'
+})
+export class StepBuilderComponent implements OnInit, OnDestroy {
+  private builder = inject(StepBuilderService);
+  private fieldConverter = inject(FieldConverterService);
+  private optionLoader = inject(OptionLoaderService);
+  private formStateService = inject(FormStateService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private document = inject(DOCUMENT);
+
+  readonly palette = FIELD_PALETTE;
+  readonly fieldTypes = FIELD_PALETTE.map(item => item.type);
+  readonly validatorNames = this.builder.getValidatorNames();
+  readonly resolverNames = this.builder.getResolverNames();
+
+  step = signal<StepDefinition | null>(null);
+  stepRef = signal<string | null>(null);
+  selectedField = signal<FormField | null>(null);
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+  propertyError = signal<string | null>(null);
+
+  // Bumped on every edit; the step is mutated in place
+  private revision = signal(0);
+
+  stepToOpen = '';
+  importText = '';
+  showImport = false;
+  fieldJson = '';
+
+  issues = signal<WorkflowIssue[] | null>(null);
+  isValidating = signal(false);
+  exportedJson = signal<string | null>(null);
+
+  // Live preview
+  previewFields: FormlyFieldConfig[] = [];
+  previewForm = new FormGroup({});
+  previewModel: any = {};
+  previewOptions: FormlyFormOptions = { formState: {} };
+  previewError = signal<string | null>(null);
+  showPreviewModel = false;
+
+  private dragging: DragSource | null = null;
+  dropTarget = signal<{ list: FormField[]; index: number } | null>(null);
+
+  fieldKeys = computed(() => {
+    this.revision();
+    const step = this.step();
+    return step ? this.builder.collectKeys(step.fields) : [];
+  });
+
+  errorCount = computed(() => (this.issues() || []).filter(issue => issue.severity === 'error').length);
+
+  private destroy$ = new Subject<void>();
+  private previewDestroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this.route.queryParamMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const stepRef = params.get('step');
+      if (stepRef) {
+        this.load(stepRef);
+      } else if (!this.step()) {
+        this.setStep(this.builder.createStep(), null);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.previewDestroy$.next();
+    this.previewDestroy$.complete();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /* =========================================================
+   * OPEN / IMPORT / NEW
+   * ========================================================= */
+  open(): void {
+    const stepRef = this.stepToOpen.trim().replace(/\.json$/, '');
+    if (stepRef) {
+      this.router.navigate(['/builder'], { queryParams: { step: stepRef } });
+    }
+  }
+
+  newStep(): void {
+    if (!confirm('Discard the current step and start an empty one?')) return;
+    this.setStep(this.builder.createStep(), null);
+    this.router.navigate(['/builder']);
+  }
+
+  private load(stepRef: string): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.builder.loadStep(stepRef).pipe(takeUntil(this.destroy$)).subscribe({
+      next: step => {
+        console.log('Loaded step file:', stepRef, step);
+        this.stepToOpen = stepRef;
+        this.setStep(step, stepRef);
+        this.isLoading.set(false);
+      },
+      error: err => {
+        console.error('Failed to load step file:', err);
+        this.error.set(`Could not load step file "${stepRef}.json"`);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  importJson(): void {
+    try {
+      this.setStep(this.builder.parseStep(this.importText), this.stepRef());
+      this.importText = '';
+      this.showImport = false;
+      this.error.set(null);
+    } catch (err) {
+      this.error.set((err as Error).message);
+    }
+  }
+
+  importFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    file.text().then(text => {
+      this.importText = text;
+      this.importJson();
+      input.value = '';
+    });
+  }
+
+  private setStep(step: StepDefinition, stepRef: string | null): void {
+    this.step.set(step);
+    this.stepRef.set(stepRef);
+    this.previewModel = {};
+    this.issues.set(null);
+    this.select(null);
+    this.changed();
+  }
+
+  /**
+   * Record an edit: rebuild the preview and require validation again before exporting
+   */
+  changed(): void {
+    this.revision.update(value => value + 1);
+    this.exportedJson.set(null);
+    this.refreshPreview();
+  }
+
+  /* =========================================================
+   * DRAG AND DROP
+   * ========================================================= */
+  onPaletteDragStart(event: DragEvent, type: FormFieldType): void {
+    this.dragging = { type };
+    event.dataTransfer?.setData('text/plain', type);
+  }
+
+  onFieldDragStart(event: DragEvent, field: FormField): void {
+    event.stopPropagation();
+    this.dragging = { field };
+    event.dataTransfer?.setData('text/plain', field.key);
+  }
+
+  onDragOver(event: DragEvent, list: FormField[], index: number): void {
+    if (!this.dragging) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const target = this.dropTarget();
+    if (target?.list !== list || target.index !== index) {
+      this.dropTarget.set({ list, index });
+    }
+  }
+
+  onDrop(event: DragEvent, list: FormField[], index: number): void {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const dragging = this.dragging;
+    const step = this.step();
+    this.onDragEnd();
+    if (!dragging || !step) return;
+
+    if (dragging.type) {
+      const field = this.builder.createField(dragging.type, step);
+      list.splice(index, 0, field);
+      this.select(field);
+    } else if (dragging.field && !this.builder.moveField(step, dragging.field, list, index)) {
+      return;
+    }
+    this.changed();
+  }
+
+  onDragEnd(): void {
+    this.dragging = null;
+    this.dropTarget.set(null);
+  }
+
+  isDropTarget(list: FormField[], index: number): boolean {
+    const target = this.dropTarget();
+    return target?.list === list && target.index === index;
+  }
+
+  /**
+   * Click-to-add for the palette: appends to the selected repeat, or to the step
+   */
+  addField(type: FormFieldType): void {
+    const step = this.step();
+    if (!step) return;
+
+    const selected = this.selectedField();
+    const list = (selected && this.builder.getChildren(selected)) || step.fields;
+    const field = this.builder.createField(type, step);
+    list.push(field);
+    this.select(field);
+    this.changed();
+  }
+
+  getChildren(field: FormField): FormField[] | undefined {
+    return this.builder.getChildren(field);
+  }
+
+  /* =========================================================
+   * SELECTION
+   * ========================================================= */
+  select(field: FormField | null): void {
+    this.selectedField.set(field);
+    this.propertyError.set(null);
+    this.fieldJson = field ? JSON.stringify(field, null, 2) : '';
+  }
+
+  removeSelectedField(): void {
+    const step = this.step();
+    const field = this.selectedField();
+    if (!step || !field || !confirm(`Remove field "${field.key}"?`)) return;
+
+    this.builder.removeField(step, field);
+    this.select(null);
+    this.changed();
+  }
+
+  duplicateSelectedField(): void {
+    const step = this.step();
+    const field = this.selectedField();
+    const list = step && field ? this.builder.findList(step.fields, field) : null;
+    if (!step || !field || !list) return;
+
+    const copy: FormField = { ...JSON.parse(JSON.stringify(field)), key: this.builder.createField(field.type, step).key };
+    list.splice(list.indexOf(field) + 1, 0, copy);
+    this.select(copy);
+    this.changed();
+  }
+
+  /**
+   * Record an edit to the selected field and refresh its JSON view
+   */
+  fieldChanged(): void {
+    const field = this.selectedField();
+    this.fieldJson = field ? JSON.stringify(field, null, 2) : '';
+    this.changed();
+  }
+
+  /* =========================================================
+   * FIELD PROPERTIES
+   * ========================================================= */
+  renameField(field: FormField, key: string): void {
+    try {
+      this.builder.renameField(this.step()!, field, key.trim());
+      this.propertyError.set(null);
+      this.fieldChanged();
+    } catch (err) {
+      this.propertyError.set((err as Error).message);
+    }
+  }
+
+  changeType(field: FormField, type: FormFieldType): void {
+    this.builder.changeType(field, type);
+    this.fieldChanged();
+  }
+
+  getTemplateOptionProperties(field: FormField): TemplateOptionProperty[] {
+    return this.builder.getTemplateOptionProperties(field.type);
+  }
+
+  setTemplateOption(field: FormField, property: TemplateOptionProperty, value: any): void {
+    this.builder.setTemplateOption(field, property.key, value);
+    this.fieldChanged();
+  }
+
+  getListOption(field: FormField, key: string): string {
+    return (field.templateOptions[key] || []).join(', ');
+  }
+
+  setListOption(field: FormField, key: string, value: string): void {
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    this.builder.setTemplateOption(field, key, items.length ? items : null);
+    this.fieldChanged();
+  }
+
+  getJsonOption(field: FormField, key: string): string {
+    const value = field.templateOptions[key];
+    return value === undefined ? '' : JSON.stringify(value, null, 2);
+  }
+
+  setJsonOption(field: FormField, key: string, value: string): void {
+    try {
+      this.builder.setTemplateOption(field, key, value.trim() ? JSON.parse(value) : null);
+      this.propertyError.set(null);
+      this.fieldChanged();
+    } catch {
+      this.propertyError.set(`"${key}" is not valid JSON`);
+    }
+  }
+
+  hasOptions(field: FormField): boolean {
+    return OPTION_FIELD_TYPES.includes(field.type);
+  }
+
+  hasTemplate(field: FormField): boolean {
+    return TEMPLATE_FIELD_TYPES.includes(field.type);
+  }
+
+  getOptions(field: FormField): FormFieldOption[] {
+    return field.templateOptions['options'] || [];
+  }
+
+  addOption(field: FormField): void {
+    const options = this.getOptions(field);
+    field.templateOptions['options'] = [...options, { value: `option${options.length + 1}`, label: `Option ${options.length + 1}` }];
+    this.fieldChanged();
+  }
+
+  removeOption(field: FormField, index: number): void {
+    field.templateOptions['options'] = this.getOptions(field).filter((_, i) => i !== index);
+    this.fieldChanged();
+  }
+
+  getOptionsSource(field: FormField): string {
+    return typeof field.optionsSource === 'string' ? field.optionsSource : '';
+  }
+
+  setOptionsSource(field: FormField, name: string): void {
+    if (name) {
+      field.optionsSource = name;
+    } else {
+      delete field.optionsSource;
+    }
+    this.fieldChanged();
+  }
+
+  setHook(field: FormField, hook: 'onInit' | 'onChanges', name: string): void {
+    this.builder.setHook(field, hook, name.trim());
+    this.fieldChanged();
+  }
+
+  toggleDependsOn(field: FormField, key: string, checked: boolean): void {
+    this.builder.toggleDependsOn(field, key, checked);
+    this.fieldChanged();
+  }
+
+  setHideExpression(field: FormField, expression: string): void {
+    if (expression.trim()) {
+      field.hideExpression = expression;
+    } else {
+      delete field.hideExpression;
+    }
+    this.fieldChanged();
+  }
+
+  getExpressionError(expression: string | undefined): string | null {
+    return this.builder.getExpressionError(expression);
+  }
+
+  getExpressionProperties(field: FormField): { property: string; expression: string }[] {
+    return Object.entries(field.expressionProperties || {})
+      .filter(([property]) => property !== 'template')
+      .map(([property, expression]) => ({ property, expression }));
+  }
+
+  addExpressionProperty(field: FormField): void {
+    let property = 'templateOptions.disabled';
+    for (let n = 2; field.expressionProperties?.[property] !== undefined; n++) {
+      property = `templateOptions.property${n}`;
+    }
+    this.builder.setExpressionProperty(field, property, 'false');
+    this.fieldChanged();
+  }
+
+  renameExpressionProperty(field: FormField, property: string, newProperty: string): void {
+    this.builder.renameExpressionProperty(field, property, newProperty.trim());
+    this.fieldChanged();
+  }
+
+  setExpressionProperty(field: FormField, property: string, expression: string): void {
+    this.builder.setExpressionProperty(field, property, expression);
+    this.fieldChanged();
+  }
+
+  removeExpressionProperty(field: FormField, property: string): void {
+    this.builder.removeExpressionProperty(field, property);
+    this.fieldChanged();
+  }
+
+  setTemplate(field: FormField, template: string): void {
+    if (template) {
+      this.builder.setExpressionProperty(field, 'template', template);
+    } else {
+      this.builder.removeExpressionProperty(field, 'template');
+    }
+    this.fieldChanged();
+  }
+
+  /* =========================================================
+   * VALIDATORS
+   * ========================================================= */
+  getValidators(field: FormField): { name: string; params: string }[] {
+    return this.builder.getValidatorEntries(field).map(entry => {
+      const params = this.builder.getValidatorParams(entry);
+      return {
+        name: this.builder.getValidatorName(entry),
+        params: Object.keys(params).length ? JSON.stringify(params) : ''
+      };
+    });
+  }
+
+  addValidator(field: FormField, name: string): void {
+    if (!name) return;
+    this.builder.addValidator(field, name);
+    this.fieldChanged();
+  }
+
+  setValidatorName(field: FormField, index: number, name: string): void {
+    const entry = this.builder.getValidatorEntries(field)[index];
+    this.builder.setValidator(field, index, name, this.builder.getValidatorParams(entry));
+    this.fieldChanged();
+  }
+
+  setValidatorParams(field: FormField, index: number, value: string): void {
+    const entry = this.builder.getValidatorEntries(field)[index];
+    try {
+      const params = value.trim() ? JSON.parse(value) : {};
+      this.builder.setValidator(field, index, this.builder.getValidatorName(entry), params);
+      this.propertyError.set(null);
+      this.fieldChanged();
+    } catch {
+      this.propertyError.set('Validator params must be a JSON object, e.g. {"min": 1, "max": 10}');
+    }
+  }
+
+  removeValidator(field: FormField, index: number): void {
+    this.builder.removeValidator(field, index);
+    this.fieldChanged();
+  }
+
+  getValidationMessage(field: FormField, name: string): string {
+    return field.validation?.messages?.[name] || '';
+  }
+
+  setValidationMessage(field: FormField, name: string, message: string): void {
+    this.builder.setValidationMessage(field, name, message);
+    this.fieldChanged();
+  }
+
+  /**
+   * Replace the selected field with the edited JSON, keeping its place in the step
+   */
+  applyFieldJson(): void {
+    const step = this.step();
+    const field = this.selectedField();
+    const list = step && field ? this.builder.findList(step.fields, field) : null;
+    if (!field || !list) return;
+
+    try {
+      const parsed = JSON.parse(this.fieldJson);
+      if (!parsed?.key || !parsed?.type) {
+        throw new Error('A field needs a "key" and a "type"');
+      }
+
+      const edited: FormField = { ...parsed, templateOptions: parsed.templateOptions ?? {} };
+      list.splice(list.indexOf(field), 1, edited);
+      this.select(edited);
+      this.fieldChanged();
+    } catch (err) {
+      this.propertyError.set((err as Error).message);
+    }
+  }
+
+  /* =========================================================
+   * PREVIEW
+   * ========================================================= */
+
+  /**
+   * Rebuild the preview the way the dynamic form builds a step: converter, formState, then option resolvers
+   */
+  private refreshPreview(): void {
+    const step = this.step();
+    this.previewDestroy$.next();
+    if (!step) return;
+
+    try {
+      this.previewFields = this.fieldConverter.buildFormlyFields(step);
+      this.addDependencyHooks(step);
+      this.previewForm = new FormGroup({});
+      this.previewOptions = {
+        formState: this.formStateService.buildFormState({ workflowId: null, stepId: step.stepId })
+      };
+      this.optionLoader.loadInitialOptions(this.previewFields, step, this.previewDestroy$, this.previewModel);
+      this.previewError.set(null);
+    } catch (err) {
+      console.error('Failed to build the preview:', err);
+      this.previewFields = [];
+      this.previewError.set((err as Error).message);
+    }
+  }
+
+  /**
+   * Reload dependent options when a parent field changes; workflow onChanges handlers need a running workflow
+   */
+  private addDependencyHooks(step: StepDefinition): void {
+    step.fields.forEach(field => {
+      const formlyField = this.previewFields.find(f => f.key === field.key);
+      if (formlyField && this.optionLoader.hasDependents(field.key, step)) {
+        formlyField.hooks = this.fieldConverter.createFieldChangeHook(
+          field,
+          this.previewDestroy$,
+          key => this.optionLoader.onParentValueChange(key, this.previewModel, this.previewFields, step, this.previewDestroy$)
+        );
+      }
+    });
+  }
+
+  resetPreview(): void {
+    this.previewModel = {};
+    this.refreshPreview();
+  }
+
+  getPreviewModelJson(): string {
+    return JSON.stringify(this.previewModel, null, 2);
+  }
+
+  /* =========================================================
+   * VALIDATE AND EXPORT
+   * ========================================================= */
+  getFileName(): string {
+    const stepRef = this.stepRef();
+    return `${stepRef ? stepRef.split('/').pop() : this.step()?.stepId || 'step'}.json`;
+  }
+
+  validateAndExport(): void {
+    const step = this.step();
+    if (!step) return;
+
+    this.isValidating.set(true);
+    const file = this.stepRef() ? `${this.stepRef()}.json` : this.getFileName();
+    this.builder.validate(file, step).pipe(takeUntil(this.destroy$)).subscribe({
+      next: issues => {
+        this.issues.set(issues);
+        const hasErrors = issues.some(issue => issue.severity === 'error');
+        this.exportedJson.set(hasErrors ? null : this.builder.exportStep(step));
+        this.isValidating.set(false);
+      },
+      error: err => {
+        console.error('Failed to validate step:', err);
+        this.error.set('Could not load the step schema to validate against');
+        this.isValidating.set(false);
+      }
+    });
+  }
+
+  download(): void {
+    const json = this.exportedJson();
+    if (!json) return;
+
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = this.getFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,140 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StepHistoryEntry } from '../../services/workflow.service';
+
+export interface FieldDiff {
+  key: string;
+  label: string;
+  oldValue: string;
+  newValue: string;
+}
+
+export interface AttachedFile {
+  id: string;
+  fileName: string;
+  fileSize?: number;
+}
+
+export interface TimelineItem {
+  entry: StepHistoryEntry;
+  durationMinutes: number | null;
+  resubmission: boolean;
+  diffs: FieldDiff[];
+  files: AttachedFile[];
+}
+
+// Decisions that do not submit the step's data
+const NON_SUBMISSIONS = ['send_back', 'reject', 'discard', 'action_completed', 'action_failed', 'parallel_joined', 'migrated'];
+
+/**
+ * Vertical audit trail of an instance's step history
+ * Resubmissions of a step show a field-level diff against that step's previous submission.
+ */
+@Component({
+  selector: 'app-step-timeline',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './step-timeline.component.html',
+  styleUrl: './step-timeline.component.css'
+})
+export class StepTimelineComponent {
+  history = input<StepHistoryEntry[]>([]);
+  startedAt = input<string | null>(null);
+  fieldLabels = input<Record<string, string>>({});
+
+  items = computed<TimelineItem[]>(() => {
+    const history = this.history() || [];
+    return history.map((entry, index) => this.toItem(history, index));
+  });
+
+  getDecisionBadge(entry: StepHistoryEntry): { label: string; cssClass: string } {
+    switch (entry.decision) {
+      case 'send_back': return { label: 'Sent back', cssClass: 'bg-warning text-dark' };
+      case 'reject': return { label: 'Rejected', cssClass: 'bg-danger' };
+      case 'discard': return { label: 'Discarded', cssClass: 'bg-secondary' };
+      case 'approve': return { label: 'Approved', cssClass: 'bg-success' };
+      case 'action_completed': return { label: 'Processed', cssClass: 'bg-success' };
+      case 'action_failed': return { label: 'Action failed', cssClass: 'bg-danger' };
+      case 'parallel_joined': return { label: 'Branches joined', cssClass: 'bg-info' };
+      case 'migrated': return { label: 'Migrated', cssClass: 'bg-secondary' };
+      default: return { label: 'Submitted', cssClass: 'bg-primary' };
+    }
+  }
+
+  /**
+   * Readable duration, e.g. "2d 3h" or "45m"
+   */
+  formatDuration(minutes: number): string {
+    if (minutes >= 1440) return `${Math.floor(minutes / 1440)}d ${Math.floor((minutes % 1440) / 60)}h`;
+    if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    return `${minutes}m`;
+  }
+
+  fileUrl(file: AttachedFile): string {
+    return `/api/Workflow/files/${encodeURIComponent(file.id)}`;
+  }
+
+  private toItem(history: StepHistoryEntry[], index: number): TimelineItem {
+    const entry = history[index];
+    const submitted = !NON_SUBMISSIONS.includes(entry.decision ?? '');
+    const snapshot = entry.dataSnapshot || {};
+    const changedKeys = entry.changedFields ? Object.keys(entry.changedFields) : null;
+
+    const previous = submitted
+      ? history.slice(0, index).reverse().find(e => e.stepId === entry.stepId && !NON_SUBMISSIONS.includes(e.decision ?? ''))
+      : undefined;
+
+    let diffs: FieldDiff[] = [];
+    if (previous) {
+      const previousSnapshot = previous.dataSnapshot || {};
+      const keys = changedKeys ?? Array.from(new Set([...Object.keys(previousSnapshot), ...Object.keys(snapshot)]));
+      diffs = keys
+        .filter(key => JSON.stringify(previousSnapshot[key] ?? null) !== JSON.stringify(snapshot[key] ?? null))
+        .map(key => ({
+          key,
+          label: this.fieldLabels()[key] || key,
+          oldValue: this.formatValue(previousSnapshot[key]),
+          newValue: this.formatValue(snapshot[key])
+        }));
+    }
+
+    // Files count as attached by the entry that changed their field
+    const files = submitted
+      ? (changedKeys ?? Object.keys(snapshot)).flatMap(key => this.asFiles(snapshot[key]))
+      : [];
+
+    return {
+      entry,
+      durationMinutes: this.getDurationMinutes(history, index),
+      resubmission: !!previous,
+      diffs,
+      files
+    };
+  }
+
+  private getDurationMinutes(history: StepHistoryEntry[], index: number): number | null {
+    const entry = history[index];
+    if (entry.processingTimeMinutes != null) return entry.processingTimeMinutes;
+
+    const since = index > 0 ? history[index - 1].completedAt : this.startedAt();
+    if (!since) return null;
+
+    return Math.max(0, Math.round((new Date(entry.completedAt).getTime() - new Date(since).getTime()) / 60_000));
+  }
+
+  private asFiles(value: any): AttachedFile[] {
+    return Array.isArray(value)
+      ? value.filter(item => item && typeof item === 'object' && item.fileName && item.id)
+      : [];
+  }
+
+  private formatValue(value: any): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+    const files = this.asFiles(value);
+    if (files.length > 0) return files.map(file => file.fileName).join(', ');
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
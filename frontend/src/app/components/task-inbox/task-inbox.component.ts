@@ -0,0 +1,186 @@
+import { Component, OnDestroy, OnInit, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { WorkflowInstance, WorkflowService } from '../../services/workflow.service';
+import { AuthService } from '../../services/auth.service';
+import { SlaBadge, SlaService } from '../../services/sla.service';
+import { NotificationBellComponent } from '../notification-bell/notification-bell.component';
+
+type InboxSort = 'sla' | 'waiting' | 'priority' | 'newest';
+
+const DAY = 86_400_000;
+
+/**
+ * "My work" inbox: instances assigned to the signed-in user's role, and only their own ones for applicant roles
+ * The server picks the instances from the user's token; filtering, sorting and paging happen in the browser.
+ */
+@Component({
+  selector: 'app-task-inbox',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink, NotificationBellComponent],
+  templateUrl: './task-inbox.component.html',
+  styleUrl: './task-inbox.component.css'
+})
+export class TaskInboxComponent implements OnInit, OnDestroy {
+  private workflowService = inject(WorkflowService);
+  private authService = inject(AuthService);
+  private slaService = inject(SlaService);
+  private platformId = inject(PLATFORM_ID);
+
+  readonly statuses = ['in_progress', 'on_hold'];
+  readonly pageSize = 10;
+
+  currentUser = this.authService.currentUser;
+  instances = signal<WorkflowInstance[]>([]);
+  isLoading = signal(true);
+  error = signal<string | null>(null);
+  now = signal(Date.now());
+
+  // Filters and sorting
+  definitionFilter = signal('');
+  statusFilter = signal('');
+  stepFilter = signal('');
+  minWaitingDays = signal(0);
+  sortBy = signal<InboxSort>('sla');
+  page = signal(1);
+
+  definitionOptions = computed(() => this.distinct(this.instances().map(i => i.definitionId)));
+  stepOptions = computed(() => this.distinct(this.instances().map(i => this.getOpenStep(i))));
+
+  filtered = computed(() => {
+    const now = this.now();
+    const minWaiting = this.minWaitingDays() * DAY;
+
+    return this.instances()
+      .filter(i => !this.definitionFilter() || i.definitionId === this.definitionFilter())
+      .filter(i => !this.statusFilter() || i.status === this.statusFilter())
+      .filter(i => !this.stepFilter() || this.getOpenStep(i) === this.stepFilter())
+      .filter(i => now - this.getWaitingSince(i) >= minWaiting)
+      .sort((a, b) => this.compare(a, b));
+  });
+
+  pageCount = computed(() => Math.max(1, Math.ceil(this.filtered().length / this.pageSize)));
+
+  paged = computed(() => {
+    const start = (Math.min(this.page(), this.pageCount()) - 1) * this.pageSize;
+    return this.filtered().slice(start, start + this.pageSize);
+  });
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    this.loadInbox();
+
+    // Keep the SLA countdowns current
+    this.timer = setInterval(() => this.now.set(Date.now()), 60_000);
+  }
+
+  ngOnDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Load the instances waiting on the current user
+   */
+  loadInbox(): void {
+    const role = this.currentUser()?.role;
+    if (!role) {
+      this.isLoading.set(false);
+      this.error.set('Sign in to see the work assigned to you.');
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    forkJoin(this.statuses.map(status => this.workflowService.getInbox(status))).subscribe({
+      next: results => {
+        this.instances.set(results.flat());
+        this.page.set(1);
+        this.isLoading.set(false);
+      },
+      error: err => {
+        console.error('Failed to load inbox:', err);
+        this.error.set('Failed to load your work. Please try again.');
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  /**
+   * Update a filter and go back to the first page
+   */
+  setFilter(filter: 'definition' | 'status' | 'step', value: string): void {
+    ({ definition: this.definitionFilter, status: this.statusFilter, step: this.stepFilter })[filter].set(value);
+    this.page.set(1);
+  }
+
+  setMinWaitingDays(days: number): void {
+    this.minWaitingDays.set(Number(days));
+    this.page.set(1);
+  }
+
+  setSort(sort: InboxSort): void {
+    this.sortBy.set(sort);
+    this.page.set(1);
+  }
+
+  goToPage(page: number): void {
+    this.page.set(Math.min(Math.max(page, 1), this.pageCount()));
+  }
+
+  /**
+   * The step waiting on the user's role: its parallel branch, or the current step
+   */
+  getOpenStep(instance: WorkflowInstance): string {
+    return this.workflowService.getOpenStep(instance, this.currentUser()?.role);
+  }
+
+  /**
+   * When the instance reached the step waiting on the user
+   */
+  getWaitingSince(instance: WorkflowInstance): number {
+    return this.slaService.getStepStartedAt(instance, this.getOpenStep(instance)).getTime();
+  }
+
+  formatDuration(ms: number): string {
+    return this.slaService.formatDuration(ms);
+  }
+
+  /**
+   * Countdown badge for the instance's SLA deadline
+   */
+  getSlaBadge(instance: WorkflowInstance): SlaBadge | null {
+    return this.slaService.getBadge(this.slaService.getInstanceSla(instance, null, this.now()));
+  }
+
+  private compare(a: WorkflowInstance, b: WorkflowInstance): number {
+    switch (this.sortBy()) {
+      case 'sla':
+        return this.deadlineOf(a) - this.deadlineOf(b);
+      case 'waiting':
+        return this.getWaitingSince(a) - this.getWaitingSince(b);
+      case 'priority':
+        return (a.priority ?? 3) - (b.priority ?? 3) || this.deadlineOf(a) - this.deadlineOf(b);
+      case 'newest':
+        return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+    }
+  }
+
+  // Instances without a deadline sort last
+  private deadlineOf(instance: WorkflowInstance): number {
+    return instance.slaDeadline ? new Date(instance.slaDeadline).getTime() : Number.MAX_SAFE_INTEGER;
+  }
+
+  private distinct(values: string[]): string[] {
+    return Array.from(new Set(values.filter(Boolean))).sort();
+  }
+}
@@ -0,0 +1,323 @@
+import { Component, OnDestroy, OnInit, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, Subscription, forkJoin, interval, of } from 'rxjs';
+import { catchError, switchMap, takeUntil, takeWhile } from 'rxjs/operators';
+import { StepHistoryEntry, WorkflowDefinition, WorkflowInstance, WorkflowService } from '../../services/workflow.service';
+import { CertificateService } from '../../services/certificate.service';
+import { FormConfigService } from '../../services/form-config.service';
+import { AuthService } from '../../services/auth.service';
+import { NotificationBellComponent } from '../notification-bell/notification-bell.component';
+import { AttachedFile, StepTimelineComponent } from '../step-timeline/step-timeline.component';
+
+export interface SummaryRow {
+  key: string;
+  label: string;
+  value: string;
+  files: AttachedFile[];
+}
+
+export interface StepSummary {
+  stepId: string;
+  name: string;
+  submittedBy: string | null;
+  submittedAt: string | null;
+  rows: SummaryRow[];
+}
+
+// How often a processing instance is checked for the end of its system action
+const PROCESSING_POLL_MS = 3000;
+
+// Decisions that do not submit the step's data
+const NON_SUBMISSIONS = ['send_back', 'reject', 'discard', 'action_completed', 'action_failed', 'migrated'];
+
+/**
+ * Summary page of a finished instance: the issued certificate, generated documents,
+ * the final data grouped by step and the full timeline
+ * Instances that are still running are sent on to their current step; those waiting on a system action
+ * show its progress until it finishes.
+ */
+@Component({
+  selector: 'app-workflow-completion',
+  standalone: true,
+  imports: [CommonModule, RouterLink, NotificationBellComponent, StepTimelineComponent],
+  templateUrl: './workflow-completion.component.html',
+  styleUrl: './workflow-completion.component.css'
+})
+export class WorkflowCompletionComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private workflowService = inject(WorkflowService);
+  private certificateService = inject(CertificateService);
+  private formConfigService = inject(FormConfigService);
+  private authService = inject(AuthService);
+  private platformId = inject(PLATFORM_ID);
+
+  instance = signal<WorkflowInstance | null>(null);
+  definition = signal<WorkflowDefinition | null>(null);
+  sections = signal<StepSummary[]>([]);
+  fieldLabels = signal<Record<string, string>>({});
+  isLoading = signal(true);
+  error = signal<string | null>(null);
+  generatingPdf = signal(false);
+  pdfError = signal<string | null>(null);
+  retrying = signal(false);
+
+  certificate = computed(() => this.instance()?.certificate ?? null);
+  documents = computed(() => this.instance()?.documents ?? []);
+  certificatePdfMissing = computed(() => !!this.certificate()
+    && this.instance()?.status !== 'processing'
+    && !this.documents().some(document => document.kind === 'certificate'));
+  systemStepName = computed(() => {
+    const instance = this.instance();
+    const step = (this.definition()?.steps || []).find((s: any) => s.stepId === instance?.currentStep);
+    return step?.name || instance?.currentStep || '';
+  });
+  lastActionFailure = computed(() => [...(this.instance()?.stepHistory || [])]
+    .reverse()
+    .find(entry => entry.decision === 'action_failed')?.comments ?? null);
+
+  private processingWatch?: Subscription;
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const instanceId = params.get('instanceId');
+      if (instanceId) {
+        this.load(instanceId);
+      } else {
+        this.error.set('No workflow instance specified');
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Load the instance, its definition and the definitions of its form steps
+   */
+  async load(instanceId: string): Promise<void> {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    try {
+      const instance = await this.workflowService.getWorkflowInstance(instanceId).toPromise();
+      if (!instance) {
+        throw new Error('Workflow instance not found');
+      }
+
+      if (instance.status === 'in_progress' || instance.status === 'on_hold') {
+        const step = this.workflowService.getOpenStep(instance, this.authService.currentUser()?.role);
+        console.log(`Instance ${instanceId} is still running, opening step ${step}`);
+        this.router.navigate(['/workflow-step', instanceId, 'step', step], { replaceUrl: true });
+        return;
+      }
+
+      // Pinned instances are summarised with the definition and step files of their version
+      const pinned = instance.definitionVersion
+        ? await this.formConfigService.loadWorkflowVersion(instance.definitionId, instance.definitionVersion).toPromise()
+        : null;
+      const definition = pinned
+        ? pinned.definition as WorkflowDefinition
+        : (await this.workflowService.getWorkflowDefinition(instance.definitionId).toPromise()) ?? null;
+      const stepRefs: string[] = (definition?.steps || []).filter((step: any) => step.stepRef).map((step: any) => step.stepRef);
+
+      // A step that fails to load only loses its section, not the page
+      const steps = pinned
+        ? stepRefs.map(stepRef => pinned.steps[stepRef] ?? null)
+        : stepRefs.length > 0
+          ? await forkJoin(stepRefs.map(stepRef => this.workflowService.getStepDefinition(stepRef).pipe(
+              catchError(err => {
+                console.error(`Failed to load step ${stepRef}:`, err);
+                return of(null);
+              })
+            ))).toPromise()
+          : [];
+
+      const stepDefinitions = (steps || []).filter(step => !!step);
+      this.fieldLabels.set(Object.fromEntries(
+        stepDefinitions.flatMap(step => (step.fields || []).map((field: any) => [field.key, this.getLabel(field)]))
+      ));
+
+      this.instance.set(instance);
+      this.definition.set(definition);
+      this.sections.set(stepDefinitions
+        .map(step => this.toSummary(step, instance))
+        .filter(section => section.rows.length > 0 || section.submittedAt));
+
+      if (instance.status === 'processing') {
+        this.watchProcessing(instance.id);
+      }
+    } catch (err: any) {
+      console.error('Failed to load completed workflow:', err);
+      this.error.set(err?.error?.message || err?.message || 'Failed to load the workflow. Please try again.');
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Generate the certificate PDF for an instance completed before the PDF existed, or whose generation failed
+   */
+  generateCertificatePdf(): void {
+    const instance = this.instance();
+    if (!instance) return;
+
+    this.generatingPdf.set(true);
+    this.pdfError.set(null);
+
+    this.certificateService.generateCertificatePdf(instance.id).subscribe({
+      next: updated => {
+        this.instance.set(updated);
+        this.generatingPdf.set(false);
+      },
+      error: err => {
+        console.error('Failed to generate certificate PDF:', err);
+        this.pdfError.set(err?.error?.message || 'Failed to generate the certificate PDF.');
+        this.generatingPdf.set(false);
+      }
+    });
+  }
+
+  /**
+   * Run the system action again after all its attempts failed
+   */
+  retrySystemAction(): void {
+    const instance = this.instance();
+    if (!instance) return;
+
+    this.retrying.set(true);
+    this.workflowService.retrySystemAction(instance.id).subscribe({
+      next: updated => {
+        this.instance.set(updated);
+        this.retrying.set(false);
+        this.watchProcessing(updated.id);
+      },
+      error: err => {
+        console.error('Failed to retry system action:', err);
+        this.error.set(err?.error?.message || 'Failed to retry the system action.');
+        this.retrying.set(false);
+      }
+    });
+  }
+
+  getStatusBadge(status: string): { label: string; cssClass: string } {
+    switch (status) {
+      case 'completed': return { label: 'Completed', cssClass: 'bg-success' };
+      case 'processing': return { label: 'Processing', cssClass: 'bg-info' };
+      case 'action_failed': return { label: 'Action failed', cssClass: 'bg-danger' };
+      case 'rejected': return { label: 'Rejected', cssClass: 'bg-danger' };
+      case 'discarded': return { label: 'Discarded', cssClass: 'bg-secondary' };
+      default: return { label: status, cssClass: 'bg-info' };
+    }
+  }
+
+  fileUrl(file: { id: string }): string {
+    return `/api/Workflow/files/${encodeURIComponent(file.id)}`;
+  }
+
+  /**
+   * Readable file size, e.g. "1.2 MB"
+   */
+  formatSize(bytes: number): string {
+    if (bytes >= 1_048_576) return `${(bytes / 1_048_576).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} B`;
+  }
+
+  /**
+   * Poll a processing instance until its system action has finished or failed
+   */
+  private watchProcessing(instanceId: string): void {
+    this.processingWatch?.unsubscribe();
+    this.processingWatch = interval(PROCESSING_POLL_MS).pipe(
+      switchMap(() => this.workflowService.getWorkflowInstance(instanceId)),
+      takeWhile(instance => instance.status === 'processing', true),
+      takeUntil(this.destroy$)
+    ).subscribe({
+      next: instance => {
+        if (instance.status !== 'processing') {
+          console.log(`Instance ${instanceId} finished processing with status ${instance.status}`);
+        }
+        this.instance.set(instance);
+      },
+      error: err => console.error('Failed to check processing instance:', err)
+    });
+  }
+
+  /**
+   * Final values of a step's fields, with who last submitted the step
+   */
+  private toSummary(step: any, instance: WorkflowInstance): StepSummary {
+    const data = instance.currentData || {};
+    const submission = [...(instance.stepHistory || [])]
+      .reverse()
+      .find((entry: StepHistoryEntry) => entry.stepId === step.stepId && !NON_SUBMISSIONS.includes(entry.decision ?? ''));
+
+    const rows = (step.fields || [])
+      .filter((field: any) => field.key && !this.isEmpty(data[field.key]))
+      .map((field: any) => ({
+        key: field.key,
+        label: this.getLabel(field),
+        value: this.formatValue(data[field.key], field),
+        files: this.asFiles(data[field.key])
+      }));
+
+    return {
+      stepId: step.stepId,
+      name: step.name || step.stepId,
+      submittedBy: submission?.completedBy ?? null,
+      submittedAt: submission?.completedAt ?? null,
+      rows
+    };
+  }
+
+  private getLabel(field: any): string {
+    return field.templateOptions?.label || field.props?.label || field.key;
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  private asFiles(value: any): AttachedFile[] {
+    return Array.isArray(value)
+      ? value.filter(item => item && typeof item === 'object' && item.fileName && item.id)
+      : [];
+  }
+
+  /**
+   * Display text for a value, using the field's option labels where it has static options
+   */
+  private formatValue(value: any, field: any): string {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (this.asFiles(value).length > 0) return '';
+
+    const options: any[] = Array.isArray(field.templateOptions?.options ?? field.props?.options)
+      ? (field.templateOptions?.options ?? field.props?.options)
+      : [];
+    const toLabel = (item: any) => options.find(option => option.value === item)?.label ?? item;
+
+    if (Array.isArray(value)) {
+      return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(toLabel(item))).join(', ');
+    }
+    if (value && typeof value === 'object') {
+      // multicheckbox values are { option: true }
+      const keys = Object.keys(value);
+      return keys.every(key => typeof value[key] === 'boolean')
+        ? keys.filter(key => value[key]).map(toLabel).join(', ')
+        : JSON.stringify(value);
+    }
+
+    return String(toLabel(value));
+  }
+}
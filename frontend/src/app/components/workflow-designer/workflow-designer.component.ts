@@ -0,0 +1,420 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule, DOCUMENT } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { catchError, takeUntil } from 'rxjs/operators';
+import { WorkflowService } from '../../services/workflow.service';
+import { DefinitionStep, StepDefinition, TERMINAL_STEPS } from '../../services/workflow-definition.interface';
+import {
+  DesignerEdge,
+  DesignerNode,
+  ExportedFile,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  NewStepType,
+  WorkflowDesign,
+  WorkflowDesignerService
+} from '../../services/workflow-designer.service';
+import { WorkflowIssue } from '../../services/workflow-functions/common/workflow-definition-validator';
+
+/**
+ * Visual editor for workflow definitions
+ * Steps are drawn as nodes with their next-step, conditional, branch and send-back edges;
+ * the side panel edits the selected step (or the definition) and the result is exported as the JSON files under assets/forms.
+ */
+@Component({
+  selector: 'app-workflow-designer',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './workflow-designer.component.html',
+  styleUrl: './workflow-designer.component.css'
+})
+export class WorkflowDesignerComponent implements OnInit, OnDestroy {
+  private designer = inject(WorkflowDesignerService);
+  private workflowService = inject(WorkflowService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private document = inject(DOCUMENT);
+
+  readonly nodeWidth = NODE_WIDTH;
+  readonly nodeHeight = NODE_HEIGHT;
+  readonly terminalSteps = TERMINAL_STEPS;
+
+  design = signal<WorkflowDesign | null>(null);
+  selectedStepId = signal<string | null>(null);
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+
+  // Bumped on every edit; the design is mutated in place
+  private revision = signal(0);
+
+  definitionIds = signal<string[]>([]);
+  workflowToOpen = '';
+  newWorkflowCode = '';
+  newStepId = '';
+  newStepType: NewStepType = 'form';
+  newRole = '';
+
+  issues = signal<WorkflowIssue[] | null>(null);
+  isValidating = signal(false);
+  exportedFiles = signal<ExportedFile[]>([]);
+  previewFile = signal<string | null>(null);
+
+  graph = computed(() => {
+    this.revision();
+    const design = this.design();
+    return design ? this.designer.buildGraph(design) : null;
+  });
+
+  private nodesById = computed(() => new Map((this.graph()?.nodes || []).map(node => [node.id, node])));
+
+  stepIds = computed(() => {
+    this.revision();
+    const design = this.design();
+    return design ? this.designer.getStepIds(design) : [];
+  });
+
+  selectedStep = computed(() => {
+    this.revision();
+    const design = this.design();
+    const stepId = this.selectedStepId();
+    return design && stepId ? this.designer.findStep(design, stepId) ?? null : null;
+  });
+
+  selectedFile = computed(() => {
+    const design = this.design();
+    const step = this.selectedStep();
+    return design && step ? this.designer.getStepFile(design, step) : null;
+  });
+
+  roles = computed(() => {
+    this.revision();
+    const design = this.design();
+    if (!design) return [];
+
+    const actors = Object.values(design.steps).map(step => step.actor);
+    return [...new Set([...Object.keys(design.definition.permissions || {}), ...actors])].filter(Boolean);
+  });
+
+  errorCount = computed(() => (this.issues() || []).filter(issue => issue.severity === 'error').length);
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this.workflowService.getWorkflowDefinitions()
+      .pipe(catchError(() => of([])), takeUntil(this.destroy$))
+      .subscribe(definitions => this.definitionIds.set(definitions.map(d => d.certificationId)));
+
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const workflowId = params.get('workflowId');
+      if (workflowId) {
+        this.load(workflowId);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /* =========================================================
+   * OPEN / CREATE
+   * ========================================================= */
+  open(): void {
+    const workflowId = this.workflowToOpen.trim();
+    if (workflowId) {
+      this.router.navigate(['/designer', workflowId]);
+    }
+  }
+
+  createWorkflow(): void {
+    this.setDesign(this.designer.createDesign(this.newWorkflowCode));
+    this.newWorkflowCode = '';
+    this.router.navigate(['/designer']);
+  }
+
+  private load(workflowId: string): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.designer.loadDesign(workflowId).pipe(takeUntil(this.destroy$)).subscribe({
+      next: design => {
+        console.log('Loaded workflow design:', workflowId, design);
+        this.workflowToOpen = workflowId;
+        this.setDesign(design);
+        this.isLoading.set(false);
+      },
+      error: err => {
+        console.error('Failed to load workflow definition:', err);
+        this.error.set(`Could not load workflow definition "${workflowId}"`);
+        this.design.set(null);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  private setDesign(design: WorkflowDesign): void {
+    const { definition } = design;
+    // The panels bind straight to these blocks
+    definition.metadata ??= {};
+    definition.workflowConfig ??= {};
+    definition.slaConfig ??= {};
+    definition.slaConfig.stepSLAs ??= {};
+    definition.permissions ??= {};
+    for (const stepFile of Object.values(design.steps)) {
+      stepFile.stepConfig ??= {};
+    }
+
+    this.design.set(design);
+    this.selectedStepId.set(null);
+    this.changed();
+  }
+
+  /**
+   * Record an edit: redraw and require validation again before exporting
+   */
+  changed(): void {
+    this.revision.update(value => value + 1);
+    this.exportedFiles.set([]);
+    this.previewFile.set(null);
+  }
+
+  /* =========================================================
+   * CANVAS
+   * ========================================================= */
+  selectNode(node: DesignerNode): void {
+    this.selectedStepId.set(node.index >= 0 ? node.id : null);
+  }
+
+  clearSelection(): void {
+    this.selectedStepId.set(null);
+  }
+
+  /**
+   * Forward edges run right to left-edge; edges back to an earlier column loop below the nodes
+   */
+  getEdgePath(edge: DesignerEdge): string {
+    const from = this.nodesById().get(edge.from);
+    const to = this.nodesById().get(edge.to);
+    if (!from || !to) return '';
+
+    if (to.x > from.x) {
+      const x1 = from.x + NODE_WIDTH;
+      const y1 = from.y + NODE_HEIGHT / 2;
+      const x2 = to.x;
+      const y2 = to.y + NODE_HEIGHT / 2;
+      const bend = (x2 - x1) / 2;
+      return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+    }
+
+    const x1 = from.x + NODE_WIDTH / 2;
+    const y1 = from.y + NODE_HEIGHT;
+    const x2 = to.x + NODE_WIDTH / 2 + (edge.kind === 'sendBack' ? 12 : -12);
+    const y2 = to.y + NODE_HEIGHT;
+    const drop = 40 + Math.abs(x1 - x2) * 0.15;
+    return `M ${x1} ${y1} C ${x1} ${y1 + drop}, ${x2} ${y2 + drop}, ${x2} ${y2}`;
+  }
+
+  getEdgeLabelPosition(edge: DesignerEdge): { x: number; y: number } {
+    const from = this.nodesById().get(edge.from);
+    const to = this.nodesById().get(edge.to);
+    if (!from || !to) return { x: 0, y: 0 };
+
+    if (to.x > from.x) {
+      return { x: (from.x + NODE_WIDTH + to.x) / 2, y: (from.y + to.y) / 2 + NODE_HEIGHT / 2 - 6 };
+    }
+    return { x: (from.x + to.x) / 2 + NODE_WIDTH / 2, y: Math.max(from.y, to.y) + NODE_HEIGHT + 34 };
+  }
+
+  truncate(text: string | undefined, length: number): string {
+    if (!text) return '';
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+
+  getNodeKindLabel(node: DesignerNode): string {
+    switch (node.kind) {
+      case 'system_action': return 'System action';
+      case 'parallel': return 'Parallel';
+      case 'terminal': return 'End';
+      default: return node.actor || 'No actor';
+    }
+  }
+
+  /* =========================================================
+   * STEPS
+   * ========================================================= */
+  addStep(): void {
+    const design = this.design();
+    const stepId = this.newStepId.trim();
+    if (!design || !stepId) return;
+
+    try {
+      this.designer.addStep(design, stepId, this.newStepType);
+      this.newStepId = '';
+      this.error.set(null);
+      this.changed();
+      this.selectedStepId.set(stepId);
+    } catch (err) {
+      this.error.set((err as Error).message);
+    }
+  }
+
+  removeSelectedStep(): void {
+    const design = this.design();
+    const stepId = this.selectedStepId();
+    if (!design || !stepId || !confirm(`Remove step "${stepId}" and every reference to it?`)) return;
+
+    this.designer.removeStep(design, stepId);
+    this.selectedStepId.set(null);
+    this.changed();
+  }
+
+  getNextStep(step: DefinitionStep): string {
+    return this.designer.getNextStep(this.design()!, step);
+  }
+
+  setNextStep(step: DefinitionStep, nextStep: string): void {
+    this.designer.setNextStep(this.design()!, step, nextStep);
+    this.changed();
+  }
+
+  /**
+   * Steps and end states a step can lead to
+   */
+  getTargets(step: DefinitionStep): string[] {
+    const stepId = this.designer.getStepId(step);
+    return [
+      ...this.stepIds().filter(id => id !== stepId),
+      ...TERMINAL_STEPS.filter(id => !this.stepIds().includes(id))
+    ];
+  }
+
+  addTransition(step: DefinitionStep): void {
+    step.overrides = { ...step.overrides, next: [...(step.overrides?.next || []), { when: '', goto: '' }] };
+    this.changed();
+  }
+
+  removeTransition(step: DefinitionStep, index: number): void {
+    const next = (step.overrides?.next || []).filter((_, i) => i !== index);
+    step.overrides = { ...step.overrides, next: next.length ? next : undefined };
+    this.changed();
+  }
+
+  setSendBack(stepFile: StepDefinition, canSendBack: boolean): void {
+    stepFile.stepConfig = { ...stepFile.stepConfig, canSendBack };
+    if (!canSendBack) {
+      stepFile.stepConfig.sendBackTarget = undefined;
+    }
+    this.changed();
+  }
+
+  toggleBranch(step: DefinitionStep, branch: string, checked: boolean): void {
+    const branches = (step.branches || []).filter(id => id !== branch);
+    step.branches = checked ? [...branches, branch] : branches;
+    this.changed();
+  }
+
+  /* =========================================================
+   * SLA AND PERMISSIONS
+   * ========================================================= */
+  getSla(stepId: string): number | null {
+    return this.design()?.definition.slaConfig?.stepSLAs?.[stepId] ?? null;
+  }
+
+  setSla(stepId: string, hours: number | null): void {
+    const stepSLAs = this.design()!.definition.slaConfig!.stepSLAs!;
+    if (hours === null || hours === undefined || isNaN(hours)) {
+      delete stepSLAs[stepId];
+    } else {
+      stepSLAs[stepId] = hours;
+    }
+    this.changed();
+  }
+
+  canEditStep(role: string, stepId: string): boolean {
+    return !!this.design()?.definition.permissions?.[role]?.canEditSteps?.includes(stepId);
+  }
+
+  toggleEditStep(role: string, stepId: string, checked: boolean): void {
+    const permissions = this.design()!.definition.permissions![role];
+    const steps = (permissions.canEditSteps || []).filter(id => id !== stepId);
+    permissions.canEditSteps = checked ? [...steps, stepId] : steps;
+    this.changed();
+  }
+
+  getPermissionRoles(): string[] {
+    return Object.keys(this.design()?.definition.permissions || {});
+  }
+
+  addRole(): void {
+    const role = this.newRole.trim();
+    const permissions = this.design()?.definition.permissions;
+    if (!role || !permissions || permissions[role]) return;
+
+    permissions[role] = { canEditSteps: [] };
+    this.newRole = '';
+    this.changed();
+  }
+
+  removeRole(role: string): void {
+    delete this.design()!.definition.permissions![role];
+    this.changed();
+  }
+
+  /* =========================================================
+   * VALIDATE AND EXPORT
+   * ========================================================= */
+  validateAndExport(): void {
+    const design = this.design();
+    if (!design) return;
+
+    this.isValidating.set(true);
+    this.designer.validate(design).pipe(takeUntil(this.destroy$)).subscribe({
+      next: issues => {
+        this.issues.set(issues);
+        const hasErrors = issues.some(issue => issue.severity === 'error');
+        this.exportedFiles.set(hasErrors ? [] : this.designer.exportFiles(design));
+        this.isValidating.set(false);
+      },
+      error: err => {
+        console.error('Failed to validate workflow design:', err);
+        this.error.set('Could not load the workflow schemas to validate against');
+        this.isValidating.set(false);
+      }
+    });
+  }
+
+  /**
+   * Select the step an issue points at
+   */
+  showIssue(issue: WorkflowIssue): void {
+    const design = this.design();
+    if (!design) return;
+
+    const stepIndex = /^\$\.steps\[(\d+)\]/.exec(issue.path);
+    const step = issue.file === this.designer.getDefinitionPath(design)
+      ? (stepIndex ? design.definition.steps[Number(stepIndex[1])] : undefined)
+      : design.definition.steps.find(s => s.stepRef && `${s.stepRef}.json` === issue.file);
+
+    this.selectedStepId.set(step ? this.designer.getStepId(step) : null);
+  }
+
+  togglePreview(file: ExportedFile): void {
+    this.previewFile.set(this.previewFile() === file.path ? null : file.path);
+  }
+
+  download(file: ExportedFile): void {
+    const url = URL.createObjectURL(new Blob([file.content], { type: 'application/json' }));
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = file.path.split('/').pop()!;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  downloadAll(): void {
+    this.exportedFiles().forEach(file => this.download(file));
+  }
+}
@@ -1,46 +1,81 @@
-import { Component, OnInit, ChangeDetectorRef, PLATFORM_ID, Inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, PLATFORM_ID, Inject } from '@angular/core';
 import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
-import { HttpClientModule } from '@angular/common/http';
-import { FormsModule, ReactiveFormsModule, FormGroup, FormBuilder } from '@angular/forms';
-import { WorkflowService } from '../../services/workflow.service';
+import { FormsModule, ReactiveFormsModule, FormGroup } from '@angular/forms';
+import { FormlyModule, FormlyFieldConfig, FormlyFormOptions } from '@ngx-formly/core';
+import { FormlyBootstrapModule } from '@ngx-formly/bootstrap';
+import { Observable, Subject, map, takeUntil } from 'rxjs';
+import { ActiveStep, StepHistoryEntry, WorkflowDefinition, WorkflowService, WorkflowSubmission } from '../../services/workflow.service';
+import { PermissionService, StepAccess } from '../../services/permission.service';
+import { AuthService } from '../../services/auth.service';
+import { SlaBadge, SlaService } from '../../services/sla.service';
+import { NotificationBellComponent } from '../notification-bell/notification-bell.component';
+import { StepTimelineComponent } from '../step-timeline/step-timeline.component';
+import { FileUploadResponse } from '../../services/file-upload.service';
+import { FieldConverterService } from '../../services/workflow-functions/common/field-converter.service';
+import { OptionLoaderService } from '../../services/workflow-functions/common/option-loader.service';
+import { FormStateService, WorkflowFormState } from '../../services/workflow-functions/common/form-state.service';
+import { ValidationRuleEngineService } from '../../services/workflow-functions/common/validation-rule-engine.service';
+import { WorkflowTransitionService } from '../../services/workflow-functions/common/workflow-transition.service';
+import { WorkflowFunctionHandlerService } from '../../services/workflow-functions/workflow-function-handler.service';
+import { WorkflowFunctionContext } from '../../services/workflow-functions/workflow-function.interface';
 
 @Component({
   selector: 'app-workflow-step',
   standalone: true,
-  imports: [CommonModule, HttpClientModule, FormsModule, ReactiveFormsModule, RouterLink],
-  providers: [WorkflowService],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, FormlyModule, FormlyBootstrapModule, RouterLink, NotificationBellComponent, StepTimelineComponent],
   templateUrl: './workflow-step.component.html',
   styleUrls: ['./workflow-step.component.css']
 })
-export class WorkflowStepComponent implements OnInit {
+export class WorkflowStepComponent implements OnInit, OnDestroy {
   instanceId: string = '';
   stepId: string = '';
 
   instance: any = null;
+  definition: WorkflowDefinition | null = null;
   stepDefinition: any = null;
   currentData: any = {};
+  access: StepAccess | null = null;
+  instanceSla: SlaBadge | null = null;
+  stepSla: SlaBadge | null = null;
+  fieldLabels: Record<string, string> = {};
+
+  // Formly state
+  form = new FormGroup({});
+  model: Record<string, any> = {};
+  fields: FormlyFieldConfig[] = [];
+  options: FormlyFormOptions = { formState: {} };
 
-  form: FormGroup;
   loading = true;
   submitting = false;
   validating = false;
   error: string | null = null;
   validationErrors: any[] = [];
 
-  // Store uploaded files
-  uploadedFiles: Map<string, File[]> = new Map();
+  // Decisions that need comments (send back, reject)
+  commentDecision: 'send_back' | 'reject' | null = null;
+  decisionComments = '';
+  sendingDecision = false;
+  decisionError: string | null = null;
+
+  private destroy$ = new Subject<void>();
 
   constructor(
     private route: ActivatedRoute,
     private router: Router,
     private workflowService: WorkflowService,
-    private fb: FormBuilder,
+    private permissionService: PermissionService,
+    private authService: AuthService,
+    private slaService: SlaService,
+    private fieldConverter: FieldConverterService,
+    private optionLoader: OptionLoaderService,
+    private workflowHandler: WorkflowFunctionHandlerService,
+    private formStateService: FormStateService,
+    private ruleEngine: ValidationRuleEngineService,
+    private transitions: WorkflowTransitionService,
     private cdr: ChangeDetectorRef,
     @Inject(PLATFORM_ID) private platformId: Object
-  ) {
-    this.form = this.fb.group({});
-  }
+  ) {}
 
   ngOnInit(): void {
     // Only run in browser
@@ -49,7 +84,7 @@ export class WorkflowStepComponent implements OnInit {
     }
 
     // Get instance ID and step ID from route
-    this.route.paramMap.subscribe(params => {
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
       this.instanceId = params.get('instanceId') || '';
       this.stepId = params.get('stepId') || '';
 
@@ -67,6 +102,11 @@ export class WorkflowStepComponent implements OnInit {
     });
   }
 
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
   /**
    * Load the current step definition and data
    */
@@ -80,7 +120,7 @@ export class WorkflowStepComponent implements OnInit {
       console.log('Step ID from route:', this.stepId);
       console.log('API call: getCurrentStep(' + this.instanceId + ')');
 
-      const response = await this.workflowService.getCurrentStep(this.instanceId).toPromise();
+      const response = await this.workflowService.getCurrentStep(this.instanceId, this.stepId).toPromise();
 
       console.log('=== API RESPONSE ===');
       console.log('Full response:', response);
@@ -96,6 +136,14 @@ export class WorkflowStepComponent implements OnInit {
       this.instance = response.instance;
       this.stepDefinition = response.stepDefinition;
       this.currentData = response.currentData || {};
+      this.fieldLabels = Object.fromEntries(
+        (this.stepDefinition.fields || []).map((field: any) => [field.key, field.templateOptions?.label || field.props?.label || field.key])
+      );
+
+      // Resolve what the current role may do on this step
+      this.definition = (await this.permissionService.getDefinition(this.instance.definitionId, this.instance.definitionVersion).toPromise()) ?? null;
+      this.access = this.permissionService.resolveStepAccess(this.definition, this.stepDefinition);
+      this.updateSla();
 
       console.log('=== PARSED DATA ===');
       console.log('Instance:', this.instance);
@@ -104,16 +152,11 @@ export class WorkflowStepComponent implements OnInit {
       console.log('Step Definition ID:', this.stepDefinition?.stepId);
       console.log('Step Definition Fields:', this.stepDefinition?.fields);
       console.log('Current Data:', this.currentData);
+      console.log('Step Access:', this.access);
 
-      // Build form from step definition
+      // Build Formly fields from step definition, pre-populated with existing data
       this.buildForm();
 
-      // Pre-populate form with existing data
-      if (Object.keys(this.currentData).length > 0) {
-        this.form.patchValue(this.currentData);
-        console.log('Form pre-populated with data');
-      }
-
       this.loading = false;
       console.log('=== LOADING COMPLETE ===');
 
@@ -135,30 +178,108 @@ export class WorkflowStepComponent implements OnInit {
   }
 
   /**
-   * Build form dynamically from step definition fields
+   * Work out the SLA badges of the instance and the step
+   */
+  private updateSla(): void {
+    this.instanceSla = this.slaService.getBadge(this.slaService.getInstanceSla(this.instance, this.definition), 'Workflow: ');
+    this.stepSla = this.slaService.getBadge(this.slaService.getStepSla(this.instance, this.stepDefinition, this.definition), 'Step: ');
+  }
+
+  /**
+   * Build Formly fields from the step definition using the shared form pipeline
    */
   private buildForm(): void {
-    const formControls: any = {};
+    this.optionLoader.clearCache();
+
+    this.fields = this.fieldConverter.buildFormlyFields({ fields: this.stepDefinition?.fields || [] });
+    this.addFieldChangeHooks();
+    this.addFileUploaders();
+    if (this.access) {
+      this.permissionService.applyFieldAccess(this.fields, this.access);
+    }
 
-    if (this.stepDefinition?.fields) {
-      this.stepDefinition.fields.forEach((field: any) => {
-        let defaultValue;
+    this.model = { ...this.currentData };
+    this.form = new FormGroup({});
+    this.validationErrors = [];
+    this.options = { formState: this.buildFormState() };
 
-        // Handle different field types
-        if (field.type === 'multicheckbox') {
-          // Multicheckbox should be an array
-          defaultValue = this.currentData[field.key] || [];
-        } else {
-          // All other fields use string/number/etc
-          defaultValue = this.currentData[field.key] || '';
-        }
+    this.optionLoader.loadInitialOptions(this.fields, this.stepDefinition, this.destroy$, this.model);
+    console.log('Form built with fields:', this.fields.map(f => f.key));
+  }
 
-        formControls[field.key] = [defaultValue];
+  /**
+   * Build the formState from the instance and its step history
+   */
+  private buildFormState(): WorkflowFormState {
+    const workflowId = this.instance?.definitionId ?? null;
+    const formState = this.formStateService.buildFormState({
+      workflowId,
+      instance: this.instance,
+      stepId: this.stepDefinition?.stepId,
+      stepIndex: this.instance?.stepHistory?.length ?? 0,
+      previousSteps: this.formStateService.previousStepsFromInstance(this.instance)
+    });
+
+    if (workflowId) {
+      this.workflowHandler.extendFormState(workflowId, formState);
+    }
+
+    return formState;
+  }
+
+  /**
+   * Add hooks for fields with onChanges handlers or dependent fields
+   */
+  private addFieldChangeHooks(): void {
+    (this.stepDefinition?.fields || []).forEach((field: any) => {
+      const formlyField = this.fields.find(f => f.key === field.key);
+      const hasDependents = this.optionLoader.hasDependents(field.key, this.stepDefinition);
+      if (formlyField && (field.hooks?.onChanges || hasDependents)) {
+        formlyField.hooks = this.fieldConverter.createFieldChangeHook(
+          field,
+          this.destroy$,
+          (key, value, hookName) => this.handleFieldChange(key, value, hookName)
+        );
+      }
+    });
+  }
+
+  /**
+   * Upload file fields to the instance upload endpoint instead of the generic file endpoint
+   */
+  private addFileUploaders(): void {
+    this.fields
+      .filter(field => field.type === 'file')
+      .forEach(field => {
+        field.props!['uploadFiles'] = (files: File[]) => this.uploadFiles(field.key as string, files);
       });
+  }
+
+  /**
+   * Handle field value changes
+   */
+  private handleFieldChange(fieldKey: string, value: any, hookName: string): void {
+    // Reset only the fields that declare dependsOn this field and reload their options
+    this.optionLoader.onParentValueChange(fieldKey, this.model, this.fields, this.stepDefinition, this.destroy$);
+
+    if (this.instance?.definitionId) {
+      this.workflowHandler.handleFieldChange(this.instance.definitionId, fieldKey, value, this.model, this.fields);
     }
+  }
 
-    this.form = this.fb.group(formControls);
-    console.log('Form built with controls:', Object.keys(formControls));
+  /**
+   * Handle model changes (called by Formly when model updates)
+   */
+  onModelChange(model: Record<string, any>): void {
+    this.model = model;
+
+    if (this.instance?.definitionId) {
+      const context: WorkflowFunctionContext = {
+        loadedBrands: this.optionLoader.getLoadedBrands(),
+        currentStepIndex: this.instance.stepHistory?.length ?? 0
+      };
+      this.workflowHandler.onModelChange(this.instance.definitionId, this.model, this.fields, context);
+    }
   }
 
   /**
@@ -168,11 +289,37 @@ export class WorkflowStepComponent implements OnInit {
     try {
       this.validating = true;
       this.validationErrors = [];
+      this.form.markAllAsTouched();
 
-      const formData = this.form.value;
+      const formData = this.cleanModel;
+      const workflowId = this.instance?.definitionId;
 
       console.log('Validating form data:', formData);
 
+      // Check the step's validationRules in the browser before asking the server
+      this.validationErrors = this.ruleEngine.validate(this.stepDefinition.validationRules, formData, {
+        workflowId,
+        fields: this.fields,
+        stepFields: this.stepDefinition.fields
+      });
+      this.ruleEngine.applyErrorsToFields(this.validationErrors, this.fields);
+
+      if (workflowId && this.validationErrors.length === 0) {
+        const validation = this.workflowHandler.customValidation(workflowId, formData, this.fields);
+        if (!validation.valid) {
+          this.validationErrors = [{ message: validation.message || 'Validation failed' }];
+        }
+      }
+
+      if (!this.form.valid || this.validationErrors.length > 0) {
+        if (this.validationErrors.length === 0) {
+          this.validationErrors = [{ message: 'Please fill in all required fields correctly.' }];
+        }
+        console.log('Client validation errors:', this.validationErrors);
+        this.validating = false;
+        return false;
+      }
+
       const result = await this.workflowService.validateStep(
         this.instanceId,
         this.stepDefinition.stepId,
@@ -183,6 +330,7 @@ export class WorkflowStepComponent implements OnInit {
 
       if (result && !result.isValid) {
         this.validationErrors = result.errors || [];
+        this.ruleEngine.applyErrorsToFields(this.validationErrors, this.fields);
         console.log('Validation errors:', this.validationErrors);
         this.validating = false;
         return false;
@@ -202,6 +350,10 @@ export class WorkflowStepComponent implements OnInit {
    * Submit the current step
    */
   async onSubmit(): Promise<void> {
+    if (!this.access?.canApprove) {
+      return;
+    }
+
     try {
       // Validate first
       const isValid = await this.validateForm();
@@ -212,22 +364,24 @@ export class WorkflowStepComponent implements OnInit {
       this.submitting = true;
       this.error = null;
 
-      // Upload files first if there are any
-      try {
-        await this.uploadFiles();
-      } catch (uploadError: any) {
-        this.error = uploadError.message || 'Failed to upload files';
-        this.submitting = false;
-        return;
+      // Files are uploaded by the file fields as soon as they are selected
+      let formData = this.cleanModel;
+      if (this.instance?.definitionId) {
+        formData = this.workflowHandler.beforeSubmit(
+          this.instance.definitionId,
+          formData,
+          this.instance.stepHistory?.length ?? 0
+        );
       }
 
-      const submission = {
+      const submission: WorkflowSubmission = {
         certificationId: this.instance.definitionId,
         stepId: this.stepDefinition.stepId,
-        formData: this.form.value,
+        formData,
         submittedBy: this.getCurrentUserEmail(),
         decision: 'approve',
-        comments: ''
+        comments: '',
+        nextStep: this.resolveNextStep(formData)
       };
 
       console.log('Submitting step:', submission);
@@ -240,15 +394,17 @@ export class WorkflowStepComponent implements OnInit {
       if (updatedInstance) {
         console.log('Step submitted successfully:', updatedInstance);
 
-        // Check if workflow is completed
-        if (updatedInstance.status === 'completed') {
-          this.router.navigate(['/workflow', this.instanceId, 'completed']);
-        } else {
-          // Navigate to next step
-          this.router.navigate(['/workflow', this.instanceId, 'step', updatedInstance.currentStep]);
+        if (this.instance?.definitionId) {
+          this.workflowHandler.afterSubmit(this.instance.definitionId, updatedInstance, formData);
+        }
 
-          // Reload the page to show next step
-          window.location.reload();
+        // Finished, or waiting on a system action: the summary page follows the processing
+        if (['completed', 'rejected', 'processing', 'action_failed'].includes(updatedInstance.status)) {
+          this.router.navigate(['/workflow-step', this.instanceId, 'completed']);
+        } else {
+          // The step route reloads on param changes; the guard sends roles that may not view the next step home
+          const nextStep = this.workflowService.getOpenStep(updatedInstance, this.permissionService.getCurrentRole());
+          this.router.navigate(['/workflow-step', this.instanceId, 'step', nextStep]);
         }
       }
 
@@ -261,149 +417,207 @@ export class WorkflowStepComponent implements OnInit {
   }
 
   /**
-   * Go back to previous step (if allowed)
+   * Whether the current step can be sent back
+   * Requires stepConfig.canSendBack with a target, and the current role must be allowed to send back
    */
-  goBack(): void {
-    // TODO: Implement send back functionality
-    console.log('Send back not implemented yet');
+  get canSendBack(): boolean {
+    const config = this.stepDefinition?.stepConfig;
+    return !!(config?.canSendBack && config.sendBackTarget && this.access?.canSendBack);
   }
 
   /**
-   * Cancel workflow
+   * Earlier send-backs of this instance, most recent first
    */
-  cancel(): void {
-    if (confirm('Are you sure you want to cancel this workflow?')) {
-      // Navigate back to categories
-      this.router.navigate(['/']);
-    }
+  get sendBackHistory(): StepHistoryEntry[] {
+    return (this.instance?.stepHistory || [])
+      .filter((entry: StepHistoryEntry) => entry.decision === 'send_back')
+      .reverse();
   }
 
   /**
-   * Get current user email
+   * Branches of the parallel step the instance is at, if any
    */
-  private getCurrentUserEmail(): string {
-    // TODO: Get from auth service
-    return 'user@example.com';
+  get parallelBranches(): ActiveStep[] {
+    return this.instance?.activeSteps || [];
   }
 
   /**
-   * Get error message for a specific field
+   * Completed branches the parallel step waits for before the workflow continues
    */
-  getFieldError(fieldKey: string): string | null {
-    const error = this.validationErrors.find(e => e.field === fieldKey);
-    return error ? error.message : null;
+  get parallelQuorum(): number {
+    const parallelStep = (this.definition?.steps || []).find((step: any) => step.stepId === this.instance?.currentStep);
+    const branchCount = this.parallelBranches.length;
+    return parallelStep?.quorum > 0 ? Math.min(parallelStep.quorum, branchCount) : branchCount;
+  }
+
+  getBranchBadge(branch: ActiveStep): { label: string; cssClass: string } {
+    switch (branch.status) {
+      case 'in_progress': return { label: 'In progress', cssClass: 'bg-primary' };
+      case 'completed': return { label: 'Completed', cssClass: 'bg-success' };
+      case 'cancelled': return { label: 'Not needed', cssClass: 'bg-secondary' };
+      default: return { label: 'Waiting', cssClass: 'bg-light text-dark' };
+    }
   }
 
   /**
-   * Check if field has error
+   * Open the send back panel
    */
-  hasFieldError(fieldKey: string): boolean {
-    return this.validationErrors.some(e => e.field === fieldKey);
+  goBack(): void {
+    this.commentDecision = 'send_back';
+    this.decisionError = null;
   }
 
   /**
-   * Handle checkbox change for multicheckbox fields
+   * Open the reject panel
    */
-  onCheckboxChange(fieldKey: string, optionValue: string, event: any): void {
-    const isChecked = event.target.checked;
-    const currentValue = this.form.get(fieldKey)?.value || [];
-
-    let newValue: string[];
-    if (isChecked) {
-      // Add value if checked
-      newValue = [...currentValue, optionValue];
-    } else {
-      // Remove value if unchecked
-      newValue = currentValue.filter((v: string) => v !== optionValue);
-    }
+  reject(): void {
+    this.commentDecision = 'reject';
+    this.decisionError = null;
+  }
 
-    this.form.patchValue({ [fieldKey]: newValue });
-    console.log(`Checkbox ${fieldKey} updated:`, newValue);
+  /**
+   * Close the decision panel without sending
+   */
+  cancelDecision(): void {
+    this.commentDecision = null;
+    this.decisionComments = '';
+    this.decisionError = null;
   }
 
   /**
-   * Handle file upload
+   * Send back or reject the step; comments are mandatory
    */
-  onFileChange(fieldKey: string, event: any): void {
-    const files = event.target.files;
-    if (files && files.length > 0) {
-      const fileArray: File[] = Array.from(files);
-      this.uploadedFiles.set(fieldKey, fileArray);
+  async confirmDecision(): Promise<void> {
+    const decision = this.commentDecision;
+    const comments = this.decisionComments.trim();
+    if (!decision) return;
+    if (!comments) {
+      this.decisionError = decision === 'send_back'
+        ? 'Please explain why this step is being sent back.'
+        : 'Please explain why this application is being rejected.';
+      return;
+    }
+
+    try {
+      this.sendingDecision = true;
+      this.decisionError = null;
 
-      // Store file names in form for validation
-      const fileNames = fileArray.map(f => f.name).join(', ');
-      this.form.patchValue({ [fieldKey]: fileNames });
+      const request = {
+        certificationId: this.instance.definitionId,
+        stepId: this.stepDefinition.stepId,
+        comments,
+        submittedBy: this.getCurrentUserEmail()
+      };
+
+      console.log(`Submitting ${decision} for step:`, this.stepDefinition.stepId);
+
+      const updatedInstance = await (decision === 'send_back'
+        ? this.workflowService.sendBackStep(this.instanceId, request)
+        : this.workflowService.rejectStep(this.instanceId, request)
+      ).toPromise();
 
-      console.log(`Files selected for ${fieldKey}:`, fileArray.map(f => f.name));
+      this.sendingDecision = false;
+      if (updatedInstance) {
+        console.log(`Step ${decision} done, instance now:`, updatedInstance.status, updatedInstance.currentStep);
+        this.cancelDecision();
+        if (decision === 'send_back') {
+          this.router.navigate(['/workflow-step', this.instanceId, 'step', updatedInstance.currentStep]);
+        } else {
+          this.router.navigate(['/']);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Error submitting ${decision}:`, error);
+      this.decisionError = error.error?.message || 'Failed to submit decision';
+      this.sendingDecision = false;
     }
   }
 
   /**
-   * Get selected file name for display
+   * Cancel workflow
    */
-  getSelectedFileName(fieldKey: string): string | null {
-    const files = this.uploadedFiles.get(fieldKey);
-    if (files && files.length > 0) {
-      return files.map(f => f.name).join(', ');
+  cancel(): void {
+    if (confirm('Are you sure you want to cancel this workflow?')) {
+      // Navigate back to categories
+      this.router.navigate(['/']);
     }
-    return null;
   }
 
   /**
-   * Upload files for a specific field
+   * Branch chosen by the step's conditional transitions, or undefined to let the backend follow nextStep
    */
-  async uploadFiles(): Promise<void> {
-    if (this.uploadedFiles.size === 0) {
-      console.log('No files to upload');
-      return;
+  private resolveNextStep(formData: Record<string, any>): string | undefined {
+    const stepRef = this.transitions.findStepRef(this.definition, this.stepDefinition.stepId);
+    if (this.transitions.getTransitions(stepRef).length === 0) {
+      return undefined;
     }
 
-    try {
-      console.log('Uploading files...');
-      console.log('Files to upload:', Array.from(this.uploadedFiles.entries()).map(([k, v]) => `${k}: ${v.length} file(s)`));
-
-      for (const [fieldKey, files] of this.uploadedFiles.entries()) {
-        const formData = new FormData();
-
-        // Add files - use fieldKey as the form field name
-        // Backend uses file.Name (form field name) to identify which field the file belongs to
-        files.forEach((file, index) => {
-          console.log(`Adding file to FormData: ${file.name} (${file.size} bytes, type: ${file.type})`);
-          // Use fieldKey as the form field name so backend can identify it
-          formData.append(fieldKey, file, file.name);
-        });
-
-        // Log FormData contents
-        console.log('FormData entries:');
-        for (let pair of (formData as any).entries()) {
-          console.log(`  ${pair[0]}:`, pair[1]);
-        }
+    const data = { ...this.instance.currentData, ...formData };
+    return this.transitions.resolveNextStep(stepRef, this.stepDefinition, data, { formState: this.options.formState }) ?? undefined;
+  }
 
-        console.log(`Uploading ${files.length} file(s) for field ${fieldKey}`);
-        console.log(`Upload URL: /api/Workflow/instances/${this.instanceId}/steps/${this.stepDefinition.stepId}/upload`);
+  /**
+   * Get the signed-in user's email
+   */
+  private getCurrentUserEmail(): string {
+    return this.authService.currentUser()?.email ?? '';
+  }
 
-        const uploadedBy = this.getCurrentUserEmail();
-        const result = await this.workflowService.uploadFiles(
-          this.instanceId,
-          this.stepDefinition.stepId,
-          uploadedBy,
-          formData
-        ).toPromise();
+  /**
+   * Get error message for a specific field
+   */
+  getFieldError(fieldKey: string): string | null {
+    const error = this.validationErrors.find(e => e.field === fieldKey);
+    return error ? error.message : null;
+  }
 
-        console.log(`Files uploaded successfully for ${fieldKey}:`, result);
+  /**
+   * Check if field has error
+   */
+  hasFieldError(fieldKey: string): boolean {
+    return this.validationErrors.some(e => e.field === fieldKey);
+  }
 
-        // Update form data with file metadata
-        if (result && result.uploadedFiles && result.uploadedFiles[fieldKey]) {
-          const fileMetadata = result.uploadedFiles[fieldKey];
-          this.form.patchValue({ [fieldKey]: fileMetadata });
-        }
+  /**
+   * Get clean model (remove null, undefined, empty values)
+   */
+  get cleanModel(): Record<string, any> {
+    const clean: Record<string, any> = {};
+    for (const key in this.model) {
+      const value = this.model[key];
+      if (value !== null && value !== undefined && value !== '') {
+        clean[key] = value;
       }
-
-      console.log('All files uploaded successfully');
-    } catch (error: any) {
-      console.error('Error uploading files:', error);
-      console.error('Error details:', error.error);
-      throw new Error(error.error?.message || 'Failed to upload files. Please try again.');
     }
+    return clean;
+  }
+
+  /**
+   * Upload files for a field to the instance's step
+   * Backend uses the form field name (fieldKey) to identify which field the files belong to
+   */
+  private uploadFiles(fieldKey: string, files: File[]): Observable<FileUploadResponse[]> {
+    const formData = new FormData();
+    files.forEach(file => formData.append(fieldKey, file, file.name));
+
+    console.log(`Uploading ${files.length} file(s) for field ${fieldKey}`);
+
+    return this.workflowService.uploadFiles(
+      this.instanceId,
+      this.stepDefinition.stepId,
+      this.getCurrentUserEmail(),
+      formData
+    ).pipe(
+      map(result => {
+        console.log(`Files uploaded successfully for ${fieldKey}:`, result);
+        const uploaded = result?.uploadedFiles?.[fieldKey];
+        const metadata: any[] = Array.isArray(uploaded) ? uploaded : uploaded ? [uploaded] : [];
+        return metadata.map(file => ({
+          id: file.storedFileName,
+          fileName: file.originalFileName,
+          fileSize: file.fileSizeBytes
+        }));
+      })
+    );
   }
 }
@@ -0,0 +1,20 @@
+import { PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Sends signed-out users to the login page, returning them here afterwards
+ */
+export const authGuard: CanActivateFn = (_route, state) => {
+  // Sessions live in browser storage, so the server renders the shell and lets the browser decide
+  if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+    return true;
+  }
+
+  if (inject(AuthService).isAuthenticated()) {
+    return true;
+  }
+
+  return inject(Router).createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+};
@@ -0,0 +1,29 @@
+import { PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Role of the users that may design workflows and migrate instances
+ */
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Lets only users with one of the given roles through; use after `authGuard`, which handles signed-out users
+ */
+export function roleGuard(...roles: string[]): CanActivateFn {
+  return () => {
+    // Sessions live in browser storage, so the server renders the shell and lets the browser decide
+    if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+      return true;
+    }
+
+    const role = inject(AuthService).currentUser()?.role;
+    if (role && roles.includes(role)) {
+      return true;
+    }
+
+    console.warn(`Role ${role ?? '(none)'} may not open this page`);
+    return inject(Router).createUrlTree(['/']);
+  };
+}
@@ -0,0 +1,43 @@
+import { PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CanActivateFn, Router } from '@angular/router';
+import { of } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { WorkflowService } from '../services/workflow.service';
+import { PermissionService } from '../services/permission.service';
+
+/**
+ * Blocks the workflow step page for roles that may not view the instance's current step (or the parallel branch in the URL)
+ * Users without a role and steps that cannot be loaded are sent back to the start page.
+ */
+export const workflowStepGuard: CanActivateFn = (route) => {
+  // The API is only called from the browser
+  if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+    return true;
+  }
+
+  const workflowService = inject(WorkflowService);
+  const permissionService = inject(PermissionService);
+  const router = inject(Router);
+
+  const instanceId = route.paramMap.get('instanceId');
+  if (!instanceId || !permissionService.getCurrentRole()) {
+    return router.createUrlTree(['/']);
+  }
+
+  return workflowService.getCurrentStep(instanceId, route.paramMap.get('stepId')).pipe(
+    switchMap(({ instance, stepDefinition }) => permissionService.getDefinition(instance.definitionId, instance.definitionVersion).pipe(
+      map(definition => permissionService.resolveStepAccess(definition, stepDefinition))
+    )),
+    map(access => {
+      if (access.canView) return true;
+
+      console.warn(`Role ${access.role} is not allowed on the current step of instance ${instanceId}`);
+      return router.createUrlTree(['/']);
+    }),
+    catchError(error => {
+      console.error(`Failed to check access to instance ${instanceId}:`, error);
+      return of(router.createUrlTree(['/']));
+    })
+  );
+};
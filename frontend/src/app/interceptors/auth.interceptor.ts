@@ -0,0 +1,55 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Attaches the bearer token to API requests
+ * Refreshes an expired token before sending, and once more when the API answers 401.
+ */
+@Injectable()
+export class AuthInterceptor implements HttpInterceptor {
+  private authService = inject(AuthService);
+  private router = inject(Router);
+
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!req.url.startsWith('/api/') || !this.authService.getAccessToken()) {
+      return next.handle(req);
+    }
+
+    const token$ = this.authService.isAccessTokenExpired()
+      ? this.authService.refreshAccessToken()
+      : of(this.authService.getAccessToken());
+
+    return token$.pipe(
+      switchMap(token => next.handle(this.withToken(req, token))),
+      catchError(error => {
+        if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+          return throwError(() => error);
+        }
+
+        return this.authService.refreshAccessToken().pipe(
+          switchMap(token => {
+            if (!token) {
+              this.redirectToLogin();
+              return throwError(() => error);
+            }
+            return next.handle(this.withToken(req, token));
+          })
+        );
+      })
+    );
+  }
+
+  private withToken(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+    return token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+  }
+
+  private redirectToLogin(): void {
+    if (!this.router.url.startsWith('/login')) {
+      this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+    }
+  }
+}
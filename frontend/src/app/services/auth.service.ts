@@ -0,0 +1,163 @@
+import { Injectable, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap } from 'rxjs/operators';
+
+export interface AuthUser {
+  email: string;
+  displayName: string;
+  role: string;
+}
+
+export interface AuthTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: AuthUser;
+}
+
+interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  user: AuthUser;
+}
+
+/**
+ * Sign-in state, token storage and token refresh
+ * Tokens are kept in localStorage in the browser; during SSR nobody is signed in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  // Auth calls bypass the interceptors so they are never retried or given a stale token
+  private http = new HttpClient(inject(HttpBackend));
+  private platformId = inject(PLATFORM_ID);
+  private apiUrl = '/api/Auth';
+  private storageKey = 'auth.session';
+
+  private session: AuthSession | null = null;
+  private refreshInFlight$: Observable<string | null> | null = null;
+
+  readonly currentUser = signal<AuthUser | null>(null);
+  readonly isAuthenticated = computed(() => this.currentUser() !== null);
+
+  constructor() {
+    this.setSession(this.readSession());
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  login(email: string, password: string): Observable<AuthUser> {
+    return this.http.post<AuthTokenResponse>(`${this.apiUrl}/login`, { email, password }).pipe(
+      tap(response => this.storeTokens(response)),
+      map(response => response.user)
+    );
+  }
+
+  /**
+   * Sign out locally and revoke the tokens on the server
+   */
+  logout(): void {
+    const accessToken = this.session?.accessToken;
+    this.clearSession();
+
+    if (accessToken) {
+      this.http.post(`${this.apiUrl}/logout`, {}, { headers: { Authorization: `Bearer ${accessToken}` } })
+        .pipe(catchError(() => of(null)))
+        .subscribe();
+    }
+  }
+
+  /**
+   * Get the demo users of the development sign-in
+   */
+  getDevUsers(): Observable<AuthUser[]> {
+    return this.http.get<AuthUser[]>(`${this.apiUrl}/users`);
+  }
+
+  /**
+   * Get the current access token, if any
+   */
+  getAccessToken(): string | null {
+    return this.session?.accessToken ?? null;
+  }
+
+  /**
+   * Whether the access token has expired or is about to (30s margin)
+   */
+  isAccessTokenExpired(): boolean {
+    return !!this.session && this.session.expiresAt - 30_000 <= Date.now();
+  }
+
+  /**
+   * Exchange the refresh token for new tokens
+   * Concurrent callers share one request; emits null and signs out if the refresh fails.
+   */
+  refreshAccessToken(): Observable<string | null> {
+    const refreshToken = this.session?.refreshToken;
+    if (!refreshToken) {
+      return of(null);
+    }
+
+    if (!this.refreshInFlight$) {
+      this.refreshInFlight$ = this.http.post<AuthTokenResponse>(`${this.apiUrl}/refresh`, { refreshToken }).pipe(
+        tap(response => this.storeTokens(response)),
+        map(response => response.accessToken),
+        catchError(error => {
+          console.warn('Token refresh failed, signing out:', error?.status);
+          this.clearSession();
+          return of(null);
+        }),
+        finalize(() => (this.refreshInFlight$ = null)),
+        shareReplay(1)
+      );
+    }
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Drop the session, e.g. when the server no longer accepts it
+   */
+  clearSession(): void {
+    this.setSession(null);
+    if (isPlatformBrowser(this.platformId)) {
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  private storeTokens(response: AuthTokenResponse): void {
+    const session: AuthSession = {
+      accessToken: response.accessToken,
+      refreshToken: response.refreshToken,
+      expiresAt: Date.now() + response.expiresIn * 1000,
+      user: response.user
+    };
+
+    this.setSession(session);
+    if (isPlatformBrowser(this.platformId)) {
+      localStorage.setItem(this.storageKey, JSON.stringify(session));
+    }
+  }
+
+  private setSession(session: AuthSession | null): void {
+    this.session = session;
+    this.currentUser.set(session?.user ?? null);
+  }
+
+  private readSession(): AuthSession | null {
+    if (!isPlatformBrowser(this.platformId)) {
+      return null;
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { WorkflowInstance } from './workflow.service';
+
+export interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+/**
+ * Public status of a certificate, as shown on the /verify page
+ */
+export interface CertificateVerification {
+  certificateNumber: string;
+  status: 'valid' | 'expired' | 'revoked';
+  issuedAt: string;
+  validUntil: string | null;
+  certificationType: LocalizedText;
+  holder: string;
+  brand: LocalizedText | null;
+  product: LocalizedText | null;
+}
+
+/**
+ * Certificate documents and public verification, served by the Node server (see src/server/certificates)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CertificateService {
+  private http = inject(HttpClient);
+  private apiUrl = '/certificate-api';
+
+  /**
+   * Render the certificate PDF of a completed instance; returns the instance with the PDF in its documents
+   */
+  generateCertificatePdf(instanceId: string): Observable<WorkflowInstance> {
+    return this.http.post<WorkflowInstance>(`${this.apiUrl}/instances/${instanceId}/certificate`, {});
+  }
+
+  /**
+   * Look up a certificate by number; needs no sign-in
+   */
+  verifyCertificate(certificateNumber: string): Observable<CertificateVerification> {
+    return this.http.get<CertificateVerification>(`${this.apiUrl}/verify/${encodeURIComponent(certificateNumber)}`);
+  }
+}
@@ -1,47 +1,13 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, map, shareReplay, of, catchError, forkJoin } from 'rxjs';
+import { Observable, map, shareReplay, of, catchError, forkJoin, switchMap, throwError } from 'rxjs';
+import { FormConfig, FormFieldOption, StepDefinition, WorkflowBundle, WorkflowDefinitionConfig, WorkflowVersion } from './workflow-definition.interface';
+
+export type { FormField, FormConfig, FormFieldOption } from './workflow-definition.interface';
 
 /* =========================================================
  * SHARED INTERFACES
  * ========================================================= */
-export interface FormFieldOption {
-  label: string;
-  value: string;
-}
-
-export interface FormField {
-  key: string;
-  type:
-    | 'input'
-    | 'select'
-    | 'textarea'
-    | 'radio'
-    | 'checkbox'
-    | 'multicheckbox'
-    | 'file'
-    | 'repeat'
-    | 'table';
-  templateOptions: Record<string, any>;
-  hooks?: Record<string, string>;
-  validation?: { messages?: Record<string, string> };
-  validators?: { validation?: string[] };
-  expressionProperties?: Record<string, string>;
-  hideExpression?: string;
-  fieldArray?: any;
-  fieldGroup?: FormField[];
-}
-
-export interface FormConfig {
-  certificationId?: string;
-  stepId?: string;
-  title?: string;
-  name?: string;
-  fields: FormField[];
-  stepConfig?: Record<string, any>;
-  hooks?: Record<string, string | string[]>;
-}
-
 export interface FormData {
   categories: FormFieldOption[];
   products: Record<string, FormFieldOption[]>;
@@ -76,6 +42,7 @@ export interface Classification {
 export class FormConfigService {
   private http = inject(HttpClient);
   private formData$: Observable<FormData> | null = null;
+  private versions = new Map<string, Observable<WorkflowVersion>>();
 
   /* =========================================================
    * FORM CONFIG LOADERS
@@ -84,14 +51,85 @@ export class FormConfigService {
     return this.http.get<FormConfig>(`assets/forms/${formId}.json`);
   }
 
-  loadWorkflowDefinition(workflowId: string): Observable<any> {
-    return this.http.get<any>(
+  /**
+   * Load a workflow definition, as published under `version` for instances pinned to one
+   */
+  loadWorkflowDefinition(workflowId: string, version?: string | null): Observable<WorkflowDefinitionConfig> {
+    if (version) {
+      return this.loadWorkflowVersion(workflowId, version).pipe(map(published => published.definition));
+    }
+
+    return this.http.get<WorkflowDefinitionConfig>(
       `assets/forms/workflows/Definitions/${workflowId}.json`
     );
   }
 
-  loadStepDefinition(stepRef: string): Observable<FormConfig> {
-    return this.http.get<FormConfig>(`assets/forms/${stepRef}.json`);
+  /**
+   * Load a step file, as published with the workflow version an instance is pinned to
+   */
+  loadStepDefinition(stepRef: string, pinned?: { workflowId: string; version?: string | null }): Observable<StepDefinition> {
+    if (pinned?.version) {
+      const { workflowId, version } = pinned;
+      return this.loadWorkflowVersion(workflowId, version).pipe(
+        map(published => {
+          const step = published.steps[stepRef];
+          if (!step) {
+            throw new Error(`Step ${stepRef} is not part of ${workflowId} version ${version}`);
+          }
+          return step;
+        })
+      );
+    }
+
+    return this.http.get<StepDefinition>(`assets/forms/${stepRef}.json`);
+  }
+
+  /**
+   * Load a published version of a workflow from the backend: the definition and step files
+   * its pinned instances run on. Published versions never change, so each is fetched once.
+   */
+  loadWorkflowVersion(workflowId: string, version: string): Observable<WorkflowVersion> {
+    const key = `${workflowId}@${version}`;
+    if (!this.versions.has(key)) {
+      this.versions.set(key, this.http.get<WorkflowVersion>(
+        `/api/Workflow/definitions/${workflowId}/versions/${encodeURIComponent(version)}`
+      ).pipe(
+        catchError(err => {
+          this.versions.delete(key);
+          return throwError(() => err);
+        }),
+        shareReplay(1)
+      ));
+    }
+    return this.versions.get(key)!;
+  }
+
+  /**
+   * Load a workflow definition together with every step file it references
+   * Missing step files come back as null rather than failing the whole load
+   * With a version, the bundle comes from the published version instead of the live files
+   */
+  loadWorkflowBundle(workflowId: string, version?: string | null): Observable<WorkflowBundle> {
+    if (version) {
+      return this.loadWorkflowVersion(workflowId, version);
+    }
+
+    return this.loadWorkflowDefinition(workflowId).pipe(
+      switchMap(definition => {
+        const stepRefs = [...new Set((definition.steps || [])
+          .map(step => step.stepRef)
+          .filter((stepRef): stepRef is string => !!stepRef))];
+
+        if (stepRefs.length === 0) {
+          return of({ definition, steps: {} });
+        }
+
+        return forkJoin(Object.fromEntries(stepRefs.map(stepRef => [
+          stepRef,
+          this.loadStepDefinition(stepRef).pipe(catchError(() => of(null)))
+        ]))).pipe(map(steps => ({ definition, steps })));
+      })
+    );
   }
 
   private loadFormData(): Observable<FormData> {
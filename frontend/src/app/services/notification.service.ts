@@ -0,0 +1,106 @@
+import { Injectable, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { AuthService } from './auth.service';
+
+/**
+ * In-app notification routed to the signed-in user
+ */
+export interface AppNotification {
+  id: string;
+  eventType: 'step_completed' | 'sent_back' | 'rejected' | 'workflow_completed' | 'sla_escalation' | string;
+  instanceId?: string | null;
+  definitionId?: string | null;
+  stepId?: string | null;
+  title: string;
+  message: string;
+  recipientEmail: string;
+  recipient: string;
+  createdAt: string;
+  readAt?: string | null;
+}
+
+/**
+ * Notification centre of the signed-in user
+ * The backend routes workflow events, SLA escalations included, to recipients; this service polls for them while a bell is shown.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+  private platformId = inject(PLATFORM_ID);
+  private apiUrl = '/api/Notifications';
+  private pollIntervalMs = 30_000;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = 0;
+
+  readonly notifications = signal<AppNotification[]>([]);
+  readonly unreadCount = computed(() => this.notifications().filter(n => !n.readAt).length);
+
+  /**
+   * Start polling; every caller must call stopPolling when done
+   */
+  startPolling(): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+
+    this.listeners++;
+    if (!this.timer) {
+      this.refresh();
+      this.timer = setInterval(() => this.refresh(), this.pollIntervalMs);
+    }
+  }
+
+  stopPolling(): void {
+    this.listeners = Math.max(0, this.listeners - 1);
+    if (this.listeners === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reload the signed-in user's notifications
+   */
+  refresh(): void {
+    if (!this.authService.isAuthenticated()) {
+      this.notifications.set([]);
+      return;
+    }
+
+    this.http.get<AppNotification[]>(this.apiUrl).subscribe({
+      next: notifications => this.notifications.set(notifications),
+      error: err => console.warn('Failed to load notifications:', err?.status)
+    });
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  markRead(notification: AppNotification): void {
+    if (notification.readAt) return;
+
+    this.setReadAt(n => n.id === notification.id);
+    this.http.post<void>(`${this.apiUrl}/${notification.id}/read`, {}).subscribe({
+      error: err => console.warn('Failed to mark notification as read:', err?.status)
+    });
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  markAllRead(): void {
+    this.setReadAt(() => true);
+    this.http.post<void>(`${this.apiUrl}/read-all`, {}).subscribe({
+      error: err => console.warn('Failed to mark notifications as read:', err?.status)
+    });
+  }
+
+  private setReadAt(matches: (notification: AppNotification) => boolean): void {
+    const readAt = new Date().toISOString();
+    this.notifications.update(list => list.map(n => (!n.readAt && matches(n) ? { ...n, readAt } : n)));
+  }
+
+}
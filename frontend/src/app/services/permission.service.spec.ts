@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { of, throwError } from 'rxjs';
+import { PermissionService } from './permission.service';
+import { WorkflowDefinition, WorkflowService } from './workflow.service';
+import { AuthService } from './auth.service';
+import { FormConfigService } from './form-config.service';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  let currentUser: WritableSignal<{ role: string } | null>;
+  let getWorkflowDefinition: ReturnType<typeof vi.fn>;
+
+  const definition = {
+    certificationId: 'CT401',
+    permissions: {
+      quality_reviewer: { canEditSteps: ['review'], canReject: true, canSendBack: false },
+      manager: { canReassign: true }
+    }
+  } as unknown as WorkflowDefinition;
+
+  const step = {
+    stepId: 'review',
+    actor: 'inspector',
+    fields: [{ key: 'findings' }, { key: 'score' }, { key: 'internalNotes' }],
+    permissions: {
+      inspector: { canEdit: ['findings', 'score'], canReject: true },
+      customer: { canView: ['findings'] }
+    }
+  };
+
+  beforeEach(() => {
+    currentUser = signal<{ role: string } | null>({ role: 'inspector' });
+    getWorkflowDefinition = vi.fn(() => of(definition));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { currentUser } },
+        { provide: WorkflowService, useValue: { getWorkflowDefinition } },
+        { provide: FormConfigService, useValue: { loadWorkflowDefinition: () => of(definition) } }
+      ]
+    });
+    service = TestBed.inject(PermissionService);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('resolveStepAccess', () => {
+    it('should let the step actor edit and decide', () => {
+      const access = service.resolveStepAccess(definition, step);
+
+      expect(access).toEqual({
+        role: 'inspector',
+        canView: true,
+        canEdit: true,
+        canApprove: true,
+        canReject: true,
+        canSendBack: true,
+        canReassign: false,
+        fields: { findings: 'edit', score: 'edit', internalNotes: 'edit' }
+      });
+    });
+
+    it('should let roles listed in canEditSteps edit, within the definition denials', () => {
+      const access = service.resolveStepAccess(definition, step, 'quality_reviewer');
+
+      expect(access.canEdit).toBe(true);
+      expect(access.canReject).toBe(true);
+      expect(access.canSendBack).toBe(false);
+      expect(access.canApprove).toBe(true);
+    });
+
+    it('should give other roles only the fields they may view', () => {
+      const access = service.resolveStepAccess(definition, step, 'customer');
+
+      expect(access.canEdit).toBe(false);
+      expect(access.canView).toBe(true);
+      expect(access.canApprove).toBe(false);
+      expect(access.fields).toEqual({ findings: 'view', score: 'hidden', internalNotes: 'hidden' });
+    });
+
+    it('should only grant reassign from the definition', () => {
+      const access = service.resolveStepAccess(definition, step, 'manager');
+
+      expect(access.canView).toBe(false);
+      expect(access.canReassign).toBe(true);
+    });
+
+    it('should deny everything without a signed-in role', () => {
+      currentUser.set(null);
+
+      const access = service.resolveStepAccess(definition, step);
+
+      expect(access).toEqual({
+        role: null,
+        canView: false,
+        canEdit: false,
+        canApprove: false,
+        canReject: false,
+        canSendBack: false,
+        canReassign: false,
+        fields: { findings: 'hidden', score: 'hidden', internalNotes: 'hidden' }
+      });
+    });
+  });
+
+  it('should apply field access to Formly fields', () => {
+    const fields: FormlyFieldConfig[] = [
+      { key: 'findings', expressions: { 'props.disabled': 'model.locked' }, props: { label: 'Findings' } },
+      { key: 'score', expressions: { hide: 'model.hidden' } },
+      { key: 'internalNotes' }
+    ];
+
+    service.applyFieldAccess(fields, {
+      ...service.resolveStepAccess(definition, step, 'customer'),
+      fields: { findings: 'view', score: 'hidden', internalNotes: 'edit' }
+    });
+
+    expect(fields[0].props).toEqual({ label: 'Findings', readonly: true, disabled: true });
+    expect(fields[0].expressions).toEqual({});
+    expect(fields[1].hide).toBe(true);
+    expect(fields[1].expressions).toEqual({});
+    expect(fields[2]).toEqual({ key: 'internalNotes' });
+  });
+
+  describe('getDefinition', () => {
+    it('should load each definition once', () => {
+      service.getDefinition('CT401').subscribe();
+      service.getDefinition('CT401').subscribe();
+
+      expect(getWorkflowDefinition).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null and retry later when loading fails', () => {
+      getWorkflowDefinition.mockReturnValueOnce(throwError(() => new Error('offline')));
+
+      let result: WorkflowDefinition | null | undefined;
+      service.getDefinition('CT401').subscribe(value => result = value);
+      expect(result).toBeNull();
+
+      service.getDefinition('CT401').subscribe(value => result = value);
+      expect(result).toBe(definition);
+      expect(getWorkflowDefinition).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { Injectable, inject } from '@angular/core';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { Observable, of } from 'rxjs';
+import { catchError, shareReplay } from 'rxjs/operators';
+import { WorkflowDefinition, WorkflowService } from './workflow.service';
+import { AuthService } from './auth.service';
+import { FormConfigService } from './form-config.service';
+
+/**
+ * Per-role permissions from a workflow definition's `permissions` block
+ */
+export interface WorkflowRolePermissions {
+  canStartWorkflow?: boolean;
+  canEditSteps?: string[];
+  canSendBack?: boolean;
+  canCancel?: boolean;
+  canRequestInfo?: boolean;
+  canApprove?: boolean;
+  canReject?: boolean;
+  canReassign?: boolean;
+}
+
+/**
+ * Per-role permissions from a step definition's `permissions` block
+ */
+export interface StepRolePermissions {
+  canEdit?: string[];
+  canView?: string[];
+  canSendBack?: boolean;
+  canApprove?: boolean;
+  canReject?: boolean;
+  canOverride?: boolean;
+}
+
+export type FieldAccess = 'edit' | 'view' | 'hidden';
+
+/**
+ * What the current role may do on a step
+ */
+export interface StepAccess {
+  role: string | null;
+  canView: boolean;
+  canEdit: boolean;
+  canApprove: boolean;
+  canReject: boolean;
+  canSendBack: boolean;
+  canReassign: boolean;
+  fields: Record<string, FieldAccess>;
+}
+
+/**
+ * Resolves role-based permissions from definition and step `permissions` blocks
+ *
+ * A role can edit a step when it is the step's actor or the definition lists the step in its `canEditSteps`.
+ * Field lists in the step narrow that down: `canEdit` fields are editable, `canView` fields are read-only
+ * and unlisted fields are hidden from roles that cannot edit the step.
+ * Without a signed-in role nothing is allowed; the backend checks the same rules against the bearer token.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  private workflowService = inject(WorkflowService);
+  private authService = inject(AuthService);
+  private formConfigService = inject(FormConfigService);
+  private definitions = new Map<string, Observable<WorkflowDefinition | null>>();
+
+  /**
+   * Get the signed-in user's role
+   */
+  getCurrentRole(): string | null {
+    return this.authService.currentUser()?.role ?? null;
+  }
+
+  /**
+   * Get a workflow definition, cached per certification ID and version; null if it cannot be loaded
+   * @param version - Published version an instance is pinned to; the live definition when omitted
+   */
+  getDefinition(certificationId: string, version?: string | null): Observable<WorkflowDefinition | null> {
+    const key = version ? `${certificationId}@${version}` : certificationId;
+    if (!this.definitions.has(key)) {
+      const definition$: Observable<WorkflowDefinition> = version
+        ? this.formConfigService.loadWorkflowDefinition(certificationId, version) as Observable<WorkflowDefinition>
+        : this.workflowService.getWorkflowDefinition(certificationId);
+
+      this.definitions.set(key, definition$.pipe(
+        catchError(error => {
+          console.error(`Failed to load permissions for ${key}:`, error);
+          this.definitions.delete(key);
+          return of(null);
+        }),
+        shareReplay(1)
+      ));
+    }
+    return this.definitions.get(key)!;
+  }
+
+  /**
+   * Resolve what a role may do on a step
+   */
+  resolveStepAccess(
+    definition: WorkflowDefinition | null,
+    step: any,
+    role: string | null = this.getCurrentRole()
+  ): StepAccess {
+    const fieldKeys: string[] = (step?.fields || []).map((field: any) => field.key);
+
+    if (!role) {
+      return {
+        role: null,
+        canView: false,
+        canEdit: false,
+        canApprove: false,
+        canReject: false,
+        canSendBack: false,
+        canReassign: false,
+        fields: Object.fromEntries(fieldKeys.map(key => [key, 'hidden' as FieldAccess]))
+      };
+    }
+
+    const workflowPermissions: WorkflowRolePermissions | undefined = definition?.permissions?.[role];
+    const stepPermissions: StepRolePermissions | undefined = step?.permissions?.[role];
+
+    const isActor = step?.actor === role || step?.stepConfig?.requiredActor === role;
+    const canEdit = isActor || !!workflowPermissions?.canEditSteps?.includes(step?.stepId);
+    const canView = canEdit || !!stepPermissions?.canView?.length || !!stepPermissions?.canEdit?.length;
+
+    // Decisions are allowed for editors unless the step or definition denies them; reject is opt-in
+    const isDenied = (flag: 'canApprove' | 'canSendBack') =>
+      stepPermissions?.[flag] === false || workflowPermissions?.[flag] === false;
+
+    const fields: Record<string, FieldAccess> = {};
+    for (const key of fieldKeys) {
+      if (stepPermissions?.canEdit?.includes(key)) {
+        fields[key] = canEdit ? 'edit' : 'view';
+      } else if (stepPermissions?.canView?.includes(key)) {
+        fields[key] = 'view';
+      } else {
+        fields[key] = canEdit ? 'edit' : 'hidden';
+      }
+    }
+
+    return {
+      role,
+      canView,
+      canEdit,
+      canApprove: canEdit && !isDenied('canApprove'),
+      canReject: canEdit && !!(stepPermissions?.canReject ?? workflowPermissions?.canReject),
+      canSendBack: canEdit && !isDenied('canSendBack'),
+      canReassign: !!workflowPermissions?.canReassign,
+      fields
+    };
+  }
+
+  /**
+   * Make fields read-only or hidden according to the resolved access
+   */
+  applyFieldAccess(fields: FormlyFieldConfig[], access: StepAccess): void {
+    for (const field of fields) {
+      const fieldAccess = access.fields[field.key as string];
+
+      if (fieldAccess === 'hidden') {
+        delete field.expressions?.['hide'];
+        field.hide = true;
+      } else if (fieldAccess === 'view') {
+        delete field.expressions?.['props.disabled'];
+        field.props = { ...field.props, readonly: true, disabled: true };
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { TestBed } from '@angular/core/testing';
+import { SlaService } from './sla.service';
+import { WorkflowDefinition, WorkflowInstance } from './workflow.service';
+
+const HOUR = 3_600_000;
+const START = Date.parse('2024-03-01T08:00:00Z');
+
+describe('SlaService', () => {
+  let service: SlaService;
+
+  const instance = (overrides: Partial<WorkflowInstance> = {}) => ({
+    id: 'i1',
+    definitionId: 'CT401',
+    currentStep: 'review',
+    status: 'in_progress',
+    assignedActor: 'inspector',
+    startedAt: new Date(START).toISOString(),
+    stepHistory: [],
+    activeSteps: [],
+    ...overrides
+  }) as unknown as WorkflowInstance;
+
+  const definition = (overrides: Record<string, any> = {}) => ({
+    certificationId: 'CT401',
+    slaConfig: { totalSLADays: 2, stepSLAs: { review: 10 } },
+    ...overrides
+  }) as unknown as WorkflowDefinition;
+
+  const reviewStep = { stepId: 'review', stepConfig: { estimatedDurationHours: 4 } };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SlaService);
+  });
+
+  describe('getInstanceSla', () => {
+    it('should be due totalSLADays after the start', () => {
+      const status = service.getInstanceSla(instance(), definition(), START + 12 * HOUR);
+
+      expect(status?.dueAt.toISOString()).toBe('2024-03-03T08:00:00.000Z');
+      expect(status?.state).toBe('on_track');
+    });
+
+    it('should prefer the instance slaDeadline', () => {
+      const status = service.getInstanceSla(
+        instance({ slaDeadline: '2024-03-01T18:00:00Z' } as any),
+        definition(),
+        START + 9 * HOUR
+      );
+
+      expect(status?.dueAt.toISOString()).toBe('2024-03-01T18:00:00.000Z');
+      expect(status?.state).toBe('at_risk');
+    });
+
+    it('should measure a finished instance against when it finished', () => {
+      const finished = instance({ completedAt: new Date(START + HOUR).toISOString() } as any);
+
+      expect(service.getInstanceSla(finished, definition(), START + 100 * HOUR)?.state).toBe('on_track');
+    });
+
+    it('should be null without an SLA', () => {
+      expect(service.getInstanceSla(instance(), definition({ slaConfig: {} }))).toBeNull();
+    });
+  });
+
+  describe('getStepSla', () => {
+    it('should use stepSLAs before the estimated duration', () => {
+      expect(service.getStepSlaHours(reviewStep, definition())).toBe(10);
+      expect(service.getStepSlaHours(reviewStep, definition({ slaConfig: {} }))).toBe(4);
+      expect(service.getStepSlaHours({ stepId: 'other' }, definition({ slaConfig: {} }))).toBeNull();
+    });
+
+    it('should start the clock when the previous step was completed', () => {
+      const status = service.getStepSla(
+        instance({ stepHistory: [{ stepId: 'apply', completedAt: new Date(START + 2 * HOUR).toISOString() }] } as any),
+        reviewStep,
+        definition(),
+        START + 13 * HOUR
+      );
+
+      expect(status?.startedAt.getTime()).toBe(START + 2 * HOUR);
+      expect(status?.state).toBe('breached');
+      expect(status?.remainingMs).toBe(-HOUR);
+    });
+
+    it('should start the clock of a parallel branch when the branch reached the step', () => {
+      const parallel = instance({
+        activeSteps: [{ branch: 'review', stepId: 'review', startedAt: new Date(START + 5 * HOUR).toISOString() }]
+      } as any);
+
+      expect(service.getStepStartedAt(parallel, 'review').getTime()).toBe(START + 5 * HOUR);
+    });
+  });
+
+  it('should format badges and durations', () => {
+    expect(service.formatDuration(26 * HOUR)).toBe('1d 2h');
+    expect(service.formatDuration(-3 * HOUR)).toBe('3h');
+    expect(service.formatDuration(10_000)).toBe('1m');
+
+    const dueAt = new Date(START);
+    expect(service.getBadge({ startedAt: dueAt, dueAt, remainingMs: -3 * HOUR, state: 'breached' }))
+      .toEqual({ label: 'Overdue 3h', cssClass: 'bg-danger' });
+    expect(service.getBadge({ startedAt: dueAt, dueAt, remainingMs: 2 * HOUR, state: 'at_risk' }, 'Step: '))
+      .toEqual({ label: 'Step: 2h left', cssClass: 'bg-warning text-dark' });
+    expect(service.getBadge(null)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable } from '@angular/core';
+import { WorkflowDefinition, WorkflowInstance } from './workflow.service';
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+/**
+ * Deadline of an instance or of its current step
+ */
+export interface SlaStatus {
+  startedAt: Date;
+  dueAt: Date;
+  remainingMs: number;
+  state: SlaState;
+}
+
+export interface SlaBadge {
+  label: string;
+  cssClass: string;
+}
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+/**
+ * Share of the allowed time after which work counts as at risk
+ */
+const AT_RISK_AFTER = 0.75;
+
+/**
+ * Works out SLA deadlines from `slaConfig`, step `stepConfig` and step history
+ *
+ * The instance is due `slaConfig.totalSLADays` after it started (or at its `slaDeadline`).
+ * The current step is due `slaConfig.stepSLAs[stepId]` hours (falling back to
+ * `stepConfig.estimatedDurationHours`) after the previous step was completed.
+ * Overdue steps are escalated by the backend's SlaEscalationWorker, not from the browser.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SlaService {
+  /**
+   * Deadline of the whole instance; null when the definition sets no SLA
+   */
+  getInstanceSla(
+    instance: WorkflowInstance,
+    definition?: WorkflowDefinition | null,
+    now = Date.now()
+  ): SlaStatus | null {
+    const startedAt = new Date(instance.startedAt);
+    const totalDays = definition?.slaConfig?.totalSLADays;
+
+    let dueAt: Date | null = null;
+    if (instance.slaDeadline) {
+      dueAt = new Date(instance.slaDeadline);
+    } else if (totalDays > 0) {
+      dueAt = new Date(startedAt.getTime() + totalDays * DAY);
+    }
+
+    // A finished instance is measured against when it finished
+    const measuredAt = instance.completedAt ? new Date(instance.completedAt).getTime() : now;
+    return dueAt ? this.toStatus(startedAt, dueAt, measuredAt) : null;
+  }
+
+  /**
+   * Deadline of the instance's current step; null when neither the definition nor the step sets one
+   */
+  getStepSla(
+    instance: WorkflowInstance,
+    step: any,
+    definition?: WorkflowDefinition | null,
+    now = Date.now()
+  ): SlaStatus | null {
+    const hours = this.getStepSlaHours(step, definition);
+    if (!hours) return null;
+
+    const startedAt = this.getStepStartedAt(instance, step?.stepId);
+    return this.toStatus(startedAt, new Date(startedAt.getTime() + hours * HOUR), now);
+  }
+
+  /**
+   * When the instance reached a step: when its parallel branch got there, the last history entry,
+   * or the instance start
+   */
+  getStepStartedAt(instance: WorkflowInstance, stepId?: string): Date {
+    const branch = instance.activeSteps?.find(step => step.stepId === stepId && step.startedAt);
+    const lastEntry = instance.stepHistory?.[instance.stepHistory.length - 1];
+    return new Date(branch?.startedAt ?? lastEntry?.completedAt ?? instance.startedAt);
+  }
+
+  /**
+   * Hours allowed for a step
+   */
+  getStepSlaHours(step: any, definition?: WorkflowDefinition | null): number | null {
+    return definition?.slaConfig?.stepSLAs?.[step?.stepId] ?? step?.stepConfig?.estimatedDurationHours ?? null;
+  }
+
+  /**
+   * Badge for an SLA status, e.g. "2d 4h left" or "Overdue 3h"
+   */
+  getBadge(status: SlaStatus | null, prefix = ''): SlaBadge | null {
+    if (!status) return null;
+
+    const duration = this.formatDuration(status.remainingMs);
+    switch (status.state) {
+      case 'breached':
+        return { label: `${prefix}Overdue ${duration}`, cssClass: 'bg-danger' };
+      case 'at_risk':
+        return { label: `${prefix}${duration} left`, cssClass: 'bg-warning text-dark' };
+      default:
+        return { label: `${prefix}${duration} left`, cssClass: 'bg-success' };
+    }
+  }
+
+  /**
+   * Human readable duration, e.g. "3d 4h" or "45m"
+   */
+  formatDuration(ms: number): string {
+    const abs = Math.abs(ms);
+    if (abs >= DAY) return `${Math.floor(abs / DAY)}d ${Math.floor((abs % DAY) / HOUR)}h`;
+    if (abs >= HOUR) return `${Math.floor(abs / HOUR)}h`;
+    return `${Math.max(1, Math.floor(abs / 60_000))}m`;
+  }
+
+  private toStatus(startedAt: Date, dueAt: Date, now: number): SlaStatus {
+    const allowedMs = dueAt.getTime() - startedAt.getTime();
+    const remainingMs = dueAt.getTime() - now;
+
+    let state: SlaState = 'on_track';
+    if (remainingMs <= 0) {
+      state = 'breached';
+    } else if (now - startedAt.getTime() >= allowedMs * AT_RISK_AFTER) {
+      state = 'at_risk';
+    }
+
+    return { startedAt, dueAt, remainingMs, state };
+  }
+}
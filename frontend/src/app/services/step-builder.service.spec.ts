@@ -0,0 +1,142 @@
+import { TestBed } from '@angular/core/testing';
+import { StepBuilderService } from './step-builder.service';
+import { FormConfigService, FormField } from './form-config.service';
+import { StepDefinition } from './workflow-definition.interface';
+import { FieldValidatorRegistryService } from './workflow-functions/common/field-validator-registry.service';
+import { OptionSourceRegistryService } from './workflow-functions/common/option-source-registry.service';
+import { WorkflowValidatorService } from './workflow-functions/common/workflow-validator.service';
+
+describe('StepBuilderService', () => {
+  let service: StepBuilderService;
+  let step: StepDefinition;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FormConfigService, useValue: {} },
+        { provide: FieldValidatorRegistryService, useValue: { getRegisteredNames: () => ['range'] } },
+        { provide: OptionSourceRegistryService, useValue: { getResolverNames: () => ['loadSectors'] } },
+        { provide: WorkflowValidatorService, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(StepBuilderService);
+
+    step = service.createStep('TEST_step1');
+    step.fields = [
+      service.createField('input', step),
+      service.createField('repeat', step),
+      service.createField('select', step)
+    ];
+  });
+
+  const [input, repeat, select] = [0, 1, 2];
+
+  it('should give new fields unique keys, including inside repeats', () => {
+    step.fields[repeat].fieldArray!.fieldGroup.push(service.createField('input', step));
+
+    expect(service.collectKeys(step.fields)).toEqual(['inputField', 'repeatField', 'inputField2', 'selectField']);
+    expect(service.createField('input', step).key).toBe('inputField3');
+  });
+
+  it('should parse step files and reject ones without fields', () => {
+    expect(service.parseStep('{"stepId":"a","fields":[]}').fields).toEqual([]);
+    expect(() => service.parseStep('{')).toThrowError(/^Not valid JSON/);
+    expect(() => service.parseStep('{"stepId":"a"}')).toThrowError('A step file needs a "fields" array');
+  });
+
+  describe('moving and removing fields', () => {
+    it('should move a field into a repeat', () => {
+      const field = step.fields[input];
+      const children = step.fields[repeat].fieldArray!.fieldGroup;
+
+      expect(service.moveField(step, field, children, 0)).toBe(true);
+      expect(step.fields.map(f => f.key)).toEqual(['repeatField', 'selectField']);
+      expect(service.findList(step.fields, field)).toBe(children);
+    });
+
+    it('should reorder within the same list', () => {
+      expect(service.moveField(step, step.fields[input], step.fields, 3)).toBe(true);
+      expect(step.fields.map(f => f.key)).toEqual(['repeatField', 'selectField', 'inputField']);
+    });
+
+    it('should not move a repeat into itself', () => {
+      const repeatField = step.fields[repeat];
+
+      expect(service.moveField(step, repeatField, repeatField.fieldArray!.fieldGroup, 0)).toBe(false);
+      expect(step.fields).toContain(repeatField);
+    });
+
+    it('should drop dependsOn references to a removed field', () => {
+      step.fields[select].dependsOn = ['inputField'];
+
+      service.removeField(step, step.fields[input]);
+
+      expect(step.fields.map(f => f.key)).toEqual(['repeatField', 'selectField']);
+      expect(step.fields[1].dependsOn).toBeUndefined();
+    });
+  });
+
+  it('should rename keys and their dependsOn references, refusing duplicates', () => {
+    const field = step.fields[input];
+    step.fields[select].dependsOn = ['inputField'];
+
+    service.renameField(step, field, 'sector');
+
+    expect(field.key).toBe('sector');
+    expect(step.fields[select].dependsOn).toEqual(['sector']);
+    expect(() => service.renameField(step, field, 'selectField')).toThrowError('Another field already uses the key "selectField"');
+  });
+
+  describe('properties', () => {
+    let field: FormField;
+
+    beforeEach(() => {
+      field = step.fields[input];
+    });
+
+    it('should remove empty template options instead of writing them', () => {
+      service.setTemplateOption(field, 'maxLength', 20);
+      service.setTemplateOption(field, 'placeholder', '');
+      service.setTemplateOption(field, 'required', null);
+
+      expect(field.templateOptions).toEqual({ label: 'Text input', maxLength: 20 });
+    });
+
+    it('should drop empty hooks, dependsOn and expression blocks', () => {
+      service.setHook(field, 'onInit', 'loadSectors');
+      service.setHook(field, 'onInit', '');
+      service.toggleDependsOn(field, 'selectField', true);
+      service.toggleDependsOn(field, 'selectField', false);
+      service.setExpressionProperty(field, 'templateOptions.disabled', 'model.locked');
+      service.renameExpressionProperty(field, 'templateOptions.disabled', 'props.disabled');
+
+      expect(field.expressionProperties).toEqual({ 'props.disabled': 'model.locked' });
+
+      service.removeExpressionProperty(field, 'props.disabled');
+
+      expect(field.hooks).toBeUndefined();
+      expect(field.dependsOn).toBeUndefined();
+      expect(field.expressionProperties).toBeUndefined();
+    });
+
+    it('should report expression syntax errors', () => {
+      expect(service.getExpressionError('model.a > 1')).toBeNull();
+      expect(service.getExpressionError('  ')).toBeNull();
+      expect(service.getExpressionError('model.a >')).toContain('Unexpected end of expression');
+    });
+
+    it('should keep validator messages with their validator', () => {
+      service.addValidator(field, 'positiveNumber');
+      service.setValidationMessage(field, 'positiveNumber', 'Must be positive');
+      service.setValidator(field, 0, 'range', { min: 1 });
+
+      expect(field.validators).toEqual({ validation: [{ name: 'range', min: 1 }] });
+      expect(field.validation).toEqual({ messages: { range: 'Must be positive' } });
+
+      service.removeValidator(field, 0);
+
+      expect(field.validators).toBeUndefined();
+      expect(field.validation).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { FormConfigService } from './form-config.service';
+import { FormField, FormFieldType, StepDefinition } from './workflow-definition.interface';
+import { FieldValidatorRegistryService } from './workflow-functions/common/field-validator-registry.service';
+import { OptionSourceRegistryService } from './workflow-functions/common/option-source-registry.service';
+import { WorkflowValidatorService } from './workflow-functions/common/workflow-validator.service';
+import { WorkflowIssue } from './workflow-functions/common/workflow-definition-validator';
+import { parseExpression } from './workflow-functions/common/expression-parser';
+
+export interface PaletteItem {
+  type: FormFieldType;
+  label: string;
+  icon: string;
+}
+
+/**
+ * One field type per entry of FieldConverterService.mapFieldType
+ */
+export const FIELD_PALETTE: PaletteItem[] = [
+  { type: 'input', label: 'Text input', icon: 'bi-input-cursor-text' },
+  { type: 'textarea', label: 'Text area', icon: 'bi-textarea-t' },
+  { type: 'select', label: 'Dropdown', icon: 'bi-menu-button-wide' },
+  { type: 'radio', label: 'Radio buttons', icon: 'bi-ui-radios' },
+  { type: 'checkbox', label: 'Checkbox', icon: 'bi-check-square' },
+  { type: 'multicheckbox', label: 'Checkbox group', icon: 'bi-ui-checks' },
+  { type: 'date', label: 'Date', icon: 'bi-calendar-date' },
+  { type: 'file', label: 'File upload', icon: 'bi-paperclip' },
+  { type: 'button', label: 'Button', icon: 'bi-hand-index' },
+  { type: 'repeat', label: 'Repeating group', icon: 'bi-collection' },
+  { type: 'table', label: 'Table', icon: 'bi-table' },
+  { type: 'html', label: 'HTML block', icon: 'bi-code-slash' }
+];
+
+export type TemplateOptionKind = 'text' | 'number' | 'boolean' | 'list' | 'json' | 'choice';
+
+/**
+ * A `templateOptions` entry the property editor offers for a field type
+ */
+export interface TemplateOptionProperty {
+  key: string;
+  label: string;
+  kind: TemplateOptionKind;
+  choices?: string[];
+}
+
+const COMMON_OPTIONS: TemplateOptionProperty[] = [
+  { key: 'label', label: 'Label', kind: 'text' },
+  { key: 'placeholder', label: 'Placeholder', kind: 'text' },
+  { key: 'description', label: 'Help text', kind: 'text' },
+  { key: 'required', label: 'Required', kind: 'boolean' },
+  { key: 'disabled', label: 'Disabled', kind: 'boolean' }
+];
+
+/**
+ * The type-specific templateOptions FieldConverterService.applyFieldTypeProperties passes on
+ */
+const TYPE_OPTIONS: Partial<Record<FormFieldType, TemplateOptionProperty[]>> = {
+  input: [
+    { key: 'type', label: 'Input type', kind: 'choice', choices: ['text', 'number', 'email', 'tel', 'url', 'password'] },
+    { key: 'min', label: 'Min', kind: 'number' },
+    { key: 'max', label: 'Max', kind: 'number' },
+    { key: 'step', label: 'Step', kind: 'number' },
+    { key: 'minLength', label: 'Min length', kind: 'number' },
+    { key: 'maxLength', label: 'Max length', kind: 'number' },
+    { key: 'pattern', label: 'Pattern', kind: 'text' }
+  ],
+  textarea: [
+    { key: 'rows', label: 'Rows', kind: 'number' },
+    { key: 'cols', label: 'Columns', kind: 'number' },
+    { key: 'maxLength', label: 'Max length', kind: 'number' }
+  ],
+  file: [
+    { key: 'accept', label: 'Accepted types', kind: 'text' },
+    { key: 'multiple', label: 'Multiple files', kind: 'boolean' },
+    { key: 'maxFileSize', label: 'Max file size (bytes)', kind: 'number' },
+    { key: 'uploadEndpoint', label: 'Upload endpoint', kind: 'text' },
+    { key: 'uploadMultipleEndpoint', label: 'Multiple upload endpoint', kind: 'text' },
+    { key: 'deleteEndpoint', label: 'Delete endpoint', kind: 'text' }
+  ],
+  button: [
+    { key: 'text', label: 'Button text', kind: 'text' },
+    { key: 'onClick', label: 'Action', kind: 'text' }
+  ],
+  repeat: [
+    { key: 'itemLabel', label: 'Item label', kind: 'text' },
+    { key: 'addText', label: 'Add button text', kind: 'text' },
+    { key: 'removeText', label: 'Remove button text', kind: 'text' },
+    { key: 'saveText', label: 'Save button text', kind: 'text' },
+    { key: 'addButtonPosition', label: 'Add button position', kind: 'choice', choices: ['top-right', 'bottom'] },
+    { key: 'titleField', label: 'Title field', kind: 'text' },
+    { key: 'subtitleField', label: 'Subtitle field', kind: 'text' },
+    { key: 'requiredFields', label: 'Required fields', kind: 'list' }
+  ],
+  table: [
+    { key: 'columns', label: 'Columns', kind: 'list' },
+    { key: 'columnHeaders', label: 'Column headers', kind: 'json' },
+    { key: 'badgeColumns', label: 'Badge columns', kind: 'json' },
+    { key: 'emptyMessage', label: 'Empty message', kind: 'text' }
+  ]
+};
+
+/** Types whose options come from `templateOptions.options` or an option resolver */
+export const OPTION_FIELD_TYPES: FormFieldType[] = ['select', 'radio', 'multicheckbox'];
+
+/** Types rendered from `expressionProperties.template` */
+export const TEMPLATE_FIELD_TYPES: FormFieldType[] = ['table', 'html'];
+
+/**
+ * Creates and edits the `fields` of a step file for the form builder
+ * Fields are edited in place; a repeat's children live in `fieldArray.fieldGroup`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StepBuilderService {
+  private formConfigService = inject(FormConfigService);
+  private validatorRegistry = inject(FieldValidatorRegistryService);
+  private optionSources = inject(OptionSourceRegistryService);
+  private validator = inject(WorkflowValidatorService);
+
+  /* =========================================================
+   * STEP FILES
+   * ========================================================= */
+
+  /**
+   * Load a step file by its path under assets/forms (without .json)
+   */
+  loadStep(stepRef: string): Observable<StepDefinition> {
+    return this.formConfigService.loadStepDefinition(stepRef).pipe(map(step => this.normalize(step)));
+  }
+
+  createStep(stepId = 'new_step'): StepDefinition {
+    return {
+      stepId,
+      name: stepId,
+      actor: 'customer',
+      description: '',
+      fields: [],
+      stepConfig: { canSendBack: false, estimatedDurationHours: 24 }
+    };
+  }
+
+  /**
+   * Parse imported step JSON
+   * Throws when the text is not JSON or has no fields array.
+   */
+  parseStep(json: string): StepDefinition {
+    let step: StepDefinition;
+    try {
+      step = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (!step || typeof step !== 'object' || !Array.isArray(step.fields)) {
+      throw new Error('A step file needs a "fields" array');
+    }
+    return this.normalize(step);
+  }
+
+  exportStep(step: StepDefinition): string {
+    return JSON.stringify(step, null, 2) + '\n';
+  }
+
+  validate(file: string, step: StepDefinition): Observable<WorkflowIssue[]> {
+    return this.validator.validateStep(file, step);
+  }
+
+  /* =========================================================
+   * FIELDS
+   * ========================================================= */
+
+  /**
+   * A new field of a type with a key not used anywhere in the step
+   */
+  createField(type: FormFieldType, step: StepDefinition): FormField {
+    const keys = new Set(this.collectKeys(step.fields));
+    let key = `${type}Field`;
+    for (let n = 2; keys.has(key); n++) {
+      key = `${type}Field${n}`;
+    }
+
+    const label = FIELD_PALETTE.find(item => item.type === type)?.label || type;
+    const field: FormField = { key, type, templateOptions: { label, required: false } };
+
+    switch (type) {
+      case 'select':
+        field.templateOptions['placeholder'] = 'Choose...';
+        field.templateOptions['options'] = [];
+        break;
+      case 'radio':
+      case 'multicheckbox':
+        field.templateOptions['options'] = [
+          { value: 'option1', label: 'Option 1' },
+          { value: 'option2', label: 'Option 2' }
+        ];
+        break;
+      case 'textarea':
+        field.templateOptions['rows'] = 3;
+        break;
+      case 'file':
+        field.templateOptions['accept'] = '.pdf';
+        field.templateOptions['maxFileSize'] = 10485760;
+        break;
+      case 'button':
+        field.templateOptions = { text: 'Button', onClick: '' };
+        break;
+      case 'repeat':
+        field.templateOptions = { label, addText: 'Add', removeText: 'Remove', itemLabel: 'Item' };
+        field.fieldArray = { fieldGroup: [] };
+        break;
+      case 'table':
+        field.templateOptions = { label, columns: [], columnHeaders: {}, emptyMessage: 'Nothing added yet.' };
+        break;
+      case 'html':
+        field.templateOptions = { label };
+        field.expressionProperties = { template: '<p>Content</p>' };
+        break;
+    }
+    return field;
+  }
+
+  /**
+   * Keys of the step's fields, including those inside repeats
+   */
+  collectKeys(fields: FormField[]): string[] {
+    return fields.flatMap(field => [field.key, ...this.collectKeys(this.getChildren(field) || [])]);
+  }
+
+  /**
+   * The list a field sits in: the step's fields or a repeat's fieldGroup
+   */
+  findList(fields: FormField[], field: FormField): FormField[] | null {
+    if (fields.includes(field)) return fields;
+    for (const child of fields) {
+      const list = this.findList(this.getChildren(child) || [], field);
+      if (list) return list;
+    }
+    return null;
+  }
+
+  getChildren(field: FormField): FormField[] | undefined {
+    return field.type === 'repeat' ? field.fieldArray?.fieldGroup : undefined;
+  }
+
+  /**
+   * Move a field to a position in a list; false when the target is inside the field itself
+   */
+  moveField(step: StepDefinition, field: FormField, target: FormField[], index: number): boolean {
+    const source = this.findList(step.fields, field);
+    if (!source || this.containsList(field, target)) {
+      return false;
+    }
+
+    const from = source.indexOf(field);
+    source.splice(from, 1);
+    target.splice(source === target && from < index ? index - 1 : index, 0, field);
+    return true;
+  }
+
+  /**
+   * Whether a list is the fieldGroup of the field or of one of its descendants
+   */
+  private containsList(field: FormField, list: FormField[]): boolean {
+    const children = this.getChildren(field);
+    return !!children && (children === list || children.some(child => this.containsList(child, list)));
+  }
+
+  /**
+   * Remove a field and any `dependsOn` references to its key
+   */
+  removeField(step: StepDefinition, field: FormField): void {
+    const list = this.findList(step.fields, field);
+    if (!list) return;
+
+    list.splice(list.indexOf(field), 1);
+    this.forEachField(step.fields, other => {
+      if (other.dependsOn) {
+        other.dependsOn = other.dependsOn.filter(key => key !== field.key);
+        if (!other.dependsOn.length) delete other.dependsOn;
+      }
+    });
+  }
+
+  /**
+   * Rename a field's key, updating `dependsOn` references to it
+   * Throws when another field already uses the key.
+   */
+  renameField(step: StepDefinition, field: FormField, key: string): void {
+    if (!key || key === field.key) return;
+    if (this.collectKeys(step.fields).includes(key)) {
+      throw new Error(`Another field already uses the key "${key}"`);
+    }
+
+    this.forEachField(step.fields, other => {
+      other.dependsOn = other.dependsOn?.map(dependency => dependency === field.key ? key : dependency);
+    });
+    field.key = key;
+  }
+
+  changeType(field: FormField, type: FormFieldType): void {
+    field.type = type;
+    if (type === 'repeat') {
+      field.fieldArray ??= { fieldGroup: [] };
+    }
+    if (OPTION_FIELD_TYPES.includes(type)) {
+      field.templateOptions['options'] ??= [];
+    }
+  }
+
+  /* =========================================================
+   * PROPERTIES
+   * ========================================================= */
+
+  getTemplateOptionProperties(type: FormFieldType): TemplateOptionProperty[] {
+    const common = type === 'button'
+      ? COMMON_OPTIONS.filter(property => property.key === 'disabled')
+      : COMMON_OPTIONS;
+    return [...common, ...(TYPE_OPTIONS[type] || [])];
+  }
+
+  /**
+   * Set a templateOptions entry; empty values are removed rather than written as "" or null
+   */
+  setTemplateOption(field: FormField, key: string, value: any): void {
+    if (value === '' || value === null || value === undefined || (typeof value === 'number' && isNaN(value))) {
+      delete field.templateOptions[key];
+    } else {
+      field.templateOptions[key] = value;
+    }
+  }
+
+  setExpressionProperty(field: FormField, property: string, expression: string): void {
+    field.expressionProperties ??= {};
+    field.expressionProperties[property] = expression;
+  }
+
+  removeExpressionProperty(field: FormField, property: string): void {
+    if (!field.expressionProperties) return;
+    delete field.expressionProperties[property];
+    if (!Object.keys(field.expressionProperties).length) delete field.expressionProperties;
+  }
+
+  renameExpressionProperty(field: FormField, property: string, newProperty: string): void {
+    if (!field.expressionProperties || !newProperty || property === newProperty) return;
+    const expression = field.expressionProperties[property];
+    delete field.expressionProperties[property];
+    field.expressionProperties[newProperty] = expression;
+  }
+
+  /**
+   * The parser's error for an expression, or null when it compiles
+   */
+  getExpressionError(expression: string | undefined): string | null {
+    if (!expression?.trim()) return null;
+    try {
+      parseExpression(expression);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /**
+   * Set a named hook (`onInit`, `onChanges`), dropping the hooks block when it ends up empty
+   */
+  setHook(field: FormField, hook: 'onInit' | 'onChanges', name: string): void {
+    field.hooks = { ...field.hooks, [hook]: name || undefined };
+    if (!field.hooks.onInit && !field.hooks.onChanges) delete field.hooks;
+  }
+
+  toggleDependsOn(field: FormField, key: string, checked: boolean): void {
+    const dependsOn = (field.dependsOn || []).filter(dependency => dependency !== key);
+    field.dependsOn = checked ? [...dependsOn, key] : dependsOn;
+    if (!field.dependsOn.length) delete field.dependsOn;
+  }
+
+  /* =========================================================
+   * VALIDATORS
+   * Entries of `validators.validation` are names or { name, ...params };
+   * a custom message lives in `validation.messages[name]`.
+   * ========================================================= */
+
+  getValidatorNames(): string[] {
+    return this.validatorRegistry.getRegisteredNames();
+  }
+
+  getResolverNames(): string[] {
+    return this.optionSources.getResolverNames();
+  }
+
+  getValidatorEntries(field: FormField): (string | Record<string, any>)[] {
+    return field.validators?.validation || [];
+  }
+
+  getValidatorName(entry: string | Record<string, any>): string {
+    return typeof entry === 'string' ? entry : entry['name'];
+  }
+
+  getValidatorParams(entry: string | Record<string, any>): Record<string, any> {
+    if (typeof entry === 'string') return {};
+    const { name, ...params } = entry;
+    return params;
+  }
+
+  addValidator(field: FormField, name: string): void {
+    field.validators = { validation: [...this.getValidatorEntries(field), name] };
+  }
+
+  /**
+   * Replace a validator entry, written as a plain name when it has no params
+   */
+  setValidator(field: FormField, index: number, name: string, params: Record<string, any>): void {
+    const previous = this.getValidatorName(this.getValidatorEntries(field)[index]);
+    const entries = [...this.getValidatorEntries(field)];
+    entries[index] = Object.keys(params).length ? { name, ...params } : name;
+    field.validators = { validation: entries };
+
+    if (previous !== name && field.validation?.messages?.[previous]) {
+      field.validation.messages[name] = field.validation.messages[previous];
+      delete field.validation.messages[previous];
+    }
+  }
+
+  removeValidator(field: FormField, index: number): void {
+    const name = this.getValidatorName(this.getValidatorEntries(field)[index]);
+    const entries = this.getValidatorEntries(field).filter((_, i) => i !== index);
+    if (entries.length) {
+      field.validators = { validation: entries };
+    } else {
+      delete field.validators;
+    }
+    this.setValidationMessage(field, name, '');
+  }
+
+  setValidationMessage(field: FormField, name: string, message: string): void {
+    if (message) {
+      field.validation = { ...field.validation, messages: { ...field.validation?.messages, [name]: message } };
+      return;
+    }
+
+    if (!field.validation?.messages) return;
+    delete field.validation.messages[name];
+    if (!Object.keys(field.validation.messages).length) delete field.validation;
+  }
+
+  /* =========================================================
+   * HELPERS
+   * ========================================================= */
+
+  forEachField(fields: FormField[], visit: (field: FormField) => void): void {
+    fields.forEach(field => {
+      visit(field);
+      this.forEachField(this.getChildren(field) || [], visit);
+    });
+  }
+
+  /**
+   * Give every field the templateOptions block the editor and the converter read
+   */
+  private normalize(step: StepDefinition): StepDefinition {
+    this.forEachField(step.fields, field => {
+      field.templateOptions ??= {};
+      if (field.type === 'repeat') {
+        field.fieldArray ??= { fieldGroup: [] };
+        field.fieldArray.fieldGroup ??= [];
+      }
+    });
+    return step;
+  }
+}
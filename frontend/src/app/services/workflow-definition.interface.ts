@@ -0,0 +1,197 @@
+/**
+ * Shapes of the workflow JSON under assets/forms/workflows
+ * Definitions/*.json list a workflow's steps; Steps/**\/*.json hold each step's fields.
+ * The same shapes are described by the JSON Schemas in assets/forms/workflows/schema.
+ */
+
+/* =========================================================
+ * FORM FIELDS
+ * ========================================================= */
+export interface FormFieldOption {
+  label: string;
+  value: string;
+}
+
+export type FormFieldType =
+  | 'input'
+  | 'select'
+  | 'textarea'
+  | 'radio'
+  | 'checkbox'
+  | 'multicheckbox'
+  | 'file'
+  | 'date'
+  | 'button'
+  | 'repeat'
+  | 'table'
+  | 'html';
+
+export interface FormField {
+  key: string;
+  type: FormFieldType;
+  templateOptions: Record<string, any>;
+  hooks?: FieldHooks;
+  optionsSource?: string | Record<string, any>;
+  dependsOn?: string[];
+  defaultValue?: any;
+  showWhen?: string;
+  showInForm?: string;
+  validation?: { messages?: Record<string, string> };
+  validators?: { validation?: (string | Record<string, any>)[] };
+  expressionProperties?: Record<string, string>;
+  hideExpression?: string;
+  fieldArray?: any;
+  fieldGroup?: FormField[];
+}
+
+/**
+ * `onInit` names an option resolver, `onChanges` a handler passed to the workflow's handleFieldChange
+ */
+export interface FieldHooks {
+  onInit?: string;
+  onChanges?: string;
+}
+
+export interface FormConfig {
+  certificationId?: string;
+  stepId?: string;
+  title?: string;
+  name?: string;
+  fields: FormField[];
+  stepConfig?: Record<string, any>;
+  hooks?: Record<string, string | string[]>;
+}
+
+/* =========================================================
+ * STEP FILES (Steps/**\/*.json)
+ * ========================================================= */
+export interface StepConfig {
+  nextStep?: string;
+  canSendBack?: boolean;
+  sendBackTarget?: string;
+  requiredActor?: string;
+  canApprove?: boolean;
+  canReject?: boolean;
+  isFinalStep?: boolean;
+  isMandatory?: boolean;
+  estimatedDurationHours?: number;
+  escalationAfterHours?: number;
+  validation?: Record<string, any>;
+}
+
+export interface StepDefinition extends FormConfig {
+  stepId: string;
+  name: string;
+  actor: string;
+  description?: string;
+  stepConfig?: StepConfig;
+  validationRules?: Record<string, any>[];
+  permissions?: Record<string, Record<string, any>>;
+}
+
+/* =========================================================
+ * WORKFLOW DEFINITIONS (Definitions/*.json)
+ * ========================================================= */
+
+/**
+ * Targets that end the workflow instead of opening a step
+ */
+export const TERMINAL_STEPS = ['completed', 'rejected'];
+
+/**
+ * A conditional transition, declared in a definition step's `overrides.next`
+ * e.g. { "when": "model.inspectionResult === 'fail'", "goto": "rejected" }
+ * A transition without `when` always matches.
+ */
+export interface StepTransition {
+  when?: string;
+  goto: string;
+}
+
+/**
+ * An entry of a definition's `steps`: a reference to a step file,
+ * or an inline system action / parallel step identified by `stepId`
+ */
+export interface DefinitionStep {
+  stepRef?: string;
+  stepId?: string;
+  name?: string;
+  actor?: string;
+  type?: 'system_action' | 'parallel';
+  systemAction?: string;
+  parameters?: Record<string, any>;
+  retry?: { maxAttempts?: number; delaySeconds?: number };
+  status?: string;
+  branches?: string[];
+  quorum?: number;
+  overrides?: {
+    nextStep?: string;
+    next?: StepTransition[];
+  };
+}
+
+export interface WorkflowPermissionSet {
+  canStartWorkflow?: boolean;
+  canEditSteps?: string[];
+  canSendBack?: boolean;
+  canCancel?: boolean;
+  canRequestInfo?: boolean;
+  canApprove?: boolean;
+  canReject?: boolean;
+  canReassign?: boolean;
+}
+
+export interface WorkflowDefinitionConfig {
+  certificationId: string;
+  name: string;
+  description?: string;
+  version: string;
+  metadata?: {
+    workflowCode?: string;
+    applicableCertificateTypes?: string[];
+    estimatedTotalDurationDays?: number;
+    complexity?: string;
+    requiresFactoryVisit?: boolean;
+    certificateValidityMonths?: number;
+  };
+  steps: DefinitionStep[];
+  workflowConfig?: {
+    isLinear?: boolean;
+    allowParallelExecution?: boolean;
+    requiresApprovalAtEachStep?: boolean;
+    autoEscalationEnabled?: boolean;
+    escalateTo?: string;
+  };
+  slaConfig?: {
+    totalSLADays?: number;
+    stepSLAs?: Record<string, number>;
+  };
+  notifications?: {
+    onStepComplete?: boolean;
+    onWorkflowComplete?: boolean;
+    onSendBack?: boolean;
+    recipients?: string[];
+  };
+  permissions?: Record<string, WorkflowPermissionSet>;
+  integrations?: Record<string, any>;
+}
+
+/**
+ * A definition with the step files its `stepRef`s point to, keyed by stepRef (null when a file could not be loaded)
+ */
+export interface WorkflowBundle {
+  definition: WorkflowDefinitionConfig;
+  steps: Record<string, StepDefinition | null>;
+}
+
+/**
+ * A bundle as published under a version; instances pinned to it load these files instead of the live ones
+ */
+export interface WorkflowVersion extends WorkflowBundle {
+  definitionId: string;
+  version: string;
+  publishedAt: string;
+  contentHash: string;
+  // stepRef -> content hash of the step file
+  stepVersions: Record<string, string>;
+}
@@ -0,0 +1,374 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { FormConfigService } from './form-config.service';
+import {
+  DefinitionStep,
+  StepDefinition,
+  TERMINAL_STEPS,
+  WorkflowBundle,
+  WorkflowDefinitionConfig
+} from './workflow-definition.interface';
+import { WorkflowValidatorService } from './workflow-functions/common/workflow-validator.service';
+import { WorkflowIssue } from './workflow-functions/common/workflow-definition-validator';
+
+/**
+ * A workflow being edited in the designer: the definition and the step files it references
+ * Unlike a loaded bundle, every referenced step file is present.
+ */
+export interface WorkflowDesign {
+  definition: WorkflowDefinitionConfig;
+  steps: Record<string, StepDefinition>;
+}
+
+export type DesignerNodeKind = 'form' | 'system_action' | 'parallel' | 'terminal';
+
+export interface DesignerNode {
+  id: string;
+  /** Index in the definition's steps; -1 for terminal targets like "rejected" */
+  index: number;
+  label: string;
+  actor?: string;
+  kind: DesignerNodeKind;
+  x: number;
+  y: number;
+}
+
+export type DesignerEdgeKind = 'next' | 'conditional' | 'branch' | 'sendBack';
+
+export interface DesignerEdge {
+  from: string;
+  to: string;
+  kind: DesignerEdgeKind;
+  label?: string;
+}
+
+export interface DesignerGraph {
+  nodes: DesignerNode[];
+  edges: DesignerEdge[];
+  width: number;
+  height: number;
+}
+
+/**
+ * A file to write under src/assets/forms
+ */
+export interface ExportedFile {
+  path: string;
+  content: string;
+}
+
+export type NewStepType = 'form' | 'system_action' | 'parallel';
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 64;
+const COLUMN_GAP = 90;
+const ROW_GAP = 36;
+const PADDING = 40;
+
+/**
+ * Loads, edits and exports workflow definitions for the visual designer
+ * Exports the same JSON the dynamic form and the backend read: Definitions/{certificationId}.json plus one file per stepRef.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowDesignerService {
+  private formConfigService = inject(FormConfigService);
+  private validator = inject(WorkflowValidatorService);
+
+  /**
+   * Load a definition and its step files; a missing step file gets an empty one to fill in
+   */
+  loadDesign(workflowId: string): Observable<WorkflowDesign> {
+    return this.formConfigService.loadWorkflowBundle(workflowId).pipe(
+      map(bundle => this.toDesign(bundle))
+    );
+  }
+
+  /**
+   * A new definition with a single data entry step
+   */
+  createDesign(workflowCode: string): WorkflowDesign {
+    const code = workflowCode.trim() || 'NEW';
+    const design: WorkflowDesign = {
+      definition: {
+        certificationId: `${code}_new`,
+        name: `${code} - New Certificate Application`,
+        description: '',
+        version: '1.0',
+        metadata: { workflowCode: code, applicableCertificateTypes: [], estimatedTotalDurationDays: 7, complexity: 'medium' },
+        steps: [],
+        workflowConfig: { isLinear: true, allowParallelExecution: false, requiresApprovalAtEachStep: false, autoEscalationEnabled: true },
+        slaConfig: { totalSLADays: 7, stepSLAs: {} },
+        notifications: { onStepComplete: true, onWorkflowComplete: true, onSendBack: true, recipients: ['applicant', 'assignedActor'] },
+        permissions: { customer: { canStartWorkflow: true, canEditSteps: [], canCancel: true } }
+      },
+      steps: {}
+    };
+
+    this.addStep(design, `${code}_step1_data_entry`, 'form');
+    return design;
+  }
+
+  /**
+   * The ID a definition step is routed by: its inline stepId or its stepRef file name
+   */
+  getStepId(step: DefinitionStep): string {
+    return step.stepId ?? (step.stepRef || '').split('/').pop() ?? '';
+  }
+
+  getStepIds(design: WorkflowDesign): string[] {
+    return design.definition.steps.map(step => this.getStepId(step));
+  }
+
+  findStep(design: WorkflowDesign, stepId: string): DefinitionStep | undefined {
+    return design.definition.steps.find(step => this.getStepId(step) === stepId);
+  }
+
+  getStepFile(design: WorkflowDesign, step: DefinitionStep): StepDefinition | null {
+    return step.stepRef ? design.steps[step.stepRef] ?? null : null;
+  }
+
+  /**
+   * Next step as the engine resolves it: the definition's override, then the step file's own nextStep
+   */
+  getNextStep(design: WorkflowDesign, step: DefinitionStep): string {
+    return step.overrides?.nextStep ?? this.getStepFile(design, step)?.stepConfig?.nextStep ?? '';
+  }
+
+  /**
+   * Point a step at its next step, keeping the step file's `stepConfig.nextStep` in line with the override
+   */
+  setNextStep(design: WorkflowDesign, step: DefinitionStep, nextStep: string): void {
+    step.overrides = { ...step.overrides, nextStep: nextStep || undefined };
+
+    const stepFile = this.getStepFile(design, step);
+    if (stepFile) {
+      stepFile.stepConfig = { ...stepFile.stepConfig, nextStep: nextStep || undefined };
+    }
+  }
+
+  /**
+   * Append a step, placed before a trailing system action (e.g. certificate issuing) so it stays last
+   */
+  addStep(design: WorkflowDesign, stepId: string, type: NewStepType, actor = 'customer'): DefinitionStep {
+    if (this.findStep(design, stepId) || TERMINAL_STEPS.includes(stepId)) {
+      throw new Error(`A step with ID "${stepId}" already exists`);
+    }
+
+    let step: DefinitionStep;
+    if (type === 'form') {
+      step = { stepRef: `${this.getStepFolder(design)}/${stepId}`, overrides: {} };
+      design.steps[step.stepRef!] = {
+        stepId,
+        name: stepId,
+        actor,
+        description: '',
+        fields: [],
+        stepConfig: { canSendBack: false, estimatedDurationHours: 24 }
+      };
+    } else if (type === 'parallel') {
+      step = { stepId, name: stepId, type: 'parallel', branches: [], overrides: {} };
+    } else {
+      step = { stepId, name: stepId, actor: 'system', type: 'system_action', systemAction: '', overrides: {} };
+    }
+
+    const steps = design.definition.steps;
+    const last = steps[steps.length - 1];
+    const previous = last?.type === 'system_action' ? steps[steps.length - 2] : last;
+
+    if (last?.type === 'system_action') {
+      steps.splice(steps.length - 1, 0, step);
+    } else {
+      steps.push(step);
+    }
+
+    // Chain the new step in where the previous last step led
+    if (previous) {
+      this.setNextStep(design, step, this.getNextStep(design, previous));
+      this.setNextStep(design, previous, stepId);
+    } else if (last) {
+      this.setNextStep(design, step, this.getStepId(last));
+    }
+
+    return step;
+  }
+
+  /**
+   * Remove a step, its step file and the references to it; steps that led to it now lead where it led
+   */
+  removeStep(design: WorkflowDesign, stepId: string): void {
+    const step = this.findStep(design, stepId);
+    if (!step) return;
+
+    const nextStep = this.getNextStep(design, step);
+    const { definition } = design;
+    definition.steps = definition.steps.filter(s => s !== step);
+    if (step.stepRef) {
+      delete design.steps[step.stepRef];
+    }
+
+    for (const other of definition.steps) {
+      if (this.getNextStep(design, other) === stepId) {
+        this.setNextStep(design, other, nextStep === stepId ? '' : nextStep);
+      }
+      if (other.overrides?.next) {
+        other.overrides.next = other.overrides.next.filter(transition => transition.goto !== stepId);
+      }
+      if (other.branches) {
+        other.branches = other.branches.filter(branch => branch !== stepId);
+      }
+
+      const stepConfig = this.getStepFile(design, other)?.stepConfig;
+      if (stepConfig?.sendBackTarget === stepId) {
+        stepConfig.sendBackTarget = undefined;
+        stepConfig.canSendBack = false;
+      }
+    }
+
+    delete definition.slaConfig?.stepSLAs?.[stepId];
+    for (const permissions of Object.values(definition.permissions || {})) {
+      if (permissions.canEditSteps) {
+        permissions.canEditSteps = permissions.canEditSteps.filter(id => id !== stepId);
+      }
+    }
+  }
+
+  /**
+   * Nodes laid out in columns by distance from the first step, with their edges
+   */
+  buildGraph(design: WorkflowDesign): DesignerGraph {
+    const steps = design.definition.steps;
+    const ids = steps.map(step => this.getStepId(step));
+    const edges = this.buildEdges(design);
+
+    // Terminal targets ("rejected", or "completed" without an inline step) become nodes of their own
+    const terminals = [...new Set(edges.map(edge => edge.to))]
+      .filter(id => !ids.includes(id) && TERMINAL_STEPS.includes(id));
+    const allIds = [...ids, ...terminals];
+
+    // Forward edges only, so loops back (send-backs, branch joins) don't push steps to the right
+    const columns = new Map<string, number>();
+    if (allIds.length) {
+      columns.set(allIds[0], 0);
+    }
+    const queue = allIds.length ? [allIds[0]] : [];
+    while (queue.length) {
+      const id = queue.shift()!;
+      for (const edge of edges.filter(e => e.from === id && e.kind !== 'sendBack')) {
+        if (!columns.has(edge.to) && allIds.includes(edge.to)) {
+          columns.set(edge.to, columns.get(id)! + 1);
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    const lastColumn = Math.max(0, ...columns.values());
+    const rows = new Map<number, number>();
+    const nodes = allIds.map((id, index): DesignerNode => {
+      const column = columns.get(id) ?? lastColumn + 1;
+      const row = rows.get(column) ?? 0;
+      rows.set(column, row + 1);
+
+      const step = steps[index];
+      const stepFile = step ? this.getStepFile(design, step) : null;
+      return {
+        id,
+        index: step ? index : -1,
+        label: stepFile?.name || step?.name || id,
+        actor: stepFile?.actor || step?.actor,
+        kind: !step ? 'terminal' : step.type === 'parallel' ? 'parallel' : step.type === 'system_action' ? 'system_action' : 'form',
+        x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+      };
+    });
+
+    return {
+      nodes,
+      edges: edges.filter(edge => allIds.includes(edge.to)),
+      width: PADDING * 2 + Math.max(...nodes.map(node => node.x), 0) + NODE_WIDTH,
+      height: PADDING * 2 + Math.max(...nodes.map(node => node.y), 0) + NODE_HEIGHT
+    };
+  }
+
+  /**
+   * Check the design with the same rules as `npm run validate:workflows`
+   */
+  validate(design: WorkflowDesign): Observable<WorkflowIssue[]> {
+    return this.validator.validateFiles({
+      definitionFile: this.getDefinitionPath(design),
+      definition: design.definition,
+      steps: design.steps
+    });
+  }
+
+  /**
+   * The definition and step files as they are stored under src/assets/forms
+   */
+  exportFiles(design: WorkflowDesign): ExportedFile[] {
+    const stepRefs = design.definition.steps
+      .map(step => step.stepRef)
+      .filter((stepRef): stepRef is string => !!stepRef);
+
+    return [
+      { path: this.getDefinitionPath(design), content: this.toJson(design.definition) },
+      ...stepRefs.map(stepRef => ({ path: `${stepRef}.json`, content: this.toJson(design.steps[stepRef]) }))
+    ];
+  }
+
+  getDefinitionPath(design: WorkflowDesign): string {
+    return `workflows/Definitions/${design.definition.certificationId}.json`;
+  }
+
+  private buildEdges(design: WorkflowDesign): DesignerEdge[] {
+    const edges: DesignerEdge[] = [];
+
+    for (const step of design.definition.steps) {
+      const from = this.getStepId(step);
+      const nextStep = this.getNextStep(design, step);
+
+      for (const transition of step.overrides?.next || []) {
+        edges.push({ from, to: transition.goto, kind: 'conditional', label: transition.when || 'otherwise' });
+      }
+      if (nextStep) {
+        edges.push({ from, to: nextStep, kind: 'next' });
+      }
+      for (const branch of step.branches || []) {
+        edges.push({ from, to: branch, kind: 'branch' });
+      }
+
+      const stepConfig = this.getStepFile(design, step)?.stepConfig;
+      if (stepConfig?.canSendBack && stepConfig.sendBackTarget) {
+        edges.push({ from, to: stepConfig.sendBackTarget, kind: 'sendBack' });
+      }
+    }
+
+    return edges;
+  }
+
+  private toDesign(bundle: WorkflowBundle): WorkflowDesign {
+    const steps: Record<string, StepDefinition> = {};
+
+    for (const [stepRef, stepFile] of Object.entries(bundle.steps)) {
+      const stepId = stepRef.split('/').pop()!;
+      steps[stepRef] = stepFile ?? { stepId, name: stepId, actor: '', fields: [], stepConfig: {} };
+    }
+
+    return { definition: bundle.definition, steps };
+  }
+
+  /**
+   * Folder new step files go in: next to the existing ones, or Steps/certificate_specific/{workflowCode}_new
+   */
+  private getStepFolder(design: WorkflowDesign): string {
+    const stepRef = design.definition.steps.find(step => step.stepRef)?.stepRef;
+    if (stepRef) {
+      return stepRef.slice(0, stepRef.lastIndexOf('/'));
+    }
+    return `workflows/Steps/certificate_specific/${design.definition.metadata?.workflowCode || 'NEW'}_new`;
+  }
+
+  private toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,156 @@
+import { TestBed } from '@angular/core/testing';
+import type { MockInstance } from 'vitest';
+import { ExpressionEvaluatorService } from './expression-evaluator.service';
+import { ExpressionSyntaxError } from './expression-parser';
+
+describe('ExpressionEvaluatorService', () => {
+  let service: ExpressionEvaluatorService;
+  let consoleError: MockInstance<typeof console.error>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ExpressionEvaluatorService);
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should evaluate against model, formState and locals', () => {
+    const model = { quantity: 3, price: 2.5, status: 'draft' };
+
+    expect(service.evaluateExpression('model.quantity * model.price', model)).toBe(7.5);
+    expect(service.evaluateExpression("model.status === 'draft' && !model.locked", model)).toBe(true);
+    expect(service.evaluateExpression('formState.role', model, { formState: { role: 'inspector' } })).toBe('inspector');
+    expect(service.evaluateExpression('quantity + 1', model, { locals: { quantity: 3 } })).toBe(4);
+  });
+
+  it('should read missing members as undefined instead of throwing', () => {
+    expect(service.evaluateExpression('model.address.city', {})).toBeUndefined();
+    expect(service.evaluateExpression("model.address?.city ?? 'none'", {})).toBe('none');
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should return false for an empty expression', () => {
+    expect(service.evaluateExpression('', {})).toBe(false);
+  });
+
+  describe('sandbox', () => {
+    it('should block prototype and constructor access', () => {
+      for (const expr of [
+        'model.constructor',
+        'model.__proto__',
+        "model['__proto__']",
+        "''.constructor",
+        'model.items.constructor',
+        'Math.prototype'
+      ]) {
+        expect(service.evaluateExpression(expr, { items: [] })).toBeUndefined();
+      }
+
+      expect(consoleError).toHaveBeenCalledWith(
+        'Invalid expression: Access to "constructor" is not allowed',
+        { expression: 'model.constructor' }
+      );
+    });
+
+    it('should not expose inherited properties of the model', () => {
+      const model = Object.create({ inherited: 'secret' });
+
+      expect(service.evaluateExpression('model.inherited', model)).toBeUndefined();
+      expect(service.evaluateExpression('model.toString', {})).toBeUndefined();
+    });
+
+    it('should only call whitelisted methods', () => {
+      const model = { name: ' Ada ', tags: ['a', 'b'], amount: 1.234, date: new Date('2024-05-06T00:00:00Z') };
+
+      expect(service.evaluateExpression('model.name.trim().toUpperCase()', model)).toBe('ADA');
+      expect(service.evaluateExpression("model.tags.join('-')", model)).toBe('a-b');
+      expect(service.evaluateExpression('model.amount.toFixed(1)', model)).toBe('1.2');
+      expect(service.evaluateExpression('model.date.getTime()', model)).toBe(model.date.getTime());
+
+      expect(service.evaluateExpression("model.tags.push('c')", model)).toBeUndefined();
+      expect(model.tags).toEqual(['a', 'b']);
+      expect(service.evaluateExpression('model.date.setFullYear(2000)', model)).toBeUndefined();
+      expect(service.evaluateExpression("model.name.constructor('x')", model)).toBeUndefined();
+      expect(consoleError).toHaveBeenCalledWith(
+        'Invalid expression: Method "push" is not allowed',
+        { expression: "model.tags.push('c')" }
+      );
+    });
+
+    it('should allow own functions of plain objects such as formState', () => {
+      const formState = { double: (value: number) => value * 2 };
+
+      expect(service.evaluateExpression('formState.double(4)', {}, { formState })).toBe(8);
+      expect(service.evaluateExpression('formState.missing?.(4)', {}, { formState })).toBeUndefined();
+      expect(consoleError).not.toHaveBeenCalled();
+    });
+
+    it('should expose the whitelisted functions, Math and Date', () => {
+      expect(service.evaluateExpression('isEmpty(model.list) && length(model.text) === 3', { list: [], text: 'abc' })).toBe(true);
+      expect(service.evaluateExpression("parseInt('42') + Number('1')", {})).toBe(43);
+      expect(service.evaluateExpression('Math.max(1, 5, 3)', {})).toBe(5);
+      expect(service.evaluateExpression("new Date('2024-01-02').getFullYear()", {})).toBe(2024);
+    });
+
+    it('should reject unknown identifiers, functions and constructors', () => {
+      expect(service.evaluateExpression('window', {})).toBeUndefined();
+      expect(service.evaluateExpression("Math.random()", {})).toBeUndefined();
+      expect(service.evaluateExpression("new Function('return 1')", {})).toBeUndefined();
+      expect(service.evaluateExpression('model()', {})).toBeUndefined();
+
+      const messages = consoleError.mock.calls.map(call => call[0]);
+      expect(messages).toEqual([
+        'Invalid expression: Unknown identifier "window"',
+        'Invalid expression: Method "random" is not allowed',
+        'Invalid expression: Constructor "Function" is not allowed',
+        'Invalid expression: Expression is not a callable function'
+      ]);
+    });
+  });
+
+  describe('errors', () => {
+    it('should report an error once per field and expression', () => {
+      service.evaluateExpression('model.a +', {}, { fieldKey: 'total' });
+      service.evaluateExpression('model.a +', {}, { fieldKey: 'total' });
+      service.evaluateExpression('model.a +', {}, { fieldKey: 'other' });
+
+      expect(consoleError).toHaveBeenCalledTimes(2);
+      expect(consoleError.mock.calls[0][0]).toContain('Invalid expression for field "total"');
+    });
+
+    it('should validate syntax without evaluating', () => {
+      expect(service.validateExpression('model.a > 1')).toBe(true);
+      expect(service.validateExpression('model.a >', 'age')).toBe(false);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('compile cache', () => {
+    it('should parse each expression once', () => {
+      const first = service.compile('model.a + 1');
+
+      expect(service.compile('model.a + 1')).toBe(first);
+      expect(service.compile('model.a + 2')).not.toBe(first);
+    });
+
+    it('should cache syntax errors too', () => {
+      let first: unknown;
+      let second: unknown;
+      try { service.compile('('); } catch (error) { first = error; }
+      try { service.compile('('); } catch (error) { second = error; }
+
+      expect(first).toBeInstanceOf(ExpressionSyntaxError);
+      expect(second).toBe(first);
+    });
+  });
+
+  it('should convert templateOptions expression properties to props', () => {
+    expect(service.evaluateExpressionProperties(
+      { 'templateOptions.disabled': 'model.locked', 'props.required': '!model.locked' },
+      { locked: true }
+    )).toEqual({ 'props.disabled': true, 'props.required': false });
+  });
+});
@@ -1,59 +1,148 @@
 import { Injectable } from '@angular/core';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { ExpressionNode, ExpressionSyntaxError, parseExpression } from './expression-parser';
+
+/**
+ * Values available to an expression besides `model`
+ */
+export interface ExpressionContext {
+  formState?: Record<string, any>;
+  field?: FormlyFieldConfig;
+  fieldKey?: string;
+  locals?: Record<string, any>;
+}
+
+/**
+ * Raised when a parsed expression uses something outside the sandbox
+ */
+export class ExpressionEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionEvaluationError';
+  }
+}
+
+// Properties that could reach outside the sandbox are never readable
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+// Methods that may be called on built-in values
+const STRING_METHODS = new Set([
+  'charAt', 'concat', 'endsWith', 'includes', 'indexOf', 'lastIndexOf', 'padEnd', 'padStart',
+  'replace', 'slice', 'split', 'startsWith', 'substring', 'toLowerCase', 'toString', 'toUpperCase',
+  'trim', 'trimEnd', 'trimStart'
+]);
+const ARRAY_METHODS = new Set(['concat', 'includes', 'indexOf', 'join', 'lastIndexOf', 'slice']);
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString']);
+const DATE_METHODS = new Set([
+  'getDate', 'getDay', 'getFullYear', 'getHours', 'getMinutes', 'getMonth', 'getTime',
+  'toDateString', 'toISOString', 'toLocaleDateString', 'toString'
+]);
+
+// Global functions callable by name
+const EXPRESSION_FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  Number: (value: any) => Number(value),
+  String: (value: any) => String(value ?? ''),
+  Boolean: (value: any) => Boolean(value),
+  parseInt: (value: any, radix?: number) => parseInt(value, radix ?? 10),
+  parseFloat: (value: any) => parseFloat(value),
+  isNaN: (value: any) => isNaN(value),
+  isEmpty: (value: any) =>
+    value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0),
+  length: (value: any) => (typeof value === 'string' || Array.isArray(value) ? value.length : 0),
+  today: () => new Date().toISOString().split('T')[0],
+  now: () => new Date().toISOString()
+};
+
+// Global objects exposing a fixed set of functions
+const EXPRESSION_NAMESPACES: Record<string, Record<string, (...args: any[]) => any>> = {
+  Math: {
+    abs: Math.abs,
+    ceil: Math.ceil,
+    floor: Math.floor,
+    max: Math.max,
+    min: Math.min,
+    round: Math.round
+  }
+};
+
+// Constructors allowed with `new`
+const EXPRESSION_CONSTRUCTORS: Record<string, (...args: any[]) => any> = {
+  Date: (...args: any[]) => new (Date as any)(...args)
+};
 
 /**
  * Service to evaluate dynamic expressions from JSON configurations
  * Handles hideExpression, expressionProperties, and other dynamic behaviors
+ *
+ * Expressions are parsed into an AST (see expression-parser.ts) and interpreted
+ * against `model`, `formState` and `field`. Only whitelisted functions, methods
+ * and constructors can be called, and member access is null-safe.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class ExpressionEvaluatorService {
+  private compiled = new Map<string, ExpressionNode | ExpressionSyntaxError>();
+  private reportedErrors = new Set<string>();
 
   /**
    * Evaluate expression strings from JSON config
    * @param expr - Expression string (e.g., "model.field === 'value'")
    * @param model - Current form model data
-   * @returns Evaluation result
+   * @param context - formState, the Formly field, the field key used in error reports
+   *                  and extra identifiers (locals) such as bare field names
+   * @returns Evaluation result, or undefined if the expression is invalid
    */
-  evaluateExpression(expr: string, model: any): any {
-    if (!expr || !model) return false;
+  evaluateExpression(expr: string, model: any, context: ExpressionContext = {}): any {
+    if (!expr) return false;
 
-    // Handle negation: !model.fieldName
-    if (expr.startsWith('!model.')) {
-      const fieldName = expr.substring(7);
-      return !model[fieldName];
-    }
-
-    // Handle inequality: model.field !== 'value'
-    const inequalityMatch = expr.match(/model\.(\w+)\s*!==\s*'([^']+)'/);
-    if (inequalityMatch) {
-      const [, fieldName, value] = inequalityMatch;
-      return model[fieldName] !== value;
+    try {
+      const ast = this.compile(expr);
+      return this.evaluate(ast, {
+        ...context.locals,
+        model: model ?? {},
+        formState: context.formState ?? {},
+        field: context.field
+      });
+    } catch (error) {
+      this.reportError(expr, error, context.fieldKey);
+      return undefined;
     }
+  }
 
-    // Handle equality: model.field === 'value'
-    const equalityMatch = expr.match(/model\.(\w+)\s*===\s*'([^']+)'/);
-    if (equalityMatch) {
-      const [, fieldName, value] = equalityMatch;
-      return model[fieldName] === value;
+  /**
+   * Parse an expression (cached)
+   * @throws ExpressionSyntaxError if the expression is malformed
+   */
+  compile(expr: string): ExpressionNode {
+    let entry = this.compiled.get(expr);
+    if (!entry) {
+      try {
+        entry = parseExpression(expr);
+      } catch (error) {
+        if (!(error instanceof ExpressionSyntaxError)) throw error;
+        entry = error;
+      }
+      this.compiled.set(expr, entry);
     }
 
-    // Handle ternary: model.field ? 'value1' : 'value2'
-    const ternaryMatch = expr.match(/model\.(\w+)\s*\?\s*'([^']+)'\s*:\s*'([^']+)'/);
-    if (ternaryMatch) {
-      const [, fieldName, trueValue, falseValue] = ternaryMatch;
-      return model[fieldName] ? trueValue : falseValue;
-    }
+    if (entry instanceof ExpressionSyntaxError) throw entry;
+    return entry;
+  }
 
-    // Handle array includes: model.field && ['A', 'B'].includes(model.field)
-    const includesMatch = expr.match(/model\.(\w+)\s*&&\s*\[([^\]]+)\]\.includes\(model\.\w+\)/);
-    if (includesMatch) {
-      const [, fieldName, arrayStr] = includesMatch;
-      const values = arrayStr.split(',').map(s => s.trim().replace(/'/g, ''));
-      return model[fieldName] && values.includes(model[fieldName]);
+  /**
+   * Check an expression without evaluating it
+   * Reports syntax errors against the field key and returns false when invalid
+   */
+  validateExpression(expr: string, fieldKey?: string): boolean {
+    try {
+      this.compile(expr);
+      return true;
+    } catch (error) {
+      this.reportError(expr, error, fieldKey);
+      return false;
     }
-
-    return false;
   }
 
   /**
@@ -62,15 +151,191 @@ export class ExpressionEvaluatorService {
    */
   evaluateExpressionProperties(
     expressionProperties: Record<string, string>,
-    model: any
+    model: any,
+    context: ExpressionContext = {}
   ): Record<string, any> {
     const result: Record<string, any> = {};
 
     for (const [prop, expr] of Object.entries(expressionProperties)) {
       const formlyProp = prop.replace('templateOptions.', 'props.');
-      result[formlyProp] = this.evaluateExpression(expr, model);
+      result[formlyProp] = this.evaluateExpression(expr, model, context);
     }
 
     return result;
   }
+
+  /**
+   * Interpret an AST node against the given scope
+   */
+  private evaluate(node: ExpressionNode, scope: Record<string, any>): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        if (Object.hasOwn(scope, node.name)) return scope[node.name];
+        if (Object.hasOwn(EXPRESSION_NAMESPACES, node.name)) return EXPRESSION_NAMESPACES[node.name];
+        if (Object.hasOwn(EXPRESSION_FUNCTIONS, node.name)) return EXPRESSION_FUNCTIONS[node.name];
+        throw new ExpressionEvaluationError(`Unknown identifier "${node.name}"`);
+
+      case 'array':
+        return node.elements.map(element => this.evaluate(element, scope));
+
+      case 'member': {
+        const object = this.evaluate(node.object, scope);
+        const property = this.evaluate(node.property, scope);
+        return this.readProperty(object, property);
+      }
+
+      case 'call':
+        return this.evaluateCall(node, scope);
+
+      case 'new': {
+        const constructor = Object.hasOwn(EXPRESSION_CONSTRUCTORS, node.callee)
+          ? EXPRESSION_CONSTRUCTORS[node.callee]
+          : undefined;
+        if (!constructor) {
+          throw new ExpressionEvaluationError(`Constructor "${node.callee}" is not allowed`);
+        }
+        return constructor(...node.args.map(arg => this.evaluate(arg, scope)));
+      }
+
+      case 'unary': {
+        const value = this.evaluate(node.argument, scope);
+        if (node.operator === '!') return !value;
+        if (node.operator === '-') return -value;
+        return +value;
+      }
+
+      case 'logical': {
+        const left = this.evaluate(node.left, scope);
+        if (node.operator === '&&') return left && this.evaluate(node.right, scope);
+        if (node.operator === '||') return left || this.evaluate(node.right, scope);
+        return left ?? this.evaluate(node.right, scope);
+      }
+
+      case 'binary':
+        return this.applyBinary(
+          node.operator,
+          this.evaluate(node.left, scope),
+          this.evaluate(node.right, scope)
+        );
+
+      case 'conditional':
+        return this.evaluate(node.test, scope)
+          ? this.evaluate(node.consequent, scope)
+          : this.evaluate(node.alternate, scope);
+    }
+  }
+
+  /**
+   * Call a whitelisted function or method
+   */
+  private evaluateCall(node: Extract<ExpressionNode, { kind: 'call' }>, scope: Record<string, any>): any {
+    const args = () => node.args.map(arg => this.evaluate(arg, scope));
+
+    // Method call: target.method(...)
+    if (node.callee.kind === 'member') {
+      const target = this.evaluate(node.callee.object, scope);
+      const name = this.evaluate(node.callee.property, scope);
+      if (target === null || target === undefined) return undefined;
+
+      const method = this.resolveMethod(target, String(name));
+      if (!method) {
+        if (node.optional) return undefined;
+        throw new ExpressionEvaluationError(`Method "${name}" is not allowed`);
+      }
+      return method.apply(target, args());
+    }
+
+    // Plain call: function(...)
+    const fn = this.evaluate(node.callee, scope);
+    if (typeof fn !== 'function') {
+      if (node.optional && (fn === null || fn === undefined)) return undefined;
+      throw new ExpressionEvaluationError('Expression is not a callable function');
+    }
+    return fn(...args());
+  }
+
+  /**
+   * Resolve a method that may be called on a value
+   * Built-in values expose a fixed whitelist; plain objects (e.g. formState)
+   * expose only their own function properties.
+   */
+  private resolveMethod(target: any, name: string): ((...args: any[]) => any) | null {
+    if (BLOCKED_PROPERTIES.has(name)) return null;
+
+    if (typeof target === 'string' && STRING_METHODS.has(name)) return (String.prototype as any)[name];
+    if (typeof target === 'number' && NUMBER_METHODS.has(name)) return (Number.prototype as any)[name];
+    if (Array.isArray(target)) return ARRAY_METHODS.has(name) ? (Array.prototype as any)[name] : null;
+    if (target instanceof Date) return DATE_METHODS.has(name) ? (Date.prototype as any)[name] : null;
+
+    if (typeof target === 'object' && Object.hasOwn(target, name)) {
+      const value = target[name];
+      return typeof value === 'function' ? value : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a property; missing objects yield undefined instead of throwing
+   */
+  private readProperty(object: any, property: any): any {
+    if (object === null || object === undefined) return undefined;
+
+    const name = String(property);
+    if (BLOCKED_PROPERTIES.has(name)) {
+      throw new ExpressionEvaluationError(`Access to "${name}" is not allowed`);
+    }
+
+    if ((typeof object === 'string' || Array.isArray(object)) && name === 'length') {
+      return object.length;
+    }
+    if (typeof object === 'string') {
+      return object[Number(property)];
+    }
+    if (typeof object === 'object' && Object.hasOwn(object, name)) {
+      return object[name];
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply a binary operator
+   */
+  private applyBinary(operator: string, left: any, right: any): any {
+    switch (operator) {
+      case '===': return left === right;
+      case '!==': return left !== right;
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      default:
+        throw new ExpressionEvaluationError(`Unsupported operator "${operator}"`);
+    }
+  }
+
+  /**
+   * Report an expression failure once per field and expression
+   */
+  private reportError(expr: string, error: unknown, fieldKey?: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const reportKey = `${fieldKey ?? ''}|${expr}|${message}`;
+    if (this.reportedErrors.has(reportKey)) return;
+
+    this.reportedErrors.add(reportKey);
+    console.error(
+      `Invalid expression${fieldKey ? ` for field "${fieldKey}"` : ''}: ${message}`,
+      { expression: expr }
+    );
+  }
 }
@@ -0,0 +1,116 @@
+import { ExpressionSyntaxError, parseExpression } from './expression-parser';
+
+describe('parseExpression', () => {
+  it('should parse member access and literals', () => {
+    expect(parseExpression("model.status === 'approved'")).toEqual({
+      kind: 'binary',
+      operator: '===',
+      left: {
+        kind: 'member',
+        object: { kind: 'identifier', name: 'model' },
+        property: { kind: 'literal', value: 'status' },
+        computed: false,
+        optional: false
+      },
+      right: { kind: 'literal', value: 'approved' }
+    });
+  });
+
+  it('should bind multiplication tighter than addition and comparison', () => {
+    const ast = parseExpression('1 + 2 * 3 > 6');
+
+    expect(ast).toMatchObject({
+      kind: 'binary',
+      operator: '>',
+      left: {
+        kind: 'binary',
+        operator: '+',
+        left: { kind: 'literal', value: 1 },
+        right: { kind: 'binary', operator: '*' }
+      },
+      right: { kind: 'literal', value: 6 }
+    });
+  });
+
+  it('should parse &&, || and ?? as logical nodes', () => {
+    expect(parseExpression('a || b && c')).toMatchObject({
+      kind: 'logical',
+      operator: '||',
+      right: { kind: 'logical', operator: '&&' }
+    });
+    expect(parseExpression('a ?? b')).toMatchObject({ kind: 'logical', operator: '??' });
+  });
+
+  it('should parse nested conditionals', () => {
+    expect(parseExpression('a ? b : c ? d : e')).toMatchObject({
+      kind: 'conditional',
+      test: { kind: 'identifier', name: 'a' },
+      alternate: { kind: 'conditional' }
+    });
+  });
+
+  it('should parse optional chaining on members and calls', () => {
+    expect(parseExpression('model?.items?.[0]')).toMatchObject({
+      kind: 'member',
+      computed: true,
+      optional: true,
+      object: { kind: 'member', optional: true }
+    });
+    expect(parseExpression('formState.lookup?.(1)')).toMatchObject({ kind: 'call', optional: true });
+  });
+
+  it('should treat "?." before a digit as a ternary with a decimal', () => {
+    expect(parseExpression('a?.5:1')).toMatchObject({
+      kind: 'conditional',
+      consequent: { kind: 'literal', value: 0.5 }
+    });
+  });
+
+  it('should parse keyword literals, arrays and new', () => {
+    expect(parseExpression('[true, false, null]')).toEqual({
+      kind: 'array',
+      elements: [
+        { kind: 'literal', value: true },
+        { kind: 'literal', value: false },
+        { kind: 'literal', value: null }
+      ]
+    });
+    expect(parseExpression("new Date('2024-01-01')")).toEqual({
+      kind: 'new',
+      callee: 'Date',
+      args: [{ kind: 'literal', value: '2024-01-01' }]
+    });
+  });
+
+  it('should unescape quoted strings', () => {
+    expect(parseExpression("'it\\'s\\n'")).toEqual({ kind: 'literal', value: "it's\n" });
+  });
+
+  it('should report syntax errors with their position', () => {
+    const cases: [string, string, number][] = [
+      ['', 'Empty expression', 0],
+      ["'open", 'Unterminated string literal', 0],
+      ['a # b', 'Unexpected character "#"', 2],
+      ['a +', 'Unexpected end of expression', 3],
+      ['(a', 'Expected ")"', 2],
+      ['a b', 'Unexpected token "b"', 2],
+      ['model.', 'Expected property name', 6],
+      ['1.2.3', 'Invalid number "1.2.3"', 0],
+      ['new 5', 'Expected constructor name after "new"', 4]
+    ];
+
+    for (const [expression, message, position] of cases) {
+      let error: unknown;
+      try {
+        parseExpression(expression);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ExpressionSyntaxError);
+      expect((error as ExpressionSyntaxError).message).toContain(message);
+      expect((error as ExpressionSyntaxError).position).toBe(position);
+      expect((error as ExpressionSyntaxError).expression).toBe(expression);
+    }
+  });
+});
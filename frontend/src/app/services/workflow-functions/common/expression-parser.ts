@@ -0,0 +1,324 @@
+/**
+ * Tokenizer and parser for the JSON expression language
+ * Used by hideExpression, expressionProperties and other dynamic behaviors.
+ * Produces an AST that ExpressionEvaluatorService interprets - nothing here uses eval.
+ */
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'array'; elements: ExpressionNode[] }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean }
+  | { kind: 'call'; callee: ExpressionNode; args: ExpressionNode[]; optional: boolean }
+  | { kind: 'new'; callee: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: '!' | '-' | '+'; argument: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'logical'; operator: '&&' | '||' | '??'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+/**
+ * Raised when an expression string cannot be tokenized or parsed
+ */
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public readonly expression: string, public readonly position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+// Longest operators first so the tokenizer is greedy
+const OPERATORS = [
+  '===', '!==', '?.', '??', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':'
+];
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+const KEYWORD_LITERALS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+// Binary operator precedence (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+/**
+ * Parse an expression string into an AST
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  return new Parser(expression).parse();
+}
+
+/**
+ * Split an expression string into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers (integers and decimals)
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] ?? ''))) {
+      const start = i;
+      while (i < expression.length && /[0-9.]/.test(expression[i])) i++;
+      tokens.push({ type: 'number', value: expression.slice(start, i), position: start });
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const start = i;
+      while (i < expression.length && /[A-Za-z0-9_$]/.test(expression[i])) i++;
+      tokens.push({ type: 'identifier', value: expression.slice(start, i), position: start });
+      continue;
+    }
+
+    // Single or double quoted strings
+    if (char === '\'' || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) {
+          i++;
+          const escaped = expression[i];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          value += expression[i];
+        }
+        i++;
+      }
+      if (i >= expression.length) {
+        throw new ExpressionSyntaxError('Unterminated string literal', expression, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // `?.` followed by a digit is a ternary with a decimal, not optional chaining
+    const operator = OPERATORS.find(op =>
+      expression.startsWith(op, i) && !(op === '?.' && /[0-9]/.test(expression[i + 2] ?? ''))
+    );
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, expression, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser with precedence climbing for binary operators
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionSyntaxError('Empty expression', this.expression, 0);
+    }
+    const node = this.parseConditional();
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected token "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(1);
+    if (!this.match('operator', '?')) return test;
+
+    const consequent = this.parseConditional();
+    this.expect('operator', ':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = token.value === '&&' || token.value === '||' || token.value === '??'
+        ? { kind: 'logical', operator: token.value, left, right }
+        : { kind: 'binary', operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.index++;
+      return { kind: 'unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    while (true) {
+      if (this.match('punctuation', '.')) {
+        node = { kind: 'member', object: node, property: this.parsePropertyName(), computed: false, optional: false };
+      } else if (this.match('operator', '?.')) {
+        if (this.match('punctuation', '(')) {
+          node = { kind: 'call', callee: node, args: this.parseArguments(), optional: true };
+        } else if (this.match('punctuation', '[')) {
+          const property = this.parseConditional();
+          this.expect('punctuation', ']');
+          node = { kind: 'member', object: node, property, computed: true, optional: true };
+        } else {
+          node = { kind: 'member', object: node, property: this.parsePropertyName(), computed: false, optional: true };
+        }
+      } else if (this.match('punctuation', '[')) {
+        const property = this.parseConditional();
+        this.expect('punctuation', ']');
+        node = { kind: 'member', object: node, property, computed: true, optional: false };
+      } else if (this.match('punctuation', '(')) {
+        node = { kind: 'call', callee: node, args: this.parseArguments(), optional: false };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number': {
+        this.index++;
+        const value = Number(token.value);
+        if (isNaN(value)) this.fail(`Invalid number "${token.value}"`, token);
+        return { kind: 'literal', value };
+      }
+      case 'string':
+        this.index++;
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        this.index++;
+        if (Object.hasOwn(KEYWORD_LITERALS, token.value)) {
+          return { kind: 'literal', value: KEYWORD_LITERALS[token.value] };
+        }
+        if (token.value === 'new') {
+          return this.parseNew();
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'punctuation':
+        if (this.match('punctuation', '(')) {
+          const inner = this.parseConditional();
+          this.expect('punctuation', ')');
+          return inner;
+        }
+        if (this.match('punctuation', '[')) {
+          return { kind: 'array', elements: this.parseList(']') };
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected token "${token.value}"`, token);
+  }
+
+  private parseNew(): ExpressionNode {
+    const callee = this.peek();
+    if (callee.type !== 'identifier') {
+      this.fail('Expected constructor name after "new"', callee);
+    }
+    this.index++;
+    const args = this.match('punctuation', '(') ? this.parseArguments() : [];
+    return { kind: 'new', callee: callee.value, args };
+  }
+
+  private parsePropertyName(): ExpressionNode {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail('Expected property name', token);
+    }
+    this.index++;
+    return { kind: 'literal', value: token.value };
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    return this.parseList(')');
+  }
+
+  private parseList(closing: ')' | ']'): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.match('punctuation', closing)) return items;
+
+    do {
+      items.push(this.parseConditional());
+    } while (this.match('punctuation', ','));
+
+    this.expect('punctuation', closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private match(type: TokenType, value: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: TokenType, value: string): void {
+    if (!this.match(type, value)) {
+      this.fail(`Expected "${value}"`);
+    }
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new ExpressionSyntaxError(message, this.expression, token.position);
+  }
+}
@@ -2,7 +2,8 @@ import { Injectable, inject } from '@angular/core';
 import { FormlyFieldConfig } from '@ngx-formly/core';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
-import { ExpressionEvaluatorService } from './expression-evaluator.service';
+import { ExpressionEvaluatorService, ExpressionContext } from './expression-evaluator.service';
+import { FieldValidatorRegistryService } from './field-validator-registry.service';
 
 /**
  * Service to convert JSON field definitions to Formly field configurations
@@ -13,13 +14,13 @@ import { ExpressionEvaluatorService } from './expression-evaluator.service';
 })
 export class FieldConverterService {
   private expressionEvaluator = inject(ExpressionEvaluatorService);
-  private requiredCategories: string[] = [];
+  private validatorRegistry = inject(FieldValidatorRegistryService);
 
   /**
    * Set required categories for validation
    */
   setRequiredCategories(categories: string[]): void {
-    this.requiredCategories = categories;
+    this.validatorRegistry.setRequiredCategories(categories);
   }
 
   /**
@@ -32,7 +33,7 @@ export class FieldConverterService {
   /**
    * Convert a JSON field definition to a Formly field config
    */
-  convertToFormlyField(field: any, allFields?: FormlyFieldConfig[]): FormlyFieldConfig {
+  convertToFormlyField(field: any): FormlyFieldConfig {
     // Check if field has inline options defined
     const hasInlineOptions = field.templateOptions.options && field.templateOptions.options.length > 0;
 
@@ -50,7 +51,8 @@ export class FieldConverterService {
         disabled: field.templateOptions.disabled || false
       },
       expressions: {},
-      validators: {}
+      validators: {},
+      asyncValidators: {}
     };
 
     // Handle field-specific properties
@@ -58,23 +60,52 @@ export class FieldConverterService {
 
     // Handle hideExpression dynamically
     if (field.hideExpression) {
+      this.expressionEvaluator.validateExpression(field.hideExpression, field.key);
       formlyField.expressions!['hide'] = (fld: FormlyFieldConfig) => {
-        return this.expressionEvaluator.evaluateExpression(field.hideExpression, fld.model);
+        return this.expressionEvaluator.evaluateExpression(
+          field.hideExpression,
+          fld.model,
+          this.getExpressionContext(fld, field.key)
+        );
       };
     }
 
     // Handle expression properties dynamically
     if (field.expressionProperties) {
       for (const [prop, expr] of Object.entries(field.expressionProperties)) {
+        // Templates are rendered by the table/html types, not evaluated
+        if (prop === 'template') continue;
+
+        this.expressionEvaluator.validateExpression(expr as string, field.key);
+
+        // Computed model assignment (e.g. "model.inspectorName": "formState.currentUser")
+        // Formly writes the result into the model; an invalid result keeps the current value
+        if (prop.startsWith('model.')) {
+          const modelPath = prop.substring('model.'.length);
+          formlyField.expressions![prop] = (fld: FormlyFieldConfig) => {
+            const value = this.expressionEvaluator.evaluateExpression(
+              expr as string,
+              fld.model,
+              this.getExpressionContext(fld, field.key)
+            );
+            return value === undefined ? this.readModelPath(fld.model, modelPath) : value;
+          };
+          continue;
+        }
+
         const formlyProp = prop.replace('templateOptions.', 'props.');
         formlyField.expressions![formlyProp] = (fld: FormlyFieldConfig) => {
-          return this.expressionEvaluator.evaluateExpression(expr as string, fld.model);
+          return this.expressionEvaluator.evaluateExpression(
+            expr as string,
+            fld.model,
+            this.getExpressionContext(fld, field.key)
+          );
         };
       }
     }
 
     // Handle validators
-    this.applyValidators(formlyField, field, allFields);
+    this.applyValidators(formlyField, field);
 
     // Handle validation messages
     if (field.validation?.messages) {
@@ -84,6 +115,24 @@ export class FieldConverterService {
     return formlyField;
   }
 
+  /**
+   * Build the expression context for a rendered field
+   */
+  private getExpressionContext(fld: FormlyFieldConfig, fieldKey: string): ExpressionContext {
+    return {
+      formState: fld.options?.formState,
+      field: fld,
+      fieldKey
+    };
+  }
+
+  /**
+   * Read a dotted path (e.g. "a.b") from the model
+   */
+  private readModelPath(model: any, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], model);
+  }
+
   /**
    * Map JSON field type to Formly type
    */
@@ -201,34 +250,31 @@ export class FieldConverterService {
   }
 
   /**
-   * Apply validators to a field
+   * Apply named validators from the validator registry
+   * Entries are names ("positiveNumber") or objects with params ({ "name": "range", "min": 1 })
    */
-  private applyValidators(
-    formlyField: FormlyFieldConfig,
-    field: any,
-    allFields?: FormlyFieldConfig[]
-  ): void {
+  private applyValidators(formlyField: FormlyFieldConfig, field: any): void {
     if (!field.validators?.validation) return;
 
-    field.validators.validation.forEach((validatorName: string) => {
-      if (validatorName === 'positiveNumber') {
-        formlyField.validators!['positiveNumber'] = {
-          expression: (c: any) => {
-            if (!c.value && c.value !== 0) return true;
-            const value = parseFloat(c.value);
-            return !isNaN(value) && value >= 0;
-          },
-          message: field.validation?.messages?.positiveNumber || 'Value must be a positive number'
-        };
+    field.validators.validation.forEach((entry: string | Record<string, any>) => {
+      const { name, ...params } = typeof entry === 'string' ? { name: entry } : entry;
+      const validator = this.validatorRegistry.get(name);
+      if (!validator) {
+        console.warn(`Unknown validator "${name}" on field "${field.key}"`);
+        return;
       }
 
-      if (validatorName === 'requiredIfCategory') {
-        formlyField.validators!['requiredIfCategory'] = {
-          expression: (c: any, fld: FormlyFieldConfig) => {
-            const firstFieldValue = fld.model?.[allFields?.[0]?.key as string];
-            return !(firstFieldValue && this.requiredCategories.includes(firstFieldValue)) || !!c.value;
-          },
-          message: field.validation?.messages?.requiredIfCategory || 'This field is required for the selected category'
+      const message = field.validation?.messages?.[name] || this.validatorRegistry.getMessage(validator, params);
+
+      if (validator.validateAsync) {
+        formlyField.asyncValidators![name] = {
+          expression: (c: any, fld: FormlyFieldConfig) => validator.validateAsync!(c.value, params, fld),
+          message
+        };
+      } else if (validator.validate) {
+        formlyField.validators![name] = {
+          expression: (c: any, fld: FormlyFieldConfig) => validator.validate!(c.value, params, fld),
+          message
         };
       }
     });
@@ -242,13 +288,11 @@ export class FieldConverterService {
     destroy$: Subject<void>,
     changeHandler: (key: string, value: any, hookName: string) => void
   ): any {
-    if (!field.hooks?.onChanges) return undefined;
-
     return {
       onInit: (fld: FormlyFieldConfig) => {
         fld.formControl?.valueChanges
           .pipe(takeUntil(destroy$))
-          .subscribe(value => changeHandler(field.key, value, field.hooks.onChanges));
+          .subscribe(value => changeHandler(field.key, value, field.hooks?.onChanges ?? ''));
       }
     };
   }
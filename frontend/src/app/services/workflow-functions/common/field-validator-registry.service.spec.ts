@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { inject } from '@angular/core';
+import { of } from 'rxjs';
+import { BrandService } from '../../brand.service';
+import { FieldValidatorRegistryService, provideFieldValidators } from './field-validator-registry.service';
+import { FieldValidatorDefinition } from './field-validators';
+
+describe('FieldValidatorRegistryService', () => {
+  const setup = (...providers: any[]) => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: BrandService, useValue: { getBrands: () => of([]) } },
+        ...providers
+      ]
+    });
+    return TestBed.inject(FieldValidatorRegistryService);
+  };
+
+  it('should register the built-in validators', () => {
+    const registry = setup();
+
+    expect(registry.getRegisteredNames()).toEqual([
+      'positiveNumber',
+      'range',
+      'dateNotInFuture',
+      'matchesField',
+      'saudiCR',
+      'arabicTextOnly',
+      'requiredIfCategory',
+      'uniqueBrandName'
+    ]);
+  });
+
+  it('should add validators and factories provided through FIELD_VALIDATORS', () => {
+    const evenValidator: FieldValidatorDefinition = {
+      name: 'even',
+      message: 'Value must be even',
+      validate: value => Number(value) % 2 === 0
+    };
+
+    const registry = setup(provideFieldValidators(evenValidator, () => ({
+      name: 'brandAware',
+      message: `Checked by ${inject(BrandService) ? 'BrandService' : 'nothing'}`
+    })));
+
+    expect(registry.get('even')).toBe(evenValidator);
+    expect(registry.getMessage(registry.get('brandAware')!, {})).toBe('Checked by BrandService');
+  });
+
+  it('should let provided validators replace built-ins', () => {
+    const strictRange: FieldValidatorDefinition = { name: 'range', message: 'Out of range' };
+
+    const registry = setup(provideFieldValidators(strictRange));
+
+    expect(registry.get('range')).toBe(strictRange);
+  });
+
+  it('should resolve messages that depend on params', () => {
+    const registry = setup();
+
+    expect(registry.getMessage(registry.get('range')!, { min: 1, max: 3 })).toBe('Value must be between 1 and 3');
+    expect(registry.getMessage(registry.get('saudiCR')!, {})).toBe('Commercial Registration number must be 10 digits');
+  });
+
+  it('should check requiredIfCategory against the categories set on the registry', () => {
+    const registry = setup();
+    const validator = registry.get('requiredIfCategory')!;
+    const field = { model: { category: 'batteries' } };
+
+    expect(validator.validate!('', { categoryField: 'category' }, field)).toBe(true);
+
+    registry.setRequiredCategories(['batteries']);
+
+    expect(validator.validate!('', { categoryField: 'category' }, field)).toBe(false);
+  });
+});
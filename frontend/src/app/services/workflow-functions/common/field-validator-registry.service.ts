@@ -0,0 +1,97 @@
+import { Injectable, InjectionToken, Provider, inject } from '@angular/core';
+import { BrandService } from '../../brand.service';
+import {
+  FieldValidatorDefinition,
+  arabicTextOnlyValidator,
+  createRequiredIfCategoryValidator,
+  createUniqueBrandNameValidator,
+  dateNotInFutureValidator,
+  matchesFieldValidator,
+  positiveNumberValidator,
+  rangeValidator,
+  saudiCRValidator
+} from './field-validators';
+
+/**
+ * Multi-provider token for additional named validators
+ */
+export const FIELD_VALIDATORS = new InjectionToken<FieldValidatorDefinition[]>('FIELD_VALIDATORS');
+
+/**
+ * Register named validators through DI, e.g. in app.config.ts:
+ * provideFieldValidators(myValidator, () => createValidator(inject(MyService)))
+ * Factories run in an injection context so they can inject services.
+ */
+export function provideFieldValidators(
+  ...validators: (FieldValidatorDefinition | (() => FieldValidatorDefinition))[]
+): Provider[] {
+  return validators.map(validator => ({
+    provide: FIELD_VALIDATORS,
+    useFactory: typeof validator === 'function' ? validator : () => validator,
+    multi: true
+  }));
+}
+
+/**
+ * Registry of named validators used by FieldConverterService
+ * Holds the built-in validators plus any provided through FIELD_VALIDATORS
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FieldValidatorRegistryService {
+  private brandService = inject(BrandService);
+  private validators = new Map<string, FieldValidatorDefinition>();
+  private requiredCategories: string[] = [];
+
+  constructor() {
+    [
+      positiveNumberValidator,
+      rangeValidator,
+      dateNotInFutureValidator,
+      matchesFieldValidator,
+      saudiCRValidator,
+      arabicTextOnlyValidator,
+      createRequiredIfCategoryValidator(() => this.requiredCategories),
+      createUniqueBrandNameValidator(() => this.brandService.getBrands())
+    ].forEach(validator => this.register(validator));
+
+    // Provided validators may replace built-ins with the same name
+    (inject(FIELD_VALIDATORS, { optional: true }) ?? []).forEach(validator => this.register(validator));
+  }
+
+  /**
+   * Register a validator, replacing any existing one with the same name
+   */
+  register(validator: FieldValidatorDefinition): void {
+    this.validators.set(validator.name, validator);
+  }
+
+  /**
+   * Get a validator by name
+   */
+  get(name: string): FieldValidatorDefinition | undefined {
+    return this.validators.get(name);
+  }
+
+  /**
+   * Resolve a validator's default message for the given params
+   */
+  getMessage(validator: FieldValidatorDefinition, params: Record<string, any>): string {
+    return typeof validator.message === 'function' ? validator.message(params) : validator.message;
+  }
+
+  /**
+   * Set the categories used by requiredIfCategory
+   */
+  setRequiredCategories(categories: string[]): void {
+    this.requiredCategories = categories;
+  }
+
+  /**
+   * Get all registered validator names
+   */
+  getRegisteredNames(): string[] {
+    return Array.from(this.validators.keys());
+  }
+}
@@ -0,0 +1,123 @@
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { of, throwError } from 'rxjs';
+import { Brand } from '../../brand.service';
+import {
+  arabicTextOnlyValidator,
+  createRequiredIfCategoryValidator,
+  createUniqueBrandNameValidator,
+  dateNotInFutureValidator,
+  matchesFieldValidator,
+  positiveNumberValidator,
+  rangeValidator,
+  saudiCRValidator
+} from './field-validators';
+
+const field: FormlyFieldConfig = {};
+
+describe('field validators', () => {
+  it('positiveNumber should accept empty values, zero and positive numbers', () => {
+    const validate = (value: any) => positiveNumberValidator.validate!(value, {}, field);
+
+    expect(validate('')).toBe(true);
+    expect(validate(0)).toBe(true);
+    expect(validate('12.5')).toBe(true);
+    expect(validate(-1)).toBe(false);
+    expect(validate('abc')).toBe(false);
+  });
+
+  it('range should check either bound and describe them in its message', () => {
+    const validate = (value: any, params: Record<string, any>) => rangeValidator.validate!(value, params, field);
+    const message = rangeValidator.message as (params: Record<string, any>) => string;
+
+    expect(validate('', { min: 1 })).toBe(true);
+    expect(validate('3', { min: 1, max: 5 })).toBe(true);
+    expect(validate(0, { min: 1 })).toBe(false);
+    expect(validate(9, { max: 5 })).toBe(false);
+    expect(validate('x', { min: 1 })).toBe(false);
+
+    expect(message({ min: 1, max: 5 })).toBe('Value must be between 1 and 5');
+    expect(message({ min: 1 })).toBe('Value must be at least 1');
+    expect(message({ max: 5 })).toBe('Value must be at most 5');
+  });
+
+  it('dateNotInFuture should reject future and invalid dates', () => {
+    const validate = (value: any) => dateNotInFutureValidator.validate!(value, {}, field);
+    const tomorrow = new Date(Date.now() + 86_400_000).toISOString();
+
+    expect(validate('')).toBe(true);
+    expect(validate(new Date().toISOString())).toBe(true);
+    expect(validate('2020-01-01')).toBe(true);
+    expect(validate(tomorrow)).toBe(false);
+    expect(validate('not a date')).toBe(false);
+  });
+
+  it('matchesField should compare with another field of the model', () => {
+    const confirm: FormlyFieldConfig = { model: { email: 'a@example.com' } };
+
+    expect(matchesFieldValidator.validate!('a@example.com', { field: 'email' }, confirm)).toBe(true);
+    expect(matchesFieldValidator.validate!('b@example.com', { field: 'email' }, confirm)).toBe(false);
+    expect(matchesFieldValidator.validate!('', { field: 'email' }, confirm)).toBe(true);
+  });
+
+  it('saudiCR should accept ten digits, including Arabic-Indic digits', () => {
+    const validate = (value: any) => saudiCRValidator.validate!(value, {}, field);
+
+    expect(validate('1010123456')).toBe(true);
+    expect(validate(' ١٠١٠١٢٣٤٥٦ ')).toBe(true);
+    expect(validate('101012345')).toBe(false);
+    expect(validate('10101234ab')).toBe(false);
+  });
+
+  it('arabicTextOnly should reject Latin letters', () => {
+    const validate = (value: any) => arabicTextOnlyValidator.validate!(value, {}, field);
+
+    expect(validate('شركة المثال 2')).toBe(true);
+    expect(validate('Example')).toBe(false);
+  });
+
+  it('requiredIfCategory should require a value only for the required categories', () => {
+    const validator = createRequiredIfCategoryValidator(() => ['batteries']);
+    const withCategory = (category: string): FormlyFieldConfig => ({ model: { productCategory: category } });
+
+    expect(validator.validate!('', { categoryField: 'productCategory' }, withCategory('toys'))).toBe(true);
+    expect(validator.validate!('', { categoryField: 'productCategory' }, withCategory('batteries'))).toBe(false);
+    expect(validator.validate!('x', { categoryField: 'productCategory' }, withCategory('batteries'))).toBe(true);
+  });
+
+  describe('uniqueBrandName', () => {
+    const brands: Brand[] = [
+      { id: '1', nameEn: 'Samsung', nameAr: 'سامسونج', attachments: [] },
+      { id: '2', nameEn: 'Sony', nameAr: 'سوني', attachments: [] }
+    ];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const check = (validator: ReturnType<typeof createUniqueBrandNameValidator>, value: any, params = {}) => {
+      let result: boolean | undefined;
+      validator.validateAsync!(value, params, field).subscribe(valid => result = valid);
+      vi.advanceTimersByTime(400);
+      return result;
+    };
+
+    it('should reject names that exist in English or Arabic, ignoring case', () => {
+      const validator = createUniqueBrandNameValidator(() => of(brands));
+
+      expect(check(validator, ' samsung ')).toBe(false);
+      expect(check(validator, 'سوني')).toBe(false);
+      expect(check(validator, 'Apple')).toBe(true);
+      expect(check(validator, 'Samsung', { excludeId: '1' })).toBe(true);
+    });
+
+    it('should pass when the brands cannot be loaded', () => {
+      const validator = createUniqueBrandNameValidator(() => throwError(() => new Error('offline')));
+
+      expect(check(validator, 'Samsung')).toBe(true);
+    });
+  });
+});
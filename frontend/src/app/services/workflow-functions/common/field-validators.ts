@@ -0,0 +1,131 @@
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { Observable, of, timer } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { Brand } from '../../brand.service';
+
+/**
+ * A named validator that fields can reference from JSON
+ * e.g. "validation": ["positiveNumber", { "name": "range", "min": 1, "max": 5 }]
+ * Anything besides `name` in the JSON entry is passed as `params`.
+ */
+export interface FieldValidatorDefinition {
+  name: string;
+  message: string | ((params: Record<string, any>) => string);
+  validate?(value: any, params: Record<string, any>, field: FormlyFieldConfig): boolean;
+  validateAsync?(value: any, params: Record<string, any>, field: FormlyFieldConfig): Observable<boolean>;
+}
+
+const isEmpty = (value: any) => value === null || value === undefined || value === '';
+
+// Arabic-Indic digits are accepted wherever digits are expected
+const toLatinDigits = (value: string) =>
+  value.replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660));
+
+export const positiveNumberValidator: FieldValidatorDefinition = {
+  name: 'positiveNumber',
+  message: 'Value must be a positive number',
+  validate: (value) => {
+    if (!value && value !== 0) return true;
+    const number = parseFloat(value);
+    return !isNaN(number) && number >= 0;
+  }
+};
+
+/**
+ * { "name": "range", "min": 1, "max": 5 } - either bound may be omitted
+ */
+export const rangeValidator: FieldValidatorDefinition = {
+  name: 'range',
+  message: ({ min, max }) => {
+    if (min !== undefined && max !== undefined) return `Value must be between ${min} and ${max}`;
+    return min !== undefined ? `Value must be at least ${min}` : `Value must be at most ${max}`;
+  },
+  validate: (value, { min, max }) => {
+    if (isEmpty(value)) return true;
+    const number = Number(value);
+    if (isNaN(number)) return false;
+    return (min === undefined || number >= min) && (max === undefined || number <= max);
+  }
+};
+
+export const dateNotInFutureValidator: FieldValidatorDefinition = {
+  name: 'dateNotInFuture',
+  message: 'Date cannot be in the future',
+  validate: (value) => {
+    if (isEmpty(value)) return true;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return false;
+    return date.toISOString().split('T')[0] <= new Date().toISOString().split('T')[0];
+  }
+};
+
+/**
+ * { "name": "matchesField", "field": "email" }
+ */
+export const matchesFieldValidator: FieldValidatorDefinition = {
+  name: 'matchesField',
+  message: ({ field }) => `Value must match ${field}`,
+  validate: (value, params, field) => isEmpty(value) || value === field.model?.[params['field']]
+};
+
+/**
+ * Saudi Commercial Registration number: 10 digits
+ */
+export const saudiCRValidator: FieldValidatorDefinition = {
+  name: 'saudiCR',
+  message: 'Commercial Registration number must be 10 digits',
+  validate: (value) => isEmpty(value) || /^\d{10}$/.test(toLatinDigits(String(value).trim()))
+};
+
+/**
+ * Arabic letters, digits, spaces and common punctuation
+ */
+export const arabicTextOnlyValidator: FieldValidatorDefinition = {
+  name: 'arabicTextOnly',
+  message: 'Only Arabic text is allowed',
+  validate: (value) =>
+    isEmpty(value) || /^[\u0600-\u06FF\u0750-\u077F0-9\s.,()\-]+$/.test(String(value).trim())
+};
+
+/**
+ * Required when the category field holds one of the required categories
+ * { "name": "requiredIfCategory", "categoryField": "productCategory" }
+ * Without `categoryField` the first field of the form is used.
+ */
+export function createRequiredIfCategoryValidator(getRequiredCategories: () => string[]): FieldValidatorDefinition {
+  return {
+    name: 'requiredIfCategory',
+    message: 'This field is required for the selected category',
+    validate: (value, params, field) => {
+      const categoryKey = params['categoryField'] ?? field.parent?.fieldGroup?.[0]?.key;
+      const category = categoryKey ? field.model?.[categoryKey as string] : undefined;
+      return !(category && getRequiredCategories().includes(category)) || !!value;
+    }
+  };
+}
+
+/**
+ * Brand name must not already exist (English or Arabic name)
+ * { "name": "uniqueBrandName", "excludeId": "..." } - excludeId skips the brand being edited
+ * If the brand list cannot be loaded the check passes and the server decides.
+ */
+export function createUniqueBrandNameValidator(getBrands: () => Observable<Brand[]>): FieldValidatorDefinition {
+  return {
+    name: 'uniqueBrandName',
+    message: 'A brand with this name already exists',
+    validateAsync: (value, params) => {
+      if (isEmpty(value)) return of(true);
+      const name = String(value).trim().toLowerCase();
+
+      // Angular cancels the previous check on each keystroke, so the timer debounces requests
+      return timer(400).pipe(
+        switchMap(() => getBrands()),
+        map(brands => !brands.some(brand =>
+          brand.id !== params['excludeId'] &&
+          [brand.nameEn, brand.nameAr].some(existing => existing?.trim().toLowerCase() === name)
+        )),
+        catchError(() => of(true))
+      );
+    }
+  };
+}
@@ -0,0 +1,178 @@
+import { Injectable, inject } from '@angular/core';
+import { WorkflowInstance } from '../../workflow.service';
+import { AuthService } from '../../auth.service';
+
+/**
+ * Data submitted for a step that comes before the current one
+ */
+export interface PreviousStepData {
+  stepId: string;
+  name?: string;
+  fields: any[];
+  data: Record<string, any>;
+}
+
+/**
+ * The user filling in the form
+ */
+export interface FormStateUser {
+  email: string;
+  displayName: string;
+  role?: string;
+}
+
+/**
+ * Contract for Formly's `formState`, available to expressions as `formState.*`
+ * e.g. "formState.currentUser" or "formState.getApplicationSummary()"
+ */
+export interface WorkflowFormState {
+  currentUser: string;
+  currentUserEmail: string;
+  currentUserRole?: string;
+  workflowId: string | null;
+  instance: WorkflowInstance | null;
+  stepId?: string;
+  stepIndex: number;
+  previousSteps: PreviousStepData[];
+  getApplicationSummary: () => string;
+  summarizeSteps: (stepIds: string[], keys?: string[]) => string;
+  getStepData: (stepId: string) => Record<string, any>;
+  getPreviousValue: (key: string) => any;
+  [key: string]: any;
+}
+
+/**
+ * Inputs used to build a formState for a step
+ */
+export interface FormStateOptions {
+  workflowId: string | null;
+  instance?: WorkflowInstance | null;
+  stepId?: string;
+  stepIndex?: number;
+  previousSteps?: PreviousStepData[];
+  user?: FormStateUser;
+}
+
+/**
+ * Service to build the formState shared by all fields of a step
+ * Exposes the current user, the workflow instance and data from previous steps
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FormStateService {
+  private authService = inject(AuthService);
+
+  /**
+   * Build a formState object for the given step
+   */
+  buildFormState(options: FormStateOptions): WorkflowFormState {
+    const user = options.user ?? this.getCurrentUser();
+    const previousSteps = options.previousSteps ?? [];
+
+    return {
+      currentUser: user.displayName,
+      currentUserEmail: user.email,
+      currentUserRole: user.role,
+      workflowId: options.workflowId,
+      instance: options.instance ?? null,
+      stepId: options.stepId,
+      stepIndex: options.stepIndex ?? 0,
+      previousSteps,
+      getApplicationSummary: () => this.buildSummary(previousSteps),
+      summarizeSteps: (stepIds: string[], keys?: string[]) => this.buildSummary(
+        previousSteps.filter(step => stepIds.includes(step.stepId)),
+        keys
+      ),
+      getStepData: (stepId: string) =>
+        previousSteps.find(step => step.stepId === stepId)?.data ?? {},
+      getPreviousValue: (key: string) => this.findPreviousValue(previousSteps, key)
+    };
+  }
+
+  /**
+   * Convert an instance's step history into previous step data
+   * Uses the latest snapshot per step and the step definitions for labels
+   */
+  previousStepsFromInstance(instance: WorkflowInstance, stepDefinitions: any[] = []): PreviousStepData[] {
+    const latest = new Map<string, Record<string, any>>();
+    for (const entry of instance.stepHistory || []) {
+      latest.set(entry.stepId, entry.dataSnapshot || {});
+    }
+
+    return Array.from(latest.entries()).map(([stepId, data]) => {
+      const definition = stepDefinitions.find(step => step?.stepId === stepId);
+      return {
+        stepId,
+        name: definition?.name,
+        fields: definition?.fields || [],
+        data
+      };
+    });
+  }
+
+  /**
+   * Get the signed-in user, or a guest when nobody is signed in
+   */
+  getCurrentUser(): FormStateUser {
+    const user = this.authService.currentUser();
+    return user
+      ? { email: user.email, displayName: user.displayName, role: user.role }
+      : { email: '', displayName: 'Guest' };
+  }
+
+  /**
+   * Build a readable "Label: value" summary of previous step data
+   * Optionally limited to the given keys
+   */
+  buildSummary(previousSteps: PreviousStepData[], keys?: string[]): string {
+    const lines: string[] = [];
+
+    for (const step of previousSteps) {
+      for (const [key, value] of Object.entries(step.data)) {
+        if (keys && !keys.includes(key)) continue;
+        if (value === null || value === undefined || value === '' || key.startsWith('_')) continue;
+
+        const field = step.fields.find((f: any) => f.key === key);
+        const label = field?.templateOptions?.label || key;
+        const text = this.formatValue(value, field);
+        if (text) {
+          lines.push(`${label}: ${text}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Find the most recent value for a key across previous steps
+   */
+  private findPreviousValue(previousSteps: PreviousStepData[], key: string): any {
+    for (let i = previousSteps.length - 1; i >= 0; i--) {
+      if (key in previousSteps[i].data) {
+        return previousSteps[i].data[key];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Format a value for display, using option labels where available
+   */
+  private formatValue(value: any, field?: any): string {
+    const options: { label: string; value: any }[] = field?.templateOptions?.options || [];
+    const labelFor = (v: any) => options.find(o => o.value === v)?.label ?? v;
+
+    if (Array.isArray(value)) {
+      return value
+        .map(v => (v && typeof v === 'object' ? v.fileName ?? '' : labelFor(v)))
+        .filter(v => v !== '')
+        .join(', ');
+    }
+    if (typeof value === 'object') {
+      return value.fileName ?? '';
+    }
+    return String(labelFor(value));
+  }
+}
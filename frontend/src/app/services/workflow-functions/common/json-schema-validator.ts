@@ -0,0 +1,134 @@
+/**
+ * Checks JSON against the subset of JSON Schema used by the workflow schemas
+ * Supports type, enum, required, properties, additionalProperties, items, anyOf,
+ * minItems, minLength, minimum and local $ref ("#/$defs/name").
+ * Plain TypeScript so it also runs outside Angular (scripts/validate-workflows.ts).
+ */
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: any[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: any;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema; paths are JSONPath-style, e.g. $.steps[2].overrides.nextStep
+ */
+export function validateSchema(value: any, schema: JsonSchema, path = '$'): SchemaError[] {
+  return checkValue(value, schema, schema, path);
+}
+
+/**
+ * Append a property name or array index to a JSON path
+ */
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function checkValue(value: any, schema: JsonSchema, root: JsonSchema, path: string): SchemaError[] {
+  if (schema.$ref) {
+    return checkValue(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path, message: `must be ${formatTypes(schema.type)}, got ${describeType(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `"${value}" is not one of: ${schema.enum.join(', ')}` }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (schema.anyOf && !schema.anyOf.some(option => checkValue(value, option, root, path).length === 0)) {
+    // Report the option that came closest
+    const attempts = schema.anyOf.map(option => checkValue(value, option, root, path));
+    errors.push(...attempts.reduce((best, attempt) => (attempt.length < best.length ? attempt : best)));
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: value.length === 0 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be ${schema.minimum} or more` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...checkValue(item, schema.items!, root, childPath(path, index))));
+    }
+  } else if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push({ path, message: `is missing required property "${key}"` });
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...checkValue(item, propertySchema, root, childPath(path, key)));
+      } else if (schema.additionalProperties === false && schema.properties) {
+        errors.push({ path: childPath(path, key), message: `is not a known property` });
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...checkValue(item, schema.additionalProperties, root, childPath(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const match = /^#\/\$defs\/(.+)$/.exec(ref);
+  const schema = match ? root.$defs?.[match[1]] : undefined;
+  if (!schema) {
+    throw new Error(`Unsupported or unknown schema reference ${ref}`);
+  }
+  return schema;
+}
+
+function matchesType(value: any, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(expected => {
+    switch (expected) {
+      case 'object': return isObject(value);
+      case 'array': return Array.isArray(value);
+      case 'integer': return Number.isInteger(value);
+      case 'null': return value === null;
+      default: return typeof value === expected;
+    }
+  });
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function formatTypes(type: string | string[]): string {
+  const types = Array.isArray(type) ? type : [type];
+  return types.map(t => (/^[aeiou]/.test(t) ? `an ${t}` : `a ${t}`)).join(' or ');
+}
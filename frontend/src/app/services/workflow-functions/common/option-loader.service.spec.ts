@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, of } from 'rxjs';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { FormConfigService, FormFieldOption } from '../../form-config.service';
+import { ProductService } from '../../product.service';
+import { OptionLoaderService } from './option-loader.service';
+import { OptionSourceRegistryService } from './option-source-registry.service';
+
+describe('OptionLoaderService', () => {
+  let loader: OptionLoaderService;
+  let responses: Record<string, Subject<FormFieldOption[]>>;
+  let destroy$: Subject<void>;
+  let fields: FormlyFieldConfig[];
+
+  const sectorField = {
+    key: 'sectorId',
+    type: 'select',
+    dependsOn: ['typeId'],
+    optionsSource: { resolver: 'loadTestSectors', params: { typeId: '{typeId}' } }
+  };
+  const formConfig = { fields: [{ key: 'typeId', type: 'select' }, sectorField] };
+  const sector = () => fields.find(f => f.key === 'sectorId')!;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: FormConfigService, useValue: { getBrandsFullData: () => of([]) } },
+        { provide: ProductService, useValue: {} }
+      ]
+    });
+    loader = TestBed.inject(OptionLoaderService);
+
+    responses = {};
+    TestBed.inject(OptionSourceRegistryService).register('loadTestSectors', ({ params }) =>
+      responses[params?.['typeId']] = new Subject<FormFieldOption[]>());
+
+    destroy$ = new Subject<void>();
+    fields = [
+      { key: 'typeId', props: { label: 'Type' } },
+      { key: 'sectorId', props: { label: 'Sector' } }
+    ];
+  });
+
+  afterEach(() => {
+    destroy$.next();
+    destroy$.complete();
+  });
+
+  it('should ignore a slow response for a previous parent value', () => {
+    const model: Record<string, any> = { typeId: 't1' };
+    loader.loadDependentOptions(sectorField, model, fields, destroy$);
+
+    model['typeId'] = 't2';
+    loader.onParentValueChange('typeId', model, fields, formConfig, destroy$);
+    responses['t2'].next([{ value: 's2', label: 'Sector 2' }]);
+    responses['t1'].next([{ value: 's1', label: 'Sector 1' }]);
+
+    expect(sector().props!.options).toEqual([{ value: 's2', label: 'Sector 2' }]);
+    expect(responses['t1'].observed).toBe(false);
+  });
+
+  it('should cancel the load when the parent is cleared', () => {
+    const model: Record<string, any> = { typeId: 't1' };
+    loader.loadDependentOptions(sectorField, model, fields, destroy$);
+
+    delete model['typeId'];
+    loader.onParentValueChange('typeId', model, fields, formConfig, destroy$);
+    responses['t1'].next([{ value: 's1', label: 'Sector 1' }]);
+
+    expect(sector().props!.options).toEqual([]);
+    expect(sector().props!.placeholder).toBe('Select type first');
+    expect(sector().props!['loading']).toBe(false);
+  });
+
+  it('should cancel the load when switching back to cached options', () => {
+    const model: Record<string, any> = { typeId: 't1' };
+    loader.loadDependentOptions(sectorField, model, fields, destroy$);
+    responses['t1'].next([{ value: 's1', label: 'Sector 1' }]);
+
+    model['typeId'] = 't2';
+    loader.onParentValueChange('typeId', model, fields, formConfig, destroy$);
+    model['typeId'] = 't1';
+    loader.onParentValueChange('typeId', model, fields, formConfig, destroy$);
+    responses['t2'].next([{ value: 's2', label: 'Sector 2' }]);
+
+    expect(sector().props!.options).toEqual([{ value: 's1', label: 'Sector 1' }]);
+    expect(sector().props!['loading']).toBe(false);
+  });
+});
@@ -1,20 +1,32 @@
 import { Injectable, inject } from '@angular/core';
-import { Observable, Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { map, takeUntil, tap } from 'rxjs/operators';
 import { FormlyFieldConfig } from '@ngx-formly/core';
 import { FormConfigService, FormFieldOption, Brand } from '../../form-config.service';
+import { OptionSourceRegistryService, OptionsSource, interpolate } from './option-source-registry.service';
 
 /**
- * Service to handle loading options for select fields based on hooks
- * Centralizes all data loading logic (categories, brands, sectors, etc.)
+ * Service to handle loading options for select fields
+ * Fields declare an `optionsSource` (URL or resolver name); `hooks.onInit` names
+ * are treated as resolver names. Resolvers live in OptionSourceRegistryService.
+ * Fields with `dependsOn` reload when a parent changes (e.g. type -> sector -> classification).
  */
 @Injectable({
   providedIn: 'root'
 })
 export class OptionLoaderService {
   private formConfigService = inject(FormConfigService);
+  private optionSources = inject(OptionSourceRegistryService);
   private optionsCache: Record<string, Record<string, FormFieldOption[]>> = {};
   private loadedBrands: Brand[] = [];
+  private placeholders = new WeakMap<FormlyFieldConfig, string>();
+  private loads = new WeakMap<FormlyFieldConfig, Subscription>(); // in-flight load per field
+
+  constructor() {
+    // Brand options also keep the full brand data for table building
+    this.optionSources.register('loadBrands', () => this.loadBrandOptions(), 'OptionLoaderService');
+    this.optionSources.register('loadSelectedBrands', () => this.loadBrandOptions(), 'OptionLoaderService');
+  }
 
   /**
    * Load initial options for all select fields in a form
@@ -22,210 +34,245 @@ export class OptionLoaderService {
   loadInitialOptions(
     fields: FormlyFieldConfig[],
     formConfig: any,
-    destroy$: Subject<void>
+    destroy$: Subject<void>,
+    model: Record<string, any> = {}
   ): void {
     if (!formConfig) return;
 
     formConfig.fields.forEach((field: any) => {
-      if (field.type === 'select') {
-        // Load based on onInit hook
-        if (field.hooks?.['onInit']) {
-          this.loadOptionsForField(field.key, field.hooks['onInit'], fields, destroy$);
-        }
-        // Load VAT categories for VAT fields
-        if (field.key.toLowerCase().includes('vat')) {
-          this.loadVatOptions(field.key, fields, destroy$);
-        }
+      if (field.type !== 'select') return;
+
+      if (field.dependsOn?.length) {
+        this.loadDependentOptions(field, model, fields, destroy$);
+        return;
+      }
+
+      const source = this.getOptionsSource(field);
+      if (source) {
+        this.loadOptionsForField(field.key, source, fields, destroy$);
       }
     });
   }
 
   /**
-   * Load options for a specific field based on hook name
+   * Get the options source declared for a JSON field
+   */
+  getOptionsSource(field: any): OptionsSource | null {
+    if (field.optionsSource) return field.optionsSource;
+    if (field.hooks?.['onInit']) return field.hooks['onInit'];
+
+    // VAT fields without a declared source load VAT categories
+    if (field.key.toLowerCase().includes('vat')) return 'loadVatCategories';
+
+    return null;
+  }
+
+  /**
+   * Load options for a specific field from an options source
+   * Shows a loading placeholder, then the field's own placeholder or an error
    */
   loadOptionsForField(
     fieldKey: string,
-    hookName: string,
+    source: OptionsSource,
     fields: FormlyFieldConfig[],
     destroy$: Subject<void>
   ): void {
     const formlyField = fields.find(f => f.key === fieldKey);
     if (!formlyField) return;
 
-    formlyField.props!.placeholder = 'Loading...';
-
-    switch (hookName) {
-      case 'loadLocalCategories':
-      case 'loadBatteryCategories':
-        this.loadCategories(formlyField, destroy$);
-        break;
-      case 'loadBrands':
-      case 'loadSelectedBrands':
-        this.loadBrands(formlyField, destroy$);
-        break;
-      case 'loadSectors':
-        this.loadSectors(formlyField, destroy$);
-        break;
-      case 'loadClassifications':
-        this.loadClassifications(formlyField, destroy$);
-        break;
-      case 'loadProducts':
-        this.loadProducts(formlyField, destroy$);
-        break;
-      default:
-        console.warn(`Unknown hook: ${hookName}`);
-        formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'option'}`;
+    const options$ = this.optionSources.resolve(source);
+    if (!options$) {
+      console.warn(`Unknown options source for field "${fieldKey}": ${this.optionSources.describe(source)}`);
+      formlyField.props!.placeholder = this.getPlaceholder(formlyField);
+      return;
     }
+
+    this.loadInto(formlyField, options$, destroy$);
   }
 
   /**
-   * Load categories (for battery, local products, etc.)
+   * Subscribe to options and apply loading, loaded and error states to the field
+   * A new load cancels the field's previous one, so a slow response cannot overwrite newer options
    */
-  private loadCategories(formlyField: FormlyFieldConfig, destroy$: Subject<void>): void {
-    this.formConfigService.getCategories()
+  private loadInto(
+    formlyField: FormlyFieldConfig,
+    options$: Observable<FormFieldOption[]>,
+    destroy$: Subject<void>,
+    onLoaded?: (options: FormFieldOption[]) => void
+  ): void {
+    this.cancelLoad(formlyField);
+    const placeholder = this.getPlaceholder(formlyField);
+    formlyField.props!.placeholder = 'Loading...';
+    formlyField.props!['loading'] = true;
+
+    const subscription = options$
       .pipe(takeUntil(destroy$))
       .subscribe({
         next: (options) => {
+          onLoaded?.(options);
           formlyField.props!.options = options;
-          formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'option'}`;
+          formlyField.props!.placeholder = placeholder;
           formlyField.props!['loading'] = false;
         },
-        error: () => {
+        error: (err) => {
+          console.error(`Failed to load options for field "${String(formlyField.key)}":`, err);
           formlyField.props!.placeholder = 'Failed to load options';
           formlyField.props!['loading'] = false;
         }
       });
+    this.loads.set(formlyField, subscription);
   }
 
   /**
-   * Load brands (both dropdown options and full data for table)
+   * Drop the field's in-flight load, if any
    */
-  private loadBrands(formlyField: FormlyFieldConfig, destroy$: Subject<void>): void {
-    this.formConfigService.getBrands()
-      .pipe(takeUntil(destroy$))
-      .subscribe({
-        next: (options) => {
-          formlyField.props!.options = options;
-          formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'brand'}`;
-          formlyField.props!['loading'] = false;
-        },
-        error: () => {
-          formlyField.props!.placeholder = 'Failed to load brands';
-          formlyField.props!['loading'] = false;
-        }
-      });
+  private cancelLoad(formlyField: FormlyFieldConfig): void {
+    const subscription = this.loads.get(formlyField);
+    if (!subscription) return;
 
-    // Also load full brand data for table display
-    this.formConfigService.getBrandsFullData()
-      .pipe(takeUntil(destroy$))
-      .subscribe(brands => this.loadedBrands = brands);
+    subscription.unsubscribe();
+    this.loads.delete(formlyField);
+    formlyField.props!['loading'] = false;
   }
 
   /**
-   * Load sectors
+   * The field's placeholder from JSON, or "Select <label>"
    */
-  private loadSectors(formlyField: FormlyFieldConfig, destroy$: Subject<void>): void {
-    this.formConfigService.getSectors()
-      .pipe(takeUntil(destroy$))
-      .subscribe({
-        next: (options) => {
-          formlyField.props!.options = options;
-          formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'sector'}`;
-          formlyField.props!['loading'] = false;
-        },
-        error: () => {
-          formlyField.props!.placeholder = 'Failed to load sectors';
-          formlyField.props!['loading'] = false;
-        }
-      });
+  private getPlaceholder(formlyField: FormlyFieldConfig): string {
+    let placeholder = this.placeholders.get(formlyField);
+    if (placeholder === undefined) {
+      placeholder = formlyField.props!.placeholder ||
+        `Select ${formlyField.props!.label?.toLowerCase() || 'option'}`;
+      this.placeholders.set(formlyField, placeholder);
+    }
+    return placeholder;
   }
 
   /**
-   * Load classifications
+   * Brand options, keeping the full brand data for table display
    */
-  private loadClassifications(formlyField: FormlyFieldConfig, destroy$: Subject<void>): void {
-    this.formConfigService.getClassifications()
-      .pipe(takeUntil(destroy$))
-      .subscribe({
-        next: (options) => {
-          formlyField.props!.options = options;
-          formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'classification'}`;
-          formlyField.props!['loading'] = false;
-        },
-        error: () => {
-          formlyField.props!.placeholder = 'Failed to load classifications';
-          formlyField.props!['loading'] = false;
+  private loadBrandOptions(): Observable<FormFieldOption[]> {
+    return this.formConfigService.getBrandsFullData().pipe(
+      tap(brands => this.loadedBrands = brands),
+      map(brands => brands.map(brand => ({
+        value: brand.id,
+        label: interpolate('{nameEn} ({nameAr})', brand)
+      })))
+    );
+  }
+
+  /**
+   * Get all fields downstream of a field through `dependsOn` (dependents of dependents, ...)
+   */
+  getDependentKeys(parentKey: string, formConfig: any): string[] {
+    const dependents: string[] = [];
+    const queue = [parentKey];
+
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      for (const field of formConfig?.fields || []) {
+        if (field.dependsOn?.includes(key) && !dependents.includes(field.key) && field.key !== parentKey) {
+          dependents.push(field.key);
+          queue.push(field.key);
         }
-      });
+      }
+    }
+
+    return dependents;
   }
 
   /**
-   * Load products
+   * Check if any field declares `dependsOn` this field
    */
-  private loadProducts(formlyField: FormlyFieldConfig, destroy$: Subject<void>): void {
-    // TODO: Implement loadProducts if API exists
-    formlyField.props!.placeholder = `Select ${formlyField.props!.label?.toLowerCase() || 'product'}`;
-    formlyField.props!['loading'] = false;
+  hasDependents(fieldKey: string, formConfig: any): boolean {
+    return (formConfig?.fields || []).some((field: any) => field.dependsOn?.includes(fieldKey));
   }
 
   /**
-   * Load VAT categories for VAT-related fields
+   * A parent value changed: clear every downstream value and reload their options
+   * Fields that do not depend on the parent keep their values
+   * @returns Keys of the fields that were reset
    */
-  private loadVatOptions(
-    fieldKey: string,
+  onParentValueChange(
+    parentKey: string,
+    model: Record<string, any>,
     fields: FormlyFieldConfig[],
+    formConfig: any,
     destroy$: Subject<void>
-  ): void {
-    const formlyField = fields.find(f => f.key === fieldKey);
-    if (!formlyField) return;
+  ): string[] {
+    const dependentKeys = this.getDependentKeys(parentKey, formConfig);
 
-    this.formConfigService.getVatCategories()
-      .pipe(takeUntil(destroy$))
-      .subscribe(options => formlyField.props!.options = options);
+    for (const key of dependentKeys) {
+      delete model[key];
+      fields.find(f => f.key === key)?.formControl?.reset(undefined, { emitEvent: false });
+    }
+
+    // Dependents whose parents are now empty are cleared and disabled
+    for (const key of dependentKeys) {
+      const field = formConfig.fields.find((f: any) => f.key === key);
+      if (field?.type === 'select') {
+        this.loadDependentOptions(field, model, fields, destroy$);
+      }
+    }
+
+    return dependentKeys;
   }
 
   /**
-   * Load dependent options (e.g., products based on category)
+   * Load options for a field with `dependsOn`
+   * Parent values fill {placeholders} in the source's url and params,
+   * and options are cached per combination of parent values
    */
   loadDependentOptions(
-    parentKey: string,
-    parentValue: string,
+    field: any,
+    model: Record<string, any>,
     fields: FormlyFieldConfig[],
     destroy$: Subject<void>
   ): void {
-    const parentIndex = fields.findIndex(f => f.key === parentKey);
-    const dependentField = fields.find((f, index) => index > parentIndex && f.type === 'select');
+    const formlyField = fields.find(f => f.key === field.key);
+    const source = this.getOptionsSource(field);
+    if (!formlyField || !source) return;
+
+    // Remember the JSON placeholder before it is replaced below
+    this.getPlaceholder(formlyField);
+    // Options for the old parent values are no longer wanted
+    this.cancelLoad(formlyField);
 
-    if (!dependentField) return;
+    const parentKeys: string[] = field.dependsOn || [];
+    const parentValues = parentKeys.map(key => model[key]);
+    const missingParent = parentKeys.find((key, index) =>
+      parentValues[index] === undefined || parentValues[index] === null || parentValues[index] === ''
+    );
 
-    const cacheKey = `${parentKey}_${parentValue}`;
-    if (this.optionsCache[dependentField.key as string]?.[cacheKey]) {
-      dependentField.props!.options = this.optionsCache[dependentField.key as string][cacheKey];
-      dependentField.props!.disabled = false;
+    if (missingParent) {
+      const parentLabel = fields.find(f => f.key === missingParent)?.props?.label?.toLowerCase() || missingParent;
+      formlyField.props!.options = [];
+      formlyField.props!.placeholder = `Select ${parentLabel} first`;
+      formlyField.props!.disabled = true;
       return;
     }
 
-    dependentField.props!.placeholder = 'Loading...';
-    dependentField.props!.disabled = true;
-    dependentField.props!.options = [];
+    formlyField.props!.disabled = field.templateOptions?.disabled || false;
 
-    this.formConfigService.getProductsByCategory(parentValue)
-      .pipe(takeUntil(destroy$))
-      .subscribe({
-        next: (options) => {
-          if (!this.optionsCache[dependentField.key as string]) {
-            this.optionsCache[dependentField.key as string] = {};
-          }
-          this.optionsCache[dependentField.key as string][cacheKey] = options;
-          dependentField.props!.options = options;
-          dependentField.props!.placeholder = `Select ${dependentField.props!.label?.toLowerCase() || 'option'}`;
-          dependentField.props!.disabled = false;
-        },
-        error: () => {
-          dependentField.props!.placeholder = 'Failed to load options';
-          dependentField.props!.disabled = false;
-        }
-      });
+    const cacheKey = JSON.stringify(parentValues);
+    const cached = this.optionsCache[field.key]?.[cacheKey];
+    if (cached) {
+      formlyField.props!.options = cached;
+      formlyField.props!.placeholder = this.getPlaceholder(formlyField);
+      return;
+    }
+
+    const parentData = Object.fromEntries(parentKeys.map((key, index) => [key, parentValues[index]]));
+    const options$ = this.optionSources.resolve(this.optionSources.withValues(source, parentData));
+    if (!options$) {
+      console.warn(`Unknown options source for field "${field.key}": ${this.optionSources.describe(source)}`);
+      return;
+    }
+
+    formlyField.props!.options = [];
+    this.loadInto(formlyField, options$, destroy$, options => {
+      this.optionsCache[field.key] = { ...this.optionsCache[field.key], [cacheKey]: options };
+    });
   }
 
   /**
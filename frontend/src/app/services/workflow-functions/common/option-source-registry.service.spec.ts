@@ -0,0 +1,120 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Observable, of, throwError } from 'rxjs';
+import { FormConfigService, FormFieldOption } from '../../form-config.service';
+import { ProductService } from '../../product.service';
+import { OptionSourceRegistryService, interpolate, readPath } from './option-source-registry.service';
+
+describe('OptionSourceRegistryService', () => {
+  let registry: OptionSourceRegistryService;
+  let http: HttpTestingController;
+  let productService: Record<string, (...args: any[]) => Observable<any>>;
+
+  const collect = (options$: Observable<FormFieldOption[]> | null) => {
+    let options: FormFieldOption[] | undefined;
+    options$?.subscribe(value => options = value);
+    return options;
+  };
+
+  beforeEach(() => {
+    productService = {
+      getProductTypes: () => of([{ id: 't1', name: 'Toys', nameAr: 'ألعاب' }]),
+      getSectorsByType: () => of([]),
+      getClassificationsBySector: () => of([]),
+      getAllProducts: () => of([])
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: FormConfigService, useValue: { getSectors: () => of([{ value: '1', label: 'Electronics' }]) } },
+        { provide: ProductService, useValue: productService }
+      ]
+    });
+    registry = TestBed.inject(OptionSourceRegistryService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+  });
+
+  it('should read paths and fill templates', () => {
+    expect(readPath({ data: { items: [1] } }, 'data.items')).toEqual([1]);
+    expect(readPath({}, 'data.items')).toBeUndefined();
+    expect(interpolate('{name} ({ meta.code })', { name: 'Box', meta: { code: 'B1' } })).toBe('Box (B1)');
+    expect(interpolate('{missing}', {})).toBe('');
+  });
+
+  it('should resolve named resolvers, with a string as shorthand', () => {
+    expect(collect(registry.resolve('loadSectors'))).toEqual([{ value: '1', label: 'Electronics' }]);
+    expect(collect(registry.resolve({ resolver: 'loadProductTypes' }))).toEqual([{ value: 't1', label: 'Toys (ألعاب)' }]);
+    expect(registry.resolve('loadNothing')).toBeNull();
+    expect(registry.resolve({})).toBeNull();
+  });
+
+  it('should load url sources and map items through the configured paths', () => {
+    const options = registry.resolve({
+      url: '/api/things',
+      itemsPath: 'data',
+      valuePath: 'code',
+      labelTemplate: '{name} ({nameAr})',
+      params: { active: true }
+    });
+
+    let result: FormFieldOption[] | undefined;
+    options!.subscribe(value => result = value);
+    http.expectOne('/api/things?active=true').flush({ data: [{ code: 'A', name: 'Alpha', nameAr: 'ألفا' }] });
+
+    expect(result).toEqual([{ value: 'A', label: 'Alpha (ألفا)' }]);
+  });
+
+  it('should fall back to label/name and value/id without paths', () => {
+    let result: FormFieldOption[] | undefined;
+    registry.resolve({ url: '/api/plain' })!.subscribe(value => result = value);
+    http.expectOne('/api/plain').flush([{ id: 1, name: 'One' }, { value: 2, label: 'Two' }, 'three']);
+
+    expect(result).toEqual([
+      { value: 1, label: 'One' },
+      { value: 2, label: 'Two' },
+      { value: 'three', label: 'three' }
+    ]);
+  });
+
+  it('should fill parent values into url and string params', () => {
+    expect(registry.withValues(
+      { url: '/api/sectors/{sectorId}/classifications', params: { typeId: '{typeId}', limit: 10 } },
+      { sectorId: 's1', typeId: 't1' }
+    )).toEqual({
+      url: '/api/sectors/s1/classifications',
+      params: { typeId: 't1', limit: 10 }
+    });
+  });
+
+  it('should reject a resolver name that is already registered', () => {
+    registry.register('ct401LoadCells', () => of([]), 'workflow CT401');
+
+    expect(() => registry.register('ct401LoadCells', () => of([]), 'workflow BT501'))
+      .toThrowError('Option resolver "ct401LoadCells" from workflow BT501 is already registered by workflow CT401; pick a unique name');
+    expect(() => registry.register('loadSectors', () => of([])))
+      .toThrowError(/already registered by built-in/);
+  });
+
+  it('should fall back to the mock product hierarchy when the API fails', () => {
+    productService['getProductTypes'] = () => throwError(() => new Error('offline'));
+    productService['getSectorsByType'] = () => throwError(() => new Error('offline'));
+    productService['getClassificationsBySector'] = () => throwError(() => new Error('offline'));
+
+    expect(collect(registry.resolve('loadProductTypes'))?.length).toBeGreaterThan(0);
+    expect(collect(registry.resolve({ resolver: 'loadSectorsByType', params: { typeId: '1' } }))?.length).toBeGreaterThan(0);
+    expect(collect(registry.resolve({ resolver: 'loadClassificationsBySector', params: { sectorId: '1' } })))
+      .toContainEqual({ value: 'A', label: 'Class A (عالية السلامة)' });
+    expect(collect(registry.resolve({
+      resolver: 'loadModelsByClassification',
+      params: { sectorId: '1', classificationId: 'A' }
+    }))).toEqual([{ value: 'A-1', label: 'Power Bank (PB-1000)' }]);
+    expect(collect(registry.resolve({ resolver: 'loadSectorsByType', params: { typeId: 'unknown' } }))).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { FormConfigService, FormFieldOption } from '../../form-config.service';
+import { Classification, Product, ProductService } from '../../product.service';
+
+/**
+ * Where a select field gets its options, declared in JSON as `optionsSource`
+ * e.g. { "url": "/api/Product/sectors", "valuePath": "id", "labelTemplate": "{name} ({nameAr})" }
+ * or { "resolver": "loadBrands" }. A plain string is shorthand for a resolver name.
+ */
+export interface OptionsSourceConfig {
+  resolver?: string;
+  url?: string;
+  itemsPath?: string;
+  labelPath?: string;
+  valuePath?: string;
+  labelTemplate?: string;
+  params?: Record<string, any>;
+}
+
+export type OptionsSource = string | OptionsSourceConfig;
+
+/**
+ * Loads options for a source; receives the JSON config so it can read params
+ */
+export type OptionResolver = (source: OptionsSourceConfig) => Observable<FormFieldOption[]>;
+
+/* =========================================================
+ * OFFLINE PRODUCT HIERARCHY
+ * ========================================================= */
+const MOCK_PRODUCT_TYPES: { id: string; name: string; nameAr: string }[] = [
+  { id: '1', name: 'Electrical Products', nameAr: 'المنتجات الكهربائية' },
+  { id: '2', name: 'Cosmetics', nameAr: 'مستحضرات التجميل' }
+];
+
+const MOCK_SECTORS_BY_TYPE: Record<string, { id: string; name: string; nameAr: string }[]> = {
+  '1': [{ id: '1', name: 'Electronics', nameAr: 'الإلكترونيات' }],
+  '2': [{ id: '2', name: 'Cosmetics', nameAr: 'مستحضرات التجميل' }]
+};
+
+const MOCK_CLASSIFICATIONS_BY_SECTOR: Record<string, Classification[]> = {
+  '1': [
+    {
+      id: 'A',
+      name: 'Class A',
+      nameAr: 'عالية السلامة',
+      models: [
+        { id: 'A-1', name: 'Power Bank', modelNumber: 'PB-1000', barcode: '6281000000011', classificationId: 'A' }
+      ]
+    },
+    {
+      id: 'B',
+      name: 'Class B',
+      nameAr: 'متوسطة السلامة',
+      models: [
+        { id: 'B-1', name: 'Charger', modelNumber: 'CH-200', barcode: '6281000000028', classificationId: 'B' }
+      ]
+    }
+  ],
+  '2': [
+    {
+      id: 'C',
+      name: 'Hair Care',
+      nameAr: 'العناية بالشعر',
+      models: [
+        { id: 'C-1', name: 'Shampoo', modelNumber: 'SH-500', barcode: '6281000000035', classificationId: 'C' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Read a dotted path (e.g. "data.items") from an object
+ */
+export function readPath(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => value?.[key], data);
+}
+
+/**
+ * Replace {path} placeholders with values from the data, e.g. "{name} ({nameAr})"
+ */
+export function interpolate(template: string, data: any): string {
+  return template.replace(/\{([^}]+)\}/g, (_, path: string) => String(readPath(data, path.trim()) ?? ''));
+}
+
+/**
+ * Registry of named option resolvers plus a generic URL resolver
+ * Workflows add resolvers through `WorkflowFunctions.optionResolvers`; names must be unique across workflows
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OptionSourceRegistryService {
+  private http = inject(HttpClient);
+  private formConfigService = inject(FormConfigService);
+  private productService = inject(ProductService);
+  private resolvers = new Map<string, OptionResolver>();
+  private owners = new Map<string, string>();
+
+  constructor() {
+    this.register('loadLocalCategories', () => this.formConfigService.getCategories());
+    this.register('loadBatteryCategories', () => this.formConfigService.getCategories());
+    this.register('loadVatCategories', () => this.formConfigService.getVatCategories());
+    this.register('loadSectors', () => this.formConfigService.getSectors());
+    this.register('loadClassifications', () => this.formConfigService.getClassifications());
+    this.register('loadProducts', () => this.loadProducts());
+    this.register('loadProductsByCategory', ({ params }) =>
+      this.formConfigService.getProductsByCategory(params?.['categoryId']).pipe(catchError(() => of([]))));
+
+    // Product hierarchy: type -> sector -> classification -> model
+    // Without the backend these fall back to the mock hierarchy below, like FormConfigService.getSectors
+    this.register('loadProductTypes', () =>
+      this.productService.getProductTypes().pipe(
+        catchError(() => of(MOCK_PRODUCT_TYPES)),
+        map(types => this.toOptions(types, '{name} ({nameAr})'))
+      ));
+    this.register('loadSectorsByType', ({ params }) =>
+      this.productService.getSectorsByType(params?.['typeId']).pipe(
+        catchError(() => of(MOCK_SECTORS_BY_TYPE[params?.['typeId']] || [])),
+        map(sectors => this.toOptions(sectors, '{name} ({nameAr})'))
+      ));
+    this.register('loadClassificationsBySector', ({ params }) =>
+      this.productService.getClassificationsBySector(params?.['sectorId']).pipe(
+        catchError(() => of(MOCK_CLASSIFICATIONS_BY_SECTOR[params?.['sectorId']] || [])),
+        map(classifications => this.toOptions(classifications, '{name} ({nameAr})'))
+      ));
+    this.register('loadModelsByClassification', ({ params }) =>
+      this.productService.getClassificationsBySector(params?.['sectorId']).pipe(
+        catchError(() => of(MOCK_CLASSIFICATIONS_BY_SECTOR[params?.['sectorId']] || [])),
+        map((classifications: Classification[]) =>
+          classifications.find(c => c.id === params?.['classificationId'])?.models || []),
+        map(models => this.toOptions(models, '{name} ({modelNumber})'))
+      ));
+  }
+
+  /**
+   * Register a resolver
+   * Names are shared by all workflows, so registering a name twice throws instead of
+   * silently handing one workflow's fields to another workflow's resolver.
+   * @param owner - Who registers it (e.g. a workflow ID), named in the duplicate error
+   */
+  register(name: string, resolver: OptionResolver, owner = 'built-in'): void {
+    if (this.resolvers.has(name)) {
+      throw new Error(
+        `Option resolver "${name}" from ${owner} is already registered by ${this.owners.get(name)}; pick a unique name`
+      );
+    }
+    this.resolvers.set(name, resolver);
+    this.owners.set(name, owner);
+  }
+
+  /**
+   * Check if a resolver is registered
+   */
+  has(name: string): boolean {
+    return this.resolvers.has(name);
+  }
+
+  /**
+   * Names of all registered resolvers
+   */
+  getResolverNames(): string[] {
+    return [...this.resolvers.keys()];
+  }
+
+  /**
+   * Normalize a source declaration to its object form
+   */
+  normalize(source: OptionsSource): OptionsSourceConfig {
+    return typeof source === 'string' ? { resolver: source } : source;
+  }
+
+  /**
+   * Get the options for a source, or null when nothing can resolve it
+   */
+  resolve(source: OptionsSource): Observable<FormFieldOption[]> | null {
+    const config = this.normalize(source);
+
+    if (config.resolver) {
+      const resolver = this.resolvers.get(config.resolver);
+      return resolver ? resolver(config) : null;
+    }
+    if (config.url) {
+      return this.loadFromUrl(config);
+    }
+    return null;
+  }
+
+  /**
+   * Fill {placeholders} in a source's url and string params with the given values
+   * e.g. { "params": { "sectorId": "{sectorId}" } } with the parent field values
+   */
+  withValues(source: OptionsSource, values: Record<string, any>): OptionsSourceConfig {
+    const config = this.normalize(source);
+    const fill = (value: any) => (typeof value === 'string' ? interpolate(value, values) : value);
+
+    return {
+      ...config,
+      url: config.url ? interpolate(config.url, values) : undefined,
+      params: config.params
+        ? Object.fromEntries(Object.entries(config.params).map(([key, value]) => [key, fill(value)]))
+        : undefined
+    };
+  }
+
+  /**
+   * Describe a source for log messages
+   */
+  describe(source: OptionsSource): string {
+    const config = this.normalize(source);
+    return config.resolver ?? config.url ?? JSON.stringify(config);
+  }
+
+  /**
+   * Generic resolver: GET the url and map each item to an option
+   */
+  private loadFromUrl(config: OptionsSourceConfig): Observable<FormFieldOption[]> {
+    return this.http.get<any>(config.url!, { params: config.params }).pipe(
+      map(response => {
+        const items = config.itemsPath ? readPath(response, config.itemsPath) : response;
+        return Array.isArray(items) ? items.map(item => this.toOption(item, config)) : [];
+      })
+    );
+  }
+
+  /**
+   * Map an API item to an option
+   * Without paths, `label`/`name` and `value`/`id` are used
+   */
+  private toOption(item: any, config: OptionsSourceConfig): FormFieldOption {
+    if (item === null || typeof item !== 'object') {
+      return { label: String(item), value: item };
+    }
+
+    const label = config.labelTemplate
+      ? interpolate(config.labelTemplate, item)
+      : config.labelPath ? readPath(item, config.labelPath) : item.label ?? item.name;
+    const value = config.valuePath ? readPath(item, config.valuePath) : item.value ?? item.id;
+
+    return { label: String(label ?? ''), value };
+  }
+
+  /**
+   * Map items with an `id` to options using a label template
+   */
+  private toOptions(items: { id: string }[], labelTemplate: string): FormFieldOption[] {
+    return items.map(item => ({ value: item.id, label: interpolate(labelTemplate, item) }));
+  }
+
+  /**
+   * Products registered by the applicant, labelled by brand and sector
+   */
+  private loadProducts(): Observable<FormFieldOption[]> {
+    return this.productService.getAllProducts().pipe(
+      map((products: Product[]) => products.map(product => ({
+        value: product.id,
+        label: [product.brandName, product.sectorName].filter(Boolean).join(' - ') || product.id
+      }))),
+      catchError(() => of([]))
+    );
+  }
+}
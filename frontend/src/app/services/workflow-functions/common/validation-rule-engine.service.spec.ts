@@ -0,0 +1,151 @@
+import { TestBed } from '@angular/core/testing';
+import { FormControl } from '@angular/forms';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { RULE_ERROR_KEY, ValidationRuleEngineService } from './validation-rule-engine.service';
+import { WorkflowFunctionHandlerService } from '../workflow-function-handler.service';
+import { ValidationRuleExecutor } from '../workflow-function.interface';
+
+describe('ValidationRuleEngineService', () => {
+  let service: ValidationRuleEngineService;
+  let executors: Record<string, ValidationRuleExecutor>;
+
+  beforeEach(() => {
+    executors = {};
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: WorkflowFunctionHandlerService,
+          useValue: { getRuleExecutor: (_workflowId: string, executor: string) => executors[executor] }
+        }
+      ]
+    });
+    service = TestBed.inject(ValidationRuleEngineService);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('required', () => {
+    it('should flag empty target fields with their label', () => {
+      const errors = service.validate(
+        [{ ruleId: 'R1', type: 'required', targetFields: ['name', 'tags', 'notes', 'count'] }],
+        { name: '  ', tags: [], notes: 'ok', count: 0 },
+        { stepFields: [{ key: 'name', templateOptions: { label: 'Name' } }] }
+      );
+
+      expect(errors).toEqual([
+        { ruleId: 'R1', field: 'name', message: 'Name is required' },
+        { ruleId: 'R1', field: 'tags', message: 'tags is required' }
+      ]);
+    });
+
+    it('should skip hidden fields and prefer the rule message', () => {
+      const fields: FormlyFieldConfig[] = [
+        { key: 'hiddenField', hide: true },
+        { fieldGroup: [{ key: 'nested', props: { label: 'Nested' } }] }
+      ];
+
+      const errors = service.validate(
+        [{ type: 'required', targetFields: ['hiddenField', 'nested'], errorMessage: 'Fill it in' }],
+        {},
+        { fields }
+      );
+
+      expect(errors).toEqual([{ ruleId: undefined, field: 'nested', message: 'Fill it in' }]);
+    });
+  });
+
+  describe('requiredIf', () => {
+    const rule = { type: 'requiredIf', targetField: 'reason', dependentField: 'decision', requiredValues: ['reject', 2] };
+
+    it('should require the target only for the listed values', () => {
+      expect(service.validate([rule], { decision: 'approve' })).toEqual([]);
+      expect(service.validate([rule], {})).toEqual([]);
+      expect(service.validate([rule], { decision: 'reject' })).toHaveLength(1);
+      expect(service.validate([rule], { decision: '2' })).toHaveLength(1);
+      expect(service.validate([rule], { decision: 'reject', reason: 'Damaged' })).toEqual([]);
+    });
+  });
+
+  describe('numericRange', () => {
+    const rule = { ruleId: 'N1', type: 'numericRange', targetField: 'voltage', minValue: 1, maxValue: 5 };
+
+    it('should check numbers against the range', () => {
+      expect(service.validate([rule], { voltage: 3 })).toEqual([]);
+      expect(service.validate([rule], { voltage: '' })).toEqual([]);
+      expect(service.validate([rule], { voltage: 'abc' })).toEqual([
+        { ruleId: 'N1', field: 'voltage', message: 'voltage must be a valid number' }
+      ]);
+      expect(service.validate([rule], { voltage: 6 })).toEqual([
+        { ruleId: 'N1', field: 'voltage', message: 'voltage must be between 1 and 5' }
+      ]);
+    });
+
+    it('should only apply when the condition holds and the dependent field exists', () => {
+      const conditional = { ...rule, condition: "mode == 'strict'" };
+      const dependent = { ...rule, dependentField: 'mode' };
+
+      expect(service.validate([conditional], { mode: 'loose', voltage: 9 })).toEqual([]);
+      expect(service.validate([conditional], { mode: 'strict', voltage: 9 })).toHaveLength(1);
+      expect(service.validate([dependent], { voltage: 9 })).toEqual([]);
+    });
+  });
+
+  describe('pattern', () => {
+    it('should check values against the pattern', () => {
+      const rule = { type: 'pattern', targetField: 'code', pattern: '^[A-Z]{3}$' };
+
+      expect(service.validate([rule], { code: 'ABC' })).toEqual([]);
+      expect(service.validate([rule], { code: 'abc' })).toEqual([
+        { ruleId: undefined, field: 'code', message: 'code has an invalid format' }
+      ]);
+    });
+
+    it('should ignore an invalid pattern and warn once', () => {
+      const rule = { ruleId: 'P1', type: 'pattern', targetField: 'code', pattern: '(' };
+
+      expect(service.validate([rule, rule], { code: 'x' })).toEqual([]);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith('Validation rule P1: Invalid pattern "("');
+    });
+  });
+
+  describe('custom', () => {
+    it('should run the workflow executor', () => {
+      executors['checkTotals'] = model => model['total'] === 10
+        ? { valid: true }
+        : { valid: false, field: 'total', message: 'Totals do not add up' };
+      const rule = { ruleId: 'C1', type: 'custom', executor: 'checkTotals' };
+
+      expect(service.validate([rule], { total: 10 }, { workflowId: 'CT401' })).toEqual([]);
+      expect(service.validate([rule], { total: 3 }, { workflowId: 'CT401' })).toEqual([
+        { ruleId: 'C1', field: 'total', message: 'Totals do not add up' }
+      ]);
+    });
+
+    it('should skip unknown executors and rules without a workflow', () => {
+      const rule = { ruleId: 'C2', type: 'custom', executor: 'missing' };
+
+      expect(service.validate([rule], {}, { workflowId: 'CT401' })).toEqual([]);
+      expect(service.validate([rule], {})).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith('Validation rule C2: No executor "missing" registered for workflow CT401');
+    });
+  });
+
+  it('should leave unknown rule types to the server', () => {
+    expect(service.validate([{ ruleId: 'F1', type: 'fileUpload' }], {})).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith('Validation rule F1: Rule type "fileUpload" is only validated on the server');
+  });
+
+  it('should attach errors to the Formly controls', () => {
+    const control = new FormControl('');
+    const fields: FormlyFieldConfig[] = [{ key: 'name', formControl: control }];
+
+    service.applyErrorsToFields([{ field: 'name', message: 'Name is required' }, { message: 'Form level' }], fields);
+
+    expect(control.errors).toEqual({ [RULE_ERROR_KEY]: { message: 'Name is required' } });
+    expect(control.touched).toBe(true);
+  });
+});
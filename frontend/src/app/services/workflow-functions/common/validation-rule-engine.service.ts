@@ -0,0 +1,252 @@
+import { Injectable, inject } from '@angular/core';
+import { FormlyFieldConfig } from '@ngx-formly/core';
+import { ValidationError } from '../../workflow.service';
+import { ExpressionEvaluatorService } from './expression-evaluator.service';
+import { WorkflowFunctionHandlerService } from '../workflow-function-handler.service';
+
+/**
+ * A rule from a step definition's `validationRules` array
+ */
+export interface StepValidationRule {
+  ruleId?: string;
+  type: string;
+  targetField?: string;
+  targetFields?: string[];
+  dependentField?: string;
+  requiredValues?: any[];
+  condition?: string;
+  minValue?: number;
+  maxValue?: number;
+  pattern?: string;
+  executor?: string;
+  errorMessage?: string;
+  [key: string]: any;
+}
+
+/**
+ * What the rules are checked against besides the model
+ */
+export interface RuleEngineContext {
+  workflowId?: string | null;
+  fields?: FormlyFieldConfig[];
+  stepFields?: any[];
+}
+
+type RuleHandler = (rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext) => ValidationError[];
+
+/**
+ * Formly validator name used for errors attached by the rule engine
+ */
+export const RULE_ERROR_KEY = 'validationRule';
+
+/**
+ * Client-side interpreter for step `validationRules`
+ * Mirrors the backend rule types so errors show up before the server round-trip.
+ * `custom` rules are routed to the workflow's `ruleExecutors`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ValidationRuleEngineService {
+  private expressionEvaluator = inject(ExpressionEvaluatorService);
+  private workflowHandler = inject(WorkflowFunctionHandlerService);
+
+  private handlers = new Map<string, RuleHandler>();
+  private reportedRules = new Set<string>();
+
+  constructor() {
+    this.handlers.set('required', (rule, model, context) => this.validateRequired(rule, model, context));
+    this.handlers.set('requiredIf', (rule, model, context) => this.validateRequiredIf(rule, model, context));
+    this.handlers.set('numericRange', (rule, model, context) => this.validateNumericRange(rule, model, context));
+    this.handlers.set('pattern', (rule, model, context) => this.validatePattern(rule, model, context));
+    this.handlers.set('custom', (rule, model, context) => this.validateCustom(rule, model, context));
+  }
+
+  /**
+   * Run all rules against the model
+   * Rule types the browser does not know (e.g. fileUpload) are left to the server
+   */
+  validate(
+    rules: StepValidationRule[] | undefined,
+    model: Record<string, any>,
+    context: RuleEngineContext = {}
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const rule of rules || []) {
+      const handler = this.handlers.get(rule.type);
+      if (!handler) {
+        this.reportOnce(rule, `Rule type "${rule.type}" is only validated on the server`);
+        continue;
+      }
+      errors.push(...handler(rule, model, context));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Attach errors to their Formly fields so they show under the field
+   * Errors are cleared by Angular on the field's next value change
+   */
+  applyErrorsToFields(errors: ValidationError[], fields: FormlyFieldConfig[]): void {
+    for (const error of errors) {
+      if (!error.field) continue;
+
+      const control = this.findField(fields, error.field)?.formControl;
+      if (control) {
+        control.setErrors({ ...(control.errors || {}), [RULE_ERROR_KEY]: { message: error.message } });
+        control.markAsTouched();
+      }
+    }
+  }
+
+  /**
+   * Every target field must have a value
+   */
+  private validateRequired(rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext): ValidationError[] {
+    return this.getTargetFields(rule)
+      .filter(key => !this.isHidden(key, context) && this.isEmpty(model[key]))
+      .map(key => this.error(rule, key, `${this.getLabel(key, context)} is required`));
+  }
+
+  /**
+   * Target fields are required when the dependent field has one of the required values
+   */
+  private validateRequiredIf(rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext): ValidationError[] {
+    if (!rule.dependentField) return [];
+
+    const dependentValue = model[rule.dependentField];
+    const requiredValues = (rule.requiredValues || []).map(value => String(value));
+    if (this.isEmpty(dependentValue) || !requiredValues.includes(String(dependentValue))) {
+      return [];
+    }
+
+    return this.validateRequired(rule, model, context);
+  }
+
+  /**
+   * Target field must be a number between minValue and maxValue
+   * Skipped when the dependent field is missing or the condition is false
+   */
+  private validateNumericRange(rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext): ValidationError[] {
+    if (rule.dependentField && !(rule.dependentField in model)) return [];
+    if (rule.condition && !this.evaluateCondition(rule.condition, model)) return [];
+
+    const errors: ValidationError[] = [];
+    for (const key of this.getTargetFields(rule)) {
+      const value = model[key];
+      if (this.isEmpty(value) || this.isHidden(key, context)) continue;
+
+      const label = this.getLabel(key, context);
+      const numericValue = Number(value);
+      if (isNaN(numericValue)) {
+        errors.push({ ruleId: rule.ruleId, field: key, message: `${label} must be a valid number` });
+      } else if (
+        (rule.minValue !== undefined && numericValue < rule.minValue) ||
+        (rule.maxValue !== undefined && numericValue > rule.maxValue)
+      ) {
+        errors.push(this.error(rule, key, `${label} must be between ${rule.minValue} and ${rule.maxValue}`));
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Target field must match a regular expression
+   */
+  private validatePattern(rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext): ValidationError[] {
+    if (!rule.pattern) return [];
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern);
+    } catch {
+      this.reportOnce(rule, `Invalid pattern "${rule.pattern}"`);
+      return [];
+    }
+
+    return this.getTargetFields(rule)
+      .filter(key => !this.isEmpty(model[key]) && !this.isHidden(key, context) && !regex.test(String(model[key])))
+      .map(key => this.error(rule, key, `${this.getLabel(key, context)} has an invalid format`));
+  }
+
+  /**
+   * Run a workflow-specific executor registered in WorkflowFunctions.ruleExecutors
+   */
+  private validateCustom(rule: StepValidationRule, model: Record<string, any>, context: RuleEngineContext): ValidationError[] {
+    if (!rule.executor || !context.workflowId) return [];
+
+    const executor = this.workflowHandler.getRuleExecutor(context.workflowId, rule.executor);
+    if (!executor) {
+      this.reportOnce(rule, `No executor "${rule.executor}" registered for workflow ${context.workflowId}`);
+      return [];
+    }
+
+    const result = executor(model, rule, context.fields || []);
+    if (result.valid) return [];
+
+    return [{
+      ruleId: rule.ruleId,
+      field: result.field,
+      message: result.message || rule.errorMessage || 'Validation failed'
+    }];
+  }
+
+  /**
+   * Evaluate a rule condition; field names can be used bare (e.g. "finalDecision == 'approve'")
+   */
+  private evaluateCondition(condition: string, model: Record<string, any>): boolean {
+    return !!this.expressionEvaluator.evaluateExpression(condition, model, { locals: model });
+  }
+
+  private getTargetFields(rule: StepValidationRule): string[] {
+    if (rule.targetFields?.length) return rule.targetFields;
+    return rule.targetField ? [rule.targetField] : [];
+  }
+
+  private error(rule: StepValidationRule, field: string, defaultMessage: string): ValidationError {
+    return { ruleId: rule.ruleId, field, message: rule.errorMessage || defaultMessage };
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === null || value === undefined ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * Hidden fields are not validated, matching Formly's own required checks
+   */
+  private isHidden(key: string, context: RuleEngineContext): boolean {
+    return !!(context.fields && this.findField(context.fields, key)?.hide);
+  }
+
+  private getLabel(key: string, context: RuleEngineContext): string {
+    const formlyField = context.fields && this.findField(context.fields, key);
+    const stepField = context.stepFields?.find(field => field.key === key);
+    return formlyField?.props?.label || stepField?.templateOptions?.label || key;
+  }
+
+  /**
+   * Find a Formly field by key, including fields nested in field groups
+   */
+  private findField(fields: FormlyFieldConfig[], key: string): FormlyFieldConfig | undefined {
+    for (const field of fields) {
+      if (field.key === key) return field;
+      if (field.fieldGroup) {
+        const nested = this.findField(field.fieldGroup, key);
+        if (nested) return nested;
+      }
+    }
+    return undefined;
+  }
+
+  private reportOnce(rule: StepValidationRule, message: string): void {
+    const key = `${rule.ruleId ?? rule.type}|${message}`;
+    if (this.reportedRules.has(key)) return;
+
+    this.reportedRules.add(key);
+    console.warn(`Validation rule ${rule.ruleId ?? rule.type}: ${message}`);
+  }
+}
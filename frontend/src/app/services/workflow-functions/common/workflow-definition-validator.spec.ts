@@ -0,0 +1,132 @@
+import { WorkflowFiles, WorkflowSchemas, stepFilePath, validateWorkflow } from './workflow-definition-validator';
+
+const DEFINITION_FILE = 'workflows/Definitions/TEST.json';
+const STEP1 = 'workflows/Steps/TEST/TEST_step1_apply';
+const STEP2 = 'workflows/Steps/TEST/TEST_step2_review';
+
+const schemas: WorkflowSchemas = {
+  definition: { type: 'object', required: ['certificationId', 'steps'] },
+  step: { type: 'object', required: ['stepId', 'fields'] }
+};
+
+describe('validateWorkflow', () => {
+  const files = (overrides: { definition?: any; steps?: Record<string, any> } = {}): WorkflowFiles => ({
+    definitionFile: DEFINITION_FILE,
+    definition: overrides.definition ?? {
+      certificationId: 'TEST',
+      steps: [
+        { stepRef: STEP1, overrides: { nextStep: 'TEST_step2_review' } },
+        {
+          stepRef: STEP2,
+          overrides: { next: [{ when: "model.decision === 'reject'", goto: 'rejected' }], nextStep: 'completed' }
+        },
+        { stepId: 'completed', actor: 'system', type: 'system_action' }
+      ],
+      slaConfig: { stepSLAs: { TEST_step2_review: 24 } },
+      permissions: { inspector: { canEditSteps: ['TEST_step2_review'] } }
+    },
+    steps: overrides.steps ?? {
+      [STEP1]: {
+        stepId: 'TEST_step1_apply',
+        fields: [
+          { key: 'sector', type: 'select', optionsSource: 'loadSectors' },
+          { key: 'classification', type: 'select', optionsSource: { resolver: 'loadClassificationsBySector' }, dependsOn: ['sector'] }
+        ]
+      },
+      [STEP2]: { stepId: 'TEST_step2_review', fields: [{ key: 'decision', type: 'radio' }] }
+    }
+  } as WorkflowFiles);
+
+  const vocabulary = { optionResolvers: ['loadSectors', 'loadClassificationsBySector'] };
+
+  it('should pass a consistent workflow', () => {
+    expect(validateWorkflow(files(), schemas, vocabulary)).toEqual([]);
+  });
+
+  it('should report schema errors against the file they were found in', () => {
+    const issues = validateWorkflow(files({
+      steps: {
+        [STEP1]: { stepId: 'TEST_step1_apply' },
+        [STEP2]: { stepId: 'TEST_step2_review', fields: [] }
+      }
+    }), schemas);
+
+    expect(issues).toEqual([
+      { severity: 'error', file: stepFilePath(STEP1), path: '$', message: 'is missing required property "fields"' }
+    ]);
+  });
+
+  it('should stop at definition schema errors when there are no steps', () => {
+    expect(validateWorkflow(files({ definition: { certificationId: 'TEST' } }), schemas)).toEqual([
+      { severity: 'error', file: DEFINITION_FILE, path: '$', message: 'is missing required property "steps"' }
+    ]);
+  });
+
+  it('should report unknown step targets', () => {
+    const base = files();
+    base.definition.steps[0].overrides!.nextStep = 'TEST_step9_missing';
+    base.definition.steps[1].branches = ['rejected'];
+    base.definition.permissions = { inspector: { canEditSteps: ['TEST_step8_gone'] } } as any;
+
+    const paths = validateWorkflow(base, schemas)
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.path} ${issue.message}`);
+
+    expect(paths).toEqual([
+      '$.steps[0].overrides.nextStep Unknown step "TEST_step9_missing"',
+      '$.steps[1].branches[0] Unknown step "rejected"',
+      '$.permissions.inspector.canEditSteps[0] Unknown step "TEST_step8_gone"'
+    ]);
+  });
+
+  it('should report step files that cannot be loaded', () => {
+    const issues = validateWorkflow(files({ steps: { [STEP2]: { stepId: 'TEST_step2_review', fields: [] } } }), schemas);
+
+    expect(issues).toContainEqual({
+      severity: 'error',
+      file: DEFINITION_FILE,
+      path: '$.steps[0].stepRef',
+      message: `Step file ${STEP1}.json could not be loaded`
+    });
+  });
+
+  it('should report unknown option resolvers and dependsOn keys', () => {
+    const base = files();
+    base.steps[STEP1]!.fields[1].dependsOn = ['sectorId'];
+
+    const issues = validateWorkflow(base, schemas, { optionResolvers: ['loadSectors'] });
+
+    expect(issues.map(issue => `${issue.file} ${issue.path} ${issue.message}`)).toEqual([
+      `${STEP1}.json $.fields[1].optionsSource.resolver Unknown option resolver "loadClassificationsBySector"`,
+      `${STEP1}.json $.fields[1].dependsOn[0] Unknown field "sectorId"`
+    ]);
+  });
+
+  it('should not check resolvers without a vocabulary', () => {
+    expect(validateWorkflow(files(), schemas, {})).toEqual([]);
+  });
+
+  it('should warn when a stepId differs from its file name', () => {
+    const base = files();
+    base.steps[STEP2]!.stepId = 'TEST_step3_review';
+
+    expect(validateWorkflow(base, schemas)).toContainEqual({
+      severity: 'warning',
+      file: `${STEP2}.json`,
+      path: '$.stepId',
+      message: 'stepId "TEST_step3_review" differs from the file name "TEST_step2_review" the definition routes by'
+    });
+  });
+
+  it('should warn about steps no path leads to', () => {
+    const base = files();
+    base.definition.steps[0].overrides!.nextStep = 'completed';
+
+    expect(validateWorkflow(base, schemas)).toEqual([{
+      severity: 'warning',
+      file: DEFINITION_FILE,
+      path: '$.steps[1]',
+      message: 'Step "TEST_step2_review" is not reachable from the first step'
+    }]);
+  });
+});
@@ -0,0 +1,237 @@
+import { DefinitionStep, FormField, StepDefinition, TERMINAL_STEPS, WorkflowBundle } from '../../workflow-definition.interface';
+import { JsonSchema, childPath, validateSchema } from './json-schema-validator';
+
+/**
+ * Static checks for a workflow definition and its step files
+ * Schema errors, broken step references, unknown option resolvers and unreachable steps,
+ * each reported with the file and JSON path it was found at.
+ * Plain TypeScript: WorkflowValidatorService runs it in the browser, scripts/validate-workflows.ts in Node.
+ */
+
+export interface WorkflowIssue {
+  severity: 'error' | 'warning';
+  /** Path under assets/forms, e.g. workflows/Definitions/CT401_lithium_battery_new.json */
+  file: string;
+  /** JSONPath-style location, e.g. $.steps[2].overrides.nextStep */
+  path: string;
+  message: string;
+}
+
+export interface WorkflowFiles extends WorkflowBundle {
+  definitionFile: string;
+}
+
+export interface WorkflowSchemas {
+  definition: JsonSchema;
+  step: JsonSchema;
+}
+
+export interface WorkflowVocabulary {
+  /** Registered option resolver names; `hooks.onInit` and `optionsSource` names are not checked without it */
+  optionResolvers?: string[];
+}
+
+/**
+ * Step file path under assets/forms for a definition's stepRef
+ */
+export function stepFilePath(stepRef: string): string {
+  return `${stepRef}.json`;
+}
+
+/**
+ * Run every check for one workflow
+ */
+export function validateWorkflow(
+  files: WorkflowFiles,
+  schemas: WorkflowSchemas,
+  vocabulary: WorkflowVocabulary = {}
+): WorkflowIssue[] {
+  const { definitionFile, definition } = files;
+  const issues: WorkflowIssue[] = validateSchema(definition, schemas.definition)
+    .map(error => ({ severity: 'error', file: definitionFile, ...error }));
+
+  if (!Array.isArray(definition?.steps)) {
+    return issues;
+  }
+
+  const stepIds = collectStepIds(files);
+  const checkedFiles = new Set<string>();
+
+  const checkTarget = (target: string | undefined, file: string, path: string, allowTerminal = true) => {
+    if (!target || stepIds.has(target) || (allowTerminal && TERMINAL_STEPS.includes(target))) return;
+    issues.push({ severity: 'error', file, path, message: `Unknown step "${target}"` });
+  };
+
+  definition.steps.forEach((step, index) => {
+    const stepPath = childPath('$.steps', index);
+
+    checkTarget(step.overrides?.nextStep, definitionFile, `${stepPath}.overrides.nextStep`);
+    (step.overrides?.next || []).forEach((transition, i) =>
+      checkTarget(transition?.goto, definitionFile, `${childPath(`${stepPath}.overrides.next`, i)}.goto`));
+    (step.branches || []).forEach((branch, i) =>
+      checkTarget(branch, definitionFile, childPath(`${stepPath}.branches`, i), false));
+
+    if (!step.stepRef) return;
+
+    const stepFile = stepFilePath(step.stepRef);
+    const stepDefinition = files.steps[step.stepRef];
+    if (!stepDefinition) {
+      issues.push({ severity: 'error', file: definitionFile, path: `${stepPath}.stepRef`, message: `Step file ${stepFile} could not be loaded` });
+      return;
+    }
+    if (checkedFiles.has(stepFile)) return;
+    checkedFiles.add(stepFile);
+
+    issues.push(...validateStepFile(stepDefinition, stepFile, schemas, vocabulary));
+
+    const fileName = stepRefName(step.stepRef);
+    if (stepDefinition.stepId && stepDefinition.stepId !== fileName) {
+      issues.push({
+        severity: 'warning',
+        file: stepFile,
+        path: '$.stepId',
+        message: `stepId "${stepDefinition.stepId}" differs from the file name "${fileName}" the definition routes by`
+      });
+    }
+
+    checkTarget(stepDefinition.stepConfig?.nextStep, stepFile, '$.stepConfig.nextStep');
+    checkTarget(stepDefinition.stepConfig?.sendBackTarget, stepFile, '$.stepConfig.sendBackTarget', false);
+  });
+
+  for (const stepId of Object.keys(definition.slaConfig?.stepSLAs || {})) {
+    checkTarget(stepId, definitionFile, childPath('$.slaConfig.stepSLAs', stepId), false);
+  }
+
+  for (const [role, permissions] of Object.entries(definition.permissions || {})) {
+    (permissions?.canEditSteps || []).forEach((stepId, i) =>
+      checkTarget(stepId, definitionFile, childPath(`${childPath('$.permissions', role)}.canEditSteps`, i), false));
+  }
+
+  issues.push(...findUnreachableSteps(files));
+  return issues;
+}
+
+/**
+ * Schema, option resolver and dependsOn checks for one step file
+ */
+export function validateStepFile(
+  step: StepDefinition,
+  file: string,
+  schemas: WorkflowSchemas,
+  vocabulary: WorkflowVocabulary
+): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = validateSchema(step, schemas.step)
+    .map(error => ({ severity: 'error', file, ...error }));
+
+  if (!Array.isArray(step?.fields)) {
+    return issues;
+  }
+
+  const resolvers = vocabulary.optionResolvers ? new Set(vocabulary.optionResolvers) : null;
+  const checkResolver = (name: string | undefined, path: string) => {
+    if (!resolvers || !name || resolvers.has(name)) return;
+    issues.push({ severity: 'error', file, path, message: `Unknown option resolver "${name}"` });
+  };
+
+  const fieldKeys = new Set(step.fields.map(field => field?.key));
+
+  forEachField(step.fields, '$.fields', (field, path) => {
+    checkResolver(field.hooks?.onInit, `${path}.hooks.onInit`);
+
+    if (typeof field.optionsSource === 'string') {
+      checkResolver(field.optionsSource, `${path}.optionsSource`);
+    } else if (field.optionsSource) {
+      checkResolver(field.optionsSource['resolver'], `${path}.optionsSource.resolver`);
+    }
+
+    (field.dependsOn || []).forEach((key, i) => {
+      if (!fieldKeys.has(key)) {
+        issues.push({ severity: 'error', file, path: childPath(`${path}.dependsOn`, i), message: `Unknown field "${key}"` });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Steps that no path from the first step leads to
+ * Follows `overrides.next`, `overrides.nextStep` (or the step file's `stepConfig.nextStep`) and parallel `branches`.
+ */
+function findUnreachableSteps(files: WorkflowFiles): WorkflowIssue[] {
+  const steps = files.definition.steps;
+  const indexById = new Map<string, number>();
+  steps.forEach((step, index) => {
+    for (const id of getStepIds(step, files)) {
+      if (!indexById.has(id)) indexById.set(id, index);
+    }
+  });
+
+  const reached = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length) {
+    const step = steps[queue.shift()!];
+    const stepDefinition = step.stepRef ? files.steps[step.stepRef] : null;
+    const targets = [
+      ...(step.overrides?.next || []).map(transition => transition?.goto),
+      step.overrides?.nextStep ?? stepDefinition?.stepConfig?.nextStep,
+      ...(step.branches || [])
+    ];
+
+    for (const target of targets) {
+      const index = target ? indexById.get(target) : undefined;
+      if (index !== undefined && !reached.has(index)) {
+        reached.add(index);
+        queue.push(index);
+      }
+    }
+  }
+
+  return steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ index }) => !reached.has(index))
+    .map(({ step, index }) => ({
+      severity: 'warning' as const,
+      file: files.definitionFile,
+      path: childPath('$.steps', index),
+      message: `Step "${getStepIds(step, files)[0] ?? index}" is not reachable from the first step`
+    }));
+}
+
+/**
+ * Every ID a step can be referred to by: its inline stepId, its stepRef file name and the step file's stepId
+ */
+function collectStepIds(files: WorkflowFiles): Set<string> {
+  return new Set(files.definition.steps.flatMap(step => getStepIds(step, files)));
+}
+
+function getStepIds(step: DefinitionStep, files: WorkflowFiles): string[] {
+  const ids = [
+    step?.stepId,
+    step?.stepRef ? stepRefName(step.stepRef) : undefined,
+    step?.stepRef ? files.steps[step.stepRef]?.stepId : undefined
+  ];
+  return ids.filter((id): id is string => !!id);
+}
+
+function stepRefName(stepRef: string): string {
+  return stepRef.split('/').pop()!;
+}
+
+/**
+ * Visit fields, their fieldGroup and their fieldArray's fieldGroup with JSON paths
+ */
+function forEachField(fields: FormField[], path: string, visit: (field: FormField, path: string) => void): void {
+  fields.forEach((field, index) => {
+    if (!field || typeof field !== 'object') return;
+    const fieldPath = childPath(path, index);
+    visit(field, fieldPath);
+
+    if (Array.isArray(field.fieldGroup)) {
+      forEachField(field.fieldGroup, `${fieldPath}.fieldGroup`, visit);
+    }
+    if (Array.isArray(field.fieldArray?.fieldGroup)) {
+      forEachField(field.fieldArray.fieldGroup, `${fieldPath}.fieldArray.fieldGroup`, visit);
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { TestBed } from '@angular/core/testing';
+import { WorkflowTransitionService } from './workflow-transition.service';
+
+describe('WorkflowTransitionService', () => {
+  let service: WorkflowTransitionService;
+
+  const stepRef = {
+    stepRef: 'workflows/Steps/CT401/CT401_step3_review',
+    overrides: {
+      next: [
+        { when: "model.decision === 'reject'", goto: 'rejected' },
+        { when: 'model.score < 50', goto: 'CT401_step4_retest' },
+        { when: 'model.score >=', goto: 'broken' },
+        { goto: '' }
+      ],
+      nextStep: 'CT401_step5_approval'
+    }
+  };
+  const stepConfig = { stepId: 'CT401_step3_review', stepConfig: { nextStep: 'CT401_step9_fallback' } };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkflowTransitionService);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('resolveNextStep', () => {
+    it('should take the first transition whose condition holds', () => {
+      expect(service.resolveNextStep(stepRef, stepConfig, { decision: 'reject', score: 10 })).toBe('rejected');
+      expect(service.resolveNextStep(stepRef, stepConfig, { decision: 'approve', score: 10 })).toBe('CT401_step4_retest');
+    });
+
+    it('should treat a failing condition as not met and fall back to nextStep', () => {
+      expect(service.resolveNextStep(stepRef, stepConfig, { decision: 'approve', score: 80 })).toBe('CT401_step5_approval');
+    });
+
+    it('should take a transition without a condition as the default', () => {
+      const withDefault = { overrides: { next: [{ when: 'model.urgent', goto: 'fast' }, { goto: 'slow' }] } };
+
+      expect(service.resolveNextStep(withDefault, stepConfig, { urgent: true })).toBe('fast');
+      expect(service.resolveNextStep(withDefault, stepConfig, {})).toBe('slow');
+    });
+
+    it('should pass the context to the conditions', () => {
+      const byRole = { overrides: { next: [{ when: "formState.role === 'manager'", goto: 'approval' }] } };
+
+      expect(service.resolveNextStep(byRole, stepConfig, {}, { formState: { role: 'manager' } })).toBe('approval');
+      expect(service.resolveNextStep(byRole, stepConfig, {}, { formState: { role: 'inspector' } })).toBe('CT401_step9_fallback');
+    });
+  });
+
+  it('should fall back from overrides.nextStep to the step file nextStep', () => {
+    expect(service.getDefaultNextStep(stepRef, stepConfig)).toBe('CT401_step5_approval');
+    expect(service.getDefaultNextStep({}, stepConfig)).toBe('CT401_step9_fallback');
+    expect(service.getDefaultNextStep(undefined, undefined)).toBeNull();
+  });
+
+  it('should ignore transitions without a target', () => {
+    expect(service.getTransitions(stepRef).map(transition => transition.goto))
+      .toEqual(['rejected', 'CT401_step4_retest', 'broken']);
+    expect(service.getTransitions({ overrides: { next: 'CT401_step5' } })).toEqual([]);
+  });
+
+  it('should find step entries by stepId or by the end of their stepRef', () => {
+    const definition = { steps: [stepRef, { stepId: 'completed' }] };
+
+    expect(service.findStepRef(definition, 'CT401_step3_review')).toBe(stepRef);
+    expect(service.findStepRef(definition, 'completed')).toEqual({ stepId: 'completed' });
+    expect(service.findStepRef(definition, 'missing')).toBeUndefined();
+  });
+
+  it('should recognise parallel and terminal steps', () => {
+    expect(service.isParallel({ type: 'parallel', branches: ['a', 'b'] })).toBe(true);
+    expect(service.isParallel({ type: 'parallel' })).toBe(false);
+    expect(service.isTerminal('completed')).toBe(true);
+    expect(service.isTerminal('rejected')).toBe(true);
+    expect(service.isTerminal('CT401_step5_approval')).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { Injectable, inject } from '@angular/core';
+import { ExpressionContext, ExpressionEvaluatorService } from './expression-evaluator.service';
+import { StepTransition, TERMINAL_STEPS } from '../../workflow-definition.interface';
+
+/**
+ * Picks the step that follows a submitted step
+ * The first `overrides.next` transition whose condition holds wins; otherwise `overrides.nextStep`,
+ * then the step's own `stepConfig.nextStep`, apply.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowTransitionService {
+  private expressionEvaluator = inject(ExpressionEvaluatorService);
+
+  /**
+   * Next step ID for a step, or null when the step declares none
+   * @param stepRef - The step's entry in the workflow definition's `steps`
+   * @param stepConfig - The step definition JSON
+   * @param model - Data the conditions are evaluated against, normally all data entered so far
+   */
+  resolveNextStep(stepRef: any, stepConfig: any, model: Record<string, any>, context: ExpressionContext = {}): string | null {
+    for (const transition of this.getTransitions(stepRef)) {
+      if (!transition.when || this.expressionEvaluator.evaluateExpression(transition.when, model, context)) {
+        console.log(`Transition from ${stepConfig?.stepId} to ${transition.goto}`, transition.when ?? '(default)');
+        return transition.goto;
+      }
+    }
+
+    return this.getDefaultNextStep(stepRef, stepConfig);
+  }
+
+  /**
+   * Next step when no condition matches
+   */
+  getDefaultNextStep(stepRef: any, stepConfig: any): string | null {
+    return stepRef?.overrides?.nextStep ?? stepConfig?.stepConfig?.nextStep ?? null;
+  }
+
+  getTransitions(stepRef: any): StepTransition[] {
+    const next = stepRef?.overrides?.next;
+    return Array.isArray(next) ? next.filter((transition: any) => transition?.goto) : [];
+  }
+
+  /**
+   * Find a step's entry in a workflow definition by step ID
+   */
+  findStepRef(definition: any, stepId: string): any {
+    return (definition?.steps || []).find((step: any) =>
+      step.stepId === stepId || (step.stepRef && step.stepRef.endsWith(stepId)));
+  }
+
+  /**
+   * Whether a definition step is a parallel step: its `branches` run side by side and lead back to it,
+   * and it continues to its `overrides.nextStep` once they are done
+   */
+  isParallel(stepRef: any): boolean {
+    return stepRef?.type === 'parallel' && Array.isArray(stepRef.branches);
+  }
+
+  isTerminal(stepId: string): boolean {
+    return TERMINAL_STEPS.includes(stepId);
+  }
+}
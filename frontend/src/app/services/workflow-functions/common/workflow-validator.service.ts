@@ -0,0 +1,107 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, forkJoin, map, shareReplay, switchMap } from 'rxjs';
+import { FormConfigService } from '../../form-config.service';
+import { OptionLoaderService } from './option-loader.service';
+import { OptionSourceRegistryService } from './option-source-registry.service';
+import { WorkflowFunctionHandlerService } from '../workflow-function-handler.service';
+import { StepDefinition } from '../../workflow-definition.interface';
+import { JsonSchema } from './json-schema-validator';
+import {
+  WorkflowFiles,
+  WorkflowIssue,
+  WorkflowSchemas,
+  WorkflowVocabulary,
+  validateStepFile,
+  validateWorkflow
+} from './workflow-definition-validator';
+
+/**
+ * Validates workflow definitions in the browser against the JSON Schemas in assets/forms/workflows/schema
+ * and the option resolvers registered at runtime. `npm run validate:workflows` runs the same checks in Node.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowValidatorService {
+  private http = inject(HttpClient);
+  private formConfigService = inject(FormConfigService);
+  private optionSources = inject(OptionSourceRegistryService);
+  // Injected so the resolvers they register are known
+  private optionLoader = inject(OptionLoaderService);
+  private workflowHandler = inject(WorkflowFunctionHandlerService);
+
+  private schemas$: Observable<WorkflowSchemas> | null = null;
+  private reported = new Set<string>();
+
+  /**
+   * Load a workflow definition and its step files and return the issues found
+   */
+  validate(workflowId: string): Observable<WorkflowIssue[]> {
+    const definitionFile = `workflows/Definitions/${workflowId}.json`;
+
+    return this.formConfigService.loadWorkflowBundle(workflowId).pipe(
+      switchMap(bundle => this.validateFiles({ definitionFile, ...bundle }))
+    );
+  }
+
+  /**
+   * Validate a definition and step files that are already in memory, e.g. a design before export
+   */
+  validateFiles(files: WorkflowFiles): Observable<WorkflowIssue[]> {
+    return this.loadSchemas().pipe(map(schemas => this.check(files, schemas)));
+  }
+
+  /**
+   * Validate one step file on its own, e.g. a step being edited in the form builder
+   * `file` is its path under assets/forms and only labels the issues.
+   */
+  validateStep(file: string, step: StepDefinition): Observable<WorkflowIssue[]> {
+    return this.loadSchemas().pipe(map(schemas => validateStepFile(step, file, schemas, this.getVocabulary())));
+  }
+
+  /**
+   * Validate a workflow once per session and log its issues to the console
+   */
+  report(workflowId: string): void {
+    if (this.reported.has(workflowId)) return;
+    this.reported.add(workflowId);
+
+    this.validate(workflowId).subscribe({
+      next: issues => this.logIssues(workflowId, issues),
+      error: err => console.warn(`Could not validate workflow ${workflowId}:`, err)
+    });
+  }
+
+  private check(files: WorkflowFiles, schemas: WorkflowSchemas): WorkflowIssue[] {
+    return validateWorkflow(files, schemas, this.getVocabulary());
+  }
+
+  private getVocabulary(): WorkflowVocabulary {
+    return { optionResolvers: this.optionSources.getResolverNames() };
+  }
+
+  private logIssues(workflowId: string, issues: WorkflowIssue[]): void {
+    if (issues.length === 0) {
+      console.log(`✅ Workflow ${workflowId} passed validation`);
+      return;
+    }
+
+    console.group(`⚠️ Workflow ${workflowId}: ${issues.length} validation issue(s)`);
+    for (const issue of issues) {
+      const log = issue.severity === 'error' ? console.error : console.warn;
+      log(`${issue.file} ${issue.path}: ${issue.message}`);
+    }
+    console.groupEnd();
+  }
+
+  private loadSchemas(): Observable<WorkflowSchemas> {
+    if (!this.schemas$) {
+      this.schemas$ = forkJoin({
+        definition: this.http.get<JsonSchema>('assets/forms/workflows/schema/workflow-definition.schema.json'),
+        step: this.http.get<JsonSchema>('assets/forms/workflows/schema/step-definition.schema.json')
+      }).pipe(shareReplay(1));
+    }
+    return this.schemas$;
+  }
+}
@@ -1,6 +1,8 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import { FormlyFieldConfig } from '@ngx-formly/core';
-import { WorkflowFunctions, WorkflowFunctionContext } from './workflow-function.interface';
+import { WorkflowFunctions, WorkflowFunctionContext, ValidationRuleExecutor } from './workflow-function.interface';
+import { WorkflowFormState } from './common/form-state.service';
+import { OptionSourceRegistryService } from './common/option-source-registry.service';
 
 // Import all workflow-specific function implementations
 import { sasoDemoBrandProductFunctions } from './workflows/SASO_demo_brand_product.functions';
@@ -16,6 +18,7 @@ import { ct401LithiumBatteryFunctions } from './workflows/CT401_lithium_battery_
   providedIn: 'root'
 })
 export class WorkflowFunctionHandlerService {
+  private optionSources = inject(OptionSourceRegistryService);
   private workflowRegistry: Map<string, WorkflowFunctions> = new Map();
 
   constructor() {
@@ -42,6 +45,10 @@ export class WorkflowFunctionHandlerService {
    */
   private register(workflow: WorkflowFunctions): void {
     this.workflowRegistry.set(workflow.workflowId, workflow);
+
+    for (const [name, resolver] of Object.entries(workflow.optionResolvers || {})) {
+      this.optionSources.register(name, resolver, `workflow ${workflow.workflowId}`);
+    }
   }
 
   /**
@@ -116,6 +123,17 @@ export class WorkflowFunctionHandlerService {
     return { valid: true };
   }
 
+  /**
+   * Get the executor for a `custom` validation rule of a specific workflow
+   */
+  getRuleExecutor(
+    workflowId: string,
+    executor: string
+  ): ValidationRuleExecutor | undefined {
+    const executors = this.getWorkflow(workflowId)?.ruleExecutors;
+    return executors && Object.hasOwn(executors, executor) ? executors[executor] : undefined;
+  }
+
   /**
    * Pre-submit processing for a specific workflow
    */
@@ -145,6 +163,19 @@ export class WorkflowFunctionHandlerService {
     }
   }
 
+  /**
+   * Let a workflow add its own values and functions to the formState
+   */
+  extendFormState(
+    workflowId: string,
+    formState: WorkflowFormState
+  ): void {
+    const workflow = this.getWorkflow(workflowId);
+    if (workflow?.extendFormState) {
+      workflow.extendFormState(formState);
+    }
+  }
+
   /**
    * Check if a workflow has custom functions registered
    */
@@ -1,5 +1,7 @@
 import { FormlyFieldConfig } from '@ngx-formly/core';
 import { Brand } from '../form-config.service';
+import { WorkflowFormState } from './common/form-state.service';
+import { OptionResolver } from './common/option-source-registry.service';
 
 /**
  * Interface for workflow-specific functions
@@ -47,6 +49,17 @@ export interface WorkflowFunctions {
     fields: FormlyFieldConfig[]
   ): { valid: boolean; message?: string };
 
+  /**
+   * Executors for `custom` step validationRules, keyed by the rule's `executor` name
+   */
+  ruleExecutors?: Record<string, ValidationRuleExecutor>;
+
+  /**
+   * Named option resolvers usable as `optionsSource` in this workflow's fields
+   * Names are global, so they must not clash with built-in or other workflows' resolvers
+   */
+  optionResolvers?: Record<string, OptionResolver>;
+
   /**
    * Pre-submit processing
    */
@@ -62,8 +75,26 @@ export interface WorkflowFunctions {
     result: any,
     model: Record<string, any>
   ): void;
+
+  /**
+   * Add workflow-specific values or functions to the formState
+   * (e.g. formState.getInspectorFindings())
+   */
+  extendFormState?(
+    formState: WorkflowFormState
+  ): void;
 }
 
+/**
+ * Executor for a `custom` validation rule
+ * Returns the field to attach the error to when it concerns a single field
+ */
+export type ValidationRuleExecutor = (
+  model: Record<string, any>,
+  rule: Record<string, any>,
+  fields: FormlyFieldConfig[]
+) => { valid: boolean; message?: string; field?: string };
+
 /**
  * Additional data that can be passed to workflow functions
  */
@@ -1,5 +1,5 @@
 import { FormlyFieldConfig } from '@ngx-formly/core';
-import { WorkflowFunctions, WorkflowFunctionContext } from '../workflow-function.interface';
+import { WorkflowFunctions, WorkflowFunctionContext, ValidationRuleExecutor } from '../workflow-function.interface';
 
 /**
  * Workflow-specific functions for BT501 Shampoo Certification
@@ -29,6 +29,45 @@ export class BT501ShampooFunctions implements WorkflowFunctions {
     return { valid: true };
   }
 
+  /**
+   * Executors for `custom` validationRules in the BT501 step definitions
+   */
+  ruleExecutors: Record<string, ValidationRuleExecutor> = {
+    validateFinalApproval: (model) => this.validateFinalApproval(model)
+  };
+
+  /**
+   * Final approval: an approval needs the full checklist ticked
+   * and a validity period for full certificates
+   */
+  private validateFinalApproval(
+    model: Record<string, any>
+  ): { valid: boolean; message?: string; field?: string } {
+    if (model['finalDecision'] !== 'approve') {
+      return { valid: true };
+    }
+
+    const checklist: string[] = model['finalReviewChecklist'] || [];
+    const requiredChecks = ['lab_tests_passed', 'quality_approved', 'compliance_verified', 'documentation_complete'];
+    if (requiredChecks.some(check => !checklist.includes(check))) {
+      return {
+        valid: false,
+        message: 'All checklist items must be confirmed before approving',
+        field: 'finalReviewChecklist'
+      };
+    }
+
+    if (model['certificateType'] === 'full_certification' && !model['certificateValidityYears']) {
+      return {
+        valid: false,
+        message: 'Certificate validity is required for a full certification',
+        field: 'certificateValidityYears'
+      };
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Pre-submit processing for shampoo certification
    */
@@ -1,5 +1,6 @@
 import { FormlyFieldConfig } from '@ngx-formly/core';
-import { WorkflowFunctions, WorkflowFunctionContext } from '../workflow-function.interface';
+import { WorkflowFunctions, WorkflowFunctionContext, ValidationRuleExecutor } from '../workflow-function.interface';
+import { WorkflowFormState } from '../common/form-state.service';
 
 /**
  * Workflow-specific functions for CT401 Lithium Battery Certification
@@ -29,6 +30,49 @@ export class CT401LithiumBatteryFunctions implements WorkflowFunctions {
     return { valid: true };
   }
 
+  /**
+   * Executors for `custom` validationRules in the CT401 step definitions
+   */
+  ruleExecutors: Record<string, ValidationRuleExecutor> = {
+    validateInspectionComplete: (model) => this.validateInspectionComplete(model)
+  };
+
+  /**
+   * Initial review: inspection result, notes, signature and date are all needed,
+   * and a clarification request must say what needs clarifying
+   */
+  private validateInspectionComplete(
+    model: Record<string, any>
+  ): { valid: boolean; message?: string; field?: string } {
+    const required: Record<string, string> = {
+      inspectionResult: 'Inspection result is required',
+      reviewNotes: 'Inspector review notes are required',
+      inspectorSignature: 'Inspector signature is required',
+      inspectionDate: 'Inspection date is required'
+    };
+
+    for (const [key, message] of Object.entries(required)) {
+      const value = model[key];
+      if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+        return { valid: false, message, field: key };
+      }
+    }
+
+    if (model['inspectionDate'] > new Date().toISOString().split('T')[0]) {
+      return { valid: false, message: 'Inspection date cannot be in the future', field: 'inspectionDate' };
+    }
+
+    if (model['inspectionResult'] === 'clarification_needed' && String(model['reviewNotes']).trim().length < 10) {
+      return {
+        valid: false,
+        message: 'Please describe what needs clarification in the review notes',
+        field: 'reviewNotes'
+      };
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Pre-submit processing for battery certification
    */
@@ -46,6 +90,20 @@ export class CT401LithiumBatteryFunctions implements WorkflowFunctions {
 
     return processedModel;
   }
+
+  /**
+   * Expose inspector findings for the final approval step
+   */
+  extendFormState(formState: WorkflowFormState): void {
+    formState['getInspectorFindings'] = () => formState.summarizeSteps(
+      ['CT401_step2_initial_review', 'CT401_step3_factory_inspection', 'CT401_step5_technical_evaluation'],
+      [
+        'inspectionResult', 'reviewNotes',
+        'factoryCompliance', 'keyObservations', 'inspectorRecommendation',
+        'safetyAssessment', 'recommendation', 'technicalNotes'
+      ]
+    );
+  }
 }
 
 /**
@@ -14,6 +14,7 @@ export interface WorkflowDefinition {
     estimatedTotalDurationDays?: number;
     complexity?: string;
     requiresFactoryVisit?: boolean;
+    certificateValidityMonths?: number;
   };
   steps?: any[];
   workflowConfig?: any;
@@ -26,14 +27,96 @@ export interface WorkflowDefinition {
 export interface WorkflowInstance {
   id: string;
   definitionId: string;
+  // Published version the instance is pinned to; null for instances that run on the live files
+  definitionVersion?: string | null;
+  stepVersions?: Record<string, string>;
   workflowType: string;
+  // The parallel step while its branches (activeSteps) run
   currentStep: string;
   status: string;
-  assignedActor: string;
+  assignedActor: string | null;
+  activeSteps?: ActiveStep[];
   startedAt: string;
+  completedAt?: string | null;
+  slaDeadline?: string | null;
   createdBy: string;
+  priority?: number;
+  tags?: string | null;
   currentData: any;
-  stepHistory: any[];
+  sendBackInfo?: SendBackInfo | null;
+  stepHistory: StepHistoryEntry[];
+  certificate?: IssuedCertificate | null;
+  documents?: GeneratedDocument[];
+}
+
+/**
+ * Branch of a parallel step and the step it has reached
+ */
+export interface ActiveStep {
+  branch: string;
+  stepId: string;
+  assignedActor?: string | null;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  startedAt?: string | null;
+  completedAt?: string | null;
+  completedBy?: string | null;
+}
+
+/**
+ * Certificate issued when an instance completes
+ */
+export interface IssuedCertificate {
+  certificateNumber: string;
+  issuedAt: string;
+  validUntil?: string | null;
+  issuedTo: string;
+  status: 'valid' | 'revoked' | string;
+}
+
+/**
+ * File generated for an instance by the system, e.g. the certificate PDF
+ */
+export interface GeneratedDocument {
+  id: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  kind: string;
+  generatedAt: string;
+}
+
+export interface FieldChange {
+  oldValue: any;
+  newValue: any;
+}
+
+/**
+ * One completed action on a step: a submission, send-back, rejection or discard
+ */
+export interface StepHistoryEntry {
+  stepId: string;
+  completedAt: string;
+  completedBy: string;
+  actorRole: string;
+  dataSnapshot: Record<string, any>;
+  changedFields?: Record<string, FieldChange> | null;
+  decision?: 'approve' | 'reject' | 'send_back' | 'clarification' | 'discard' | 'action_completed' | 'action_failed' | 'parallel_joined' | 'migrated' | string | null;
+  comments?: string | null;
+  processingTimeMinutes?: number | null;
+}
+
+export interface SendBackInfo {
+  editableFields: string[];
+  comments: string;
+  sentBackBy: string;
+  sentBackAt: string;
+}
+
+export interface DecisionRequest {
+  certificationId: string;
+  stepId: string;
+  comments: string;
+  submittedBy: string;
 }
 
 export interface WorkflowInstanceCreateRequest {
@@ -50,6 +133,8 @@ export interface WorkflowSubmission {
   submittedBy: string;
   decision?: string;
   comments?: string;
+  // Target picked by the step's conditional transitions (overrides.next)
+  nextStep?: string;
 }
 
 export interface ValidationResult {
@@ -64,6 +149,62 @@ export interface ValidationError {
   message: string;
 }
 
+/**
+ * Published versions of a definition and the in-flight instances on each
+ */
+export interface WorkflowVersionListing {
+  definitionId: string;
+  liveVersion: string;
+  // The live files differ from what was published under liveVersion
+  liveChanged: boolean;
+  unpinnedInstanceCount: number;
+  versions: WorkflowVersionSummary[];
+}
+
+export interface WorkflowVersionSummary {
+  version: string;
+  publishedAt: string;
+  contentHash: string;
+  stepVersions: Record<string, string>;
+  instanceCount: number;
+}
+
+/**
+ * Move in-flight instances to another version. Without fromVersion the unpinned instances move;
+ * a field mapped to '' has its data dropped.
+ */
+export interface WorkflowMigrationRequest {
+  fromVersion?: string | null;
+  toVersion: string;
+  instanceIds?: string[];
+  fieldMapping: Record<string, string>;
+  stepMapping: Record<string, string>;
+  dryRun: boolean;
+}
+
+export interface WorkflowMigrationResult {
+  definitionId: string;
+  fromVersion?: string | null;
+  toVersion: string;
+  dryRun: boolean;
+  changedSteps: Record<string, 'added' | 'removed' | 'changed'>;
+  instances: InstanceMigrationDiff[];
+}
+
+export interface InstanceMigrationDiff {
+  instanceId: string;
+  status: string;
+  fromStep: string;
+  toStep: string;
+  renamedFields: Record<string, string>;
+  droppedFields: string[];
+  unmappedFields: string[];
+  addedFields: string[];
+  errors: string[];
+  canMigrate: boolean;
+  migrated: boolean;
+}
+
 export interface CurrentStepResponse {
   instance: WorkflowInstance;
   stepDefinition: any;
@@ -92,6 +233,27 @@ export class WorkflowService {
     return this.http.get<WorkflowDefinition>(`${this.apiUrl}/definitions/${certificationId}`);
   }
 
+  /**
+   * Get the published versions of a workflow definition
+   */
+  getDefinitionVersions(certificationId: string): Observable<WorkflowVersionListing> {
+    return this.http.get<WorkflowVersionListing>(`${this.apiUrl}/definitions/${certificationId}/versions`);
+  }
+
+  /**
+   * Move in-flight instances of a definition to another version, or only report the changes on a dry run
+   */
+  migrateInstances(certificationId: string, request: WorkflowMigrationRequest): Observable<WorkflowMigrationResult> {
+    return this.http.post<WorkflowMigrationResult>(`${this.apiUrl}/definitions/${certificationId}/migrate`, request);
+  }
+
+  /**
+   * Get a step definition by the stepRef path used in a workflow definition
+   */
+  getStepDefinition(stepRef: string): Observable<any> {
+    return this.http.get<any>(`${this.apiUrl}/steps/${stepRef}`);
+  }
+
   /**
    * Get a step definition by step name
    */
@@ -115,9 +277,33 @@ export class WorkflowService {
 
   /**
    * Get the current step of a workflow instance
+   * @param stepId - Open branch to load while a parallel step runs
+   */
+  getCurrentStep(instanceId: string, stepId?: string | null): Observable<CurrentStepResponse> {
+    const query = stepId ? `?stepId=${encodeURIComponent(stepId)}` : '';
+    return this.http.get<CurrentStepResponse>(`${this.apiUrl}/instances/${instanceId}/current-step${query}`);
+  }
+
+  /**
+   * Step to open for an instance: while a parallel step runs, the role's own open branch
+   * (or the first open one), otherwise the current step
    */
-  getCurrentStep(instanceId: string): Observable<CurrentStepResponse> {
-    return this.http.get<CurrentStepResponse>(`${this.apiUrl}/instances/${instanceId}/current-step`);
+  getOpenStep(instance: WorkflowInstance, role?: string | null): string {
+    const openBranches = (instance.activeSteps || []).filter(step => step.status === 'in_progress');
+    const branch = openBranches.find(step => role && step.assignedActor === role) ?? openBranches[0];
+    return branch?.stepId ?? instance.currentStep;
+  }
+
+  /**
+   * Whether an instance is still a draft of its creator: in progress at the creator's own step,
+   * outside a parallel step and with nobody else's entries in its history (mirrors the backend's discard check)
+   */
+  isDraft(instance: WorkflowInstance, creatorRole: string | null | undefined): boolean {
+    return !!creatorRole
+      && instance.status === 'in_progress'
+      && instance.assignedActor === creatorRole
+      && (instance.activeSteps || []).length === 0
+      && (instance.stepHistory || []).every(entry => entry.actorRole === creatorRole);
   }
 
   /**
@@ -140,6 +326,28 @@ export class WorkflowService {
     );
   }
 
+  /**
+   * Send a step back to its sendBackTarget with the reviewer's comments
+   */
+  sendBackStep(instanceId: string, request: DecisionRequest): Observable<WorkflowInstance> {
+    return this.submitStep(instanceId, {
+      ...request,
+      formData: {},
+      decision: 'send_back'
+    });
+  }
+
+  /**
+   * Reject the workflow at the current step with the reviewer's comments
+   */
+  rejectStep(instanceId: string, request: DecisionRequest): Observable<WorkflowInstance> {
+    return this.submitStep(instanceId, {
+      ...request,
+      formData: {},
+      decision: 'reject'
+    });
+  }
+
   /**
    * Get workflow instances by status
    */
@@ -151,6 +359,35 @@ export class WorkflowService {
     return this.http.get<WorkflowInstance[]>(url);
   }
 
+  /**
+   * Get the instances with a status waiting on the signed-in user; the server filters on the user's token
+   */
+  getInbox(status: string): Observable<WorkflowInstance[]> {
+    return this.http.get<WorkflowInstance[]>(`${this.apiUrl}/instances/inbox?status=${status}`);
+  }
+
+  /**
+   * Get the workflow instances the signed-in user created, optionally only those with a given status
+   */
+  getMyWorkflows(status?: string): Observable<WorkflowInstance[]> {
+    const query = status ? `?status=${status}` : '';
+    return this.http.get<WorkflowInstance[]>(`${this.apiUrl}/instances/mine${query}`);
+  }
+
+  /**
+   * Discard an in-progress draft; only its creator may do this
+   */
+  discardWorkflowInstance(instanceId: string, discardedBy: string, comments?: string): Observable<WorkflowInstance> {
+    return this.http.post<WorkflowInstance>(`${this.apiUrl}/instances/${instanceId}/discard`, { discardedBy, comments });
+  }
+
+  /**
+   * Run the system action of an instance again after all its attempts failed
+   */
+  retrySystemAction(instanceId: string): Observable<WorkflowInstance> {
+    return this.http.post<WorkflowInstance>(`${this.apiUrl}/instances/${instanceId}/system-action/retry`, {});
+  }
+
   /**
    * Upload files for a workflow step
    */
@@ -5,7 +5,11 @@ import {
   writeResponseToNodeResponse,
 } from '@angular/ssr/node';
 import express from 'express';
+import { timingSafeEqual } from 'node:crypto';
 import { join } from 'node:path';
+import { generateCertificatePdf } from './server/certificates/generate-certificate-pdf';
+import { verifyCertificate } from './server/certificates/verify-certificate';
+import { WorkflowApiError } from './server/workflow-api';
 
 const browserDistFolder = join(import.meta.dirname, '../browser');
 
@@ -13,17 +17,68 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/{*splat}', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * Node-side API. Kept off /api, which the dev server proxies to the workflow backend.
  */
 
+/**
+ * Base URL encoded in the certificate QR codes. Never taken from the request, whose Host header the caller controls.
+ */
+const publicBaseUrl = process.env['PUBLIC_BASE_URL']?.replace(/\/+$/, '');
+
+/**
+ * Secret the workflow backend sends in X-Certificate-Service-Secret (its SystemActions:CertificateServiceSecret)
+ */
+const certificateServiceSecret = process.env['CERTIFICATE_SERVICE_SECRET'];
+
+/**
+ * Only the workflow backend may generate certificates; refuse everything while the secret is not configured
+ */
+function isCertificateServiceCaller(secretHeader: string | undefined): boolean {
+  if (!certificateServiceSecret || !secretHeader) return false;
+
+  const expected = Buffer.from(certificateServiceSecret);
+  const actual = Buffer.from(secretHeader);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Render the certificate PDF of a completed instance and attach it to the instance
+ */
+app.post('/certificate-api/instances/:instanceId/certificate', async (req, res) => {
+  if (!isCertificateServiceCaller(req.get('X-Certificate-Service-Secret'))) {
+    res.status(401).json({ message: 'Certificates are generated by the workflow backend only' });
+    return;
+  }
+  if (!publicBaseUrl) {
+    console.error('PUBLIC_BASE_URL is not set; refusing to generate certificates without a verification URL');
+    res.status(503).json({ message: 'PUBLIC_BASE_URL is not configured' });
+    return;
+  }
+
+  try {
+    res.json(await generateCertificatePdf(req.params.instanceId, publicBaseUrl));
+  } catch (error) {
+    console.error(`Certificate generation failed for instance ${req.params.instanceId}:`, error);
+    const status = error instanceof WorkflowApiError ? error.status : 500;
+    res.status(status).json({ message: error instanceof Error ? error.message : 'Certificate generation failed' });
+  }
+});
+
+/**
+ * Public certificate lookup for the /verify page; needs no sign-in
+ */
+app.get('/certificate-api/verify/:certificateNo', async (req, res) => {
+  try {
+    res.json(await verifyCertificate(req.params.certificateNo));
+  } catch (error) {
+    const status = error instanceof WorkflowApiError ? error.status : 500;
+    if (status !== 404) {
+      console.error(`Certificate lookup failed for ${req.params.certificateNo}:`, error);
+    }
+    res.status(status).json({ message: status === 404 ? 'Certificate not found' : 'Certificate lookup failed' });
+  }
+});
+
 /**
  * Serve static files from /browser
  */
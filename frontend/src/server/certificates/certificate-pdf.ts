@@ -0,0 +1,159 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { createRequire as createModuleRequire } from 'node:module';
+import { CertificateField, CertificateTemplate, LocalizedText } from './certificate-templates';
+
+export interface CertificatePdfInput {
+  template: CertificateTemplate;
+  certificateNumber: string;
+  issuedAt: string;
+  validUntil?: string | null;
+  data: Record<string, any>;
+  verifyUrl: string;
+}
+
+interface CertificateRow {
+  label: LocalizedText;
+  value: string;
+  arValue?: string;
+}
+
+// The fonts ship in node_modules; the server bundle resolves them at runtime
+const moduleRequire = createModuleRequire(import.meta.url);
+const ARABIC_FONT = moduleRequire.resolve('@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-400-normal.woff');
+const ARABIC_BOLD_FONT = moduleRequire.resolve('@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-700-normal.woff');
+const ARABIC = /[\u0600-\u06FF]/;
+
+const MARGIN = 50;
+const BRAND_COLOR = '#0d6efd';
+const MUTED_COLOR = '#6c757d';
+
+/**
+ * Render a bilingual A4 certificate: English on the left, Arabic on the right,
+ * with a QR code that links to the public verification page
+ */
+export async function renderCertificatePdf(input: CertificatePdfInput): Promise<Buffer> {
+  const { template } = input;
+  const qrCode = await QRCode.toBuffer(input.verifyUrl, { margin: 1, width: 240 });
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: { Title: `${template.title.en} ${input.certificateNumber}`, Subject: template.certificateType.en }
+  });
+  doc.registerFont('Arabic', ARABIC_FONT);
+  doc.registerFont('Arabic-Bold', ARABIC_BOLD_FONT);
+
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width - MARGIN * 2;
+  const half = width / 2;
+
+  doc.rect(MARGIN / 2, MARGIN / 2, doc.page.width - MARGIN, doc.page.height - MARGIN)
+    .lineWidth(2)
+    .stroke(BRAND_COLOR);
+
+  // Title and certification type in both languages
+  let y = MARGIN + 10;
+  y += Math.max(
+    writeText(doc, template.title.en, MARGIN, y, { width: half, size: 22, bold: true, color: BRAND_COLOR }),
+    writeText(doc, template.title.ar, MARGIN + half, y, { width: half, size: 22, bold: true, color: BRAND_COLOR, align: 'right' })
+  ) + 8;
+  y += Math.max(
+    writeText(doc, template.certificateType.en, MARGIN, y, { width: half, size: 13 }),
+    writeText(doc, template.certificateType.ar, MARGIN + half, y, { width: half, size: 13, align: 'right' })
+  ) + 15;
+
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + width, y).lineWidth(1).stroke(BRAND_COLOR);
+  y += 20;
+
+  // Label (en) | value | label (ar)
+  const labelWidth = width * 0.3;
+  const valueWidth = width - labelWidth * 2;
+  for (const row of getRows(input)) {
+    const heights = [
+      writeText(doc, row.label.en, MARGIN, y, { width: labelWidth, size: 10, color: MUTED_COLOR }),
+      writeText(doc, row.value, MARGIN + labelWidth, y, { width: valueWidth, size: 11, bold: true, align: 'center' }),
+      writeText(doc, row.label.ar, MARGIN + labelWidth + valueWidth, y, { width: labelWidth, size: 10, color: MUTED_COLOR, align: 'right' })
+    ];
+    if (row.arValue) {
+      heights[1] += writeText(doc, row.arValue, MARGIN + labelWidth, y + heights[1], { width: valueWidth, size: 11, bold: true, align: 'center' });
+    }
+    y += Math.max(...heights) + 10;
+  }
+
+  y += 15;
+  y += writeText(doc, template.statement.en, MARGIN, y, { width, size: 10 }) + 6;
+  writeText(doc, template.statement.ar, MARGIN, y, { width, size: 10, align: 'right' });
+
+  // Verification QR code in the bottom corner
+  const qrSize = 100;
+  const qrY = doc.page.height - MARGIN - qrSize - 20;
+  doc.image(qrCode, MARGIN + width - qrSize, qrY, { width: qrSize });
+  writeText(doc, 'Scan to verify this certificate', MARGIN, qrY + 30, { width: width - qrSize - 20, size: 9, color: MUTED_COLOR });
+  writeText(doc, 'امسح الرمز للتحقق من الشهادة', MARGIN, qrY + 45, { width: width - qrSize - 20, size: 9, color: MUTED_COLOR });
+  writeText(doc, input.verifyUrl, MARGIN, qrY + 65, { width: width - qrSize - 20, size: 8, color: BRAND_COLOR });
+
+  doc.end();
+  return done;
+}
+
+function getRows(input: CertificatePdfInput): CertificateRow[] {
+  const { template, data } = input;
+  const rows: CertificateRow[] = [
+    { label: { en: 'Certificate number', ar: 'رقم الشهادة' }, value: input.certificateNumber },
+    { label: { en: 'Issue date', ar: 'تاريخ الإصدار' }, value: formatDate(input.issuedAt) }
+  ];
+  if (input.validUntil) {
+    rows.push({ label: { en: 'Valid until', ar: 'صالحة حتى' }, value: formatDate(input.validUntil) });
+  }
+
+  const fields = [template.holder, template.brand, template.product, ...template.details]
+    .filter((field): field is CertificateField => !!field);
+
+  for (const field of fields) {
+    const value = formatValue(data[field.key]);
+    if (!value) continue;
+    rows.push({ label: field.label, value, arValue: field.arKey ? formatValue(data[field.arKey]) : undefined });
+  }
+  return rows;
+}
+
+/**
+ * Write text in the font for its script and return the height it used
+ */
+function writeText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  options: { width: number; size: number; bold?: boolean; color?: string; align?: 'left' | 'center' | 'right' }
+): number {
+  const arabic = ARABIC.test(text);
+  const font = arabic
+    ? (options.bold ? 'Arabic-Bold' : 'Arabic')
+    : (options.bold ? 'Helvetica-Bold' : 'Helvetica');
+
+  doc.font(font).fontSize(options.size).fillColor(options.color ?? '#212529');
+  // Passing features makes pdfkit shape the whole line in one run; word by word, right-to-left text loses its spaces
+  const textOptions = { width: options.width, align: options.align ?? 'left', features: arabic ? [] : undefined };
+  doc.text(text, x, y, textOptions);
+  return doc.heightOfString(text, textOptions);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return value.name ?? value.label ?? JSON.stringify(value);
+  return String(value).trim();
+}
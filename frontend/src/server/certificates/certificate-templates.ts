@@ -0,0 +1,82 @@
+import type { WorkflowDefinition } from '../../app/services/workflow.service';
+import type { LocalizedText } from '../../app/services/certificate.service';
+
+export type { LocalizedText };
+
+/**
+ * A value printed on the certificate, read from the instance's accumulated data
+ */
+export interface CertificateField {
+  label: LocalizedText;
+  key: string;
+  // Key of the Arabic value when the workflow collects one
+  arKey?: string;
+}
+
+/**
+ * Bilingual layout of the certificate for one certification
+ */
+export interface CertificateTemplate {
+  title: LocalizedText;
+  certificateType: LocalizedText;
+  holder: CertificateField;
+  brand?: CertificateField;
+  product: CertificateField;
+  details: CertificateField[];
+  statement: LocalizedText;
+}
+
+const TITLE: LocalizedText = { en: 'Certificate of Conformity', ar: 'شهادة مطابقة' };
+
+const STATEMENT: LocalizedText = {
+  en: 'This certifies that the product described above conforms to the applicable technical regulations.',
+  ar: 'تشهد هذه الوثيقة بأن المنتج الموضح أعلاه مطابق للوائح الفنية المعمول بها'
+};
+
+const HOLDER: CertificateField = { label: { en: 'Certificate holder', ar: 'حامل الشهادة' }, key: 'companyName' };
+
+/**
+ * Templates keyed by certificationId
+ */
+export const CERTIFICATE_TEMPLATES: Record<string, CertificateTemplate> = {
+  CT401_lithium_battery_new: {
+    title: TITLE,
+    certificateType: { en: 'Lithium Battery Conformity', ar: 'مطابقة بطاريات الليثيوم' },
+    holder: HOLDER,
+    product: { label: { en: 'Product model', ar: 'طراز المنتج' }, key: 'productModel' },
+    details: [
+      { label: { en: 'Product category', ar: 'فئة المنتج' }, key: 'category' },
+      { label: { en: 'Applicant', ar: 'مقدم الطلب' }, key: 'applicantName' }
+    ],
+    statement: STATEMENT
+  },
+  BT501_shampoo_new: {
+    title: TITLE,
+    certificateType: { en: 'Shampoo Product Certification', ar: 'شهادة منتجات الشامبو' },
+    holder: HOLDER,
+    brand: { label: { en: 'Brand', ar: 'العلامة التجارية' }, key: 'brandName', arKey: 'brandNameAr' },
+    product: { label: { en: 'Product', ar: 'المنتج' }, key: 'productName', arKey: 'productNameAr' },
+    details: [
+      { label: { en: 'Product type', ar: 'نوع المنتج' }, key: 'productType' },
+      { label: { en: 'Volume (ml)', ar: 'الحجم' }, key: 'volumeSize' },
+      { label: { en: 'Manufacturer', ar: 'الشركة المصنعة' }, key: 'manufacturerName' },
+      { label: { en: 'Country of manufacture', ar: 'بلد الصنع' }, key: 'manufacturingCountry' },
+      { label: { en: 'Batch number', ar: 'رقم التشغيلة' }, key: 'batchNumber' }
+    ],
+    statement: STATEMENT
+  }
+};
+
+/**
+ * Template for a definition, or a generic one titled after the definition
+ */
+export function getCertificateTemplate(definition: WorkflowDefinition): CertificateTemplate {
+  return CERTIFICATE_TEMPLATES[definition.certificationId] ?? {
+    title: TITLE,
+    certificateType: { en: definition.name, ar: definition.name },
+    holder: HOLDER,
+    product: { label: { en: 'Product', ar: 'المنتج' }, key: 'productName' },
+    details: [],
+    statement: STATEMENT
+  };
+}
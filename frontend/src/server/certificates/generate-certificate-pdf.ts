@@ -0,0 +1,30 @@
+import type { WorkflowInstance } from '../../app/services/workflow.service';
+import { WorkflowApiError, attachDocument, getWorkflowDefinition, getWorkflowInstance } from '../workflow-api';
+import { getCertificateTemplate } from './certificate-templates';
+import { renderCertificatePdf } from './certificate-pdf';
+
+/**
+ * The `generateCertificatePdf` system action: render the certificate of a completed instance
+ * from its accumulated data and attach it to the instance as its `certificate` document
+ */
+export async function generateCertificatePdf(instanceId: string, publicBaseUrl: string): Promise<WorkflowInstance> {
+  const instance = await getWorkflowInstance(instanceId);
+  const certificate = instance.certificate;
+  if (!certificate) {
+    throw new WorkflowApiError(`Workflow instance ${instanceId} has no issued certificate`, 400);
+  }
+
+  const definition = await getWorkflowDefinition(instance.definitionId, instance.definitionVersion);
+  const pdf = await renderCertificatePdf({
+    template: getCertificateTemplate(definition),
+    certificateNumber: certificate.certificateNumber,
+    issuedAt: certificate.issuedAt,
+    validUntil: certificate.validUntil,
+    data: instance.currentData || {},
+    verifyUrl: `${publicBaseUrl}/verify/${encodeURIComponent(certificate.certificateNumber)}`
+  });
+
+  console.log(`Generated certificate ${certificate.certificateNumber} for instance ${instanceId} (${pdf.length} bytes)`);
+
+  return attachDocument(instanceId, 'certificate', `${certificate.certificateNumber}.pdf`, 'application/pdf', pdf);
+}
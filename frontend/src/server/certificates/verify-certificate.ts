@@ -0,0 +1,44 @@
+import type { CertificateVerification } from '../../app/services/certificate.service';
+import { getWorkflowByCertificateNumber, getWorkflowDefinition } from '../workflow-api';
+import { CertificateField, LocalizedText, getCertificateTemplate } from './certificate-templates';
+
+/**
+ * Public status of a certificate. Only what is printed on the certificate is returned,
+ * never the instance id or who created it.
+ */
+export async function verifyCertificate(certificateNumber: string): Promise<CertificateVerification> {
+  const instance = await getWorkflowByCertificateNumber(certificateNumber);
+  const certificate = instance.certificate!;
+  const definition = await getWorkflowDefinition(instance.definitionId, instance.definitionVersion);
+  const template = getCertificateTemplate(definition);
+  const data = instance.currentData || {};
+
+  let status: CertificateVerification['status'] = 'valid';
+  if (certificate.status === 'revoked') {
+    status = 'revoked';
+  } else if (certificate.validUntil && new Date(certificate.validUntil).getTime() < Date.now()) {
+    status = 'expired';
+  }
+
+  return {
+    certificateNumber: certificate.certificateNumber,
+    status,
+    issuedAt: certificate.issuedAt,
+    validUntil: certificate.validUntil ?? null,
+    certificationType: template.certificateType,
+    holder: String(data[template.holder.key] ?? certificate.issuedTo ?? ''),
+    brand: template.brand ? localizedValue(template.brand, data) : null,
+    product: localizedValue(template.product, data)
+  };
+}
+
+/**
+ * A field's value in both languages; the English value stands in when no Arabic one was collected
+ */
+function localizedValue(field: CertificateField, data: Record<string, any>): LocalizedText | null {
+  const en = data[field.key];
+  if (en === null || en === undefined || en === '') return null;
+
+  const ar = field.arKey ? data[field.arKey] : null;
+  return { en: String(en), ar: String(ar || en) };
+}
@@ -0,0 +1,72 @@
+import type { WorkflowDefinition, WorkflowInstance } from '../app/services/workflow.service';
+
+/**
+ * Base URL of the workflow backend, as seen from the Node server
+ */
+export const workflowApiUrl = process.env['WORKFLOW_API_URL'] || 'http://localhost:5168';
+
+/**
+ * Shared with the workflow backend (its SystemActions:CertificateServiceSecret), which only accepts documents carrying it
+ */
+const certificateServiceSecret = process.env['CERTIFICATE_SERVICE_SECRET'] ?? '';
+
+/**
+ * A failed call to the workflow backend, carrying its HTTP status
+ */
+export class WorkflowApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'WorkflowApiError';
+  }
+}
+
+export function getWorkflowInstance(instanceId: string): Promise<WorkflowInstance> {
+  return request<WorkflowInstance>(`/api/Workflow/instances/${encodeURIComponent(instanceId)}`);
+}
+
+/**
+ * The live definition, or the one published as `version` for an instance pinned to it
+ */
+export async function getWorkflowDefinition(certificationId: string, version?: string | null): Promise<WorkflowDefinition> {
+  const path = `/api/Workflow/definitions/${encodeURIComponent(certificationId)}`;
+  if (!version) {
+    return request<WorkflowDefinition>(path);
+  }
+
+  const published = await request<{ definition: WorkflowDefinition }>(`${path}/versions/${encodeURIComponent(version)}`);
+  return published.definition;
+}
+
+export function getWorkflowByCertificateNumber(certificateNumber: string): Promise<WorkflowInstance> {
+  return request<WorkflowInstance>(`/api/Workflow/certificates/${encodeURIComponent(certificateNumber)}`);
+}
+
+/**
+ * Store a generated file and list it in the instance's documents
+ */
+export function attachDocument(
+  instanceId: string,
+  kind: string,
+  fileName: string,
+  contentType: string,
+  content: Buffer
+): Promise<WorkflowInstance> {
+  const form = new FormData();
+  form.append(kind, new Blob([new Uint8Array(content)], { type: contentType }), fileName);
+
+  const query = new URLSearchParams({ kind });
+  return request<WorkflowInstance>(`/api/Workflow/instances/${encodeURIComponent(instanceId)}/documents?${query}`, {
+    method: 'POST',
+    headers: { 'X-Certificate-Service-Secret': certificateServiceSecret },
+    body: form
+  });
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${workflowApiUrl}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new WorkflowApiError(body?.message || `Workflow API ${path} returned ${response.status}`, response.status);
+  }
+  return response.json() as Promise<T>;
+}